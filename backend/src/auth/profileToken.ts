@@ -0,0 +1,65 @@
+/**
+ * Guest profile tokens
+ *
+ * A lightweight, account-free identity: the server hands each browser a signed
+ * token (`<profileId>.<issuedAt>.<signature>`, HMAC-SHA256) on first visit. The
+ * client keeps it in localStorage and sends it with create-room/join-room, so
+ * results from different rooms can be linked to the same profile.
+ *
+ * Tokens cannot be forged without PROFILE_TOKEN_SECRET. They are not a login:
+ * anyone holding the token is treated as that profile.
+ */
+
+import crypto from 'crypto';
+
+function loadSecret(): string {
+    const fromEnv = process.env.PROFILE_TOKEN_SECRET;
+    if (fromEnv && fromEnv.trim().length > 0) {
+        return fromEnv.trim();
+    }
+    // Without a configured secret, tokens only stay valid for this process lifetime.
+    console.warn('[Profile] PROFILE_TOKEN_SECRET not set; using a random per-process secret');
+    return crypto.randomBytes(32).toString('hex');
+}
+
+const SECRET = loadSecret();
+
+function sign(payload: string): string {
+    return crypto.createHmac('sha256', SECRET).update(payload).digest('base64url');
+}
+
+/**
+ * Generate a new profile ID
+ */
+function generateProfileId(): string {
+    return `prof_${crypto.randomBytes(9).toString('base64url')}`;
+}
+
+/**
+ * Issue a token for a new (or given) profile
+ */
+export function issueProfileToken(profileId: string = generateProfileId()): { profileId: string; token: string } {
+    const payload = `${profileId}.${Date.now()}`;
+    return { profileId, token: `${payload}.${sign(payload)}` };
+}
+
+/**
+ * Verify a token and return its profile ID, or null if it is malformed or tampered with
+ */
+export function verifyProfileToken(token: unknown): string | null {
+    if (typeof token !== 'string' || token.length > 256) return null;
+
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+
+    const [profileId, issuedAt, signature] = parts;
+    if (!profileId.startsWith('prof_') || !/^\d+$/.test(issuedAt)) return null;
+
+    const expected = Buffer.from(sign(`${profileId}.${issuedAt}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    return profileId;
+}
@@ -2,38 +2,60 @@
  * Banker offer calculation
  * 
  * Client-approved formula with round modifiers and randomFactor.
- * Rounds to nearest £10 as specified.
+ * Rounds to nearest £10 as specified (finer for the small offers of low-value boards).
+ * Rooms can pick other banker personalities (see bankerStrategies.ts).
  */
 
+/**
+ * Round modifiers by round (1-based) – more generous later
+ */
+export const ROUND_MODIFIERS = [0.7, 0.8, 0.9, 0.95, 1.0, 1.05];
+
+/**
+ * Modifier for a round, using the last one for every round past the table
+ */
+export function getRoundModifier(round: number, modifiers: number[] = ROUND_MODIFIERS): number {
+    return modifiers[Math.max(0, Math.min(round - 1, modifiers.length - 1))];
+}
+
+/**
+ * Round an offer to a sensible step for its size: £10 from £100 up, else £1, else 1p
+ */
+export function roundOffer(offer: number): number {
+    if (offer >= 100) return Math.round(offer / 10) * 10;
+    if (offer >= 1) return Math.round(offer);
+    return Math.round(offer * 100) / 100;
+}
+
 /**
  * Get the banker's offer based on remaining values and current round
+ * (the classic banker without its breakdown; rooms use bankerStrategies.ts)
  * 
  * Client-approved formula:
  * - Calculate average of remaining values
  * - Apply round modifier (more generous in later rounds)
  * - Apply random factor (0.9-1.1) for variance
- * - Round to nearest £10
+ * - Round to nearest £10 (see roundOffer)
  * 
  * @param remainingValues - Array of values still in play
  * @param round - Current round number (1-based)
- * @returns The banker's offer amount (rounded to nearest £10)
+ * @param random - Source of the random factor (defaults to Math.random)
+ * @returns The banker's offer amount (rounded by roundOffer)
  */
-export function getBankerOffer(remainingValues: number[], round: number): number {
+export function getBankerOffer(remainingValues: number[], round: number, random: () => number = Math.random): number {
     if (remainingValues.length === 0) {
         return 0;
     }
 
     const avg = remainingValues.reduce((sum, v) => sum + v, 0) / remainingValues.length;
 
-    // Round modifiers – more generous later
-    const roundModifiers = [0.7, 0.8, 0.9, 0.95, 1.0, 1.05];
-    const baseModifier = roundModifiers[Math.min(round - 1, roundModifiers.length - 1)];
+    const baseModifier = getRoundModifier(round);
 
-    const randomFactor = 0.9 + Math.random() * 0.2; // 0.9–1.1
+    const randomFactor = 0.9 + random() * 0.2; // 0.9–1.1
 
     const offer = avg * baseModifier * randomFactor;
 
-    return Math.round(offer / 10) * 10; // round to nearest £10
+    return roundOffer(offer);
 }
 
 /**
@@ -42,9 +64,10 @@ export function getBankerOffer(remainingValues: number[], round: number): number
  */
 export function calculateBankerOffer(
     remainingValues: number[],
-    round: number
+    round: number,
+    random?: () => number
 ): number {
-    return getBankerOffer(remainingValues, round);
+    return getBankerOffer(remainingValues, round, random);
 }
 
 /**
@@ -0,0 +1,191 @@
+/**
+ * Banker personalities
+ *
+ * Each room plays against one BankerStrategy (RoomSettings.bankerStrategy). Every
+ * strategy returns its workings alongside the offer so the game can explain the
+ * banker's thinking once it is over.
+ */
+
+import { BankerOfferBreakdown, BankerStrategyId } from '../store/types';
+import { getRoundModifier, roundOffer } from './banker';
+
+export interface BankerContext {
+    remainingValues: number[]; // Values still in play
+    round: number; // Round that just finished (1-based)
+    lastRoundValues: number[]; // Values knocked out during that round
+    random?: () => number; // Defaults to Math.random
+}
+
+export interface BankerStrategy {
+    id: BankerStrategyId;
+    label: string;
+    description: string;
+    makeOffer(context: BankerContext): BankerOfferBreakdown;
+}
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Coefficient of variation (spread relative to the average)
+ */
+function spread(values: number[]): number {
+    const avg = mean(values);
+    if (avg === 0) return 0;
+    const variance = mean(values.map((v) => (v - avg) ** 2));
+    return Math.sqrt(variance) / avg;
+}
+
+function randomBetween(min: number, max: number, random: () => number = Math.random): number {
+    return min + random() * (max - min);
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
+
+function buildBreakdown(
+    strategy: BankerStrategyId,
+    context: BankerContext,
+    factors: Omit<BankerOfferBreakdown, 'round' | 'strategy' | 'expectedValue' | 'personalAdjustment' | 'offer'>
+): BankerOfferBreakdown {
+    const breakdown: BankerOfferBreakdown = {
+        round: context.round,
+        strategy,
+        expectedValue: mean(context.remainingValues),
+        ...factors,
+        personalAdjustment: 1,
+        offer: 0,
+    };
+    return { ...breakdown, offer: priceOffer(breakdown) };
+}
+
+/**
+ * Multiply out a breakdown into a rounded offer
+ */
+function priceOffer(b: BankerOfferBreakdown): number {
+    return roundOffer(
+        b.expectedValue * b.roundModifier * b.varianceAdjustment * b.momentumAdjustment *
+        b.randomFactor * b.personalAdjustment
+    );
+}
+
+/**
+ * Classic: the original formula (expected value × round modifier × 0.9–1.1)
+ */
+const classicStrategy: BankerStrategy = {
+    id: 'classic',
+    label: 'Classic',
+    description: 'Offers the expected value, more generously each round.',
+    makeOffer(context) {
+        return buildBreakdown('classic', context, {
+            roundModifier: getRoundModifier(context.round),
+            varianceAdjustment: 1,
+            momentumAdjustment: 1,
+            randomFactor: randomBetween(0.9, 1.1, context.random),
+        });
+    },
+};
+
+/**
+ * Risk-averse: knocks money off when the values left are far apart
+ */
+const riskAverseStrategy: BankerStrategy = {
+    id: 'risk-averse',
+    label: 'Risk-averse',
+    description: 'Pays less while big and small values are both still in play.',
+    makeOffer(context) {
+        return buildBreakdown('risk-averse', context, {
+            roundModifier: getRoundModifier(context.round),
+            varianceAdjustment: clamp(1 - 0.15 * spread(context.remainingValues), 0.5, 1),
+            momentumAdjustment: 1,
+            randomFactor: randomBetween(0.95, 1.05, context.random),
+        });
+    },
+};
+
+/**
+ * Aggressive lowballer: low modifiers that never reach the expected value
+ */
+const lowballerStrategy: BankerStrategy = {
+    id: 'lowballer',
+    label: 'Lowballer',
+    description: 'Starts low and stays below the expected value.',
+    makeOffer(context) {
+        return buildBreakdown('lowballer', context, {
+            roundModifier: getRoundModifier(context.round, [0.45, 0.55, 0.65, 0.75, 0.8, 0.85]),
+            varianceAdjustment: 1,
+            momentumAdjustment: 1,
+            randomFactor: randomBetween(0.85, 1.0, context.random),
+        });
+    },
+};
+
+/**
+ * TV-accurate: reacts to the last round. If big values went, the contestant is under
+ * pressure and the offer drops further; after a good round the banker sweetens the
+ * offer to tempt them out.
+ */
+const tvStrategy: BankerStrategy = {
+    id: 'tv',
+    label: 'TV',
+    description: 'Reacts to how the last round went, like the show.',
+    makeOffer(context) {
+        const before = mean([...context.remainingValues, ...context.lastRoundValues]);
+        const knockedOut = mean(context.lastRoundValues);
+        // +1 when the last round removed far more than average, -1 when it removed far less
+        const momentum = before > 0 && context.lastRoundValues.length > 0
+            ? clamp((knockedOut - before) / before, -1, 1)
+            : 0;
+
+        return buildBreakdown('tv', context, {
+            roundModifier: getRoundModifier(context.round),
+            varianceAdjustment: clamp(1 - 0.05 * spread(context.remainingValues), 0.8, 1),
+            momentumAdjustment: 1 - 0.15 * momentum,
+            randomFactor: randomBetween(0.95, 1.05, context.random),
+        });
+    },
+};
+
+/**
+ * What the banker knows about one contestant when making them a personal offer
+ */
+export interface PlayerOfferHistory {
+    playerId: string;
+    offersRejected: number;
+    timeoutCount: number;
+}
+
+/**
+ * Shape a room-wide offer for one player. Every No Deal makes the banker sweeten the
+ * next offer (+4% each, up to +20%); every timeout reads as disengagement (-5% each,
+ * down to -20%). The effect grows over the first four rounds so early offers stay close.
+ */
+export function personaliseOffer(base: BankerOfferBreakdown, history: PlayerOfferHistory): BankerOfferBreakdown {
+    const weight = clamp(base.round / 4, 0, 1);
+    const sweetener = Math.min(0.04 * history.offersRejected, 0.2);
+    const penalty = Math.min(0.05 * history.timeoutCount, 0.2);
+    const personalAdjustment = 1 + weight * (sweetener - penalty);
+
+    const breakdown = { ...base, playerId: history.playerId, personalAdjustment };
+    return { ...breakdown, offer: priceOffer(breakdown) };
+}
+
+export const BANKER_STRATEGIES: Record<BankerStrategyId, BankerStrategy> = {
+    classic: classicStrategy,
+    'risk-averse': riskAverseStrategy,
+    lowballer: lowballerStrategy,
+    tv: tvStrategy,
+};
+
+export function isBankerStrategyId(id: unknown): id is BankerStrategyId {
+    return typeof id === 'string' && Object.prototype.hasOwnProperty.call(BANKER_STRATEGIES, id);
+}
+
+/**
+ * The strategy for an id, falling back to classic
+ */
+export function getBankerStrategy(id: BankerStrategyId | undefined): BankerStrategy {
+    return (id && BANKER_STRATEGIES[id]) || classicStrategy;
+}
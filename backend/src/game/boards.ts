@@ -0,0 +1,88 @@
+/**
+ * Value boards
+ *
+ * A board is the set of values hidden in the boxes; its size is the number of boxes.
+ * Rooms pick a preset or a host-defined custom list (stored in RoomSettings).
+ */
+
+import { BoardId, Currency } from '../store/types';
+import { BOX_VALUES, DEFAULT_ROUND_SCHEDULE } from './constants';
+
+export interface BoardPreset {
+    id: Exclude<BoardId, 'custom'>;
+    label: string;
+    values: number[]; // Ascending
+    roundSchedule: number[]; // Suggested schedule, applied when the preset is picked
+    currency?: Currency; // Suggested currency, applied when the preset is picked
+}
+
+export const BOARD_PRESETS: Record<BoardPreset['id'], BoardPreset> = {
+    'uk-20': {
+        id: 'uk-20',
+        label: 'UK (20 boxes)',
+        values: [...BOX_VALUES],
+        roundSchedule: [...DEFAULT_ROUND_SCHEDULE],
+        currency: 'GBP',
+    },
+    'us-26': {
+        id: 'us-26',
+        label: 'US (26 boxes)',
+        values: [
+            0.01, 1, 5, 10, 25, 50, 75, 100, 200, 300, 400, 500, 750,
+            1000, 5000, 10000, 25000, 50000, 75000, 100000, 200000, 300000, 400000, 500000, 750000, 1000000,
+        ],
+        roundSchedule: [6, 5, 4, 3, 2],
+        currency: 'USD',
+    },
+    'quick-12': {
+        id: 'quick-12',
+        label: 'Quick (12 boxes)',
+        values: [0.01, 1, 10, 50, 100, 500, 1000, 5000, 10000, 25000, 50000, 100000],
+        roundSchedule: [3, 2],
+    },
+};
+
+export const BOARD_BOUNDS = {
+    boxes: { min: 6, max: 30 },
+    value: { min: 0.01, max: 100000000 },
+};
+
+export function isBoardPresetId(id: unknown): id is BoardPreset['id'] {
+    return typeof id === 'string' && Object.prototype.hasOwnProperty.call(BOARD_PRESETS, id);
+}
+
+/**
+ * Check a custom list of box values.
+ * Returns the values sorted ascending, or an error describing what is wrong.
+ */
+export function validateBoxValues(values: unknown): { values?: number[]; error?: string } {
+    const { boxes, value } = BOARD_BOUNDS;
+
+    if (!Array.isArray(values) || values.length < boxes.min || values.length > boxes.max) {
+        return { error: `A board must have between ${boxes.min} and ${boxes.max} values` };
+    }
+
+    const valid = values.every((v) =>
+        typeof v === 'number' &&
+        Number.isFinite(v) &&
+        v >= value.min &&
+        v <= value.max &&
+        Math.round(v * 100) / 100 === v // Whole pence at most
+    );
+    if (!valid) {
+        return { error: `Box values must be between ${value.min} and ${value.max.toLocaleString('en-GB')}` };
+    }
+
+    if (new Set(values).size !== values.length) {
+        return { error: 'Box values must all be different' };
+    }
+
+    return { values: [...values].sort((a, b) => a - b) };
+}
+
+/**
+ * Top prize on a board (used to scale points so every board scores alike)
+ */
+export function getBoardMaxValue(values: number[]): number {
+    return values.length > 0 ? Math.max(...values) : 0;
+}
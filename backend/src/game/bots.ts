@@ -0,0 +1,85 @@
+/**
+ * Bot players
+ *
+ * Bots fill empty seats so a lone player can still play. They are ordinary Players with
+ * `isBot` set; the socket handlers act for them after a short, humanlike pause. This
+ * module holds their decisions: which box to open and whether to take the banker's offer.
+ */
+
+import { BotDifficulty } from '../store/types';
+import { BOT_MAX_DELAY_MS, BOT_MIN_DELAY_MS } from './constants';
+import { Random } from './rng';
+
+/**
+ * A bot's risk model. The bot values the game at its expected value, discounted for how
+ * spread out the remaining values are; it deals when the offer (blurred by `noise`)
+ * beats that.
+ */
+export interface BotProfile {
+    label: string;
+    riskAversion: number; // Discount per unit of spread (coefficient of variation)
+    minimumShare: number; // Never holds out for less than this share of the expected value
+    noise: number; // ± fraction the offer is misjudged by
+}
+
+export const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+    // Jumpy: takes poor offers early and sometimes turns down good ones
+    easy: { label: 'Easy', riskAversion: 0.45, minimumShare: 0.25, noise: 0.3 },
+    medium: { label: 'Medium', riskAversion: 0.3, minimumShare: 0.4, noise: 0.12 },
+    // Calm: only deals close to what the game is worth
+    hard: { label: 'Hard', riskAversion: 0.2, minimumShare: 0.55, noise: 0.04 },
+};
+
+const BOT_NAMES = ['Robo Rita', 'Chip', 'Deal-O-Tron', 'Byte', 'Sparky', 'Ada', 'Gizmo', 'Pixel', 'Bolt', 'Nova'];
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BOT_PROFILES, value);
+}
+
+/**
+ * A display name not already taken in the room
+ */
+export function pickBotName(takenNames: string[], random: Random): string {
+    const free = BOT_NAMES.filter((n) => !takenNames.includes(n));
+    if (free.length > 0) return free[Math.floor(random() * free.length)];
+    return `Bot ${takenNames.length + 1}`;
+}
+
+/**
+ * Pick one of the candidate boxes at random
+ */
+export function pickBotBox(candidates: number[], random: Random): number | null {
+    if (candidates.length === 0) return null;
+    return candidates[Math.floor(random() * candidates.length)];
+}
+
+/**
+ * The least a bot would take to stop playing
+ */
+export function getBotDealThreshold(remainingValues: number[], difficulty: BotDifficulty): number {
+    if (remainingValues.length === 0) return 0;
+    const { riskAversion, minimumShare } = BOT_PROFILES[difficulty];
+
+    const mean = remainingValues.reduce((sum, v) => sum + v, 0) / remainingValues.length;
+    if (mean === 0) return 0;
+    const variance = remainingValues.reduce((sum, v) => sum + (v - mean) ** 2, 0) / remainingValues.length;
+    const spread = Math.sqrt(variance) / mean;
+
+    return mean * Math.max(minimumShare, 1 - riskAversion * spread);
+}
+
+/**
+ * Deal or No Deal for a bot facing `offer`
+ */
+export function shouldBotDeal(offer: number, remainingValues: number[], difficulty: BotDifficulty, random: Random): boolean {
+    const { noise } = BOT_PROFILES[difficulty];
+    const perceived = offer * (1 + (random() * 2 - 1) * noise);
+    return perceived >= getBotDealThreshold(remainingValues, difficulty);
+}
+
+/**
+ * How long a bot "thinks" before acting
+ */
+export function getBotDelayMs(random: Random): number {
+    return BOT_MIN_DELAY_MS + Math.floor(random() * (BOT_MAX_DELAY_MS - BOT_MIN_DELAY_MS));
+}
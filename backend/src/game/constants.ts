@@ -2,8 +2,10 @@
  * Game constants for Deal or No Deal UK Edition
  */
 
+import { BankerStrategyId, BoardId, ChatFilterMode, Currency, DisconnectPolicy, LeaveRule } from '../store/types';
+
 /**
- * UK Box Values in pounds
+ * UK Box Values in pounds (the default board; other presets are in boards.ts)
  * 20 boxes with values from 1p to £250,000
  */
 export const BOX_VALUES: number[] = [
@@ -43,39 +45,124 @@ export const ROUNDS: { round: number; boxesToOpen: number }[] = [
 ];
 
 /**
- * Get boxes to open for a given round
+ * Default round schedule as stored in RoomSettings (boxes to open in round 1, 2, ...)
+ */
+export const DEFAULT_ROUND_SCHEDULE: number[] = ROUNDS.map((r) => r.boxesToOpen);
+
+/**
+ * Get boxes to open for a given round of a room's schedule
  */
-export function getBoxesToOpenForRound(round: number): number {
-    const roundConfig = ROUNDS.find((r) => r.round === round);
-    if (roundConfig) {
-        return roundConfig.boxesToOpen;
+export function getBoxesToOpenForRound(round: number, roundSchedule: number[] = DEFAULT_ROUND_SCHEDULE): number {
+    if (round >= 1 && round <= roundSchedule.length) {
+        return roundSchedule[round - 1];
     }
-    // Round 5+: open 1 box at a time
+    // Past the schedule: open 1 box at a time
     return 1;
 }
 
 /**
- * Offer timeout in milliseconds (20 seconds as per PRD)
+ * Default offer timeout in milliseconds (20 seconds as per PRD)
  */
 export const OFFER_TIMEOUT_MS = 20000;
 
 /**
- * Box opening turn timeout in milliseconds (20 seconds)
+ * Default time to decide on a box swap in milliseconds (20 seconds)
+ */
+export const SWAP_TIMEOUT_MS = 20000;
+
+/**
+ * Default box opening turn timeout in milliseconds (20 seconds)
  */
 export const BOX_OPEN_TIMEOUT_MS = 20000;
 
+/**
+ * How long a disconnected host keeps the role before it passes to another player (60 seconds)
+ */
+export const HOST_DISCONNECT_GRACE_MS = 60000;
+
+/**
+ * Default rule for contestants who leave mid-game (the host can change it in the lobby)
+ */
+export const DEFAULT_LEAVE_RULE: LeaveRule = 'forfeit';
+
+/**
+ * How long a contestant can be disconnected mid-game before the disconnect policy plays for them (15 seconds)
+ */
+export const DISCONNECT_GRACE_MS = 15000;
+
+/**
+ * Invite links the host hands out: default and longest lifetime (1 hour, 7 days), and how many joins each allows
+ */
+export const DEFAULT_INVITE_TTL_MS = 60 * 60 * 1000;
+export const MAX_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const DEFAULT_INVITE_MAX_USES = 1;
+export const MAX_INVITE_USES = 50;
+
+/**
+ * Default disconnect policy (the host can change it in the lobby)
+ */
+export const DEFAULT_DISCONNECT_POLICY: DisconnectPolicy = 'auto-play';
+
+/**
+ * Default value board
+ */
+export const DEFAULT_BOARD_ID: Exclude<BoardId, 'custom'> = 'uk-20';
+
+/**
+ * Default room currency
+ */
+export const DEFAULT_CURRENCY: Currency = 'GBP';
+
+/**
+ * Default banker personality
+ */
+export const DEFAULT_BANKER_STRATEGY: BankerStrategyId = 'classic';
+
+/**
+ * Whether the banker makes personal offers by default (one shared offer otherwise)
+ */
+export const DEFAULT_PERSONAL_OFFERS = false;
+
+/**
+ * Whether the banker may offer box swaps mid-game by default (the final swap is always offered)
+ */
+export const DEFAULT_MID_GAME_SWAPS = false;
+
+/**
+ * Default chat filter and slow mode (the host can change both, even mid-game)
+ */
+export const DEFAULT_CHAT_FILTER: ChatFilterMode = 'mask';
+export const DEFAULT_CHAT_SLOW_MODE_MS = 0;
+
+/**
+ * Chat messages kept per room, and how many the history sent on join (or one page of it) holds
+ */
+export const MAX_CHAT_HISTORY = 100;
+export const CHAT_HISTORY_PAGE_SIZE = 30;
+
+/**
+ * Chance that a banker call (from round 2 on) is a swap offer instead of money, when mid-game swaps are on
+ */
+export const MID_GAME_SWAP_CHANCE = 0.25;
+
+/**
+ * Range of the pause before a bot acts, so bots feel like people rather than instant replies
+ */
+export const BOT_MIN_DELAY_MS = 1200;
+export const BOT_MAX_DELAY_MS = 2800;
+
 /**
  * Room code length
  */
 export const ROOM_CODE_LENGTH = 6;
 
 /**
- * Maximum players per room
+ * Default maximum players per room
  */
 export const MAX_PLAYERS_PER_ROOM = 6;
 
 /**
- * Minimum players to start game
+ * Default minimum players to start game
  */
 export const MIN_PLAYERS_TO_START = 2;
 
@@ -113,3 +200,18 @@ export function sanitiseName(name: string): string {
     }
     return trimmed;
 }
+
+// Whole words only (with common endings), so chat can still say "class" or "Dickens"
+const CHAT_PROFANITY_PATTERN = new RegExp(`\\b(?:${BANNED_WORDS.join('|')})(?:s|es|ed|er|ers|ing|in)?\\b`, 'gi');
+
+/**
+ * Star out banned words in a chat message, keeping each word's first letter
+ */
+export function maskProfanity(text: string): { text: string; masked: boolean } {
+    let masked = false;
+    const result = text.replace(CHAT_PROFANITY_PATTERN, (word) => {
+        masked = true;
+        return word[0] + '*'.repeat(word.length - 1);
+    });
+    return { text: result, masked };
+}
@@ -0,0 +1,30 @@
+/**
+ * Room currency
+ *
+ * Values are plain numbers everywhere; the room's currency only decides how they are
+ * shown (clients format with the same locales).
+ */
+
+import { Currency } from '../store/types';
+
+const CURRENCY_LOCALES: Record<Currency, string> = {
+    GBP: 'en-GB',
+    USD: 'en-US',
+    EUR: 'en-IE',
+    POINTS: 'en-GB',
+};
+
+export function isCurrency(value: unknown): value is Currency {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CURRENCY_LOCALES, value);
+}
+
+/**
+ * Format an amount in the room's currency (used for log lines)
+ */
+export function formatMoney(amount: number, currency: Currency): string {
+    return new Intl.NumberFormat(CURRENCY_LOCALES[currency] ?? CURRENCY_LOCALES.GBP, {
+        ...(currency === 'POINTS' ? {} : { style: 'currency' as const, currency }),
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 2,
+    }).format(amount);
+}
@@ -2,18 +2,19 @@
  * Points calculation for leaderboard
  * 
  * Client-approved scoring formula with:
- * - Base points from winnings (capped at 3000)
+ * - Base points from winnings, scaled to the board's top prize (capped at 3000)
  * - Smart Deal bonus (beat your own box)
  * - Guts bonus (stayed to later rounds)
  * - Early exit penalty
  * - Last standing / highest winnings bonuses
+ * - Swap bonus / penalty (traded up or down)
  * - Timeout penalties
  */
 
 import { BOX_VALUES } from './constants';
 
 /**
- * Calculate the maximum possible value for reference
+ * Top prize on the default board (base points are scaled against the room's top prize)
  */
 const MAX_VALUE = Math.max(...BOX_VALUES);
 
@@ -27,6 +28,8 @@ export interface CalculatePointsParams {
     isLastStanding: boolean;
     isHighestWinnings: boolean;
     timeoutCount: number;
+    boardMaxValue?: number; // Top prize on the room's board (defaults to the UK board)
+    swappedFromValue?: number | null; // Value of the box they swapped away (omit if they never swapped)
 }
 
 /**
@@ -43,12 +46,15 @@ export function calculatePoints({
     roundDealt,
     isLastStanding,
     isHighestWinnings,
-    timeoutCount
+    timeoutCount,
+    boardMaxValue = MAX_VALUE,
+    swappedFromValue = null
 }: CalculatePointsParams): number {
     let points = 0;
 
-    // Base: £ scaled down, capped
-    points += Math.min(Math.floor(finalWinnings / 100), 3000); // e.g. £250k → 2500 pts (capped at 3000)
+    // Base: winnings as a share of the top prize, capped (the top prize is worth 2500 on any board)
+    const scaledWinnings = boardMaxValue > 0 ? (finalWinnings / boardMaxValue) * MAX_VALUE : 0;
+    points += Math.min(Math.floor(scaledWinnings / 100), 3000); // e.g. £250k → 2500 pts (capped at 3000)
 
     // Smart Deal bonus: beat your own box
     if (finalWinnings > finalBoxValue) {
@@ -68,6 +74,11 @@ export function calculatePoints({
     if (isLastStanding) points += 200;
     if (isHighestWinnings) points += 200;
 
+    // Swap: reward trading up, penalise trading away the bigger box
+    if (swappedFromValue !== null) {
+        points += finalBoxValue > swappedFromValue ? 100 : -50;
+    }
+
     // Penalty for timeouts / AFK behaviour
     points -= timeoutCount * 50;
 
@@ -0,0 +1,104 @@
+/**
+ * Seeded randomness and the provably fair box layout
+ *
+ * Every room draws its randomness (box shuffle, first player, banker mood, swap offers)
+ * from its own seeded generator, so a game can be replayed from its seed. The generator
+ * state lives in GameState.rngState, which keeps it going across persisted restarts.
+ *
+ * When a game starts the server publishes a commitment: SHA-256 of the salt and box
+ * layout. The seed, salt and layout are revealed when the game ends, so players can
+ * check the commitment and re-run the shuffle themselves (the client has a verifier).
+ */
+
+import crypto from 'crypto';
+import { Box, FairnessProof, GameState } from '../store/types';
+
+/**
+ * A source of numbers in [0, 1), like Math.random
+ */
+export type Random = () => number;
+
+/**
+ * Unpredictable randomness for things that happen outside any room (e.g. room codes)
+ */
+export const secureRandom: Random = () => crypto.randomBytes(4).readUInt32BE(0) / 0x100000000;
+
+/**
+ * A fresh random seed for a room
+ */
+export function createSeed(): string {
+    return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Initial generator state for a seed (first 32 bits of its SHA-256)
+ */
+export function seedToState(seed: string): number {
+    return crypto.createHash('sha256').update(seed).digest().readUInt32BE(0);
+}
+
+/**
+ * One mulberry32 step: the next value and the state after it
+ */
+function mulberry32(state: number): { value: number; state: number } {
+    const next = (state + 0x6d2b79f5) >>> 0;
+    let t = next;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return { value: ((t ^ (t >>> 14)) >>> 0) / 0x100000000, state: next };
+}
+
+/**
+ * A Random that draws from (and advances) a room's generator state
+ */
+export function createRoomRandom(holder: { rngState: number }): Random {
+    return () => {
+        const { value, state } = mulberry32(holder.rngState);
+        holder.rngState = state;
+        return value;
+    };
+}
+
+/**
+ * Start a room's generator on a new seed (a fresh seed per game keeps games independent)
+ */
+export function reseedRoom(gameState: Pick<GameState, 'seed' | 'rngState'>, seed: string = createSeed()): Random {
+    gameState.seed = seed;
+    gameState.rngState = seedToState(seed);
+    return createRoomRandom(gameState);
+}
+
+/**
+ * Shuffle an array using Fisher-Yates algorithm
+ */
+export function shuffleArray<T>(array: T[], random: Random): T[] {
+    const shuffled = [...array];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
+
+/**
+ * The values in box order (box 1 first)
+ */
+export function getBoxLayout(boxes: Box[]): number[] {
+    return [...boxes].sort((a, b) => a.number - b.number).map((b) => b.value);
+}
+
+/**
+ * SHA-256 commitment to a layout: hex digest of `<salt>:<layout as JSON>`
+ */
+export function commitToLayout(layout: number[], salt: string): string {
+    return crypto.createHash('sha256').update(`${salt}:${JSON.stringify(layout)}`).digest('hex');
+}
+
+/**
+ * Commit to a room's box layout with a fresh salt (called when the game starts)
+ */
+export function createFairnessProof(gameState: Pick<GameState, 'boxes' | 'seed'>): FairnessProof {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const layout = getBoxLayout(gameState.boxes);
+    return { seed: gameState.seed, salt, layout, commitment: commitToLayout(layout, salt) };
+}
@@ -0,0 +1,242 @@
+/**
+ * Room rules
+ *
+ * Every room carries its own RoomSettings. The constants in constants.ts are the
+ * defaults; the host can change them in the lobby (or when creating the room) within
+ * the bounds below.
+ */
+
+import { ChatFilterMode, GameMode, RoomSettings } from '../store/types';
+import {
+    OFFER_TIMEOUT_MS,
+    SWAP_TIMEOUT_MS,
+    BOX_OPEN_TIMEOUT_MS,
+    DEFAULT_ROUND_SCHEDULE,
+    MAX_PLAYERS_PER_ROOM,
+    MIN_PLAYERS_TO_START,
+    DEFAULT_LEAVE_RULE,
+    DEFAULT_DISCONNECT_POLICY,
+    DEFAULT_BOARD_ID,
+    DEFAULT_CURRENCY,
+    DEFAULT_BANKER_STRATEGY,
+    DEFAULT_PERSONAL_OFFERS,
+    DEFAULT_MID_GAME_SWAPS,
+    DEFAULT_CHAT_FILTER,
+    DEFAULT_CHAT_SLOW_MODE_MS,
+} from './constants';
+import { BOARD_PRESETS, isBoardPresetId, validateBoxValues } from './boards';
+import { isCurrency } from './currency';
+import { isBankerStrategyId } from './bankerStrategies';
+
+export const ROOM_SETTINGS_BOUNDS = {
+    timeoutMs: { min: 5000, max: 120000 },
+    players: { min: 2, max: 10 },
+    scheduledRounds: { min: 1, max: 10 },
+    boxesPerRound: { min: 1, max: 6 },
+    chatSlowModeMs: { min: 0, max: 60000 },
+};
+
+/**
+ * Settings the host may still change once the game has started
+ */
+export const CHAT_SETTING_KEYS: (keyof RoomSettings)[] = ['chatFilter', 'chatSlowModeMs'];
+
+const CHAT_FILTER_MODES: ChatFilterMode[] = ['mask', 'block', 'off'];
+
+/**
+ * Fresh copy of the default rules
+ */
+export function createDefaultRoomSettings(): RoomSettings {
+    return {
+        turnTimeoutMs: BOX_OPEN_TIMEOUT_MS,
+        offerTimeoutMs: OFFER_TIMEOUT_MS,
+        swapTimeoutMs: SWAP_TIMEOUT_MS,
+        roundSchedule: [...DEFAULT_ROUND_SCHEDULE],
+        maxPlayers: MAX_PLAYERS_PER_ROOM,
+        minPlayersToStart: MIN_PLAYERS_TO_START,
+        leaveRule: DEFAULT_LEAVE_RULE,
+        disconnectPolicy: DEFAULT_DISCONNECT_POLICY,
+        boardId: DEFAULT_BOARD_ID,
+        boxValues: [...BOARD_PRESETS[DEFAULT_BOARD_ID].values],
+        currency: DEFAULT_CURRENCY,
+        bankerStrategy: DEFAULT_BANKER_STRATEGY,
+        personalOffers: DEFAULT_PERSONAL_OFFERS,
+        midGameSwaps: DEFAULT_MID_GAME_SWAPS,
+        chatFilter: DEFAULT_CHAT_FILTER,
+        chatSlowModeMs: DEFAULT_CHAT_SLOW_MODE_MS,
+    };
+}
+
+function isIntInRange(value: unknown, bounds: { min: number; max: number }): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= bounds.min && value <= bounds.max;
+}
+
+/**
+ * Apply a partial settings change on top of `current` for a room in `mode`.
+ * Returns the merged settings, or an error describing the first invalid field.
+ */
+export function applyRoomSettings(
+    current: RoomSettings,
+    patch: Partial<RoomSettings> | undefined,
+    contestantCount: number = 0,
+    mode: GameMode = 'multiplayer'
+): { settings?: RoomSettings; error?: string } {
+    if (!patch || typeof patch !== 'object') {
+        return { error: 'Settings are required' };
+    }
+
+    const next: RoomSettings = { ...current, roundSchedule: [...current.roundSchedule], boxValues: [...current.boxValues] };
+    const { timeoutMs, players, scheduledRounds, boxesPerRound, chatSlowModeMs } = ROOM_SETTINGS_BOUNDS;
+
+    if (patch.turnTimeoutMs !== undefined) {
+        if (!isIntInRange(patch.turnTimeoutMs, timeoutMs)) {
+            return { error: `Turn timer must be between ${timeoutMs.min / 1000} and ${timeoutMs.max / 1000} seconds` };
+        }
+        next.turnTimeoutMs = patch.turnTimeoutMs;
+    }
+
+    if (patch.offerTimeoutMs !== undefined) {
+        if (!isIntInRange(patch.offerTimeoutMs, timeoutMs)) {
+            return { error: `Offer timer must be between ${timeoutMs.min / 1000} and ${timeoutMs.max / 1000} seconds` };
+        }
+        next.offerTimeoutMs = patch.offerTimeoutMs;
+    }
+
+    if (patch.swapTimeoutMs !== undefined) {
+        if (!isIntInRange(patch.swapTimeoutMs, timeoutMs)) {
+            return { error: `Swap timer must be between ${timeoutMs.min / 1000} and ${timeoutMs.max / 1000} seconds` };
+        }
+        next.swapTimeoutMs = patch.swapTimeoutMs;
+    }
+
+    if (patch.roundSchedule !== undefined) {
+        const schedule = patch.roundSchedule;
+        if (
+            !Array.isArray(schedule) ||
+            schedule.length < scheduledRounds.min ||
+            schedule.length > scheduledRounds.max ||
+            !schedule.every((n) => isIntInRange(n, boxesPerRound))
+        ) {
+            return {
+                error: `Round schedule must have ${scheduledRounds.min}-${scheduledRounds.max} rounds of ${boxesPerRound.min}-${boxesPerRound.max} boxes`,
+            };
+        }
+        next.roundSchedule = [...schedule];
+    }
+
+    if (patch.maxPlayers !== undefined) {
+        if (!isIntInRange(patch.maxPlayers, players)) {
+            return { error: `Max players must be between ${players.min} and ${players.max}` };
+        }
+        next.maxPlayers = patch.maxPlayers;
+    }
+
+    if (patch.minPlayersToStart !== undefined) {
+        if (!isIntInRange(patch.minPlayersToStart, players)) {
+            return { error: `Min players must be between ${players.min} and ${players.max}` };
+        }
+        next.minPlayersToStart = patch.minPlayersToStart;
+    }
+
+    if (patch.leaveRule !== undefined) {
+        if (patch.leaveRule !== 'take-offer' && patch.leaveRule !== 'forfeit') {
+            return { error: 'Unknown leave rule' };
+        }
+        next.leaveRule = patch.leaveRule;
+    }
+
+    if (patch.disconnectPolicy !== undefined) {
+        if (patch.disconnectPolicy !== 'skip' && patch.disconnectPolicy !== 'auto-play') {
+            return { error: 'Unknown disconnect policy' };
+        }
+        next.disconnectPolicy = patch.disconnectPolicy;
+    }
+
+    if (patch.bankerStrategy !== undefined) {
+        if (!isBankerStrategyId(patch.bankerStrategy)) {
+            return { error: 'Unknown banker' };
+        }
+        next.bankerStrategy = patch.bankerStrategy;
+    }
+
+    if (patch.personalOffers !== undefined) {
+        if (typeof patch.personalOffers !== 'boolean') {
+            return { error: 'Personal offers must be on or off' };
+        }
+        next.personalOffers = patch.personalOffers;
+    }
+
+    if (patch.midGameSwaps !== undefined) {
+        if (typeof patch.midGameSwaps !== 'boolean') {
+            return { error: 'Mid-game swaps must be on or off' };
+        }
+        next.midGameSwaps = patch.midGameSwaps;
+    }
+
+    if (patch.chatFilter !== undefined) {
+        if (!CHAT_FILTER_MODES.includes(patch.chatFilter)) {
+            return { error: 'Unknown chat filter' };
+        }
+        next.chatFilter = patch.chatFilter;
+    }
+
+    if (patch.chatSlowModeMs !== undefined) {
+        if (!isIntInRange(patch.chatSlowModeMs, chatSlowModeMs)) {
+            return { error: `Slow mode must be between ${chatSlowModeMs.min / 1000} and ${chatSlowModeMs.max / 1000} seconds` };
+        }
+        next.chatSlowModeMs = patch.chatSlowModeMs;
+    }
+
+    if (patch.currency !== undefined) {
+        if (!isCurrency(patch.currency)) {
+            return { error: 'Unknown currency' };
+        }
+        next.currency = patch.currency;
+    }
+
+    // Board: a preset brings its values (and suggested schedule/currency unless sent);
+    // a custom board needs its own list of values.
+    if (patch.boardId !== undefined || patch.boxValues !== undefined) {
+        const boardId = patch.boardId ?? 'custom';
+        if (isBoardPresetId(boardId)) {
+            if (boardId !== current.boardId) {
+                next.boxValues = [...BOARD_PRESETS[boardId].values];
+                if (patch.roundSchedule === undefined) {
+                    next.roundSchedule = [...BOARD_PRESETS[boardId].roundSchedule];
+                }
+                const presetCurrency = BOARD_PRESETS[boardId].currency;
+                if (patch.currency === undefined && presetCurrency) {
+                    next.currency = presetCurrency;
+                }
+            }
+        } else if (boardId === 'custom') {
+            const board = validateBoxValues(patch.boxValues ?? current.boxValues);
+            if (!board.values) {
+                return { error: board.error };
+            }
+            next.boxValues = board.values;
+        } else {
+            return { error: 'Unknown board' };
+        }
+        next.boardId = boardId;
+    }
+
+    // Cross-field checks
+    if (next.minPlayersToStart > next.maxPlayers) {
+        return { error: 'Min players cannot be more than max players' };
+    }
+
+    if (next.maxPlayers < contestantCount) {
+        return { error: `There are already ${contestantCount} players in the room` };
+    }
+
+    // Every contestant holds a box, so the schedule must leave enough to open (a solo room only ever seats one)
+    const contestantCap = mode === 'solo' ? 1 : next.maxPlayers;
+    const scheduledBoxes = next.roundSchedule.reduce((sum, n) => sum + n, 0);
+    if (scheduledBoxes + contestantCap > next.boxValues.length) {
+        const contestants = contestantCap === 1 ? '1 player' : `${contestantCap} players`;
+        return { error: `Round schedule opens too many boxes for ${contestants} on a ${next.boxValues.length}-box board` };
+    }
+
+    return { settings: next };
+}
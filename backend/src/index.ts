@@ -8,8 +8,10 @@ import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
-import { registerSocketHandlers } from './socket/handlers';
-import { cleanupRooms } from './store/rooms';
+import { registerSocketHandlers, restoreActiveGames } from './socket/handlers';
+import { createRateLimitMiddleware, createRateLimiter, DEFAULT_ROOMS_PER_IP_PER_HOUR } from './socket/rateLimit';
+import { ClientToServerEvents, ServerToClientEvents } from './protocol/events';
+import { cleanupRooms, flushRoomStore, getGameReplay, listPublicRooms } from './store/rooms';
 
 const PORT = process.env.PORT || 3001;
 
@@ -65,11 +67,26 @@ app.get('/api', (req, res) => {
     });
 });
 
+// Public rooms for the room browser
+app.get('/api/rooms', (req, res) => {
+    res.json({ rooms: listPublicRooms() });
+});
+
+// Replay of a finished game (its full event log)
+app.get('/api/replays/:gameId', (req, res) => {
+    const replay = getGameReplay(req.params.gameId);
+    if (!replay) {
+        res.status(404).json({ error: 'Replay not found' });
+        return;
+    }
+    res.json(replay);
+});
+
 // Create HTTP server
 const httpServer = createServer(app);
 
 // Create Socket.io server
-const io = new Server(httpServer, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents>(httpServer, {
     cors: {
         origin: allowedOrigins,
         methods: ['GET', 'POST'],
@@ -79,11 +96,20 @@ const io = new Server(httpServer, {
     pingInterval: 25000,
 });
 
+// Throttle every inbound event per socket and per IP (budgets per event class are in socket/rateLimit.ts)
+const rateLimiter = createRateLimiter({
+    roomsPerIpPerHour: Number(process.env.ROOMS_PER_IP_PER_HOUR) || DEFAULT_ROOMS_PER_IP_PER_HOUR,
+});
+io.use(createRateLimitMiddleware(rateLimiter));
+
 // Register socket handlers
 io.on('connection', (socket) => {
-    registerSocketHandlers(io, socket);
+    registerSocketHandlers(io, socket, rateLimiter);
 });
 
+// Resume any games restored from a persistent room store
+restoreActiveGames(io);
+
 // Start server
 httpServer.listen(PORT, () => {
     console.log(`
@@ -100,18 +126,20 @@ httpServer.listen(PORT, () => {
     `);
 });
 
-// Periodic cleanup of stale rooms (in-memory store)
+// Periodic cleanup of stale rooms
 const ROOM_CLEANUP_INTERVAL_MS = Number(process.env.ROOM_CLEANUP_INTERVAL_MS) || 10 * 60 * 1000; // 10 min
 setInterval(() => {
     const result = cleanupRooms();
     if (result.removedRooms > 0) {
         console.log(`[Room] Cleaned up ${result.removedRooms} stale room(s)`);
     }
+    rateLimiter.sweep();
 }, ROOM_CLEANUP_INTERVAL_MS).unref?.();
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
     console.log('SIGTERM received. Shutting down gracefully...');
+    flushRoomStore();
     httpServer.close(() => {
         console.log('Server closed.');
         process.exit(0);
@@ -120,6 +148,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
     console.log('SIGINT received. Shutting down gracefully...');
+    flushRoomStore();
     httpServer.close(() => {
         console.log('Server closed.');
         process.exit(0);
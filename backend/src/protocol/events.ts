@@ -0,0 +1,229 @@
+/**
+ * Socket protocol
+ *
+ * Every event the server and its clients exchange, with its payload and ack. Socket.io
+ * takes these maps as type parameters on both ends, so a misspelt event or a wrong
+ * payload is a compile error. The frontend imports this file type-only (its `@protocol`
+ * path), so it must not import anything with runtime code.
+ */
+
+import type {
+    AddBotPayload,
+    BankerOfferBreakdown,
+    BankerStrategyId,
+    BoardId,
+    BotDifficulty,
+    BoxPublicInfo,
+    ChatFilterMode,
+    ChatHistoryPage,
+    ChatMessage,
+    ChatMessageKind,
+    ChatMessagePayload,
+    ChatModeration,
+    CreateInvitePayload,
+    CreateRoomPayload,
+    Currency,
+    DealResponsePayload,
+    DisconnectPolicy,
+    FairnessProof,
+    GameMode,
+    GamePhase,
+    GameReplay,
+    GameStateUpdate,
+    GetChatHistoryPayload,
+    GetGameReplayPayload,
+    GetProfilePayload,
+    GlobalLeaderboardEntryPublic,
+    GlobalLeaderboardPage,
+    GlobalLeaderboardQuery,
+    JoinQuickPlayPayload,
+    JoinRoomPayload,
+    LeaderboardEntry,
+    LeaderboardSeason,
+    LeaveRule,
+    MutePlayerPayload,
+    OpenBoxesPayload,
+    PlayerPublicInfo,
+    PlayerRole,
+    PublicRoomInfo,
+    ReportMessagePayload,
+    RoomInvite,
+    RoomScoreEntry,
+    RoomSettings,
+    RoomVisibility,
+    SelectBoxPayload,
+    SetRoomVisibilityPayload,
+    SwapResponsePayload,
+    TargetPlayerPayload,
+    UpdateRoomSettingsPayload,
+} from '../store/types';
+
+/**
+ * Why a request was turned down, for clients that want more than the message
+ */
+export type AckErrorCode =
+    | 'INVALID_PAYLOAD' // Failed the event's schema
+    | 'NAME_REQUIRED'
+    | 'INVALID_SETTINGS' // Room rules or invite options outside their bounds
+    | 'ROOM_NOT_FOUND' // No room with that code
+    | 'ROOM_FULL'
+    | 'BANNED' // The host banned you from this room
+    | 'WRONG_PASSWORD'
+    | 'INVITE_INVALID' // Expired or used up
+    | 'SOLO_GAME' // Solo rooms have one contestant and can't be listed
+    | 'ALREADY_IN_ROOM' // Leave your current room first
+    | 'NOT_QUEUED' // Not waiting for Quick Play
+    | 'NOT_IN_ROOM' // No seat in a room (or the room is gone)
+    | 'NOT_HOST'
+    | 'PLAYER_NOT_FOUND' // No such player in your room
+    | 'CANNOT_TARGET_SELF'
+    | 'TARGET_IS_BOT' // Bots can't be muted
+    | 'PLAYER_DISCONNECTED'
+    | 'NOT_A_PLAYER' // Spectators can't do this
+    | 'WRONG_PHASE' // Not at this point in the game
+    | 'GAME_PAUSED'
+    | 'NOT_YOUR_TURN'
+    | 'INVALID_BOX' // No such box
+    | 'BOX_RESERVED' // Someone's own box
+    | 'BOX_OPENED'
+    | 'ROUND_COMPLETE' // This round's boxes are all open; the banker is next
+    | 'NO_BOX_SELECTED'
+    | 'ALREADY_READY' // Box locked in
+    | 'NOT_ENOUGH_PLAYERS'
+    | 'NOT_ALL_READY'
+    | 'ALREADY_DEALT'
+    | 'ALREADY_RESPONDED'
+    | 'NOT_ELIGIBLE' // The offer or swap wasn't made to you
+    | 'EMPTY_MESSAGE'
+    | 'MUTED' // The host has muted you in chat
+    | 'SLOW_MODE' // Sent too soon after your last message
+    | 'MESSAGE_BLOCKED' // Banned words, with the chat filter set to block
+    | 'MESSAGE_NOT_FOUND' // No longer in the chat history
+    | 'ALREADY_REPORTED'
+    | 'REPLAY_NOT_FOUND'
+    | 'SERVER_ERROR' // Something went wrong on our side; try again
+    | 'RATE_LIMITED'; // Too many requests; a 'rate-limited' event says how long to wait
+
+/**
+ * Every ack carries these; events add their own (optional) fields
+ */
+export interface AckResponse {
+    success: boolean;
+    error?: string;
+    code?: AckErrorCode;
+}
+
+/**
+ * A refused request: the code to branch on and a message to show
+ */
+export interface AckError extends AckResponse {
+    success: false;
+    error: string;
+    code: AckErrorCode;
+}
+
+/**
+ * Events with nothing to send (clients send `{}` or nothing at all)
+ */
+export type EmptyPayload = Record<string, never> | undefined;
+
+/**
+ * Client-to-server events: what each one sends, and what its ack adds to AckResponse
+ */
+export interface ClientEvents {
+    'get-profile': { payload: GetProfilePayload | undefined; response: { profileId?: string; token?: string } };
+    'create-room': { payload: CreateRoomPayload; response: { roomCode?: string; playerId?: string } };
+    'join-room': { payload: JoinRoomPayload; response: { roomCode?: string; playerId?: string } };
+    'reconnect-player': { payload: { playerId: string }; response: { roomCode?: string } };
+    'select-box': { payload: SelectBoxPayload; response: {} };
+    'player-ready': { payload: EmptyPayload; response: {} };
+    'start-game': { payload: EmptyPayload; response: {} };
+    'set-room-password': { payload: { password: string | null }; response: {} };
+    'create-invite': { payload: CreateInvitePayload | undefined; response: { invite?: RoomInvite } };
+    'set-room-visibility': { payload: SetRoomVisibilityPayload; response: {} };
+    'list-public-rooms': { payload: EmptyPayload; response: { rooms?: PublicRoomInfo[] } };
+    'join-quick-play': { payload: JoinQuickPlayPayload; response: { waiting?: number } };
+    'leave-quick-play': { payload: EmptyPayload; response: {} };
+    'update-room-settings': { payload: UpdateRoomSettingsPayload; response: {} };
+    'leave-room': { payload: EmptyPayload; response: {} };
+    'request-rematch': { payload: EmptyPayload; response: {} };
+    'add-bot': { payload: AddBotPayload | undefined; response: { playerId?: string } };
+    'kick-player': { payload: TargetPlayerPayload; response: {} };
+    'ban-player': { payload: TargetPlayerPayload; response: {} };
+    'transfer-host': { payload: TargetPlayerPayload; response: {} };
+    'mute-player': { payload: MutePlayerPayload; response: {} };
+    'pause-game': { payload: EmptyPayload; response: {} };
+    'resume-game': { payload: EmptyPayload; response: {} };
+    'get-global-leaderboard': { payload: GlobalLeaderboardQuery | undefined; response: Partial<GlobalLeaderboardPage> };
+    'get-game-replay': { payload: GetGameReplayPayload; response: { replay?: GameReplay } };
+    'open-box': { payload: SelectBoxPayload; response: {} };
+    'open-boxes': { payload: OpenBoxesPayload; response: {} };
+    'deal-response': { payload: DealResponsePayload; response: {} };
+    'swap-response': { payload: SwapResponsePayload; response: {} };
+    'chat-message': { payload: ChatMessagePayload; response: {} };
+    'report-message': { payload: ReportMessagePayload; response: {} };
+    'get-chat-history': { payload: GetChatHistoryPayload | undefined; response: Partial<ChatHistoryPage> };
+}
+
+export type ClientEventName = keyof ClientEvents;
+
+/**
+ * Which rate limit budget an event spends from (see socket/rateLimit.ts)
+ */
+export type EventClass = 'chat' | 'game' | 'room' | 'host' | 'query';
+export type ClientPayload<E extends ClientEventName> = ClientEvents[E]['payload'];
+export type ClientAckResponse<E extends ClientEventName> = AckResponse & ClientEvents[E]['response'];
+export type ClientAck<E extends ClientEventName> = (res: ClientAckResponse<E>) => void;
+
+export type ClientToServerEvents = {
+    [E in ClientEventName]: (payload: ClientPayload<E>, callback?: ClientAck<E>) => void;
+};
+
+export interface ServerToClientEvents {
+    'game-state-update': (state: GameStateUpdate) => void;
+    'chat-message': (message: ChatMessage) => void;
+    'chat-history': (data: ChatHistoryPage & { roomCode: string }) => void; // Latest page, on join and reconnect
+    'game-ended': (data: { leaderboard: LeaderboardEntry[]; fairness: FairnessProof | null }) => void;
+    'leaderboard-update': (data: { leaderboard: LeaderboardEntry[] }) => void;
+    'player-left': (data: { playerId: string; removed: boolean }) => void;
+    'kicked': (data: { reason: 'kicked' | 'banned' }) => void;
+    'host-changed': (data: { hostId: string; reason: 'disconnect' | 'leave' | 'transfer' }) => void;
+    'rematch-started': (data: { roomCode: string }) => void;
+    'quick-play-matched': (data: { roomCode: string; playerId: string }) => void;
+    'rate-limited': (data: { event: string; eventClass: EventClass; retryAfterMs: number; reason: 'rate' | 'room-cap' }) => void;
+}
+
+export type ServerEventName = keyof ServerToClientEvents;
+
+// Types clients need alongside the events
+export type {
+    BankerOfferBreakdown,
+    BankerStrategyId,
+    BoardId,
+    BotDifficulty,
+    BoxPublicInfo,
+    ChatFilterMode,
+    ChatHistoryPage,
+    ChatMessage,
+    ChatMessageKind,
+    ChatModeration,
+    Currency,
+    DisconnectPolicy,
+    FairnessProof,
+    GameMode,
+    GamePhase,
+    GameStateUpdate,
+    GlobalLeaderboardEntryPublic,
+    GlobalLeaderboardPage,
+    GlobalLeaderboardQuery,
+    LeaderboardEntry,
+    LeaderboardSeason,
+    LeaveRule,
+    PlayerPublicInfo,
+    PlayerRole,
+    PublicRoomInfo,
+    RoomInvite,
+    RoomScoreEntry,
+    RoomSettings,
+    RoomVisibility,
+};
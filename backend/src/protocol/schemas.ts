@@ -0,0 +1,92 @@
+/**
+ * Inbound payload schemas, one per client event (the map's type makes a missing one a
+ * compile error). These only check shape; game rules stay in the handlers.
+ */
+
+import { ClientEventName, ClientPayload } from './events';
+import {
+    Schema,
+    arrayOf,
+    boolean,
+    empty,
+    looseObject,
+    nullable,
+    number,
+    object,
+    oneOf,
+    optional,
+    string,
+} from './validation';
+import { BotDifficulty, RoomSettings } from '../store/types';
+import { BOT_PROFILES } from '../game/bots';
+
+const gameModes = ['multiplayer', 'solo'] as const;
+const visibilities = ['public', 'private'] as const;
+const seasons = ['weekly', 'monthly', 'all-time'] as const;
+const botDifficulties = Object.keys(BOT_PROFILES) as BotDifficulty[];
+
+// Generous caps: handlers trim names, passwords and chat further
+const name = string({ maxLength: 100 });
+const token = string({ maxLength: 512 });
+const boxNumber = number({ integer: true });
+
+const targetPlayer = object({ playerId: string({ maxLength: 100 }) });
+
+export const clientPayloadSchemas: { [E in ClientEventName]: Schema<ClientPayload<E>> } = {
+    'get-profile': optional(object({ token: optional(token) })),
+    'create-room': object({
+        playerName: name,
+        profileToken: optional(token),
+        settings: optional(looseObject<Partial<RoomSettings>>()),
+        mode: optional(oneOf(gameModes)),
+        visibility: optional(oneOf(visibilities)),
+    }),
+    'join-room': object({
+        roomCode: string({ maxLength: 20 }),
+        playerName: name,
+        password: optional(string({ maxLength: 200 })),
+        asSpectator: optional(boolean()),
+        profileToken: optional(token),
+        inviteToken: optional(token),
+    }),
+    'reconnect-player': object({ playerId: string({ maxLength: 100 }) }),
+    'select-box': object({ boxNumber }),
+    'player-ready': empty(),
+    'start-game': empty(),
+    'set-room-password': object({ password: nullable(string({ maxLength: 200 })) }),
+    'create-invite': optional(object({
+        expiresInMs: optional(number({ integer: true })),
+        maxUses: optional(number({ integer: true })),
+    })),
+    'set-room-visibility': object({ visibility: oneOf(visibilities) }),
+    'list-public-rooms': empty(),
+    'join-quick-play': object({ playerName: name, profileToken: optional(token) }),
+    'leave-quick-play': empty(),
+    'update-room-settings': object({ settings: looseObject<Partial<RoomSettings>>() }),
+    'leave-room': empty(),
+    'request-rematch': empty(),
+    'add-bot': optional(object({ difficulty: optional(oneOf(botDifficulties)) })),
+    'kick-player': targetPlayer,
+    'ban-player': targetPlayer,
+    'transfer-host': targetPlayer,
+    'mute-player': object({ playerId: string({ maxLength: 100 }), muted: boolean() }),
+    'pause-game': empty(),
+    'resume-game': empty(),
+    'get-global-leaderboard': optional(object({
+        mode: optional(oneOf(gameModes)),
+        season: optional(oneOf(seasons)),
+        page: optional(number({ integer: true })),
+        pageSize: optional(number({ integer: true })),
+    })),
+    'get-game-replay': object({ gameId: string({ maxLength: 100 }) }),
+    'open-box': object({ boxNumber }),
+    'open-boxes': object({ boxNumbers: arrayOf(boxNumber, { maxLength: 30 }) }),
+    'deal-response': object({ accepted: boolean() }),
+    'swap-response': object({ boxNumber: nullable(boxNumber) }),
+    'chat-message': object({ content: string({ maxLength: 2000 }) }),
+    'get-chat-history': optional(object({
+        before: optional(string({ maxLength: 100 })),
+        limit: optional(number({ integer: true })),
+    })),
+    'report-message': object({ messageId: string({ maxLength: 100 }), reason: optional(string({ maxLength: 200 })) }),
+};
@@ -0,0 +1,111 @@
+/**
+ * Payload validation
+ *
+ * A few small schema builders for checking what clients send. A schema either returns
+ * the value (rebuilt, so objects only keep the fields they declare) or says what is
+ * wrong with it, naming the field.
+ */
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type Schema<T> = (value: unknown, path: string) => ValidationResult<T>;
+
+type Shape = Record<string, Schema<unknown>>;
+type ShapeValue<S extends Shape> = { [K in keyof S]: S[K] extends Schema<infer T> ? T : never };
+
+function fail(path: string, expected: string): { ok: false; error: string } {
+    return { ok: false, error: `${path} must be ${expected}` };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function string(options: { maxLength?: number } = {}): Schema<string> {
+    return (value, path) => {
+        if (typeof value !== 'string') return fail(path, 'a string');
+        if (options.maxLength !== undefined && value.length > options.maxLength) {
+            return fail(path, `at most ${options.maxLength} characters`);
+        }
+        return { ok: true, value };
+    };
+}
+
+export function number(options: { integer?: boolean } = {}): Schema<number> {
+    return (value, path) => {
+        if (typeof value !== 'number' || !Number.isFinite(value)) return fail(path, 'a number');
+        if (options.integer && !Number.isInteger(value)) return fail(path, 'a whole number');
+        return { ok: true, value };
+    };
+}
+
+export function boolean(): Schema<boolean> {
+    return (value, path) => (typeof value === 'boolean' ? { ok: true, value } : fail(path, 'true or false'));
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+    return (value, path) => (
+        typeof value === 'string' && (values as readonly string[]).includes(value)
+            ? { ok: true, value: value as T }
+            : fail(path, `one of ${values.join(', ')}`)
+    );
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return (value, path) => (value === undefined || value === null ? { ok: true, value: undefined } : schema(value, path));
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+    return (value, path) => (value === null ? { ok: true, value: null } : schema(value, path));
+}
+
+export function arrayOf<T>(schema: Schema<T>, options: { maxLength?: number } = {}): Schema<T[]> {
+    return (value, path) => {
+        if (!Array.isArray(value)) return fail(path, 'a list');
+        if (options.maxLength !== undefined && value.length > options.maxLength) {
+            return fail(path, `at most ${options.maxLength} items`);
+        }
+        const items: T[] = [];
+        for (let i = 0; i < value.length; i++) {
+            const item = schema(value[i], `${path}[${i}]`);
+            if (!item.ok) return item;
+            items.push(item.value);
+        }
+        return { ok: true, value: items };
+    };
+}
+
+export function object<S extends Shape>(shape: S): Schema<ShapeValue<S>> {
+    return (value, path) => {
+        if (!isPlainObject(value)) return fail(path, 'an object');
+        const result: Record<string, unknown> = {};
+        for (const key of Object.keys(shape)) {
+            const field = shape[key](value[key], `${path}.${key}`);
+            if (!field.ok) return field;
+            if (field.value !== undefined) result[key] = field.value;
+        }
+        return { ok: true, value: result as ShapeValue<S> };
+    };
+}
+
+/**
+ * Any object, passed through as-is, for payloads whose fields are checked further on
+ * (room settings go through applyRoomSettings)
+ */
+export function looseObject<T extends object>(): Schema<T> {
+    return (value, path) => (isPlainObject(value) ? { ok: true, value: value as T } : fail(path, 'an object'));
+}
+
+/**
+ * For events with nothing to send: whatever arrives is ignored
+ */
+export function empty(): Schema<undefined> {
+    return () => ({ ok: true, value: undefined });
+}
+
+/**
+ * Check a whole payload (errors read like "payload.boxNumber must be a whole number")
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+    return schema(value, 'payload');
+}
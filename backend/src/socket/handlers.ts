@@ -21,11 +21,30 @@ import {
     updateGameState,
     getRoomSocketIds,
     addChatMessage,
+    getChatMessages,
+    getChatHistoryPage,
+    reportChatMessage,
     reconnectPlayer,
-    updateGlobalLeaderboard,
+    recordGameResult,
     handleDisconnect,
     setRoomPassword,
+    setRoomVisibility,
+    listPublicRooms,
+    createRoomInvite,
     getGlobalLeaderboard,
+    listRooms,
+    persistRoom,
+    removePlayerFromRoom,
+    detachPlayerFromRoom,
+    banPlayerFromRoom,
+    transferHost,
+    updateRoomSettings,
+    resetRoomForRematch,
+    generateGameId,
+    appendGameEvent,
+    archiveGameReplay,
+    getGameReplay,
+    addBotToRoom,
 } from '../store/rooms';
 import {
     GameStateUpdate,
@@ -36,27 +55,127 @@ import {
     SelectBoxPayload,
     OpenBoxesPayload,
     DealResponsePayload,
+    SwapResponsePayload,
+    ChatMessage,
     ChatMessagePayload,
+    ChatModeration,
     Player,
+    Box,
     GameState,
+    GlobalLeaderboardQuery,
+    GlobalLeaderboardPage,
+    GetProfilePayload,
+    TargetPlayerPayload,
+    AddBotPayload,
+    UpdateRoomSettingsPayload,
+    Room,
+    RoomScoreEntry,
+    BankerOfferBreakdown,
+    GameEventData,
+    GameReplay,
+    GetGameReplayPayload,
+    SetRoomVisibilityPayload,
+    JoinQuickPlayPayload,
+    PublicRoomInfo,
+    CreateInvitePayload,
+    RoomInvite,
+    RoomSettings,
 } from '../store/types';
-import { calculateBankerOffer } from '../game/banker';
-import { getBoxesToOpenForRound, OFFER_TIMEOUT_MS, MIN_PLAYERS_TO_START, BOX_OPEN_TIMEOUT_MS } from '../game/constants';
+import { getBankerStrategy, personaliseOffer } from '../game/bankerStrategies';
+import { createFairnessProof, createRoomRandom } from '../game/rng';
+import { getBotDelayMs, isBotDifficulty, pickBotBox, shouldBotDeal } from '../game/bots';
+import {
+    getBoxesToOpenForRound,
+    DISCONNECT_GRACE_MS,
+    HOST_DISCONNECT_GRACE_MS,
+    MID_GAME_SWAP_CHANCE,
+    MIN_PLAYERS_TO_START,
+    DEFAULT_INVITE_TTL_MS,
+    MAX_INVITE_TTL_MS,
+    DEFAULT_INVITE_MAX_USES,
+    MAX_INVITE_USES,
+    MAX_CHAT_HISTORY,
+    CHAT_HISTORY_PAGE_SIZE,
+    maskProfanity,
+} from '../game/constants';
+import { applyRoomSettings, createDefaultRoomSettings, CHAT_SETTING_KEYS } from '../game/roomSettings';
 import { calculatePoints } from '../game/points';
+import { getBoardMaxValue } from '../game/boards';
+import { formatMoney } from '../game/currency';
+import { issueProfileToken, verifyProfileToken } from '../auth/profileToken';
+import {
+    AckError,
+    AckErrorCode,
+    ClientAck,
+    ClientAckResponse,
+    ClientEventName,
+    ClientPayload,
+    ClientToServerEvents,
+    ServerToClientEvents,
+} from '../protocol/events';
+import { clientPayloadSchemas } from '../protocol/schemas';
+import { validate } from '../protocol/validation';
+import { getClientIp, type RateLimiter } from './rateLimit';
+import crypto from 'crypto';
+
+export type GameServer = Server<ClientToServerEvents, ServerToClientEvents>;
+export type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
 
 // Store turn timers by room code
 const turnTimers: Map<string, NodeJS.Timeout> = new Map();
 // Store offer timers by room code
 const offerTimers: Map<string, NodeJS.Timeout> = new Map();
+// Store swap offer timers by room code
+const swapTimers: Map<string, NodeJS.Timeout> = new Map();
+// Store host-disconnect grace timers by room code
+const hostTransferTimers: Map<string, NodeJS.Timeout> = new Map();
+// Store pending bot actions by room code
+const botTimers: Map<string, NodeJS.Timeout[]> = new Map();
+// Store disconnect grace timers by player ID
+const awayTimers: Map<string, NodeJS.Timeout> = new Map();
+
+interface QuickPlayEntry {
+    socketId: string;
+    playerName: string;
+    profileId: string | null;
+    fingerprint: string;
+    ip: string;
+}
+
+// Sockets waiting for a Quick Play match, in arrival order
+const quickPlayQueue: QuickPlayEntry[] = [];
 
 /**
- * Check if any non-personal, unopened boxes remain (i.e., a player can take an action)
+ * Ack for a refused request
  */
-function hasOpenableBoxes(gameState: GameState): boolean {
+function rejection(code: AckErrorCode, error: string): AckError {
+    return { success: false, code, error };
+}
+
+/**
+ * Identify a browser for room bans: hash of client IP + user agent.
+ */
+function getSocketFingerprint(socket: GameSocket): string {
+    const ip = getClientIp(socket);
+    const userAgent = socket.handshake.headers['user-agent'] || '';
+    return crypto.createHash('sha256').update(`${ip}|${userAgent}`).digest('hex').slice(0, 32);
+}
+
+/**
+ * Unopened boxes that no contestant holds (the ones that can be opened or swapped to)
+ */
+function getUnclaimedBoxes(gameState: GameState): Box[] {
     const isReservedPlayerBox = (boxNumber: number) =>
         Array.from(gameState.players.values()).some((p) => p.role === 'player' && p.boxNumber === boxNumber);
 
-    return gameState.boxes.some((b) => !b.isOpened && !isReservedPlayerBox(b.number));
+    return gameState.boxes.filter((b) => !b.isOpened && !isReservedPlayerBox(b.number));
+}
+
+/**
+ * Check if any non-personal, unopened boxes remain (i.e., a player can take an action)
+ */
+function hasOpenableBoxes(gameState: GameState): boolean {
+    return getUnclaimedBoxes(gameState).length > 0;
 }
 
 /**
@@ -76,12 +195,24 @@ function createGameStateUpdate(
         boxNumber: p.boxNumber,
         hasDealt: p.hasDealt,
         dealAmount: p.dealAmount,
+        swappedFromBox: p.swappedFromBox ?? null,
         isActive: !p.hasDealt && p.boxNumber !== null && p.role === 'player',
         isConnected: p.isConnected,
+        isAway: !!p.isAway,
+        isMuted: !!p.isMuted,
+        isBot: !!p.isBot,
+        botDifficulty: p.botDifficulty ?? null,
     }));
 
     const currentPlayer = gameState.players.get(forPlayerId);
 
+    // Personal offers: contestants only see their own; spectators see everyone's
+    const isSpectator = currentPlayer?.role === 'spectator';
+    const ownOffer = gameState.playerOffers?.[forPlayerId];
+    const playerOffers: Record<string, number> = isSpectator
+        ? { ...(gameState.playerOffers || {}) }
+        : ownOffer !== undefined ? { [forPlayerId]: ownOffer } : {};
+
     const boxes: BoxPublicInfo[] = gameState.boxes.map((box) => ({
         number: box.number,
         isOpened: box.isOpened,
@@ -95,29 +226,137 @@ function createGameStateUpdate(
         players,
         boxes,
         currentRound: gameState.currentRound,
-        boxesToOpenThisRound: getBoxesToOpenForRound(gameState.currentRound),
+        boxesToOpenThisRound: getBoxesToOpenForRound(gameState.currentRound, gameState.settings.roundSchedule),
         boxesOpenedThisRound: gameState.boxesOpenedThisRound,
         remainingValues: gameState.remainingValues,
         eliminatedValues: gameState.eliminatedValues,
-        currentOffer: gameState.currentOffer,
+        currentOffer: getOfferFor(gameState, forPlayerId),
         offerExpiresAt: gameState.offerExpiresAt,
+        playerOffers,
+        swapExpiresAt: gameState.swapExpiresAt ?? null,
+        isFinalSwap: !!gameState.isFinalSwap,
+        swapEligiblePlayerIds: gameState.swapEligiblePlayerIds || [],
+        swapRespondedPlayerIds: Object.keys(gameState.swapResponses || {}),
         currentTurnPlayerId: gameState.currentTurnPlayerId,
         turnExpiresAt: gameState.turnExpiresAt,
+        paused: !!gameState.isPaused,
+        pausedRemainingMs: gameState.pausedRemainingMs ?? null,
+        pauseVotes: gameState.pauseVotes || [],
+        pauseVotesNeeded: getPauseVotesNeeded(gameState),
+        settings: gameState.settings,
+        gamesCompleted: gameState.gamesCompleted || 0,
+        roomScores: getRoomScoreEntries(gameState),
         recentlyOpenedBox,
+        bankerOffers: gameState.phase === 'finished' ? gameState.offerHistory : undefined,
+        fairnessCommitment: gameState.fairness?.commitment ?? null,
+        gameId: gameState.gameId ?? null,
+        mode: gameState.mode,
+        visibility: gameState.visibility || 'private',
+    };
+}
+
+/**
+ * Append an event to the room's log, tagged with the game in progress (if any)
+ */
+function logGameEvent(roomCode: string, event: GameEventData): void {
+    const room = getRoom(roomCode);
+    if (!room) return;
+    appendGameEvent(room.code, { ...event, at: Date.now(), gameId: room.gameState.gameId ?? null });
+}
+
+// Bumped for every chat message, so messages from the same millisecond keep their order
+// (it starts over with the process, by which time the clock has moved on)
+let chatMessageSeq = 0;
+
+/**
+ * A chat message from `sender`, or a server notice when there is none
+ */
+function createChatMessage(
+    roomCode: string,
+    sender: { id: string; name: string } | null,
+    content: string,
+    moderation: ChatModeration = { filtered: false, slowModeMs: 0 }
+): ChatMessage {
+    return {
+        id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        roomCode,
+        senderId: sender?.id ?? 'system',
+        senderName: sender?.name ?? 'System',
+        content,
+        timestamp: Date.now(),
+        seq: ++chatMessageSeq,
+        kind: sender ? 'player' : 'system',
+        moderation,
     };
 }
 
+/**
+ * Post a server notice to the room's chat. With `toSocketId` only that socket sees it,
+ * and it isn't kept in the history.
+ */
+function postSystemMessage(io: GameServer, roomCode: string, content: string, toSocketId?: string): void {
+    const message = createChatMessage(roomCode, null, content);
+    if (toSocketId) {
+        io.to(toSocketId).emit('chat-message', message);
+        return;
+    }
+
+    addChatMessage(message);
+    io.to(roomCode).emit('chat-message', message);
+}
+
+/**
+ * Ask the room's banker for an offer on the round that just finished
+ */
+function makeBankerOffer(gameState: GameState): BankerOfferBreakdown {
+    const lastRoundValues = gameState.boxesOpenedThisRound
+        .map((n) => gameState.boxes.find((b) => b.number === n)?.value)
+        .filter((v): v is number => v !== undefined);
+
+    return getBankerStrategy(gameState.settings.bankerStrategy).makeOffer({
+        remainingValues: gameState.remainingValues,
+        round: gameState.currentRound,
+        lastRoundValues,
+        random: createRoomRandom(gameState),
+    });
+}
+
+/**
+ * The offer on the table for a player: their personal offer in personal offers mode,
+ * otherwise the shared one
+ */
+function getOfferFor(gameState: GameState, playerId: string): number | null {
+    if (gameState.settings.personalOffers) {
+        return gameState.playerOffers?.[playerId] ?? null;
+    }
+    return gameState.currentOffer;
+}
+
+/**
+ * Room totals across rematches, ranked by points
+ */
+function getRoomScoreEntries(gameState: GameState): RoomScoreEntry[] {
+    return Object.entries(gameState.roomScores || {})
+        .map(([playerId, score]) => ({ playerId, ...score, rank: 0 }))
+        .sort((a, b) => b.totalPoints - a.totalPoints)
+        .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
 /**
  * Broadcast game state to all players in room
  */
 function broadcastGameState(
-    io: Server,
+    io: GameServer,
     roomCode: string,
     recentlyOpenedBox?: { boxNumber: number; value: number }
 ): void {
     const room = getRoom(roomCode);
     if (!room) return;
 
+    // Every state change is followed by a broadcast, so this is where in-place
+    // GameState mutations get persisted.
+    persistRoom(roomCode);
+
     // Send personalised state to each connected player
     room.gameState.players.forEach((player) => {
         if (player.isConnected) {
@@ -148,13 +387,41 @@ function getLastActivePlayer(gameState: GameState): Player | null {
 }
 
 /**
- * Check if all players are ready
+ * The player to finish with the final swap and box reveal: the last one standing in a
+ * shared game, or the solo player once only one unclaimed box is left
+ */
+function getPlayerToFinish(gameState: GameState): Player | null {
+    const lastPlayer = getLastActivePlayer(gameState);
+    if (lastPlayer && gameState.mode === 'solo' && getUnclaimedBoxes(gameState).length > 1) {
+        return null;
+    }
+    return lastPlayer;
+}
+
+/**
+ * Whether the current round has opened all its boxes. A solo round also stops with one
+ * unclaimed box left, so the last offer and the final swap come with two boxes in play.
+ */
+function isRoundComplete(gameState: GameState): boolean {
+    const unclaimed = getUnclaimedBoxes(gameState).length;
+    return (
+        gameState.boxesOpenedThisRound.length >= getBoxesToOpenForRound(gameState.currentRound, gameState.settings.roundSchedule) ||
+        unclaimed === 0 ||
+        (gameState.mode === 'solo' && unclaimed <= 1)
+    );
+}
+
+/**
+ * Check if all players are ready (a solo player only needs to have picked a box)
  */
 function allPlayersReady(gameState: GameState): boolean {
     const players = Array.from(gameState.players.values())
         .filter(p => p.role === 'player');
+    if (gameState.mode === 'solo') {
+        return players.length === 1 && players[0].boxNumber !== null;
+    }
     return (
-        players.length >= MIN_PLAYERS_TO_START &&
+        players.length >= gameState.settings.minPlayersToStart &&
         players.every((p) => p.isReady && p.boxNumber !== null)
     );
 }
@@ -200,9 +467,29 @@ function clearOfferTimer(roomCode: string): void {
 }
 
 /**
- * Set the current turn player and start timer
+ * Clear any existing swap offer timer for a room
+ */
+function clearSwapTimer(roomCode: string): void {
+    const existing = swapTimers.get(roomCode);
+    if (existing) {
+        clearTimeout(existing);
+        swapTimers.delete(roomCode);
+    }
+}
+
+/**
+ * Value of the box a player swapped away (null if they kept their original box)
+ */
+function getSwappedFromValue(gameState: GameState, player: Player): number | null {
+    if (player.swappedFromBox === null || player.swappedFromBox === undefined) return null;
+    return gameState.boxes.find((b) => b.number === player.swappedFromBox)?.value ?? null;
+}
+
+/**
+ * Set the current turn player and start timer. While paused (e.g. the turn holder left
+ * mid-pause) the turn is handed on but its timer waits for the resume.
  */
-function setCurrentTurn(io: Server, roomCode: string): void {
+function setCurrentTurn(io: GameServer, roomCode: string): void {
     const room = getRoom(roomCode);
     if (!room || room.gameState.phase !== 'playing') return;
 
@@ -221,7 +508,22 @@ function setCurrentTurn(io: Server, roomCode: string): void {
     }
 
     const playerId = room.gameState.turnOrder[nextIdx];
-    const expiresAt = Date.now() + BOX_OPEN_TIMEOUT_MS;
+    const { turnTimeoutMs } = room.gameState.settings;
+    // A solo player has nobody waiting on them, so their turn never times out
+    const isSolo = room.gameState.mode === 'solo';
+
+    if (room.gameState.isPaused) {
+        updateGameState(roomCode, {
+            currentTurnIndex: nextIdx,
+            currentTurnPlayerId: playerId,
+            turnExpiresAt: null,
+            pausedRemainingMs: isSolo ? null : turnTimeoutMs,
+        });
+        broadcastGameState(io, roomCode);
+        return;
+    }
+
+    const expiresAt = isSolo ? null : Date.now() + turnTimeoutMs;
 
     updateGameState(roomCode, {
         currentTurnIndex: nextIdx,
@@ -231,33 +533,58 @@ function setCurrentTurn(io: Server, roomCode: string): void {
 
     broadcastGameState(io, roomCode);
 
+    if (isSolo) return;
+
     // Set timeout for turn expiry
     const timer = setTimeout(() => {
         handleTurnTimeout(io, roomCode, playerId);
-    }, BOX_OPEN_TIMEOUT_MS);
+    }, turnTimeoutMs);
 
     turnTimers.set(roomCode, timer);
+
+    // A bot whose turn it is opens a box after a short pause
+    scheduleBotActions(io, roomCode);
 }
 
 /**
  * Handle turn timeout - skip player's turn
  */
-function handleTurnTimeout(io: Server, roomCode: string, playerId: string): void {
+function handleTurnTimeout(io: GameServer, roomCode: string, playerId: string): void {
     const room = getRoom(roomCode);
-    if (!room || room.gameState.phase !== 'playing') return;
+    if (!room || room.gameState.phase !== 'playing' || room.gameState.isPaused) return;
     if (room.gameState.currentTurnPlayerId !== playerId) return;
 
+    // A dropped connection isn't the player's choice, so it costs no penalty
     const player = room.gameState.players.get(playerId);
-    if (player) {
+    if (player?.isConnected) {
         player.timeoutCount += 1;
         console.log(`[Game] Player ${playerId} timed out (count: ${player.timeoutCount})`);
     }
+    logGameEvent(roomCode, { type: 'turn-timeout', playerId });
+
+    passTurn(io, roomCode);
+}
+
+/**
+ * Skip an away player's turn straight away (the 'skip' disconnect policy)
+ */
+function skipAwayTurn(io: GameServer, roomCode: string, playerId: string): void {
+    console.log(`[Game] Player ${playerId} is away; skipping their turn`);
+    logGameEvent(roomCode, { type: 'turn-skipped', playerId });
+    passTurn(io, roomCode);
+}
+
+/**
+ * Hand the turn to the next active player, or call the banker if the round is done
+ */
+function passTurn(io: GameServer, roomCode: string): void {
+    const room = getRoom(roomCode);
+    if (!room) return;
 
-    // Move to next player
     const nextIdx = getNextActivePlayerIndex(room.gameState, room.gameState.currentTurnIndex + 1);
     if (nextIdx === -1) {
         // No more active players, check if round complete
-        const boxesToOpen = getBoxesToOpenForRound(room.gameState.currentRound);
+        const boxesToOpen = getBoxesToOpenForRound(room.gameState.currentRound, room.gameState.settings.roundSchedule);
         if (room.gameState.boxesOpenedThisRound.length >= boxesToOpen) {
             triggerBankerOffer(io, roomCode);
         }
@@ -273,7 +600,7 @@ function handleTurnTimeout(io: Server, roomCode: string, playerId: string): void
  * This is intentionally provisional: only players who have finished (dealt/last standing)
  * will have points > 0.
  */
-function emitLeaderboardUpdate(io: Server, roomCode: string): void {
+function emitLeaderboardUpdate(io: GameServer, roomCode: string): void {
     const room = getRoom(roomCode);
     if (!room) return;
 
@@ -299,7 +626,7 @@ function emitLeaderboardUpdate(io: Server, roomCode: string): void {
  * This prevents clients from missing the final leaderboard if they disconnect/reconnect
  * around the end of a game (Socket.io events are not replayed).
  */
-function emitLeaderboardSnapshotToSocket(io: Server, roomCode: string, socketId: string): void {
+function emitLeaderboardSnapshotToSocket(io: GameServer, roomCode: string, socketId: string): void {
     const room = getRoom(roomCode);
     if (!room) return;
 
@@ -317,21 +644,32 @@ function emitLeaderboardSnapshotToSocket(io: Server, roomCode: string, socketId:
         .map((entry, index) => ({ ...entry, rank: index + 1 }));
 
     if (room.gameState.phase === 'finished') {
-        io.to(socketId).emit('game-ended', { leaderboard });
+        io.to(socketId).emit('game-ended', { leaderboard, fairness: room.gameState.fairness });
     } else {
         io.to(socketId).emit('leaderboard-update', { leaderboard });
     }
 }
 
+/**
+ * Send the latest page of a room's chat to one socket, so players who join late, refresh or
+ * reconnect see the conversation so far (older pages come from get-chat-history)
+ */
+function emitChatHistoryToSocket(io: GameServer, roomCode: string, socketId: string): void {
+    const page = getChatHistoryPage(roomCode, undefined, CHAT_HISTORY_PAGE_SIZE);
+    io.to(socketId).emit('chat-history', { roomCode, ...page });
+}
+
 /**
  * Finalise the game: calculate final points & leaderboard and broadcast to all.
  */
-function finishGame(io: Server, roomCode: string): void {
+function finishGame(io: GameServer, roomCode: string): void {
     const room = getRoom(roomCode);
     if (!room) return;
 
     clearTurnTimer(roomCode);
     clearOfferTimer(roomCode);
+    clearSwapTimer(roomCode);
+    clearBotTimers(roomCode);
 
     // Build final results for all real players
     const players = Array.from(room.gameState.players.values())
@@ -354,14 +692,40 @@ function finishGame(io: Server, roomCode: string): void {
             isLastStanding: p.isLastStanding,
             isHighestWinnings: finalWinnings === highestWinnings,
             timeoutCount: p.timeoutCount,
+            boardMaxValue: getBoardMaxValue(room.gameState.settings.boxValues),
+            swappedFromValue: getSwappedFromValue(room.gameState, p),
         });
 
         p.points = points;
     });
 
-    // Update global leaderboard (runtime)
+    // Add to the room's running totals (kept across rematches)
+    room.gameState.roomScores = room.gameState.roomScores || {};
     players.forEach((p) => {
-        updateGlobalLeaderboard(p.id, p.name, p.points);
+        const existing = room.gameState.roomScores[p.id];
+        room.gameState.roomScores[p.id] = {
+            playerName: p.name,
+            totalPoints: (existing?.totalPoints || 0) + p.points,
+            gamesPlayed: (existing?.gamesPlayed || 0) + 1,
+        };
+    });
+    room.gameState.gamesCompleted = (room.gameState.gamesCompleted || 0) + 1;
+
+    // Record per-game results for the global leaderboard (bots don't rank)
+    const finishedAt = Date.now();
+    players.filter((p) => !p.isBot).forEach((p) => {
+        recordGameResult({
+            playerKey: p.profileId || p.id,
+            playerName: p.name,
+            roomCode,
+            points: p.points,
+            amount: p.dealAmount || 0,
+            roundDealt: p.roundDealt || room.gameState.currentRound,
+            timeoutCount: p.timeoutCount,
+            wasBoxValue: !!p.isLastStanding,
+            finishedAt,
+            mode: room.gameState.mode,
+        });
     });
 
     const leaderboard = players
@@ -377,19 +741,34 @@ function finishGame(io: Server, roomCode: string): void {
         .sort((a, b) => b.points - a.points)
         .map((entry, index) => ({ ...entry, rank: index + 1 }));
 
-    // Broadcast game ended + final leaderboard to everyone (players + spectators)
-    io.to(roomCode).emit('game-ended', { leaderboard });
+    // Broadcast game ended + final leaderboard to everyone (players + spectators),
+    // revealing the seed and salt behind the layout commitment
+    io.to(roomCode).emit('game-ended', { leaderboard, fairness: room.gameState.fairness });
+
+    logGameEvent(roomCode, {
+        type: 'game-finished',
+        results: players.map((p) => ({ playerId: p.id, playerName: p.name, amount: p.dealAmount || 0, points: p.points })),
+    });
 
     updateGameState(roomCode, {
         phase: 'finished',
-        finishedAt: Date.now(),
+        finishedAt,
         currentOffer: null,
         offerExpiresAt: null,
         currentTurnPlayerId: null,
         turnExpiresAt: null,
         offerEligiblePlayerIds: [],
+        playerOffers: {},
         offerResponses: {},
+        swapExpiresAt: null,
+        isFinalSwap: false,
+        swapEligiblePlayerIds: [],
+        swapResponses: {},
+        isPaused: false,
+        pausedRemainingMs: null,
+        pauseVotes: [],
     });
+    archiveGameReplay(room);
 
     broadcastGameState(io, roomCode);
 }
@@ -397,7 +776,7 @@ function finishGame(io: Server, roomCode: string): void {
 /**
  * End the offer phase and continue according to the rules.
  */
-function endOfferAndContinue(io: Server, roomCode: string): void {
+function endOfferAndContinue(io: GameServer, roomCode: string): void {
     const room = getRoom(roomCode);
     if (!room) return;
 
@@ -409,8 +788,8 @@ function endOfferAndContinue(io: Server, roomCode: string): void {
         return;
     }
 
-    // If only one active player remains, finish them and end game
-    const lastPlayer = getLastActivePlayer(room.gameState);
+    // If only one active player remains (or a solo game is down to two boxes), finish them and end game
+    const lastPlayer = getPlayerToFinish(room.gameState);
     if (lastPlayer) {
         finishLastPlayer(io, roomCode, lastPlayer);
         return;
@@ -423,22 +802,22 @@ function endOfferAndContinue(io: Server, roomCode: string): void {
 /**
  * Handle offer timeout - default No Deal for any non-responders (and count as a timeout)
  */
-function handleOfferTimeout(io: Server, roomCode: string): void {
+function handleOfferTimeout(io: GameServer, roomCode: string): void {
     const room = getRoom(roomCode);
-    if (!room || room.gameState.phase !== 'offer') return;
+    if (!room || room.gameState.phase !== 'offer' || room.gameState.isPaused) return;
 
     console.log(`[Game] Offer timeout - auto No Deal for non-responders`);
 
     const eligible = room.gameState.offerEligiblePlayerIds || [];
-    eligible.forEach((playerId) => {
-        if (room.gameState.offerResponses[playerId] === undefined) {
-            room.gameState.offerResponses[playerId] = false; // No Deal
-            const player = room.gameState.players.get(playerId);
-            if (player) {
-                player.timeoutCount += 1;
-            }
+    const timedOut = eligible.filter((playerId) => room.gameState.offerResponses[playerId] === undefined);
+    timedOut.forEach((playerId) => {
+        room.gameState.offerResponses[playerId] = false; // No Deal
+        const player = room.gameState.players.get(playerId);
+        if (player?.isConnected) {
+            player.timeoutCount += 1;
         }
     });
+    logGameEvent(roomCode, { type: 'offer-timeout', playerIds: timedOut });
 
     endOfferAndContinue(io, roomCode);
 }
@@ -446,17 +825,18 @@ function handleOfferTimeout(io: Server, roomCode: string): void {
 /**
  * Start a new round
  */
-function startNewRound(io: Server, roomCode: string): void {
+function startNewRound(io: GameServer, roomCode: string): void {
     const room = getRoom(roomCode);
     if (!room) return;
 
     clearTurnTimer(roomCode);
     clearOfferTimer(roomCode);
+    clearSwapTimer(roomCode);
 
     // Check if only one player remains
-    const lastPlayer = getLastActivePlayer(room.gameState);
+    const lastPlayer = getPlayerToFinish(room.gameState);
     if (lastPlayer) {
-        // Reveal their box and end game
+        // Offer the final swap, then reveal their box and end game
         finishLastPlayer(io, roomCode, lastPlayer);
         return;
     }
@@ -469,7 +849,12 @@ function startNewRound(io: Server, roomCode: string): void {
         currentOffer: null,
         offerExpiresAt: null,
         offerEligiblePlayerIds: [],
+        playerOffers: {},
         offerResponses: {},
+        swapExpiresAt: null,
+        isFinalSwap: false,
+        swapEligiblePlayerIds: [],
+        swapResponses: {},
         currentTurnPlayerId: null,
         turnExpiresAt: null,
         // Keep currentTurnIndex as the starting index for next round
@@ -480,9 +865,25 @@ function startNewRound(io: Server, roomCode: string): void {
 }
 
 /**
- * Finish the last remaining player
+ * Finish the last remaining player: offer them the final swap if there is an unclaimed
+ * box to swap to, otherwise reveal their box straight away
+ */
+function finishLastPlayer(io: GameServer, roomCode: string, player: Player): void {
+    const room = getRoom(roomCode);
+    if (!room) return;
+
+    if (!room.gameState.isFinalSwap && getUnclaimedBoxes(room.gameState).length > 0) {
+        startSwapOffer(io, roomCode, [player.id], true);
+        return;
+    }
+
+    revealLastPlayer(io, roomCode, player);
+}
+
+/**
+ * Reveal the last remaining player's box: they win its value
  */
-function finishLastPlayer(io: Server, roomCode: string, player: Player): void {
+function revealLastPlayer(io: GameServer, roomCode: string, player: Player): void {
     const room = getRoom(roomCode);
     if (!room) return;
 
@@ -499,6 +900,7 @@ function finishLastPlayer(io: Server, roomCode: string, player: Player): void {
     if (box) {
         box.isOpened = true;
         box.openedByPlayerId = player.id;
+        logGameEvent(roomCode, { type: 'box-revealed', playerId: player.id, boxNumber: box.number, value: box.value });
 
         // Remove value from remaining values for consistency
         const valueIndex = room.gameState.remainingValues.indexOf(box.value);
@@ -511,18 +913,75 @@ function finishLastPlayer(io: Server, roomCode: string, player: Player): void {
     finishGame(io, roomCode);
 }
 
+/**
+ * Bank an amount for a contestant: they stop playing, their box is revealed and they
+ * drop out of the turn rotation.
+ */
+function settlePlayer(room: Room, player: Player, amount: number): void {
+    const { gameState } = room;
+
+    const points = calculatePoints({
+        finalWinnings: amount,
+        finalBoxValue: player.boxValue || 0,
+        roundDealt: gameState.currentRound,
+        isLastStanding: false,
+        isHighestWinnings: false, // Will be recalculated at game end
+        timeoutCount: player.timeoutCount,
+        boardMaxValue: getBoardMaxValue(gameState.settings.boxValues),
+        swappedFromValue: getSwappedFromValue(gameState, player),
+    });
+
+    updatePlayer(room.code, player.id, {
+        hasDealt: true,
+        dealAmount: amount,
+        roundDealt: gameState.currentRound,
+        isLastStanding: false,
+        points,
+    });
+
+    // Mark their box as opened and remove value from remaining
+    const box = gameState.boxes.find(b => b.number === player.boxNumber);
+    if (box && !box.isOpened) {
+        box.isOpened = true;
+        box.openedByPlayerId = player.id;
+        logGameEvent(room.code, { type: 'box-revealed', playerId: player.id, boxNumber: box.number, value: box.value });
+
+        const valueIndex = gameState.remainingValues.indexOf(box.value);
+        if (valueIndex > -1) {
+            gameState.remainingValues.splice(valueIndex, 1);
+            gameState.eliminatedValues.push(box.value);
+        }
+    }
+
+    // Remove from turn order
+    const turnIdx = gameState.turnOrder.indexOf(player.id);
+    if (turnIdx > -1) {
+        gameState.turnOrder.splice(turnIdx, 1);
+        // Keep currentTurnIndex stable if removal happened before it
+        if (turnIdx < gameState.currentTurnIndex) {
+            gameState.currentTurnIndex = Math.max(0, gameState.currentTurnIndex - 1);
+        }
+    }
+}
+
 /**
  * Trigger banker offer phase
  */
-function triggerBankerOffer(io: Server, roomCode: string): void {
+function triggerBankerOffer(io: GameServer, roomCode: string): void {
     const room = getRoom(roomCode);
-    if (!room) return;
+    // The round-complete delay can outlive the round (e.g. the last opponent left meanwhile)
+    if (!room || room.gameState.phase !== 'playing') return;
+    // Paused during that delay (or the last turn was handed on mid-pause): resuming calls the banker instead
+    if (room.gameState.isPaused) {
+        updateGameState(roomCode, { currentTurnPlayerId: null, turnExpiresAt: null, pausedRemainingMs: null });
+        return;
+    }
 
     clearTurnTimer(roomCode);
     clearOfferTimer(roomCode);
 
-    // Check if only one player remains
-    const lastPlayer = getLastActivePlayer(room.gameState);
+    // Check if only one player remains (a solo player always hears the round's offer)
+    const lastPlayer = room.gameState.mode === 'solo' ? null : getLastActivePlayer(room.gameState);
     if (lastPlayer) {
         finishLastPlayer(io, roomCode, lastPlayer);
         return;
@@ -534,21 +993,51 @@ function triggerBankerOffer(io: Server, roomCode: string): void {
         return;
     }
 
-    const offer = calculateBankerOffer(
-        room.gameState.remainingValues,
-        room.gameState.currentRound
-    );
-
-    const expiresAt = Date.now() + OFFER_TIMEOUT_MS;
+    const { offerTimeoutMs, personalOffers, currency, midGameSwaps } = room.gameState.settings;
+    const expiresAt = Date.now() + offerTimeoutMs;
 
     // Eligible players = active players at offer start (must respond)
-    const eligiblePlayerIds = Array.from(room.gameState.players.values())
-        .filter((p) => p.role === 'player' && p.boxNumber !== null && !p.hasDealt)
-        .map((p) => p.id);
+    const eligiblePlayers = Array.from(room.gameState.players.values())
+        .filter((p) => p.role === 'player' && p.boxNumber !== null && !p.hasDealt);
+    const eligiblePlayerIds = eligiblePlayers.map((p) => p.id);
+
+    // Now and then the banker offers a swap instead of money
+    if (
+        midGameSwaps &&
+        room.gameState.currentRound >= 2 &&
+        hasOpenableBoxes(room.gameState) &&
+        createRoomRandom(room.gameState)() < MID_GAME_SWAP_CHANCE
+    ) {
+        startSwapOffer(io, roomCode, eligiblePlayerIds, false);
+        return;
+    }
+
+    const breakdown = makeBankerOffer(room.gameState);
+    let offer: number | null = breakdown.offer;
+    let newBreakdowns: BankerOfferBreakdown[] = [breakdown];
+    const playerOffers: Record<string, number> = {};
+
+    if (personalOffers) {
+        // One offer per eligible player, shaped by their own history
+        newBreakdowns = eligiblePlayers.map((p) => personaliseOffer(breakdown, {
+            playerId: p.id,
+            offersRejected: p.offersRejected || 0,
+            timeoutCount: p.timeoutCount,
+        }));
+        newBreakdowns.forEach((b) => {
+            playerOffers[b.playerId!] = b.offer;
+        });
+        offer = null;
+        console.log(`[Game] Banker (${breakdown.strategy}) makes ${newBreakdowns.length} personal offers in room ${roomCode}`);
+    } else {
+        console.log(`[Game] Banker (${breakdown.strategy}) offers ${formatMoney(breakdown.offer, currency)} in room ${roomCode}`);
+    }
 
     updateGameState(roomCode, {
         phase: 'offer',
         currentOffer: offer,
+        playerOffers,
+        offerHistory: [...(room.gameState.offerHistory || []), ...newBreakdowns],
         offerExpiresAt: expiresAt,
         offerEligiblePlayerIds: eligiblePlayerIds,
         offerResponses: {},
@@ -556,543 +1045,1774 @@ function triggerBankerOffer(io: Server, roomCode: string): void {
         turnExpiresAt: null,
     });
 
+    logGameEvent(roomCode, { type: 'offer-made', round: room.gameState.currentRound, offer, playerOffers });
     broadcastGameState(io, roomCode);
 
     // Set timeout for offer expiry - default No Deal for non-responders
-    const offerTimer = setTimeout(() => handleOfferTimeout(io, roomCode), OFFER_TIMEOUT_MS);
+    const offerTimer = setTimeout(() => handleOfferTimeout(io, roomCode), offerTimeoutMs);
     offerTimers.set(roomCode, offerTimer);
+
+    scheduleBotActions(io, roomCode);
 }
 
 /**
- * Register all socket event handlers
+ * Start a swap offer: each eligible player may exchange their box for an unclaimed one.
+ * The final swap goes to the last player standing just before their box is revealed.
+ * While paused its timer waits for the resume.
  */
-export function registerSocketHandlers(io: Server, socket: Socket): void {
-    console.log(`[Socket] Client connected: ${socket.id}`);
-
-    // Create Room
-    socket.on('create-room', (payload: CreateRoomPayload, callback?: (res: { success: boolean; roomCode?: string; playerId?: string; error?: string }) => void) => {
-        const { playerName } = payload;
+function startSwapOffer(io: GameServer, roomCode: string, playerIds: string[], isFinal: boolean): void {
+    const room = getRoom(roomCode);
+    if (!room) return;
 
-        if (!playerName || playerName.trim().length === 0) {
-            if (typeof callback === 'function') {
-                callback({ success: false, error: 'Player name is required' });
-            }
-            return;
-        }
+    clearTurnTimer(roomCode);
+    clearOfferTimer(roomCode);
+    clearSwapTimer(roomCode);
 
-        const { room, playerId } = createRoom(socket.id, playerName.trim());
-        socket.join(room.code);
+    const { swapTimeoutMs } = room.gameState.settings;
+    const { isPaused } = room.gameState;
 
-        console.log(`[Room] Created room ${room.code} by ${playerName}`);
+    updateGameState(roomCode, {
+        phase: 'swap-offer',
+        currentOffer: null,
+        offerExpiresAt: null,
+        playerOffers: {},
+        swapExpiresAt: isPaused ? null : Date.now() + swapTimeoutMs,
+        ...(isPaused ? { pausedRemainingMs: swapTimeoutMs } : {}),
+        isFinalSwap: isFinal,
+        swapEligiblePlayerIds: playerIds,
+        swapResponses: {},
+        currentTurnPlayerId: null,
+        turnExpiresAt: null,
+    });
 
-        if (typeof callback === 'function') {
-            callback({
-                success: true,
-                roomCode: room.code,
-                playerId,
-            });
-        }
+    console.log(`[Game] Banker offers ${isFinal ? 'the final' : 'a'} swap to ${playerIds.length} player(s) in room ${roomCode}`);
+    logGameEvent(roomCode, { type: 'swap-offered', playerIds, isFinal });
+    broadcastGameState(io, roomCode);
+    if (isPaused) return;
 
-        broadcastGameState(io, room.code);
-    });
+    const timer = setTimeout(() => handleSwapTimeout(io, roomCode), swapTimeoutMs);
+    swapTimers.set(roomCode, timer);
 
-    // Join Room
-    socket.on('join-room', (payload: JoinRoomPayload, callback?: (res: { success: boolean; roomCode?: string; playerId?: string; error?: string }) => void) => {
-        const { roomCode, playerName, password, asSpectator } = payload;
+    scheduleBotActions(io, roomCode);
+}
 
-        if (!playerName || playerName.trim().length === 0) {
-            if (typeof callback === 'function') {
-                callback({ success: false, error: 'Player name is required' });
-            }
-            return;
-        }
+/**
+ * Give a player a different unclaimed box. Returns an error if the box can't be taken.
+ */
+function applySwap(gameState: GameState, player: Player, boxNumber: number): AckError | null {
+    const box = getUnclaimedBoxes(gameState).find((b) => b.number === boxNumber);
+    if (!box) return rejection('INVALID_BOX', 'That box can\'t be swapped to');
+
+    // Remember the box they started the game with (a second swap keeps the original)
+    if (player.swappedFromBox === null || player.swappedFromBox === undefined) {
+        player.swappedFromBox = player.boxNumber;
+    } else if (player.swappedFromBox === box.number) {
+        player.swappedFromBox = null; // Swapped back to where they began
+    }
+    player.boxNumber = box.number;
+    player.boxValue = box.value;
+    return null;
+}
 
-        if (!roomCode || roomCode.trim().length === 0) {
-            if (typeof callback === 'function') {
-                callback({ success: false, error: 'Room code is required' });
-            }
-            return;
-        }
+/**
+ * Handle swap timeout - anyone who hasn't decided keeps their box (counted as a timeout)
+ */
+function handleSwapTimeout(io: GameServer, roomCode: string): void {
+    const room = getRoom(roomCode);
+    if (!room || room.gameState.phase !== 'swap-offer' || room.gameState.isPaused) return;
 
-        const result = joinRoom(
-            roomCode.trim().toUpperCase(),
-            socket.id,
-            playerName.trim(),
-            { password, asSpectator }
-        );
+    console.log(`[Game] Swap timeout - non-responders keep their box`);
 
-        if (!result.success) {
-            if (typeof callback === 'function') {
-                callback({ success: false, error: result.error });
+    room.gameState.swapEligiblePlayerIds.forEach((playerId) => {
+        if (room.gameState.swapResponses[playerId] === undefined) {
+            room.gameState.swapResponses[playerId] = null;
+            const player = room.gameState.players.get(playerId);
+            if (player?.isConnected) {
+                player.timeoutCount += 1;
             }
-            return;
         }
+    });
 
-        socket.join(roomCode.toUpperCase());
-
-        console.log(`[Room] ${playerName} joined room ${roomCode}${asSpectator ? ' as spectator' : ''}`);
+    endSwapAndContinue(io, roomCode);
+}
 
-        if (typeof callback === 'function') {
-            callback({
-                success: true,
-                roomCode: roomCode.toUpperCase(),
-                playerId: result.playerId,
-            });
-        }
+/**
+ * End the swap offer: reveal the last player's box after the final swap, otherwise
+ * carry on as after a banker offer
+ */
+function endSwapAndContinue(io: GameServer, roomCode: string): void {
+    const room = getRoom(roomCode);
+    if (!room) return;
 
-        const code = roomCode.toUpperCase();
-        broadcastGameState(io, code);
-        // Ensure late-joining spectators (or reconnecting tabs that re-join) can see the current leaderboard.
-        emitLeaderboardSnapshotToSocket(io, code, socket.id);
-    });
+    clearSwapTimer(roomCode);
 
-    // Reconnect
-    socket.on('reconnect-player', (payload: { playerId: string }, callback) => {
-        const room = reconnectPlayer(payload.playerId, socket.id);
-        if (room) {
-            socket.join(room.code);
-            console.log(`[Socket] Player ${payload.playerId} reconnected`);
-            callback({ success: true, roomCode: room.code });
-            broadcastGameState(io, room.code);
-            // Re-send the latest leaderboard snapshot (especially important if the game already finished).
-            emitLeaderboardSnapshotToSocket(io, room.code, socket.id);
+    if (room.gameState.isFinalSwap) {
+        const lastPlayer = getLastActivePlayer(room.gameState);
+        if (lastPlayer) {
+            revealLastPlayer(io, roomCode, lastPlayer);
         } else {
-            callback({ success: false, error: 'Player not found' });
+            finishGame(io, roomCode);
         }
-    });
+        return;
+    }
 
-    // Select Box
-    socket.on('select-box', (payload: SelectBoxPayload) => {
-        const playerId = getPlayerIdFromSocket(socket.id);
-        if (!playerId) return;
+    endOfferAndContinue(io, roomCode);
+}
 
-        const room = getRoomByPlayerId(playerId);
+/**
+ * Open a box for the player whose turn it is, then move the turn on (or end the round).
+ * Returns why if the box can't be opened.
+ */
+function openBoxForPlayer(io: GameServer, roomCode: string, playerId: string, boxNumber: number): AckError | null {
+    const room = getRoom(roomCode);
+    if (!room) return rejection('NOT_IN_ROOM', 'Room not found');
+    if (room.gameState.phase !== 'playing') return rejection('WRONG_PHASE', 'Boxes can only be opened during play');
+    if (room.gameState.isPaused) return rejection('GAME_PAUSED', 'The game is paused');
+
+    // Verify it's this player's turn
+    if (room.gameState.currentTurnPlayerId !== playerId) {
+        console.log(`[Game] Not ${playerId}'s turn`);
+        return rejection('NOT_YOUR_TURN', 'It\'s not your turn');
+    }
+
+    const player = getPlayer(room.code, playerId);
+    if (!player || player.role !== 'player') return rejection('NOT_A_PLAYER', 'Only contestants can open boxes');
+    if (player.hasDealt) return rejection('ALREADY_DEALT', 'You have already taken a deal');
+
+    // If the round is already complete, refuse any further opens (prevents double-open exploits)
+    const boxesToOpenForThisRound = getBoxesToOpenForRound(room.gameState.currentRound, room.gameState.settings.roundSchedule);
+    if (room.gameState.boxesOpenedThisRound.length >= boxesToOpenForThisRound) {
+        return rejection('ROUND_COMPLETE', 'This round\'s boxes are all open');
+    }
+
+    const box = room.gameState.boxes.find((b) => b.number === boxNumber);
+    if (!box) return rejection('INVALID_BOX', `There is no box ${boxNumber}`);
+    if (box.isOpened) return rejection('BOX_OPENED', `Box ${boxNumber} is already open`);
+
+    // Can't open own box or another player's box
+    const boxOwner = Array.from(room.gameState.players.values()).find(
+        (p) => p.boxNumber === boxNumber
+    );
+    if (boxOwner) return rejection('BOX_RESERVED', `Box ${boxNumber} belongs to ${boxOwner.id === playerId ? 'you' : boxOwner.name}`);
+
+    // Clear turn timer
+    clearTurnTimer(room.code);
+
+    // Open the box
+    box.isOpened = true;
+    box.openedByPlayerId = playerId;
+
+    // Update remaining/eliminated values
+    const valueIndex = room.gameState.remainingValues.indexOf(box.value);
+    if (valueIndex > -1) {
+        room.gameState.remainingValues.splice(valueIndex, 1);
+        room.gameState.eliminatedValues.push(box.value);
+    }
+
+    room.gameState.boxesOpenedThisRound.push(boxNumber);
+
+    console.log(`[Game] Player ${playerId} opened box ${boxNumber} (value: ${formatMoney(box.value, room.gameState.settings.currency)})`);
+    logGameEvent(room.code, { type: 'box-opened', playerId, boxNumber, value: box.value, round: room.gameState.currentRound });
+
+    // Check if round is complete
+    const roundComplete = isRoundComplete(room.gameState);
+
+    if (roundComplete) {
+        // Advance starting index for next round so we continue rotation fairly
+        const nextStartIdx = getNextActivePlayerIndex(room.gameState, room.gameState.currentTurnIndex + 1);
+        updateGameState(room.code, {
+            currentTurnIndex: nextStartIdx !== -1 ? nextStartIdx : room.gameState.currentTurnIndex,
+            // Clear turn ownership during the short pause before the banker offer
+            currentTurnPlayerId: null,
+            turnExpiresAt: null,
+        });
+
+        // Broadcast with revealed box (and cleared turn)
+        broadcastGameState(io, room.code, { boxNumber, value: box.value });
+
+        // Round complete, trigger banker offer after delay
+        setTimeout(() => {
+            triggerBankerOffer(io, room.code);
+        }, 1500);
+    } else {
+        // Broadcast with revealed box
+        broadcastGameState(io, room.code, { boxNumber, value: box.value });
+
+        // Move to next player's turn
+        const nextIdx = getNextActivePlayerIndex(room.gameState, room.gameState.currentTurnIndex + 1);
+        if (nextIdx !== -1) {
+            updateGameState(room.code, { currentTurnIndex: nextIdx });
+            setCurrentTurn(io, room.code);
+        }
+    }
+    return null;
+}
+
+/**
+ * Record a player's Deal / No Deal on the offer in front of them, continuing once
+ * everyone eligible has answered. Returns why if the answer can't be taken.
+ */
+function respondToOffer(io: GameServer, roomCode: string, playerId: string, accepted: boolean): AckError | null {
+    const room = getRoom(roomCode);
+    if (!room) return rejection('NOT_IN_ROOM', 'Room not found');
+    if (room.gameState.phase !== 'offer') return rejection('WRONG_PHASE', 'There is no offer on the table');
+    if (room.gameState.isPaused) return rejection('GAME_PAUSED', 'The game is paused');
+
+    const player = getPlayer(room.code, playerId);
+    if (!player || player.role !== 'player') return rejection('NOT_A_PLAYER', 'Only contestants can answer the banker');
+    if (player.hasDealt) return rejection('ALREADY_DEALT', 'You have already taken a deal');
+
+    // Only one response per offer per player
+    if (room.gameState.offerResponses[playerId] !== undefined) {
+        return rejection('ALREADY_RESPONDED', 'You have already answered this offer');
+    }
+
+    // Only eligible players can respond (active at offer start)
+    if (!room.gameState.offerEligiblePlayerIds.includes(playerId)) {
+        return rejection('NOT_ELIGIBLE', 'This offer was not made to you');
+    }
+
+    room.gameState.offerResponses[playerId] = accepted;
+
+    const offer = getOfferFor(room.gameState, playerId);
+    logGameEvent(room.code, { type: 'deal-response', playerId, accepted, amount: offer });
+    if (accepted && offer !== null) {
+        // Player took the deal
+        settlePlayer(room, player, offer);
+        console.log(`[Game] Player ${playerId} accepted deal: ${formatMoney(offer, room.gameState.settings.currency)}`);
+    } else {
+        player.offersRejected = (player.offersRejected || 0) + 1;
+        console.log(`[Game] Player ${playerId} rejected deal`);
+    }
+
+    // Update everyone with new state (and in-game leaderboard)
+    broadcastGameState(io, room.code);
+    emitLeaderboardUpdate(io, room.code);
+
+    // If everyone who was eligible for this offer has responded, continue.
+    const eligible = room.gameState.offerEligiblePlayerIds || [];
+    const allResponded = eligible.every((pid) => room.gameState.offerResponses[pid] !== undefined);
+    if (allResponded) {
+        endOfferAndContinue(io, room.code);
+    }
+    return null;
+}
+
+/**
+ * Record a player's swap decision: take an unclaimed box, or keep their own (null).
+ * Returns an error if the decision can't be taken.
+ */
+function respondToSwap(io: GameServer, roomCode: string, playerId: string, boxNumber: number | null): AckError | null {
+    const room = getRoom(roomCode);
+    if (!room || room.gameState.phase !== 'swap-offer') return rejection('WRONG_PHASE', 'There is no swap on offer');
+    if (room.gameState.isPaused) return rejection('GAME_PAUSED', 'The game is paused');
+
+    const player = getPlayer(room.code, playerId);
+    if (!player || !room.gameState.swapEligiblePlayerIds.includes(playerId)) {
+        return rejection('NOT_ELIGIBLE', 'The swap was not offered to you');
+    }
+
+    // Only one decision per swap offer
+    if (room.gameState.swapResponses[playerId] !== undefined) {
+        return rejection('ALREADY_RESPONDED', 'You have already decided');
+    }
+
+    const fromBox = player.boxNumber;
+    if (boxNumber !== null) {
+        const error = applySwap(room.gameState, player, boxNumber);
+        if (error) return error;
+        console.log(`[Game] Player ${playerId} swapped to box ${boxNumber}`);
+    } else {
+        console.log(`[Game] Player ${playerId} kept their box`);
+    }
+
+    room.gameState.swapResponses[playerId] = boxNumber;
+    logGameEvent(room.code, { type: 'swap-response', playerId, fromBox, toBox: boxNumber });
+    broadcastGameState(io, room.code);
+
+    const allDecided = room.gameState.swapEligiblePlayerIds.every((pid) => room.gameState.swapResponses[pid] !== undefined);
+    if (allDecided) {
+        endSwapAndContinue(io, room.code);
+    }
+    return null;
+}
+
+/**
+ * Clear any pending bot actions for a room
+ */
+function clearBotTimers(roomCode: string): void {
+    botTimers.get(roomCode)?.forEach((timer) => clearTimeout(timer));
+    botTimers.delete(roomCode);
+}
+
+/**
+ * Run a bot action after a humanlike pause
+ */
+function scheduleBotAction(roomCode: string, action: () => void): void {
+    const timer = setTimeout(() => {
+        botTimers.set(roomCode, (botTimers.get(roomCode) || []).filter((t) => t !== timer));
+        action();
+    }, getBotDelayMs(Math.random));
+
+    botTimers.set(roomCode, [...(botTimers.get(roomCode) || []), timer]);
+}
+
+/**
+ * Whether the server plays for this contestant: bots always, humans once they are away
+ */
+function isOnAutopilot(player: Player | undefined): boolean {
+    return !!player && (player.isBot || player.isAway);
+}
+
+/**
+ * Queue whatever the room's bots and away players have to do in the current phase: open a
+ * box on their turn, answer the banker, or decide on a swap (both always keep their box).
+ * Away players follow the room's disconnect policy. Each action goes through the same
+ * path as a human's, so a stale one is simply ignored.
+ */
+function scheduleBotActions(io: GameServer, roomCode: string): void {
+    clearBotTimers(roomCode);
+
+    const room = getRoom(roomCode);
+    if (!room || room.gameState.isPaused) return;
+    const { gameState } = room;
+    const { disconnectPolicy, leaveRule } = gameState.settings;
+
+    const autopiloted = Array.from(gameState.players.values()).filter((p) => isOnAutopilot(p) && p.role === 'player' && !p.hasDealt);
+
+    if (gameState.phase === 'playing') {
+        const player = autopiloted.find((p) => p.id === gameState.currentTurnPlayerId);
+        if (!player) return;
+
+        if (player.isAway && disconnectPolicy === 'skip') {
+            // Only skip while someone can still open boxes, or the turn would go round forever
+            const someonePlays = Array.from(gameState.players.values()).some((p) => p.role === 'player' && !p.hasDealt && !p.isAway);
+            if (someonePlays) skipAwayTurn(io, roomCode, player.id);
+            return;
+        }
+
+        scheduleBotAction(roomCode, () => {
+            const current = getRoom(roomCode);
+            if (!current || !isOnAutopilot(current.gameState.players.get(player.id))) return;
+            const candidates = getUnclaimedBoxes(current.gameState).map((b) => b.number);
+            const boxNumber = pickBotBox(candidates, createRoomRandom(current.gameState));
+            if (boxNumber !== null) {
+                openBoxForPlayer(io, roomCode, player.id, boxNumber);
+            }
+        });
+        return;
+    }
+
+    if (gameState.phase === 'offer') {
+        autopiloted
+            .filter((p) => gameState.offerEligiblePlayerIds.includes(p.id) && gameState.offerResponses[p.id] === undefined)
+            .forEach((player) => scheduleBotAction(roomCode, () => {
+                const current = getRoom(roomCode);
+                if (!current || current.gameState.phase !== 'offer') return;
+                if (!isOnAutopilot(current.gameState.players.get(player.id))) return;
+                const offer = getOfferFor(current.gameState, player.id);
+                const accepted = offer !== null && (player.isAway
+                    ? disconnectPolicy === 'auto-play' && leaveRule === 'take-offer'
+                    : shouldBotDeal(
+                        offer,
+                        current.gameState.remainingValues,
+                        player.botDifficulty || 'medium',
+                        createRoomRandom(current.gameState)
+                    ));
+                respondToOffer(io, roomCode, player.id, accepted);
+            }));
+        return;
+    }
+
+    if (gameState.phase === 'swap-offer') {
+        autopiloted
+            .filter((p) => gameState.swapEligiblePlayerIds.includes(p.id) && gameState.swapResponses[p.id] === undefined)
+            .forEach((player) => scheduleBotAction(roomCode, () => {
+                const current = getRoom(roomCode);
+                if (!current || !isOnAutopilot(current.gameState.players.get(player.id))) return;
+                respondToSwap(io, roomCode, player.id, null);
+            }));
+    }
+}
+
+/**
+ * Clear a player's pending disconnect grace period
+ */
+function clearAwayTimer(playerId: string): void {
+    const existing = awayTimers.get(playerId);
+    if (existing) {
+        clearTimeout(existing);
+        awayTimers.delete(playerId);
+    }
+}
+
+/**
+ * Start the grace period after a contestant drops mid-game. If they are still gone when
+ * it expires, they are marked away and the room's disconnect policy plays for them.
+ * Solo games just wait, since nobody else is held up.
+ */
+function scheduleAwayCheck(io: GameServer, roomCode: string, playerId: string): void {
+    clearAwayTimer(playerId);
+
+    const timer = setTimeout(() => {
+        awayTimers.delete(playerId);
+
+        const room = getRoom(roomCode);
+        if (!room) return;
+        const { gameState } = room;
+        const midGame = gameState.phase === 'playing' || gameState.phase === 'offer' || gameState.phase === 'swap-offer';
+        if (!midGame || gameState.mode === 'solo') return;
+
+        const player = gameState.players.get(playerId);
+        if (!player || player.isConnected || player.isAway || player.role !== 'player' || player.hasDealt) return;
+
+        updatePlayer(roomCode, playerId, { isAway: true });
+        console.log(`[Game] Player ${playerId} is away in ${roomCode} (${gameState.settings.disconnectPolicy})`);
+        broadcastGameState(io, roomCode);
+        scheduleBotActions(io, roomCode);
+    }, DISCONNECT_GRACE_MS);
+    timer.unref?.();
+
+    awayTimers.set(playerId, timer);
+}
+
+/**
+ * Have the room's bots pick a free box and ready up in the lobby (again after a board
+ * change or a rematch clears their picks)
+ */
+function prepareBots(room: Room): void {
+    const { gameState } = room;
+    if (gameState.phase !== 'waiting') return;
+
+    const random = createRoomRandom(gameState);
+    gameState.players.forEach((bot) => {
+        if (!bot.isBot || bot.role !== 'player' || bot.boxNumber !== null) return;
+
+        const taken = Array.from(gameState.players.values()).map((p) => p.boxNumber);
+        const boxNumber = pickBotBox(gameState.boxes.map((b) => b.number).filter((n) => !taken.includes(n)), random);
+        if (boxNumber === null) return;
+
+        updatePlayer(room.code, bot.id, { boxNumber, isReady: true });
+        console.log(`[Game] Bot ${bot.id} selected box ${boxNumber}`);
+    });
+}
+
+/**
+ * Contestants with a say in pause votes: connected humans with a seat in the game
+ */
+function getPauseVoters(gameState: GameState): Player[] {
+    return Array.from(gameState.players.values()).filter((p) => p.role === 'player' && !p.isBot && p.isConnected);
+}
+
+/**
+ * Votes that carry a pause (or resume): a majority of the voters
+ */
+function getPauseVotesNeeded(gameState: GameState): number {
+    return Math.floor(getPauseVoters(gameState).length / 2) + 1;
+}
+
+/**
+ * Pause a game in progress: keep the time left on the current phase's timer and clear
+ * every timer, so nothing moves until it is resumed
+ */
+function pauseGame(io: GameServer, roomCode: string, playerId: string, byVote: boolean): void {
+    const room = getRoom(roomCode);
+    if (!room) return;
+    const { gameState } = room;
+
+    const expiresAt = gameState.phase === 'offer' ? gameState.offerExpiresAt
+        : gameState.phase === 'swap-offer' ? gameState.swapExpiresAt
+            : gameState.turnExpiresAt;
+
+    clearTurnTimer(roomCode);
+    clearOfferTimer(roomCode);
+    clearSwapTimer(roomCode);
+    clearBotTimers(roomCode);
+
+    updateGameState(roomCode, {
+        isPaused: true,
+        pausedRemainingMs: expiresAt !== null ? Math.max(0, expiresAt - Date.now()) : null,
+        pauseVotes: [],
+    });
+    logGameEvent(roomCode, { type: 'game-paused', playerId, byVote });
+    console.log(`[Game] Room ${roomCode} paused by ${byVote ? 'vote' : playerId}`);
+
+    broadcastGameState(io, roomCode);
+}
+
+/**
+ * Resume a paused game: the current phase's timer restarts with the time it had left
+ */
+function resumeGame(io: GameServer, roomCode: string, playerId: string, byVote: boolean): void {
+    const room = getRoom(roomCode);
+    if (!room) return;
+    const { gameState } = room;
+
+    const remaining = gameState.pausedRemainingMs;
+    const expiresAt = remaining !== null ? Date.now() + remaining : null;
+    updateGameState(roomCode, {
+        isPaused: false,
+        pausedRemainingMs: null,
+        pauseVotes: [],
+        ...(gameState.phase === 'offer' ? { offerExpiresAt: expiresAt }
+            : gameState.phase === 'swap-offer' ? { swapExpiresAt: expiresAt }
+                : { turnExpiresAt: expiresAt }),
+    });
+    logGameEvent(roomCode, { type: 'game-resumed', playerId, byVote });
+    console.log(`[Game] Room ${roomCode} resumed by ${byVote ? 'vote' : playerId}`);
+
+    broadcastGameState(io, roomCode);
+    rearmPhaseTimer(io, roomCode);
+}
+
+/**
+ * Clear any pending host-disconnect transfer for a room
+ */
+function clearHostTransferTimer(roomCode: string): void {
+    const existing = hostTransferTimers.get(roomCode);
+    if (existing) {
+        clearTimeout(existing);
+        hostTransferTimers.delete(roomCode);
+    }
+}
+
+/**
+ * Pick the next host: the first connected human contestant in join order (excluding `excludeId`)
+ */
+function pickNextHost(room: Room, excludeId: string): Player | undefined {
+    return Array.from(room.gameState.players.values()).find(
+        (p) => p.id !== excludeId && p.role === 'player' && !p.isBot && p.isConnected
+    );
+}
+
+/**
+ * Start the grace period after the host disconnects. If they are still gone when it
+ * expires, host passes to the next connected contestant.
+ */
+function scheduleHostTransfer(io: GameServer, roomCode: string): void {
+    clearHostTransferTimer(roomCode);
+
+    const timer = setTimeout(() => {
+        hostTransferTimers.delete(roomCode);
+
+        const room = getRoom(roomCode);
         if (!room) return;
 
-        const player = getPlayer(room.code, playerId);
-        if (!player || player.role !== 'player') return;
+        const host = room.gameState.players.get(room.gameState.hostId);
+        if (host?.isConnected) return;
+
+        const nextHost = pickNextHost(room, room.gameState.hostId);
+        if (!nextHost) return;
+
+        transferHost(roomCode, nextHost.id);
+        console.log(`[Room] Host ${room.gameState.hostId} did not return; host passed to ${nextHost.id} in ${roomCode}`);
+        io.to(roomCode).emit('host-changed', { hostId: nextHost.id, reason: 'disconnect' });
+        broadcastGameState(io, roomCode);
+    }, HOST_DISCONNECT_GRACE_MS);
+    timer.unref?.();
+
+    hostTransferTimers.set(roomCode, timer);
+}
+
+/**
+ * Remove a kicked/banned player and tell everyone
+ */
+function ejectPlayer(io: GameServer, room: Room, target: Player, reason: 'kicked' | 'banned'): void {
+    logGameEvent(room.code, { type: 'player-left', playerId: target.id, playerName: target.name, reason });
+    io.to(target.socketId).emit('kicked', { reason });
+    io.sockets.sockets.get(target.socketId)?.leave(room.code);
+    io.to(room.code).emit('player-left', { playerId: target.id, removed: true });
+    broadcastGameState(io, room.code);
+}
+
+/**
+ * Settle a contestant who left mid-game according to the room's leave rule, then keep
+ * the game moving without them.
+ */
+function resolveLeaverMidGame(io: GameServer, room: Room, player: Player): void {
+    const { gameState } = room;
+    const wasTheirTurn = gameState.currentTurnPlayerId === player.id;
+
+    // take-offer: the offer on the table, or what the banker would offer right now
+    const { leaveRule } = gameState.settings;
+    const amount = leaveRule === 'take-offer'
+        ? getOfferFor(gameState, player.id) ?? makeBankerOffer(gameState).offer
+        : player.boxValue || 0;
+
+    settlePlayer(room, player, amount);
+    console.log(`[Game] Player ${player.id} left mid-game (${leaveRule}): ${formatMoney(amount, gameState.settings.currency)}`);
+
+    emitLeaderboardUpdate(io, room.code);
+
+    if (gameState.phase === 'offer') {
+        gameState.offerEligiblePlayerIds = gameState.offerEligiblePlayerIds.filter((id) => id !== player.id);
+        delete gameState.offerResponses[player.id];
+        broadcastGameState(io, room.code);
+
+        const allResponded = gameState.offerEligiblePlayerIds.every((pid) => gameState.offerResponses[pid] !== undefined);
+        if (allResponded) {
+            endOfferAndContinue(io, room.code);
+        }
+        return;
+    }
+
+    if (gameState.phase === 'swap-offer') {
+        gameState.swapEligiblePlayerIds = gameState.swapEligiblePlayerIds.filter((id) => id !== player.id);
+        delete gameState.swapResponses[player.id];
+        broadcastGameState(io, room.code);
+
+        const allDecided = gameState.swapEligiblePlayerIds.every((pid) => gameState.swapResponses[pid] !== undefined);
+        if (allDecided) {
+            endSwapAndContinue(io, room.code);
+        }
+        return;
+    }
+
+    if (checkGameEnd(gameState)) {
+        finishGame(io, room.code);
+        return;
+    }
+
+    const lastPlayer = getPlayerToFinish(gameState);
+    if (lastPlayer) {
+        finishLastPlayer(io, room.code, lastPlayer);
+        return;
+    }
+
+    if (wasTheirTurn) {
+        // settlePlayer left currentTurnIndex on the next player in the rotation
+        clearTurnTimer(room.code);
+        setCurrentTurn(io, room.code);
+        return;
+    }
+
+    broadcastGameState(io, room.code);
+}
+
+/**
+ * Hand the host role on when the host leaves: prefer a connected contestant, otherwise
+ * any contestant who can still reconnect (who then gets the usual grace period).
+ */
+function reassignHostAfterLeave(io: GameServer, roomCode: string, leaverId: string): void {
+    const room = getRoom(roomCode);
+    if (!room || room.gameState.hostId !== leaverId) return;
+
+    clearHostTransferTimer(roomCode);
+
+    const nextHost = pickNextHost(room, leaverId) || Array.from(room.gameState.players.values()).find(
+        (p) => p.id !== leaverId && p.role === 'player' && !p.isBot && getRoomByPlayerId(p.id) !== undefined
+    );
+    if (!nextHost) return;
+
+    transferHost(roomCode, nextHost.id);
+    console.log(`[Room] Host ${leaverId} left; host passed to ${nextHost.id} in ${roomCode}`);
+    io.to(roomCode).emit('host-changed', { hostId: nextHost.id, reason: 'leave' });
+
+    if (!nextHost.isConnected) {
+        scheduleHostTransfer(io, roomCode);
+    }
+}
+
+/**
+ * Take a socket out of the Quick Play queue (no-op if it isn't queued)
+ */
+function leaveQuickPlay(socketId: string): boolean {
+    const index = quickPlayQueue.findIndex((e) => e.socketId === socketId);
+    if (index === -1) return false;
+    quickPlayQueue.splice(index, 1);
+    return true;
+}
+
+/**
+ * Seat queued players in new public rooms, MIN_PLAYERS_TO_START at a time. The first of
+ * each group hosts; everyone is told their room and player ID.
+ */
+function matchQuickPlay(io: GameServer, rateLimiter: RateLimiter): void {
+    while (quickPlayQueue.length >= MIN_PLAYERS_TO_START) {
+        const [first, ...rest] = quickPlayQueue.splice(0, MIN_PLAYERS_TO_START);
+
+        const { room, playerId } = createRoom(first.socketId, first.playerName, {
+            profileId: first.profileId,
+            fingerprint: first.fingerprint,
+            visibility: 'public',
+        });
+        rateLimiter.recordRoomCreated(first.ip);
+        const seated = [{ entry: first, playerId }];
+        rest.forEach((entry) => {
+            const result = joinRoom(room.code, entry.socketId, entry.playerName, {
+                profileId: entry.profileId,
+                fingerprint: entry.fingerprint,
+            });
+            if (result.success && result.playerId) seated.push({ entry, playerId: result.playerId });
+        });
+
+        seated.forEach(({ entry, playerId: seatedId }) => {
+            io.sockets.sockets.get(entry.socketId)?.join(room.code);
+            const player = room.gameState.players.get(seatedId)!;
+            logGameEvent(room.code, { type: 'player-joined', playerId: seatedId, playerName: player.name, role: 'player' });
+            io.to(entry.socketId).emit('quick-play-matched', { roomCode: room.code, playerId: seatedId });
+        });
+
+        console.log(`[Room] Quick Play matched ${seated.length} players into room ${room.code}`);
+        broadcastGameState(io, room.code);
+    }
+}
+
+/**
+ * Start the current phase's timer from its stored expiry (after a restart or a pause),
+ * and queue anything bots and away players have to do
+ */
+function rearmPhaseTimer(io: GameServer, code: string): void {
+    const room = getRoom(code);
+    if (!room) return;
+    const { gameState } = room;
+    const now = Date.now();
+
+    if (gameState.phase === 'playing') {
+        clearTurnTimer(code);
+
+        if (gameState.currentTurnPlayerId && gameState.turnExpiresAt) {
+            const playerId = gameState.currentTurnPlayerId;
+            const timer = setTimeout(() => {
+                handleTurnTimeout(io, code, playerId);
+            }, Math.max(0, gameState.turnExpiresAt - now));
+            turnTimers.set(code, timer);
+        } else {
+            // Restarted or paused during the delay between the last open and the banker
+            // offer (or before the first turn was assigned).
+            if (isRoundComplete(gameState)) {
+                triggerBankerOffer(io, code);
+            } else {
+                setCurrentTurn(io, code);
+            }
+        }
+        console.log(`[Game] Re-armed turn timer for room ${code}`);
+        scheduleBotActions(io, code);
+        return;
+    }
+
+    if (gameState.phase === 'offer') {
+        clearOfferTimer(code);
+        const remaining = gameState.offerExpiresAt ? Math.max(0, gameState.offerExpiresAt - now) : 0;
+        const timer = setTimeout(() => handleOfferTimeout(io, code), remaining);
+        offerTimers.set(code, timer);
+        console.log(`[Game] Re-armed offer timer for room ${code}`);
+    }
+
+    if (gameState.phase === 'swap-offer') {
+        clearSwapTimer(code);
+        const remaining = gameState.swapExpiresAt ? Math.max(0, gameState.swapExpiresAt - now) : 0;
+        const timer = setTimeout(() => handleSwapTimeout(io, code), remaining);
+        swapTimers.set(code, timer);
+        console.log(`[Game] Re-armed swap timer for room ${code}`);
+    }
+
+    scheduleBotActions(io, code);
+}
+
+/**
+ * Re-arm turn/offer timers for games restored from a persistent store.
+ * Timers are not persisted, so without this a restored game would wait forever.
+ * Expired deadlines fire immediately.
+ */
+export function restoreActiveGames(io: GameServer): void {
+    listRooms().forEach((room) => {
+        const { code, gameState } = room;
+
+        // Everyone comes back disconnected, so give the host (and every contestant) the usual grace period.
+        scheduleHostTransfer(io, code);
+        gameState.players.forEach((p) => {
+            if (!p.isBot && p.role === 'player' && !p.hasDealt) scheduleAwayCheck(io, code, p.id);
+        });
+
+        // A paused game stays paused until someone resumes it
+        if (gameState.isPaused) return;
+
+        rearmPhaseTimer(io, code);
+    });
+}
+
+/**
+ * Register all socket event handlers
+ */
+export function registerSocketHandlers(io: GameServer, socket: GameSocket, rateLimiter: RateLimiter): void {
+    console.log(`[Socket] Client connected: ${socket.id}`);
+
+    /**
+     * Listen for a client event. The payload is checked against the event's schema first;
+     * a bad one gets an INVALID_PAYLOAD ack and goes no further. The ack is only passed on
+     * if the client actually sent one.
+     */
+    const onEvent = <E extends ClientEventName>(
+        event: E,
+        listener: (payload: ClientPayload<E>, callback?: ClientAck<E>) => void
+    ): void => {
+        const handle = (payload: unknown, callback?: unknown) => {
+            // Events without a payload may be sent with just an ack
+            if (typeof payload === 'function' && callback === undefined) {
+                [payload, callback] = [undefined, payload];
+            }
+            const ack = typeof callback === 'function' ? (callback as ClientAck<E>) : undefined;
+
+            const result = validate(clientPayloadSchemas[event], payload);
+            if (!result.ok) {
+                console.log(`[Socket] Rejected ${event} from ${socket.id}: ${result.error}`);
+                ack?.(rejection('INVALID_PAYLOAD', result.error) as ClientAckResponse<E>);
+                return;
+            }
+            listener(result.value, ack);
+        };
+        // The raw listener takes unchecked input, so it goes on the untyped socket
+        (socket as Socket).on(event as string, handle);
+    };
+
+    // Get (or issue) a guest profile token
+    onEvent('get-profile', (payload, callback) => {
+        const existingProfileId = verifyProfileToken(payload?.token);
+        if (existingProfileId && payload?.token) {
+            callback?.({ success: true, profileId: existingProfileId, token: payload.token });
+            return;
+        }
+
+        const issued = issueProfileToken();
+        console.log(`[Profile] Issued profile ${issued.profileId}`);
+        callback?.({ success: true, ...issued });
+    });
+
+    // Create Room
+    onEvent('create-room', (payload, callback) => {
+        const { playerName, profileToken } = payload;
+        leaveQuickPlay(socket.id);
+
+        if (!playerName || playerName.trim().length === 0) {
+            callback?.(rejection('NAME_REQUIRED', 'Player name is required'));
+            return;
+        }
+
+        const mode = payload.mode ?? 'multiplayer';
+        const visibility = payload.visibility ?? 'private';
+
+        // Optional rules chosen up front (same bounds as the lobby settings form)
+        const initialSettings = payload.settings
+            ? applyRoomSettings(createDefaultRoomSettings(), payload.settings, 0, mode)
+            : { settings: createDefaultRoomSettings() };
+        if (!initialSettings.settings) {
+            callback?.(rejection('INVALID_SETTINGS', initialSettings.error ?? 'Invalid room rules'));
+            return;
+        }
+
+        const { room, playerId } = createRoom(socket.id, playerName.trim(), {
+            profileId: verifyProfileToken(profileToken),
+            fingerprint: getSocketFingerprint(socket),
+            settings: initialSettings.settings,
+            mode,
+            visibility,
+        });
+        rateLimiter.recordRoomCreated(getClientIp(socket));
+        socket.join(room.code);
+
+        console.log(`[Room] Created ${mode === 'solo' ? 'solo ' : ''}room ${room.code} by ${playerName}`);
+        logGameEvent(room.code, { type: 'player-joined', playerId, playerName: room.gameState.players.get(playerId)!.name, role: 'player' });
+
+        if (typeof callback === 'function') {
+            callback({
+                success: true,
+                roomCode: room.code,
+                playerId,
+            });
+        }
+
+        broadcastGameState(io, room.code);
+    });
+
+    // Join Room
+    onEvent('join-room', (payload, callback) => {
+        const { roomCode, playerName, password, asSpectator, profileToken, inviteToken } = payload;
+        leaveQuickPlay(socket.id);
+
+        if (!playerName || playerName.trim().length === 0) {
+            callback?.(rejection('NAME_REQUIRED', 'Player name is required'));
+            return;
+        }
+
+        if (!roomCode || roomCode.trim().length === 0) {
+            callback?.(rejection('ROOM_NOT_FOUND', 'Room code is required'));
+            return;
+        }
+
+        const result = joinRoom(
+            roomCode.trim().toUpperCase(),
+            socket.id,
+            playerName.trim(),
+            {
+                password,
+                asSpectator,
+                profileId: verifyProfileToken(profileToken),
+                fingerprint: getSocketFingerprint(socket),
+                inviteToken,
+            }
+        );
+
+        if (!result.success) {
+            callback?.(rejection(result.code, result.error));
+            return;
+        }
+
+        socket.join(roomCode.toUpperCase());
+
+        console.log(`[Room] ${playerName} joined room ${roomCode}${asSpectator ? ' as spectator' : ''}`);
+        const joiner = result.playerId ? getPlayer(roomCode.toUpperCase(), result.playerId) : undefined;
+        if (joiner) {
+            logGameEvent(roomCode.toUpperCase(), { type: 'player-joined', playerId: joiner.id, playerName: joiner.name, role: joiner.role });
+        }
+
+        if (typeof callback === 'function') {
+            callback({
+                success: true,
+                roomCode: roomCode.toUpperCase(),
+                playerId: result.playerId,
+            });
+        }
+
+        const code = roomCode.toUpperCase();
+        broadcastGameState(io, code);
+        // Ensure late-joining spectators (or reconnecting tabs that re-join) can see the current leaderboard.
+        emitLeaderboardSnapshotToSocket(io, code, socket.id);
+        emitChatHistoryToSocket(io, code, socket.id);
+    });
+
+    // Reconnect
+    onEvent('reconnect-player', (payload, callback) => {
+        const room = reconnectPlayer(payload.playerId, socket.id);
+        if (room) {
+            socket.join(room.code);
+            console.log(`[Socket] Player ${payload.playerId} reconnected`);
+            if (room.gameState.hostId === payload.playerId) {
+                clearHostTransferTimer(room.code);
+            }
+            clearAwayTimer(payload.playerId);
+            callback?.({ success: true, roomCode: room.code });
+            broadcastGameState(io, room.code);
+            // Re-send the latest leaderboard snapshot (especially important if the game already finished).
+            emitLeaderboardSnapshotToSocket(io, room.code, socket.id);
+            emitChatHistoryToSocket(io, room.code, socket.id);
+        } else {
+            callback?.(rejection('PLAYER_NOT_FOUND', 'Player not found'));
+        }
+    });
+
+    // Select Box
+    onEvent('select-box', (payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
+
+        const player = getPlayer(room.code, playerId);
+        if (!player || player.role !== 'player') {
+            callback?.(rejection('NOT_A_PLAYER', 'Spectators don\'t pick a box'));
+            return;
+        }
+
+        if (room.gameState.phase !== 'waiting' && room.gameState.phase !== 'selection') {
+            callback?.(rejection('WRONG_PHASE', 'The game has already started'));
+            return;
+        }
+
+        // Prevent changing box after the player has locked in (client UI already enforces this)
+        if (player.isReady) {
+            callback?.(rejection('ALREADY_READY', 'Your box is locked in'));
+            return;
+        }
+
+        // Validate box number
+        if (payload.boxNumber < 1 || payload.boxNumber > room.gameState.boxes.length) {
+            callback?.(rejection('INVALID_BOX', `There is no box ${payload.boxNumber}`));
+            return;
+        }
+
+        // Check if box is already taken
+        const boxTaken = Array.from(room.gameState.players.values()).some(
+            (p) => p.boxNumber === payload.boxNumber && p.id !== playerId
+        );
+        if (boxTaken) {
+            callback?.(rejection('BOX_RESERVED', `Box ${payload.boxNumber} is taken`));
+            return;
+        }
+
+        updatePlayer(room.code, playerId, { boxNumber: payload.boxNumber });
+
+        console.log(`[Game] Player ${playerId} selected box ${payload.boxNumber}`);
+
+        broadcastGameState(io, room.code);
+        callback?.({ success: true });
+    });
+
+    // Player Ready
+    onEvent('player-ready', (_payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
+
+        const player = getPlayer(room.code, playerId);
+        if (!player || player.role !== 'player') {
+            callback?.(rejection('NOT_A_PLAYER', 'Spectators don\'t pick a box'));
+            return;
+        }
+        if (!player.boxNumber) {
+            callback?.(rejection('NO_BOX_SELECTED', 'Pick a box first'));
+            return;
+        }
+
+        updatePlayer(room.code, playerId, { isReady: true });
+
+        console.log(`[Game] Player ${playerId} is ready`);
+
+        broadcastGameState(io, room.code);
+        callback?.({ success: true });
+    });
+
+    // Start Game (Host only)
+    onEvent('start-game', (_payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
+
+        // Verify host
+        if (room.gameState.hostId !== playerId) {
+            callback?.(rejection('NOT_HOST', 'Only the host can start the game'));
+            return;
+        }
+
+        if (room.gameState.phase !== 'waiting' && room.gameState.phase !== 'selection') {
+            callback?.(rejection('WRONG_PHASE', 'The game has already started'));
+            return;
+        }
+
+        // Check all players ready
+        if (!allPlayersReady(room.gameState)) {
+            const contestants = Array.from(room.gameState.players.values()).filter((p) => p.role === 'player').length;
+            const { minPlayersToStart } = room.gameState.settings;
+            callback?.(room.gameState.mode !== 'solo' && contestants < minPlayersToStart
+                ? rejection('NOT_ENOUGH_PLAYERS', `At least ${minPlayersToStart} players are needed to start`)
+                : rejection('NOT_ALL_READY', 'Not everyone has locked in a box'));
+            return;
+        }
+
+        // Get active players for turn order
+        const activePlayers = Array.from(room.gameState.players.values())
+            .filter(p => p.role === 'player' && p.boxNumber !== null);
+
+        // Create turn order from join order
+        const turnOrder = activePlayers.map(p => p.id);
+
+        // Pick random starting player
+        const startIndex = Math.floor(createRoomRandom(room.gameState)() * turnOrder.length);
+
+        // Assign box values to players
+        room.gameState.players.forEach((player) => {
+            if (player.boxNumber !== null && player.role === 'player') {
+                const box = room.gameState.boxes.find((b) => b.number === player.boxNumber);
+                if (box) {
+                    player.boxValue = box.value;
+                }
+            }
+        });
+
+        updateGameState(room.code, {
+            phase: 'playing',
+            currentRound: 1,
+            startedAt: Date.now(),
+            turnOrder,
+            currentTurnIndex: startIndex,
+            offerEligiblePlayerIds: [],
+            playerOffers: {},
+            offerResponses: {},
+            // Commit to the box layout now; the proof is revealed in game-ended
+            fairness: createFairnessProof(room.gameState),
+            gameId: generateGameId(),
+        });
+
+        logGameEvent(room.code, {
+            type: 'game-started',
+            players: activePlayers.map((p) => ({ id: p.id, name: p.name, boxNumber: p.boxNumber! })),
+            turnOrder,
+        });
+
+        console.log(`[Game] Game started in room ${room.code} with turn order: ${turnOrder.join(', ')}`);
+        console.log(`[Game] Box layout commitment for room ${room.code}: ${room.gameState.fairness?.commitment}`);
+
+        // Start first turn
+        setCurrentTurn(io, room.code);
+        callback?.({ success: true });
+    });
+
+    // Set Room Password (Host only, lobby only)
+    onEvent('set-room-password', (payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
+
+        if (room.gameState.hostId !== playerId) {
+            callback?.(rejection('NOT_HOST', 'Only the host can change the room password'));
+            return;
+        }
+
+        if (room.gameState.phase !== 'waiting') {
+            callback?.(rejection('WRONG_PHASE', 'Cannot change password after the game has started'));
+            return;
+        }
+
+        const raw = payload.password?.trim() ?? '';
+        const password = raw.length > 0 ? raw.slice(0, 64) : null;
+
+        setRoomPassword(room.code, password);
+        console.log(`[Room] Password ${password ? 'set' : 'cleared'} for room ${room.code}`);
+
+        callback?.({ success: true });
+        broadcastGameState(io, room.code);
+    });
+
+    // Create Invite (Host only): a link token that gets its holder past the room password
+    onEvent('create-invite', (payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
+
+        if (room.gameState.hostId !== playerId) {
+            callback?.(rejection('NOT_HOST', 'Only the host can create invites'));
+            return;
+        }
+
+        const ttlMs = payload?.expiresInMs ?? DEFAULT_INVITE_TTL_MS;
+        if (ttlMs < 60000 || ttlMs > MAX_INVITE_TTL_MS) {
+            callback?.(rejection('INVALID_SETTINGS', 'Invites must last between 1 minute and 7 days'));
+            return;
+        }
+
+        const maxUses = payload?.maxUses ?? DEFAULT_INVITE_MAX_USES;
+        if (maxUses < 1 || maxUses > MAX_INVITE_USES) {
+            callback?.(rejection('INVALID_SETTINGS', `Invites can be used between 1 and ${MAX_INVITE_USES} times`));
+            return;
+        }
+
+        const invite = createRoomInvite(room.code, ttlMs, maxUses);
+        if (!invite) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
+
+        console.log(`[Room] Invite created for room ${room.code} (${maxUses} use${maxUses === 1 ? '' : 's'})`);
+        callback?.({ success: true, invite });
+    });
+
+    // Set Room Visibility (Host only)
+    onEvent('set-room-visibility', (payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
+
+        if (room.gameState.hostId !== playerId) {
+            callback?.(rejection('NOT_HOST', 'Only the host can change who can find the room'));
+            return;
+        }
+
+        const { visibility } = payload;
+        if (visibility === 'public' && room.gameState.mode === 'solo') {
+            callback?.(rejection('SOLO_GAME', 'Solo games cannot be listed'));
+            return;
+        }
+
+        setRoomVisibility(room.code, visibility);
+        console.log(`[Room] Room ${room.code} is now ${visibility}`);
+
+        callback?.({ success: true });
+        broadcastGameState(io, room.code);
+    });
 
-        if (room.gameState.phase !== 'waiting' && room.gameState.phase !== 'selection') {
+    // List Public Rooms (the room browser)
+    onEvent('list-public-rooms', (_payload, callback) => {
+        callback?.({ success: true, rooms: listPublicRooms() });
+    });
+
+    // Join Quick Play (matched into a new public room once enough players are waiting)
+    onEvent('join-quick-play', (payload, callback) => {
+        const playerName = payload.playerName.trim();
+        if (playerName.length === 0) {
+            callback?.(rejection('NAME_REQUIRED', 'Player name is required'));
             return;
         }
 
-        // Prevent changing box after the player has locked in (client UI already enforces this)
-        if (player.isReady) return;
+        const currentPlayerId = getPlayerIdFromSocket(socket.id);
+        if (currentPlayerId && getRoomByPlayerId(currentPlayerId)) {
+            callback?.(rejection('ALREADY_IN_ROOM', 'Leave your current room first'));
+            return;
+        }
 
-        // Validate box number
-        if (!Number.isInteger(payload.boxNumber) || payload.boxNumber < 1 || payload.boxNumber > room.gameState.boxes.length) {
+        leaveQuickPlay(socket.id);
+        quickPlayQueue.push({
+            socketId: socket.id,
+            playerName,
+            profileId: verifyProfileToken(payload.profileToken),
+            fingerprint: getSocketFingerprint(socket),
+            ip: getClientIp(socket),
+        });
+        console.log(`[Room] ${playerName} joined Quick Play (${quickPlayQueue.length} waiting)`);
+
+        callback?.({ success: true, waiting: quickPlayQueue.length });
+        matchQuickPlay(io, rateLimiter);
+    });
+
+    // Leave Quick Play
+    onEvent('leave-quick-play', (_payload, callback) => {
+        if (!leaveQuickPlay(socket.id)) {
+            callback?.(rejection('NOT_QUEUED', 'Not in the Quick Play queue'));
+            return;
+        }
+        callback?.({ success: true });
+    });
+
+    // Update Room Settings (Host only; only the chat settings can change once the game has started)
+    onEvent('update-room-settings', (payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
             return;
         }
 
-        // Check if box is already taken
-        const boxTaken = Array.from(room.gameState.players.values()).some(
-            (p) => p.boxNumber === payload.boxNumber && p.id !== playerId
-        );
-        if (boxTaken) return;
+        if (room.gameState.hostId !== playerId) {
+            callback?.(rejection('NOT_HOST', 'Only the host can change the room rules'));
+            return;
+        }
 
-        updatePlayer(room.code, playerId, { boxNumber: payload.boxNumber });
+        const changedKeys = Object.keys(payload.settings) as (keyof RoomSettings)[];
+        if (room.gameState.phase !== 'waiting' && !changedKeys.every((key) => CHAT_SETTING_KEYS.includes(key))) {
+            callback?.(rejection('WRONG_PHASE', 'Cannot change the rules after the game has started'));
+            return;
+        }
 
-        console.log(`[Game] Player ${playerId} selected box ${payload.boxNumber}`);
+        const previousSlowModeMs = room.gameState.settings.chatSlowModeMs;
+        const contestantCount = Array.from(room.gameState.players.values()).filter((p) => p.role === 'player').length;
+        const result = applyRoomSettings(room.gameState.settings, payload?.settings, contestantCount, room.gameState.mode);
+        if (!result.settings) {
+            callback?.(rejection('INVALID_SETTINGS', result.error ?? 'Invalid room rules'));
+            return;
+        }
 
+        updateRoomSettings(room.code, result.settings);
+        prepareBots(room); // A new board clears everyone's box
+        console.log(`[Room] Rules updated for room ${room.code}`);
+
+        callback?.({ success: true });
+        const { chatSlowModeMs } = result.settings;
+        if (chatSlowModeMs !== previousSlowModeMs) {
+            postSystemMessage(io, room.code, chatSlowModeMs > 0
+                ? `Slow mode is on: one message every ${chatSlowModeMs / 1000}s`
+                : 'Slow mode is off');
+        }
         broadcastGameState(io, room.code);
     });
 
-    // Player Ready
-    socket.on('player-ready', () => {
+    // Leave Room. In the lobby (or once finished) the player is removed and their box freed;
+    // a contestant leaving mid-game is settled by the room's leave rule and kept in the results.
+    onEvent('leave-room', (_payload, callback) => {
         const playerId = getPlayerIdFromSocket(socket.id);
-        if (!playerId) return;
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        const player = room && playerId ? room.gameState.players.get(playerId) : undefined;
+        if (!room || !player) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
 
-        const room = getRoomByPlayerId(playerId);
-        if (!room) return;
+        const { phase } = room.gameState;
+        const midGame = phase === 'playing' || phase === 'offer' || phase === 'swap-offer';
 
-        const player = getPlayer(room.code, playerId);
-        if (!player || !player.boxNumber || player.role !== 'player') return;
+        socket.leave(room.code);
+        logGameEvent(room.code, { type: 'player-left', playerId: player.id, playerName: player.name, reason: 'left' });
 
-        updatePlayer(room.code, playerId, { isReady: true });
+        if (midGame && player.role === 'player') {
+            detachPlayerFromRoom(room.code, player.id);
+            if (player.boxNumber !== null && !player.hasDealt) {
+                resolveLeaverMidGame(io, room, player);
+            }
+        } else {
+            removePlayerFromRoom(room.code, player.id);
+        }
 
-        console.log(`[Game] Player ${playerId} is ready`);
+        console.log(`[Room] ${player.id} left room ${room.code}`);
+        callback?.({ success: true });
 
+        if (!getRoom(room.code)) return; // Last one out
+
+        reassignHostAfterLeave(io, room.code, player.id);
+        io.to(room.code).emit('player-left', { playerId: player.id, removed: !midGame || player.role !== 'player' });
         broadcastGameState(io, room.code);
     });
 
-    // Start Game (Host only)
-    socket.on('start-game', () => {
+    // Request Rematch (Host only, once finished): same room, same roster, fresh boxes
+    onEvent('request-rematch', (_payload, callback) => {
         const playerId = getPlayerIdFromSocket(socket.id);
-        if (!playerId) return;
-
-        const room = getRoomByPlayerId(playerId);
-        if (!room) return;
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
 
-        // Verify host
         if (room.gameState.hostId !== playerId) {
+            callback?.(rejection('NOT_HOST', 'Only the host can start a rematch'));
             return;
         }
 
-        // Check all players ready
-        if (!allPlayersReady(room.gameState)) {
+        if (room.gameState.phase !== 'finished') {
+            callback?.(rejection('WRONG_PHASE', 'The current game has not finished yet'));
             return;
         }
 
-        // Get active players for turn order
-        const activePlayers = Array.from(room.gameState.players.values())
-            .filter(p => p.role === 'player' && p.boxNumber !== null);
+        clearTurnTimer(room.code);
+        clearOfferTimer(room.code);
+        clearBotTimers(room.code);
+        resetRoomForRematch(room.code);
+        prepareBots(room);
+        console.log(`[Room] Rematch started in ${room.code} (game ${room.gameState.gamesCompleted + 1})`);
 
-        // Create turn order from join order
-        const turnOrder = activePlayers.map(p => p.id);
+        callback?.({ success: true });
+        io.to(room.code).emit('rematch-started', { roomCode: room.code });
+        // Clear the previous game's "This Game" leaderboard on every client
+        io.to(room.code).emit('leaderboard-update', { leaderboard: [] });
+        broadcastGameState(io, room.code);
+    });
 
-        // Pick random starting player
-        const startIndex = Math.floor(Math.random() * turnOrder.length);
+    // Host actions (kick / ban / mute / transfer) share the same validation
+    const resolveHostAction = (
+        payload: TargetPlayerPayload,
+        callback?: (res: { success: boolean; error?: string }) => void
+    ): { room: Room; target: Player } | null => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return null;
+        }
 
-        // Assign box values to players
-        room.gameState.players.forEach((player) => {
-            if (player.boxNumber !== null && player.role === 'player') {
-                const box = room.gameState.boxes.find((b) => b.number === player.boxNumber);
-                if (box) {
-                    player.boxValue = box.value;
-                }
-            }
-        });
+        if (room.gameState.hostId !== playerId) {
+            callback?.(rejection('NOT_HOST', 'Only the host can do that'));
+            return null;
+        }
 
-        updateGameState(room.code, {
-            phase: 'playing',
-            currentRound: 1,
-            startedAt: Date.now(),
-            turnOrder,
-            currentTurnIndex: startIndex,
-            offerEligiblePlayerIds: [],
-            offerResponses: {},
-        });
+        const target = room.gameState.players.get(payload.playerId);
+        if (!target) {
+            callback?.(rejection('PLAYER_NOT_FOUND', 'Player not found'));
+            return null;
+        }
 
-        console.log(`[Game] Game started in room ${room.code} with turn order: ${turnOrder.join(', ')}`);
+        if (target.id === playerId) {
+            callback?.(rejection('CANNOT_TARGET_SELF', 'You cannot target yourself'));
+            return null;
+        }
 
-        // Start first turn
-        setCurrentTurn(io, room.code);
-    });
+        return { room, target };
+    };
 
-    // Set Room Password (Host only, lobby only)
-    socket.on('set-room-password', (payload: { password: string | null }, callback?: (res: { success: boolean; error?: string }) => void) => {
+    // Add Bot (Host only, lobby only): a computer contestant that picks its own box and readies up
+    onEvent('add-bot', (payload, callback) => {
         const playerId = getPlayerIdFromSocket(socket.id);
-        if (!playerId) return;
-
-        const room = getRoomByPlayerId(playerId);
-        if (!room) {
-            callback?.({ success: false, error: 'Room not found' });
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
             return;
         }
 
         if (room.gameState.hostId !== playerId) {
-            callback?.({ success: false, error: 'Only the host can change the room password' });
+            callback?.(rejection('NOT_HOST', 'Only the host can add bots'));
             return;
         }
 
-        if (room.gameState.phase !== 'waiting') {
-            callback?.({ success: false, error: 'Cannot change password after the game has started' });
+        const difficulty = payload?.difficulty ?? 'medium';
+        if (!isBotDifficulty(difficulty)) {
+            callback?.(rejection('INVALID_PAYLOAD', 'Unknown bot difficulty'));
             return;
         }
 
-        const raw = typeof payload.password === 'string' ? payload.password.trim() : '';
-        const password = raw.length > 0 ? raw.slice(0, 64) : null;
+        const result = addBotToRoom(room.code, difficulty);
+        if (!result.success) {
+            callback?.(rejection(result.code, result.error));
+            return;
+        }
 
-        setRoomPassword(room.code, password);
-        console.log(`[Room] Password ${password ? 'set' : 'cleared'} for room ${room.code}`);
+        const bot = result.player;
+        prepareBots(room);
+        logGameEvent(room.code, { type: 'player-joined', playerId: bot.id, playerName: bot.name, role: 'player' });
+        console.log(`[Room] ${difficulty} bot ${bot.id} added to ${room.code}`);
 
-        callback?.({ success: true });
+        callback?.({ success: true, playerId: bot.id });
         broadcastGameState(io, room.code);
     });
 
-    // Get Global Leaderboard (runtime, top 100)
-    socket.on('get-global-leaderboard', (_payload: unknown, callback?: (res: { success: boolean; leaderboard?: ReturnType<typeof getGlobalLeaderboard>; error?: string }) => void) => {
-        try {
-            const leaderboard = getGlobalLeaderboard();
-            callback?.({ success: true, leaderboard });
-        } catch (err) {
-            callback?.({ success: false, error: 'Could not load global leaderboard' });
+    // Kick Player (Host only). Contestants can only be removed in the lobby; spectators any time.
+    onEvent('kick-player', (payload, callback) => {
+        const resolved = resolveHostAction(payload, callback);
+        if (!resolved) return;
+        const { room, target } = resolved;
+
+        if (target.role === 'player' && room.gameState.phase !== 'waiting') {
+            callback?.(rejection('WRONG_PHASE', 'Contestants can only be removed in the lobby'));
+            return;
         }
-    });
 
-    // Open Box (single box per turn)
-    socket.on('open-box', (payload: { boxNumber: number }) => {
-        const playerId = getPlayerIdFromSocket(socket.id);
-        if (!playerId) return;
+        removePlayerFromRoom(room.code, target.id);
+        console.log(`[Room] ${target.id} was kicked from ${room.code}`);
+
+        callback?.({ success: true });
+        ejectPlayer(io, room, target, 'kicked');
+    });
 
-        const room = getRoomByPlayerId(playerId);
-        if (!room || room.gameState.phase !== 'playing') return;
+    // Ban Player (Host only). Same rules as kick, and blocks rejoining for the room's lifetime.
+    onEvent('ban-player', (payload, callback) => {
+        const resolved = resolveHostAction(payload, callback);
+        if (!resolved) return;
+        const { room, target } = resolved;
 
-        // Verify it's this player's turn
-        if (room.gameState.currentTurnPlayerId !== playerId) {
-            console.log(`[Game] Not ${playerId}'s turn`);
+        if (target.role === 'player' && room.gameState.phase !== 'waiting') {
+            callback?.(rejection('WRONG_PHASE', 'Contestants can only be removed in the lobby'));
             return;
         }
 
-        const player = getPlayer(room.code, playerId);
-        if (!player || player.hasDealt || player.role !== 'player') return;
+        banPlayerFromRoom(room.code, target.id);
+        console.log(`[Room] ${target.id} was banned from ${room.code}`);
+
+        callback?.({ success: true });
+        ejectPlayer(io, room, target, 'banned');
+    });
 
-        // If the round is already complete, ignore any further opens (prevents double-open exploits)
-        const boxesToOpenForThisRound = getBoxesToOpenForRound(room.gameState.currentRound);
-        if (room.gameState.boxesOpenedThisRound.length >= boxesToOpenForThisRound) {
+    // Mute Player (Host only): a muted player can still read chat, but not post
+    onEvent('mute-player', (payload, callback) => {
+        const resolved = resolveHostAction(payload, callback);
+        if (!resolved) return;
+        const { room, target } = resolved;
+
+        if (target.isBot) {
+            callback?.(rejection('TARGET_IS_BOT', 'Bots don\'t chat'));
             return;
         }
 
-        const box = room.gameState.boxes.find((b) => b.number === payload.boxNumber);
-        if (!box || box.isOpened) return;
+        if (target.isMuted !== payload.muted) {
+            updatePlayer(room.code, target.id, { isMuted: payload.muted });
+            console.log(`[Room] ${target.id} was ${payload.muted ? 'muted' : 'unmuted'} in ${room.code}`);
+            postSystemMessage(io, room.code, payload.muted ? `${target.name} was muted by the host` : `${target.name} can chat again`);
+            broadcastGameState(io, room.code);
+        }
 
-        // Can't open own box or another player's box
-        const boxOwner = Array.from(room.gameState.players.values()).find(
-            (p) => p.boxNumber === payload.boxNumber
-        );
-        if (boxOwner) return;
+        callback?.({ success: true });
+    });
 
-        // Clear turn timer
-        clearTurnTimer(room.code);
+    // Transfer Host (Host only)
+    onEvent('transfer-host', (payload, callback) => {
+        const resolved = resolveHostAction(payload, callback);
+        if (!resolved) return;
+        const { room, target } = resolved;
 
-        // Open the box
-        box.isOpened = true;
-        box.openedByPlayerId = playerId;
+        if (target.role !== 'player' || target.isBot) {
+            callback?.(rejection('NOT_A_PLAYER', 'Only contestants can become host'));
+            return;
+        }
 
-        // Update remaining/eliminated values
-        const valueIndex = room.gameState.remainingValues.indexOf(box.value);
-        if (valueIndex > -1) {
-            room.gameState.remainingValues.splice(valueIndex, 1);
-            room.gameState.eliminatedValues.push(box.value);
+        if (!target.isConnected) {
+            callback?.(rejection('PLAYER_DISCONNECTED', 'That player is disconnected'));
+            return;
         }
 
-        room.gameState.boxesOpenedThisRound.push(payload.boxNumber);
+        clearHostTransferTimer(room.code);
+        transferHost(room.code, target.id);
+        console.log(`[Room] Host of ${room.code} transferred to ${target.id}`);
 
-        console.log(`[Game] Player ${playerId} opened box ${payload.boxNumber} (value: £${box.value})`);
+        callback?.({ success: true });
+        io.to(room.code).emit('host-changed', { hostId: target.id, reason: 'transfer' });
+        broadcastGameState(io, room.code);
+    });
 
-        // Check if round is complete
-        const boxesToOpen = boxesToOpenForThisRound;
-        const roundComplete = room.gameState.boxesOpenedThisRound.length >= boxesToOpen || !hasOpenableBoxes(room.gameState);
+    // Pause / Resume Game. The host's call takes effect at once; anyone else's is a vote,
+    // carried by a majority of the connected contestants.
+    const requestPause = (pause: boolean, callback?: (res: { success: boolean; error?: string }) => void) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        const player = room && playerId ? room.gameState.players.get(playerId) : undefined;
+        if (!room || !player) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
 
-        if (roundComplete) {
-            // Advance starting index for next round so we continue rotation fairly
-            const nextStartIdx = getNextActivePlayerIndex(room.gameState, room.gameState.currentTurnIndex + 1);
-            updateGameState(room.code, {
-                currentTurnIndex: nextStartIdx !== -1 ? nextStartIdx : room.gameState.currentTurnIndex,
-                // Clear turn ownership during the short pause before the banker offer
-                currentTurnPlayerId: null,
-                turnExpiresAt: null,
-            });
+        const { gameState } = room;
+        const midGame = gameState.phase === 'playing' || gameState.phase === 'offer' || gameState.phase === 'swap-offer';
+        if (!midGame) {
+            callback?.(rejection('WRONG_PHASE', 'The game is not in progress'));
+            return;
+        }
 
-            // Broadcast with revealed box (and cleared turn)
-            broadcastGameState(io, room.code, { boxNumber: payload.boxNumber, value: box.value });
+        if (gameState.isPaused === pause) {
+            callback?.(rejection('WRONG_PHASE', pause ? 'The game is already paused' : 'The game is not paused'));
+            return;
+        }
 
-            // Round complete, trigger banker offer after delay
-            setTimeout(() => {
-                triggerBankerOffer(io, room.code);
-            }, 1500);
-        } else {
-            // Broadcast with revealed box
-            broadcastGameState(io, room.code, { boxNumber: payload.boxNumber, value: box.value });
-
-            // Move to next player's turn
-            const nextIdx = getNextActivePlayerIndex(room.gameState, room.gameState.currentTurnIndex + 1);
-            if (nextIdx !== -1) {
-                updateGameState(room.code, { currentTurnIndex: nextIdx });
-                setCurrentTurn(io, room.code);
-            }
+        const apply = pause ? pauseGame : resumeGame;
+        if (gameState.hostId === player.id) {
+            apply(io, room.code, player.id, false);
+            callback?.({ success: true });
+            return;
         }
-    });
 
-    // Legacy: Open Boxes (batch - deprecated, use 'open-box' instead)
-    // Kept for backwards compatibility but opens only first box
-    socket.on('open-boxes', (payload: OpenBoxesPayload) => {
-        if (payload.boxNumbers.length > 0) {
-            // Directly call the open-box logic for the first box
-            const playerId = getPlayerIdFromSocket(socket.id);
-            if (!playerId) return;
-
-            const room = getRoomByPlayerId(playerId);
-            if (!room || room.gameState.phase !== 'playing') return;
-
-            // Verify it's this player's turn
-            if (room.gameState.currentTurnPlayerId !== playerId) {
-                console.log(`[Game] Not ${playerId}'s turn for batch open`);
-                return;
-            }
+        if (!getPauseVoters(gameState).some((p) => p.id === player.id)) {
+            callback?.(rejection('NOT_A_PLAYER', 'Only players can vote to pause'));
+            return;
+        }
 
-            const player = getPlayer(room.code, playerId);
-            if (!player || player.hasDealt || player.role !== 'player') return;
+        // Votes from players who have since dropped out don't count
+        const voterIds = getPauseVoters(gameState).map((p) => p.id);
+        const votes = [...new Set([...gameState.pauseVotes, player.id])].filter((id) => voterIds.includes(id));
+        callback?.({ success: true });
 
-            // If the round is already complete, ignore any further opens (prevents double-open exploits)
-            const boxesToOpenForThisRound = getBoxesToOpenForRound(room.gameState.currentRound);
-            if (room.gameState.boxesOpenedThisRound.length >= boxesToOpenForThisRound) {
-                return;
-            }
+        if (votes.length >= getPauseVotesNeeded(gameState)) {
+            apply(io, room.code, player.id, true);
+            return;
+        }
 
-            const boxNumber = payload.boxNumbers[0];
-            const box = room.gameState.boxes.find((b) => b.number === boxNumber);
-            if (!box || box.isOpened) return;
+        updateGameState(room.code, { pauseVotes: votes });
+        console.log(`[Game] ${player.id} voted to ${pause ? 'pause' : 'resume'} ${room.code} (${votes.length}/${getPauseVotesNeeded(gameState)})`);
+        broadcastGameState(io, room.code);
+    };
 
-            // Can't open own box or another player's box
-            const boxOwner = Array.from(room.gameState.players.values()).find(
-                (p) => p.boxNumber === boxNumber
-            );
-            if (boxOwner) return;
+    onEvent('pause-game', (_payload, callback) => {
+        requestPause(true, callback);
+    });
 
-            // Clear turn timer
-            clearTurnTimer(room.code);
+    onEvent('resume-game', (_payload, callback) => {
+        requestPause(false, callback);
+    });
 
-            // Open the box
-            box.isOpened = true;
-            box.openedByPlayerId = playerId;
+    // Get Global Leaderboard (one page of a season)
+    onEvent('get-global-leaderboard', (payload, callback) => {
+        try {
+            const page = getGlobalLeaderboard({
+                mode: payload?.mode,
+                season: payload?.season,
+                page: payload?.page,
+                pageSize: payload?.pageSize,
+            });
+            callback?.({ success: true, ...page });
+        } catch (err) {
+            callback?.(rejection('SERVER_ERROR', 'Could not load global leaderboard'));
+        }
+    });
 
-            // Update remaining/eliminated values
-            const valueIndex = room.gameState.remainingValues.indexOf(box.value);
-            if (valueIndex > -1) {
-                room.gameState.remainingValues.splice(valueIndex, 1);
-                room.gameState.eliminatedValues.push(box.value);
-            }
+    // Get Game Replay (any finished game, by ID)
+    onEvent('get-game-replay', (payload, callback) => {
+        const replay = getGameReplay(payload.gameId);
+        if (!replay) {
+            callback?.(rejection('REPLAY_NOT_FOUND', 'Replay not found'));
+            return;
+        }
+        callback?.({ success: true, replay });
+    });
 
-            room.gameState.boxesOpenedThisRound.push(boxNumber);
-
-            console.log(`[Game] Player ${playerId} opened box ${boxNumber} via legacy batch (value: £${box.value})`);
-
-            // Broadcast with revealed box
-            // Determine if round is complete BEFORE broadcasting so we can clear the turn in the same update
-            const boxesToOpen = boxesToOpenForThisRound;
-            const roundComplete = room.gameState.boxesOpenedThisRound.length >= boxesToOpen || !hasOpenableBoxes(room.gameState);
-            if (roundComplete) {
-                const nextStartIdx = getNextActivePlayerIndex(room.gameState, room.gameState.currentTurnIndex + 1);
-                updateGameState(room.code, {
-                    currentTurnIndex: nextStartIdx !== -1 ? nextStartIdx : room.gameState.currentTurnIndex,
-                    currentTurnPlayerId: null,
-                    turnExpiresAt: null,
-                });
-            }
+    // Open Box (single box per turn)
+    onEvent('open-box', (payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
 
-            broadcastGameState(io, room.code, { boxNumber, value: box.value });
+        const error = openBoxForPlayer(io, room.code, playerId, payload.boxNumber);
+        callback?.(error ?? { success: true });
+    });
 
-            // Check if round is complete
-            if (roundComplete) {
-                setTimeout(() => {
-                    triggerBankerOffer(io, room.code);
-                }, 1500);
-            } else {
-                const nextIdx = getNextActivePlayerIndex(room.gameState, room.gameState.currentTurnIndex + 1);
-                if (nextIdx !== -1) {
-                    updateGameState(room.code, { currentTurnIndex: nextIdx });
-                    setCurrentTurn(io, room.code);
-                }
-            }
+    // Legacy: Open Boxes (batch - deprecated, use 'open-box' instead)
+    // Kept for backwards compatibility but opens only first box
+    onEvent('open-boxes', (payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
         }
+        if (payload.boxNumbers.length === 0) {
+            callback?.(rejection('INVALID_BOX', 'Pick a box to open'));
+            return;
+        }
+
+        const error = openBoxForPlayer(io, room.code, playerId, payload.boxNumbers[0]);
+        callback?.(error ?? { success: true });
     });
 
     // Deal Response
-    socket.on('deal-response', (payload: DealResponsePayload) => {
+    onEvent('deal-response', (payload, callback) => {
         const playerId = getPlayerIdFromSocket(socket.id);
-        if (!playerId) return;
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
 
-        const room = getRoomByPlayerId(playerId);
-        if (!room || room.gameState.phase !== 'offer') return;
+        const error = respondToOffer(io, room.code, playerId, payload.accepted);
+        callback?.(error ?? { success: true });
+    });
 
-        const player = getPlayer(room.code, playerId);
-        if (!player || player.hasDealt || player.role !== 'player') return;
+    // Swap Response: take an unclaimed box, or keep your own (boxNumber null)
+    onEvent('swap-response', (payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
 
-        // Only one response per offer per player
-        if (room.gameState.offerResponses[playerId] !== undefined) return;
+        const error = respondToSwap(io, room.code, playerId, payload.boxNumber);
+        callback?.(error ?? { success: true });
+    });
 
-        // Only eligible players can respond (active at offer start)
-        if (!room.gameState.offerEligiblePlayerIds.includes(playerId)) return;
+    // Chat Message
+    onEvent('chat-message', (payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        const player = playerId && room ? getPlayer(room.code, playerId) : undefined;
+        if (!playerId || !room || !player) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
 
-        room.gameState.offerResponses[playerId] = !!payload.accepted;
+        // Spectators can't chat by default
+        if (player.role === 'spectator') {
+            callback?.(rejection('NOT_A_PLAYER', 'Spectators can\'t chat'));
+            return;
+        }
 
-        if (payload.accepted && room.gameState.currentOffer !== null) {
-            // Player took the deal
-            const points = calculatePoints({
-                finalWinnings: room.gameState.currentOffer,
-                finalBoxValue: player.boxValue || 0,
-                roundDealt: room.gameState.currentRound,
-                isLastStanding: false,
-                isHighestWinnings: false, // Will be recalculated at game end
-                timeoutCount: player.timeoutCount
-            });
+        if (player.isMuted) {
+            callback?.(rejection('MUTED', 'The host has muted you'));
+            return;
+        }
 
-            updatePlayer(room.code, playerId, {
-                hasDealt: true,
-                dealAmount: room.gameState.currentOffer,
-                roundDealt: room.gameState.currentRound,
-                isLastStanding: false,
-                points,
-            });
+        if (!payload.content.trim()) {
+            callback?.(rejection('EMPTY_MESSAGE', 'Type a message first'));
+            return;
+        }
 
-            // Mark their box as opened and remove value from remaining
-            const box = room.gameState.boxes.find(b => b.number === player.boxNumber);
-            if (box && !box.isOpened) {
-                box.isOpened = true;
-                box.openedByPlayerId = playerId;
-
-                // Remove value from remaining values
-                const valueIndex = room.gameState.remainingValues.indexOf(box.value);
-                if (valueIndex > -1) {
-                    room.gameState.remainingValues.splice(valueIndex, 1);
-                    room.gameState.eliminatedValues.push(box.value);
-                }
+        // Slow mode counts from the player's last message in the history (the host is exempt)
+        const { settings } = room.gameState;
+        if (settings.chatSlowModeMs > 0 && playerId !== room.gameState.hostId) {
+            const lastSent = getChatMessages(room.code).filter((m) => m.senderId === playerId).pop();
+            const waitMs = lastSent ? lastSent.timestamp + settings.chatSlowModeMs - Date.now() : 0;
+            if (waitMs > 0) {
+                callback?.(rejection('SLOW_MODE', `Slow mode is on: wait ${Math.ceil(waitMs / 1000)}s`));
+                return;
             }
+        }
 
-            console.log(`[Game] Player ${playerId} accepted deal: £${room.gameState.currentOffer}`);
-
-            // Remove from turn order
-            const turnIdx = room.gameState.turnOrder.indexOf(playerId);
-            if (turnIdx > -1) {
-                room.gameState.turnOrder.splice(turnIdx, 1);
-                // Keep currentTurnIndex stable if removal happened before it
-                if (turnIdx < room.gameState.currentTurnIndex) {
-                    room.gameState.currentTurnIndex = Math.max(0, room.gameState.currentTurnIndex - 1);
-                }
-            }
-        } else {
-            console.log(`[Game] Player ${playerId} rejected deal`);
+        const content = payload.content.slice(0, 500); // Limit message length
+        const filter = settings.chatFilter === 'off' ? { text: content, masked: false } : maskProfanity(content);
+        if (filter.masked && settings.chatFilter === 'block') {
+            callback?.(rejection('MESSAGE_BLOCKED', 'That message has words this room doesn\'t allow'));
+            return;
         }
 
-        // Update everyone with new state (and in-game leaderboard)
-        broadcastGameState(io, room.code);
-        emitLeaderboardUpdate(io, room.code);
+        const message = createChatMessage(room.code, player, filter.text, {
+            filtered: filter.masked,
+            slowModeMs: settings.chatSlowModeMs,
+        });
 
-        // If everyone who was eligible for this offer has responded, continue.
-        const eligible = room.gameState.offerEligiblePlayerIds || [];
-        const allResponded = eligible.every((pid) => room.gameState.offerResponses[pid] !== undefined);
-        if (allResponded) {
-            endOfferAndContinue(io, room.code);
-        }
+        addChatMessage(message);
+        logGameEvent(room.code, { type: 'chat', playerId, playerName: player.name, content: message.content });
+
+        io.to(room.code).emit('chat-message', message);
+        callback?.({ success: true });
     });
 
-    // Chat Message
-    socket.on('chat-message', (payload: ChatMessagePayload) => {
+    // Chat History: a page of older messages (the latest page arrives with chat-history on join)
+    onEvent('get-chat-history', (payload, callback) => {
         const playerId = getPlayerIdFromSocket(socket.id);
-        if (!playerId) return;
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        if (!playerId || !room) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
 
-        const room = getRoomByPlayerId(playerId);
-        if (!room) return;
+        const limit = Math.min(Math.max(payload?.limit ?? CHAT_HISTORY_PAGE_SIZE, 1), MAX_CHAT_HISTORY);
+        callback?.({ success: true, ...getChatHistoryPage(room.code, payload?.before, limit) });
+    });
 
-        const player = getPlayer(room.code, playerId);
-        if (!player) return;
+    // Report Message: flags someone else's message to the host, who can mute the sender
+    onEvent('report-message', (payload, callback) => {
+        const playerId = getPlayerIdFromSocket(socket.id);
+        const room = playerId ? getRoomByPlayerId(playerId) : undefined;
+        const player = playerId && room ? getPlayer(room.code, playerId) : undefined;
+        if (!playerId || !room || !player) {
+            callback?.(rejection('NOT_IN_ROOM', 'Room not found'));
+            return;
+        }
 
-        // Spectators can't chat by default
-        if (player.role === 'spectator') {
+        const message = getChatMessages(room.code).find((m) => m.id === payload.messageId);
+        if (!message) {
+            callback?.(rejection('MESSAGE_NOT_FOUND', 'That message is no longer in the chat'));
             return;
         }
 
-        const message = {
-            id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            roomCode: room.code,
-            senderId: playerId,
-            senderName: player.name,
-            content: payload.content.slice(0, 500), // Limit message length
-            timestamp: Date.now(),
-        };
+        if (message.kind !== 'player' || message.senderId === playerId) {
+            callback?.(rejection('NOT_ELIGIBLE', 'You can\'t report that message'));
+            return;
+        }
 
-        addChatMessage(message);
+        if (!reportChatMessage(room.code, message.id, playerId)) {
+            callback?.(rejection('ALREADY_REPORTED', 'You have already reported that message'));
+            return;
+        }
 
-        io.to(room.code).emit('chat-message', message);
+        console.log(`[Room] ${playerId} reported message ${message.id} from ${message.senderId} in ${room.code}`);
+        const host = room.gameState.players.get(room.gameState.hostId);
+        if (host && host.isConnected && host.id !== message.senderId) {
+            const reason = payload.reason?.trim();
+            postSystemMessage(
+                io,
+                room.code,
+                `${player.name} reported ${message.senderName}: "${message.content}"${reason ? ` (${reason})` : ''}`,
+                host.socketId
+            );
+        }
+
+        callback?.({ success: true });
     });
 
     // Disconnect
     socket.on('disconnect', () => {
         console.log(`[Socket] Client disconnected: ${socket.id}`);
+        leaveQuickPlay(socket.id);
 
         const result = handleDisconnect(socket.id);
         if (result) {
+            const room = getRoom(result.roomCode);
+            if (room && room.gameState.hostId === result.playerId) {
+                scheduleHostTransfer(io, result.roomCode);
+            }
+            if (room) {
+                scheduleAwayCheck(io, result.roomCode, result.playerId);
+            }
+
             io.to(result.roomCode).emit('player-left', {
                 playerId: result.playerId,
                 removed: result.removed
@@ -0,0 +1,255 @@
+/**
+ * Socket rate limiting
+ *
+ * Every inbound event spends a token from two buckets for its event class: one for the
+ * socket and one shared by everything from the same client IP (so opening more tabs
+ * doesn't buy more budget). Creating rooms is also capped per IP per hour, since every
+ * room is held in memory until cleanup: events that can make a room are refused at the
+ * cap, and handlers record each room they actually create. The limiter takes its clock
+ * as an option, so it can be driven with a fake one.
+ */
+
+import type { Socket } from 'socket.io';
+import type {
+    AckError,
+    ClientEventName,
+    ClientToServerEvents,
+    EventClass,
+    ServerToClientEvents,
+} from '../protocol/events';
+
+export type { EventClass };
+
+export interface BucketBudget {
+    capacity: number; // Burst size
+    refillPerSecond: number; // Sustained rate
+}
+
+export interface EventClassBudget {
+    perSocket: BucketBudget;
+    perIp: BucketBudget;
+}
+
+export interface RateLimitOptions {
+    budgets: Record<EventClass, EventClassBudget>;
+    roomsPerIpPerHour: number;
+    now: () => number; // Unix ms
+}
+
+export type RateLimitVerdict =
+    | { allowed: true }
+    | { allowed: false; eventClass: EventClass; retryAfterMs: number; reason: 'rate' | 'room-cap' };
+
+export interface RateLimiter {
+    /** Spend a token for this event, or say how long to wait for one */
+    check(socketId: string, ip: string, event: string): RateLimitVerdict;
+    /** Count a room created from this address towards its hourly cap */
+    recordRoomCreated(ip: string): void;
+    /** Drop a disconnected socket's buckets */
+    forgetSocket(socketId: string): void;
+    /** Drop state that has run back to its defaults (full buckets, expired room counts) */
+    sweep(): void;
+}
+
+/**
+ * Which budget each client event spends from. Events with no handler fall back to 'query'.
+ */
+export const EVENT_CLASSES: Record<ClientEventName, EventClass> = {
+    'chat-message': 'chat',
+    'report-message': 'chat',
+    'select-box': 'game',
+    'player-ready': 'game',
+    'start-game': 'game',
+    'open-box': 'game',
+    'open-boxes': 'game',
+    'deal-response': 'game',
+    'swap-response': 'game',
+    'pause-game': 'game',
+    'resume-game': 'game',
+    'get-profile': 'room',
+    'create-room': 'room',
+    'join-room': 'room',
+    'reconnect-player': 'room',
+    'leave-room': 'room',
+    'request-rematch': 'room',
+    'join-quick-play': 'room',
+    'leave-quick-play': 'room',
+    'set-room-password': 'host',
+    'create-invite': 'host',
+    'set-room-visibility': 'host',
+    'update-room-settings': 'host',
+    'add-bot': 'host',
+    'kick-player': 'host',
+    'ban-player': 'host',
+    'transfer-host': 'host',
+    'mute-player': 'host',
+    'list-public-rooms': 'query',
+    'get-global-leaderboard': 'query',
+    'get-game-replay': 'query',
+    'get-chat-history': 'query',
+};
+
+// Per-IP budgets leave room for a few tabs or a household behind one address
+export const DEFAULT_RATE_LIMIT_BUDGETS: Record<EventClass, EventClassBudget> = {
+    chat: { perSocket: { capacity: 5, refillPerSecond: 1 }, perIp: { capacity: 15, refillPerSecond: 3 } },
+    game: { perSocket: { capacity: 20, refillPerSecond: 5 }, perIp: { capacity: 60, refillPerSecond: 15 } },
+    room: { perSocket: { capacity: 6, refillPerSecond: 0.5 }, perIp: { capacity: 20, refillPerSecond: 2 } },
+    host: { perSocket: { capacity: 10, refillPerSecond: 2 }, perIp: { capacity: 30, refillPerSecond: 6 } },
+    query: { perSocket: { capacity: 10, refillPerSecond: 2 }, perIp: { capacity: 30, refillPerSecond: 6 } },
+};
+
+export const DEFAULT_ROOMS_PER_IP_PER_HOUR = 30;
+
+// Events that can end with a new room (Quick Play seats the first of a group as its host)
+const ROOM_CREATING_EVENTS: ReadonlySet<string> = new Set<ClientEventName>(['create-room', 'join-quick-play']);
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+export function createRateLimiter(options: Partial<RateLimitOptions> = {}): RateLimiter {
+    const budgets = options.budgets ?? DEFAULT_RATE_LIMIT_BUDGETS;
+    const roomsPerIpPerHour = options.roomsPerIpPerHour ?? DEFAULT_ROOMS_PER_IP_PER_HOUR;
+    const now = options.now ?? Date.now;
+
+    // `${eventClass}|${socketId or ip}` -> bucket
+    const socketBuckets: Map<string, Bucket> = new Map();
+    const ipBuckets: Map<string, Bucket> = new Map();
+    // ip -> when each recent room was created (oldest first)
+    const roomsCreated: Map<string, number[]> = new Map();
+
+    const refill = (buckets: Map<string, Bucket>, key: string, budget: BucketBudget, at: number): Bucket => {
+        const bucket = buckets.get(key) ?? { tokens: budget.capacity, updatedAt: at };
+        const elapsedSeconds = Math.max(0, at - bucket.updatedAt) / 1000;
+        bucket.tokens = Math.min(budget.capacity, bucket.tokens + elapsedSeconds * budget.refillPerSecond);
+        bucket.updatedAt = at;
+        buckets.set(key, bucket);
+        return bucket;
+    };
+
+    const waitForToken = (bucket: Bucket, budget: BucketBudget): number => (
+        bucket.tokens >= 1 ? 0 : Math.ceil(((1 - bucket.tokens) / budget.refillPerSecond) * 1000)
+    );
+
+    const recentRooms = (ip: string, at: number): number[] => {
+        const recent = (roomsCreated.get(ip) ?? []).filter((createdAt) => at - createdAt < HOUR_MS);
+        if (recent.length > 0) roomsCreated.set(ip, recent);
+        else roomsCreated.delete(ip);
+        return recent;
+    };
+
+    return {
+        check(socketId, ip, event) {
+            const eventClass = EVENT_CLASSES[event as ClientEventName] ?? 'query';
+            const budget = budgets[eventClass];
+            const at = now();
+
+            const socketBucket = refill(socketBuckets, `${eventClass}|${socketId}`, budget.perSocket, at);
+            const ipBucket = refill(ipBuckets, `${eventClass}|${ip}`, budget.perIp, at);
+            // Only spend once both have a token, so a refusal costs nothing
+            const retryAfterMs = Math.max(waitForToken(socketBucket, budget.perSocket), waitForToken(ipBucket, budget.perIp));
+            if (retryAfterMs > 0) {
+                return { allowed: false, eventClass, retryAfterMs, reason: 'rate' };
+            }
+
+            if (ROOM_CREATING_EVENTS.has(event)) {
+                const recent = recentRooms(ip, at);
+                if (recent.length >= roomsPerIpPerHour) {
+                    return { allowed: false, eventClass, retryAfterMs: recent[0] + HOUR_MS - at, reason: 'room-cap' };
+                }
+            }
+
+            socketBucket.tokens -= 1;
+            ipBucket.tokens -= 1;
+            return { allowed: true };
+        },
+
+        recordRoomCreated(ip) {
+            const at = now();
+            roomsCreated.set(ip, [...recentRooms(ip, at), at]);
+        },
+
+        forgetSocket(socketId) {
+            for (const eventClass of Object.keys(budgets)) {
+                socketBuckets.delete(`${eventClass}|${socketId}`);
+            }
+        },
+
+        sweep() {
+            const at = now();
+            for (const [buckets, scope] of [[socketBuckets, 'perSocket'], [ipBuckets, 'perIp']] as const) {
+                for (const key of Array.from(buckets.keys())) {
+                    const budget = budgets[key.split('|')[0] as EventClass][scope];
+                    if (refill(buckets, key, budget, at).tokens >= budget.capacity) buckets.delete(key);
+                }
+            }
+            for (const ip of Array.from(roomsCreated.keys())) {
+                recentRooms(ip, at);
+            }
+        },
+    };
+}
+
+// How many proxies (e.g. Render's load balancer) sit in front of the server and append
+// to x-forwarded-for. 0 trusts no forwarded header at all.
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0));
+
+/**
+ * The client's address. With no trusted proxy it is the connection's own address. Behind
+ * `trustedProxyHops` proxies it is the x-forwarded-for entry the outermost of them appended:
+ * anything to the left of that came from the client and can be made up.
+ */
+export function getClientIp(socket: Pick<Socket, 'handshake'>, trustedProxyHops = TRUSTED_PROXY_HOPS): string {
+    const address = socket.handshake.address || '';
+    if (trustedProxyHops === 0) return address;
+
+    const forwarded = socket.handshake.headers['x-forwarded-for'];
+    const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+        .split(',')
+        .map((hop) => hop.trim())
+        .filter((hop) => hop.length > 0);
+    return hops[Math.max(0, hops.length - trustedProxyHops)] || address;
+}
+
+/**
+ * Socket.io middleware that runs every inbound event past the limiter. A refused event
+ * never reaches its handler: its ack (if any) gets RATE_LIMITED and the socket is told
+ * how long to back off with 'rate-limited'.
+ */
+export function createRateLimitMiddleware(limiter: RateLimiter) {
+    return (socket: Socket<ClientToServerEvents, ServerToClientEvents>, next: (err?: Error) => void): void => {
+        const ip = getClientIp(socket);
+        // Log the first refusal of a burst, not every dropped packet
+        let limited = false;
+
+        socket.use(([event, ...args], proceed) => {
+            const verdict = limiter.check(socket.id, ip, event);
+            if (verdict.allowed) {
+                limited = false;
+                proceed();
+                return;
+            }
+
+            if (!limited) {
+                console.log(`[Socket] Rate limited ${socket.id} (${ip}) on ${event}: ${verdict.reason}, retry in ${verdict.retryAfterMs}ms`);
+                limited = true;
+            }
+            const error = verdict.reason === 'room-cap'
+                ? 'You have created too many rooms. Try again later.'
+                : 'Slow down! Try again in a moment.';
+            socket.emit('rate-limited', { event, eventClass: verdict.eventClass, retryAfterMs: verdict.retryAfterMs, reason: verdict.reason });
+
+            const ack = args[args.length - 1];
+            if (typeof ack === 'function') {
+                const response: AckError = { success: false, code: 'RATE_LIMITED', error };
+                ack(response);
+            }
+        });
+
+        socket.on('disconnect', () => limiter.forgetSocket(socket.id));
+        next();
+    };
+}
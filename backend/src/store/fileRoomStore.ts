@@ -0,0 +1,319 @@
+/**
+ * File-backed room store
+ *
+ * Keeps the working set in memory (via the memory adapter) and writes a JSON
+ * snapshot of the live rooms (with their chat and game event logs) to disk
+ * shortly after every change. On boot the snapshot is loaded back so rooms
+ * survive a restart. The playerId -> room index is rebuilt from the rooms on load.
+ *
+ * Handlers mutate GameState objects in place, so a snapshot write serialises
+ * every live room rather than a diff. Writes are debounced and atomic (tmp file +
+ * rename), and stay small because only rooms that are still open are in it.
+ *
+ * History that outlives its room sits next to the snapshot instead, so its size
+ * doesn't add to every write: leaderboard results are appended one JSON line per
+ * row (`rooms.results.jsonl`), and the capped set of replays is rewritten only when
+ * a game finishes (`rooms.replays.json`).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Room, ChatMessage, GameEvent, GameReplay, GameResultRow, Player } from './types';
+import { RoomStore, createMemoryRoomStore } from './roomStore';
+import { createDefaultRoomSettings } from '../game/roomSettings';
+import { createSeed, seedToState } from '../game/rng';
+
+// v1 stored aggregated leaderboard entries; v2 stored per-game result rows and replays;
+// v3 keeps those in their own files.
+const SNAPSHOT_VERSION = 3;
+const WRITE_DEBOUNCE_MS = 250;
+
+interface SerializedRoom {
+    code: string;
+    gameState: Omit<Room['gameState'], 'players'> & { players: Player[] };
+}
+
+interface Snapshot {
+    version: number;
+    savedAt: number;
+    rooms: SerializedRoom[];
+    chat: Record<string, ChatMessage[]>;
+    events?: Record<string, GameEvent[]>;
+    results?: GameResultRow[]; // v2 only (moved to the results file on load)
+    replays?: GameReplay[]; // v2 only (moved to the replays file on load)
+}
+
+function serializeRoom(room: Room): SerializedRoom {
+    return {
+        code: room.code,
+        gameState: {
+            ...room.gameState,
+            players: Array.from(room.gameState.players.values()),
+        },
+    };
+}
+
+/**
+ * Generator fields for a snapshot (older snapshots get a fresh seed)
+ */
+function restoreRandomness(raw: SerializedRoom['gameState']): Pick<Room['gameState'], 'seed' | 'rngState' | 'fairness'> {
+    const seed = raw.seed || createSeed();
+    return {
+        seed,
+        rngState: raw.rngState ?? seedToState(seed),
+        fairness: raw.fairness ?? null,
+    };
+}
+
+function deserializeRoom(raw: SerializedRoom): Room {
+    const players = new Map<string, Player>();
+    raw.gameState.players.forEach((p) => {
+        // Nobody is connected straight after a restart; clients re-attach via reconnect-player.
+        players.set(p.id, {
+            ...p,
+            offersRejected: p.offersRejected || 0,
+            swappedFromBox: p.swappedFromBox ?? null,
+            isBot: !!p.isBot,
+            botDifficulty: p.botDifficulty ?? null,
+            isConnected: !!p.isBot, // Bots have no socket to lose
+            isAway: false, // The grace period starts over (see restoreActiveGames)
+            isMuted: !!p.isMuted,
+        });
+    });
+
+    return {
+        code: raw.code,
+        gameState: {
+            ...raw.gameState,
+            players,
+            // Snapshots from before per-room rules / banker breakdowns existed
+            settings: { ...createDefaultRoomSettings(), ...raw.gameState.settings },
+            offerHistory: raw.gameState.offerHistory || [],
+            playerOffers: raw.gameState.playerOffers || {},
+            swapExpiresAt: raw.gameState.swapExpiresAt ?? null,
+            isFinalSwap: !!raw.gameState.isFinalSwap,
+            swapEligiblePlayerIds: raw.gameState.swapEligiblePlayerIds || [],
+            swapResponses: raw.gameState.swapResponses || {},
+            gameId: raw.gameState.gameId ?? null,
+            isPaused: !!raw.gameState.isPaused,
+            pausedRemainingMs: raw.gameState.pausedRemainingMs ?? null,
+            pauseVotes: raw.gameState.pauseVotes || [],
+            chatReports: raw.gameState.chatReports || {},
+            mode: raw.gameState.mode || 'multiplayer',
+            visibility: raw.gameState.visibility || 'private',
+            invites: raw.gameState.invites || [],
+            ...restoreRandomness(raw.gameState),
+        },
+    };
+}
+
+function readSnapshot(filePath: string): Snapshot | null {
+    if (!fs.existsSync(filePath)) return null;
+    try {
+        const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Snapshot;
+        if (![1, 2, SNAPSHOT_VERSION].includes(parsed.version)) {
+            console.warn(`[Store] Ignoring snapshot with unsupported version ${parsed.version}`);
+            return null;
+        }
+        return parsed;
+    } catch (err) {
+        console.error(`[Store] Could not read snapshot ${filePath}:`, err);
+        return null;
+    }
+}
+
+/**
+ * Leaderboard rows from the results file. A line cut short by a crash mid-append is skipped.
+ */
+function readResults(filePath: string): GameResultRow[] | null {
+    if (!fs.existsSync(filePath)) return null;
+    try {
+        return fs.readFileSync(filePath, 'utf8')
+            .split('\n')
+            .filter((line) => line.trim().length > 0)
+            .flatMap((line) => {
+                try {
+                    return [JSON.parse(line) as GameResultRow];
+                } catch {
+                    console.warn(`[Store] Skipping unreadable result in ${filePath}`);
+                    return [];
+                }
+            });
+    } catch (err) {
+        console.error(`[Store] Could not read results ${filePath}:`, err);
+        return null;
+    }
+}
+
+function readReplays(filePath: string): GameReplay[] | null {
+    if (!fs.existsSync(filePath)) return null;
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8')) as GameReplay[];
+    } catch (err) {
+        console.error(`[Store] Could not read replays ${filePath}:`, err);
+        return null;
+    }
+}
+
+/**
+ * Write a whole file at once (tmp file + rename), so a crash never leaves half of one
+ */
+function writeFileAtomic(filePath: string, contents: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    fs.writeFileSync(tmp, contents);
+    fs.renameSync(tmp, filePath);
+}
+
+/**
+ * Path of a file kept next to the snapshot (rooms.json -> rooms.<suffix>)
+ */
+function siblingPath(snapshotPath: string, suffix: string): string {
+    const { dir, name } = path.parse(snapshotPath);
+    return path.join(dir, `${name}.${suffix}`);
+}
+
+/**
+ * Create a file-backed store persisted at `filePath`.
+ */
+export function createFileRoomStore(filePath: string): RoomStore {
+    const resolved = path.resolve(filePath);
+    const resultsPath = siblingPath(resolved, 'results.jsonl');
+    const replaysPath = siblingPath(resolved, 'replays.json');
+    const memory = createMemoryRoomStore();
+    const chatRoomCodes: Set<string> = new Set();
+    let writeTimer: NodeJS.Timeout | null = null;
+    let replaysChanged = false;
+
+    // Load previous snapshot (if any)
+    const snapshot = readSnapshot(resolved);
+    if (snapshot) {
+        snapshot.rooms.forEach((raw) => {
+            const room = deserializeRoom(raw);
+            memory.saveRoom(room);
+            room.gameState.players.forEach((p) => memory.setPlayerRoom(p.id, room.code));
+        });
+        Object.entries(snapshot.chat).forEach(([code, messages]) => {
+            // Messages from before chat moderation existed were all typed by players
+            memory.saveChatMessages(code, messages.map((m, index) => ({
+                ...m,
+                seq: m.seq ?? index,
+                kind: m.kind || 'player',
+                moderation: m.moderation || { filtered: false, slowModeMs: 0 },
+            })));
+            chatRoomCodes.add(code);
+        });
+        Object.entries(snapshot.events || {}).forEach(([code, events]) => {
+            events.forEach((event) => memory.appendGameEvent(code, event));
+        });
+        console.log(`[Store] Restored ${snapshot.rooms.length} room(s) from ${resolved}`);
+    }
+
+    // Results and replays from their own files, or from a v2 snapshot that still held them
+    const savedResults = readResults(resultsPath);
+    // Results from before solo mode existed are all multiplayer
+    (savedResults ?? snapshot?.results ?? []).forEach((row) => memory.addGameResult({ ...row, mode: row.mode || 'multiplayer' }));
+    (readReplays(replaysPath) ?? snapshot?.replays ?? []).forEach((replay) => memory.saveGameReplay(replay));
+    if (!savedResults && snapshot?.results?.length) {
+        writeFileAtomic(resultsPath, memory.listGameResults().map((row) => `${JSON.stringify(row)}\n`).join(''));
+    }
+    replaysChanged = !fs.existsSync(replaysPath) && memory.listGameReplays().length > 0;
+
+    function writeNow(): void {
+        if (writeTimer) {
+            clearTimeout(writeTimer);
+            writeTimer = null;
+        }
+
+        const chat: Record<string, ChatMessage[]> = {};
+        chatRoomCodes.forEach((code) => {
+            chat[code] = memory.getChatMessages(code);
+        });
+
+        const events: Record<string, GameEvent[]> = {};
+        memory.listRooms().forEach((room) => {
+            const roomEvents = memory.getGameEvents(room.code);
+            if (roomEvents.length > 0) events[room.code] = roomEvents;
+        });
+
+        const data: Snapshot = {
+            version: SNAPSHOT_VERSION,
+            savedAt: Date.now(),
+            rooms: memory.listRooms().map(serializeRoom),
+            chat,
+            events,
+        };
+
+        try {
+            writeFileAtomic(resolved, JSON.stringify(data));
+        } catch (err) {
+            console.error(`[Store] Could not write snapshot ${resolved}:`, err);
+        }
+
+        if (replaysChanged) {
+            replaysChanged = false;
+            try {
+                writeFileAtomic(replaysPath, JSON.stringify(memory.listGameReplays()));
+            } catch (err) {
+                console.error(`[Store] Could not write replays ${replaysPath}:`, err);
+            }
+        }
+    }
+
+    function scheduleWrite(): void {
+        if (writeTimer) return;
+        writeTimer = setTimeout(writeNow, WRITE_DEBOUNCE_MS);
+        writeTimer.unref?.();
+    }
+
+    return {
+        ...memory,
+
+        saveRoom: (room) => {
+            memory.saveRoom(room);
+            scheduleWrite();
+        },
+        deleteRoom: (roomCode) => {
+            memory.deleteRoom(roomCode);
+            scheduleWrite();
+        },
+
+        saveChatMessages: (roomCode, messages) => {
+            memory.saveChatMessages(roomCode, messages);
+            chatRoomCodes.add(roomCode);
+            scheduleWrite();
+        },
+        deleteChatMessages: (roomCode) => {
+            memory.deleteChatMessages(roomCode);
+            chatRoomCodes.delete(roomCode);
+            scheduleWrite();
+        },
+
+        appendGameEvent: (roomCode, event) => {
+            memory.appendGameEvent(roomCode, event);
+            scheduleWrite();
+        },
+        deleteGameEvents: (roomCode) => {
+            memory.deleteGameEvents(roomCode);
+            scheduleWrite();
+        },
+
+        saveGameReplay: (replay) => {
+            memory.saveGameReplay(replay);
+            replaysChanged = true;
+            scheduleWrite();
+        },
+
+        addGameResult: (row) => {
+            memory.addGameResult(row);
+            try {
+                fs.mkdirSync(path.dirname(resultsPath), { recursive: true });
+                fs.appendFileSync(resultsPath, `${JSON.stringify(row)}\n`);
+            } catch (err) {
+                console.error(`[Store] Could not append result to ${resultsPath}:`, err);
+            }
+        },
+
+        flush: writeNow,
+    };
+}
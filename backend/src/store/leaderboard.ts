@@ -0,0 +1,111 @@
+/**
+ * Global leaderboard aggregation
+ *
+ * The store only keeps per-game result rows. Seasons (weekly/monthly/all-time)
+ * are computed on read by filtering rows by `finishedAt`, so nothing needs
+ * resetting when a new season starts. Season boundaries are in UTC. Solo games
+ * have their own leaderboard, kept apart from multiplayer results.
+ */
+
+import {
+    GameMode,
+    GameResultRow,
+    GlobalLeaderboardEntryPublic,
+    GlobalLeaderboardPage,
+    GlobalLeaderboardQuery,
+    LeaderboardSeason,
+} from './types';
+
+export const LEADERBOARD_SEASONS: LeaderboardSeason[] = ['weekly', 'monthly', 'all-time'];
+export const DEFAULT_LEADERBOARD_PAGE_SIZE = 20;
+export const MAX_LEADERBOARD_PAGE_SIZE = 100;
+
+/**
+ * Start of the season containing `now` (weeks start Monday 00:00 UTC).
+ * Returns null for all-time.
+ */
+export function getSeasonStart(season: LeaderboardSeason, now: number = Date.now()): number | null {
+    const d = new Date(now);
+
+    if (season === 'monthly') {
+        return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
+    }
+
+    if (season === 'weekly') {
+        const daysSinceMonday = (d.getUTCDay() + 6) % 7;
+        return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() - daysSinceMonday);
+    }
+
+    return null;
+}
+
+function clampInt(raw: unknown, min: number, max: number, fallback: number): number {
+    const n = Number(raw);
+    if (!Number.isFinite(n)) return fallback;
+    return Math.min(Math.max(Math.floor(n), min), max);
+}
+
+/**
+ * Aggregate result rows into one ranked page.
+ */
+export function aggregateLeaderboard(
+    rows: GameResultRow[],
+    query: GlobalLeaderboardQuery = {},
+    now: number = Date.now()
+): GlobalLeaderboardPage {
+    const mode: GameMode = query.mode === 'solo' ? 'solo' : 'multiplayer';
+    const season: LeaderboardSeason = LEADERBOARD_SEASONS.includes(query.season as LeaderboardSeason)
+        ? (query.season as LeaderboardSeason)
+        : 'all-time';
+    const pageSize = clampInt(query.pageSize, 1, MAX_LEADERBOARD_PAGE_SIZE, DEFAULT_LEADERBOARD_PAGE_SIZE);
+    const seasonStartsAt = getSeasonStart(season, now);
+
+    const totals: Map<string, Omit<GlobalLeaderboardEntryPublic, 'rank'> & { lastPlayedAt: number }> = new Map();
+
+    rows.forEach((row) => {
+        if (row.mode !== mode) return;
+        if (seasonStartsAt !== null && row.finishedAt < seasonStartsAt) return;
+
+        const existing = totals.get(row.playerKey);
+        if (existing) {
+            existing.totalPoints += row.points;
+            existing.gamesPlayed += 1;
+            existing.bestAmount = Math.max(existing.bestAmount, row.amount);
+            // Show the most recent name the player used
+            if (row.finishedAt >= existing.lastPlayedAt) {
+                existing.playerName = row.playerName;
+                existing.publicId = row.publicId;
+                existing.lastPlayedAt = row.finishedAt;
+            }
+        } else {
+            totals.set(row.playerKey, {
+                publicId: row.publicId,
+                playerName: row.playerName,
+                totalPoints: row.points,
+                gamesPlayed: 1,
+                bestAmount: row.amount,
+                lastPlayedAt: row.finishedAt,
+            });
+        }
+    });
+
+    const ranked = Array.from(totals.values()).sort(
+        (a, b) => b.totalPoints - a.totalPoints || b.bestAmount - a.bestAmount
+    );
+
+    const total = ranked.length;
+    const lastPage = Math.max(1, Math.ceil(total / pageSize));
+    const page = clampInt(query.page, 1, lastPage, 1);
+    const offset = (page - 1) * pageSize;
+
+    const leaderboard = ranked.slice(offset, offset + pageSize).map((entry, idx) => ({
+        rank: offset + idx + 1,
+        publicId: entry.publicId,
+        playerName: entry.playerName,
+        totalPoints: entry.totalPoints,
+        gamesPlayed: entry.gamesPlayed,
+        bestAmount: entry.bestAmount,
+    }));
+
+    return { mode, season, seasonStartsAt, page, pageSize, total, leaderboard };
+}
@@ -0,0 +1,135 @@
+/**
+ * Room store adapters
+ *
+ * `rooms.ts` owns the game-facing API (createRoom, joinRoom, ...). The raw
+ * storage behind it is a RoomStore so it can be swapped without touching
+ * callers. The memory adapter is the default; the file adapter persists the
+ * same data to disk so live games survive restarts and free-plan sleeps.
+ */
+
+import { Room, ChatMessage, GameEvent, GameReplay, GameResultRow } from './types';
+
+// Replays kept before the oldest is dropped (each holds a whole game's event log)
+export const MAX_STORED_REPLAYS = 200;
+
+export interface RoomStore {
+    // Rooms
+    getRoom(roomCode: string): Room | undefined;
+    hasRoom(roomCode: string): boolean;
+    saveRoom(room: Room): void;
+    deleteRoom(roomCode: string): void;
+    listRooms(): Room[];
+
+    // playerId -> roomCode
+    getPlayerRoom(playerId: string): string | undefined;
+    setPlayerRoom(playerId: string, roomCode: string): void;
+    deletePlayerRoom(playerId: string): void;
+
+    // socketId -> playerId (never persisted: sockets do not survive a restart)
+    getSocketPlayer(socketId: string): string | undefined;
+    setSocketPlayer(socketId: string, playerId: string): void;
+    deleteSocketPlayer(socketId: string): void;
+
+    // Chat
+    getChatMessages(roomCode: string): ChatMessage[];
+    saveChatMessages(roomCode: string, messages: ChatMessage[]): void;
+    deleteChatMessages(roomCode: string): void;
+
+    // Game event log (append-only per room)
+    getGameEvents(roomCode: string): GameEvent[];
+    appendGameEvent(roomCode: string, event: GameEvent): void;
+    deleteGameEvents(roomCode: string): void;
+
+    // Replays of finished games (outlive their room; only the latest MAX_STORED_REPLAYS are kept)
+    getGameReplay(gameId: string): GameReplay | undefined;
+    saveGameReplay(replay: GameReplay): void;
+    listGameReplays(): GameReplay[];
+
+    // Global leaderboard history (append-only, one row per player per finished game)
+    addGameResult(row: GameResultRow): void;
+    listGameResults(): GameResultRow[];
+
+    /** Write any pending changes synchronously (used on shutdown). */
+    flush(): void;
+}
+
+/**
+ * Plain in-memory adapter (the original behaviour). Everything is lost on restart.
+ */
+export function createMemoryRoomStore(): RoomStore {
+    const rooms: Map<string, Room> = new Map();
+    const playerToRoom: Map<string, string> = new Map();
+    const socketToPlayer: Map<string, string> = new Map();
+    const chatMessages: Map<string, ChatMessage[]> = new Map();
+    const gameEvents: Map<string, GameEvent[]> = new Map();
+    const gameReplays: Map<string, GameReplay> = new Map();
+    const gameResults: GameResultRow[] = [];
+
+    return {
+        getRoom: (roomCode) => rooms.get(roomCode),
+        hasRoom: (roomCode) => rooms.has(roomCode),
+        saveRoom: (room) => {
+            rooms.set(room.code, room);
+        },
+        deleteRoom: (roomCode) => {
+            rooms.delete(roomCode);
+        },
+        listRooms: () => Array.from(rooms.values()),
+
+        getPlayerRoom: (playerId) => playerToRoom.get(playerId),
+        setPlayerRoom: (playerId, roomCode) => {
+            playerToRoom.set(playerId, roomCode);
+        },
+        deletePlayerRoom: (playerId) => {
+            playerToRoom.delete(playerId);
+        },
+
+        getSocketPlayer: (socketId) => socketToPlayer.get(socketId),
+        setSocketPlayer: (socketId, playerId) => {
+            socketToPlayer.set(socketId, playerId);
+        },
+        deleteSocketPlayer: (socketId) => {
+            socketToPlayer.delete(socketId);
+        },
+
+        getChatMessages: (roomCode) => chatMessages.get(roomCode) || [],
+        saveChatMessages: (roomCode, messages) => {
+            chatMessages.set(roomCode, messages);
+        },
+        deleteChatMessages: (roomCode) => {
+            chatMessages.delete(roomCode);
+        },
+
+        getGameEvents: (roomCode) => gameEvents.get(roomCode) || [],
+        appendGameEvent: (roomCode, event) => {
+            const events = gameEvents.get(roomCode);
+            if (events) {
+                events.push(event);
+            } else {
+                gameEvents.set(roomCode, [event]);
+            }
+        },
+        deleteGameEvents: (roomCode) => {
+            gameEvents.delete(roomCode);
+        },
+
+        getGameReplay: (gameId) => gameReplays.get(gameId),
+        saveGameReplay: (replay) => {
+            gameReplays.set(replay.gameId, replay);
+            // Maps iterate in insertion order, so the first key is the oldest replay
+            while (gameReplays.size > MAX_STORED_REPLAYS) {
+                gameReplays.delete(gameReplays.keys().next().value as string);
+            }
+        },
+        listGameReplays: () => Array.from(gameReplays.values()),
+
+        addGameResult: (row) => {
+            gameResults.push(row);
+        },
+        listGameResults: () => gameResults,
+
+        flush: () => {
+            // Nothing to write
+        },
+    };
+}
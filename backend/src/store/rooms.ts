@@ -1,40 +1,74 @@
 /**
- * Room store - In-memory storage for game rooms
+ * Room store - storage for game rooms
  * 
- * Uses Maps for O(1) lookup. Designed to be replaceable
- * with a database (Supabase/Postgres) later.
+ * The game-facing API lives here; raw storage is delegated to a RoomStore
+ * adapter (in-memory by default, file-backed when ROOM_STORE=file).
  */
 
-import { Room, GameState, Player, Box, ChatMessage, PlayerRole } from './types';
-import { BOX_VALUES, ROOM_CODE_LENGTH, sanitiseName, MAX_PLAYERS_PER_ROOM } from '../game/constants';
+import {
+    Room,
+    GameState,
+    Player,
+    Box,
+    ChatMessage,
+    ChatHistoryPage,
+    GameEvent,
+    GameReplay,
+    PlayerRole,
+    BotDifficulty,
+    GameMode,
+    GameResultRow,
+    GlobalLeaderboardQuery,
+    GlobalLeaderboardPage,
+    RoomSettings,
+    RoomVisibility,
+    PublicRoomInfo,
+    RoomInvite,
+} from './types';
+import type { AckError } from '../protocol/events';
+import crypto from 'crypto';
+import { MAX_CHAT_HISTORY, ROOM_CODE_LENGTH, sanitiseName } from '../game/constants';
+import { createDefaultRoomSettings } from '../game/roomSettings';
+import { RoomStore, createMemoryRoomStore } from './roomStore';
+import { createFileRoomStore } from './fileRoomStore';
+import { aggregateLeaderboard } from './leaderboard';
+import { Random, reseedRoom, secureRandom, shuffleArray } from '../game/rng';
+import { pickBotName } from '../game/bots';
 
-// In-memory stores
-const rooms: Map<string, Room> = new Map();
-const playerToRoom: Map<string, string> = new Map(); // playerId -> roomCode
-const socketToPlayer: Map<string, string> = new Map(); // socketId -> playerId
+/**
+ * Pick the store adapter from the environment:
+ * - ROOM_STORE=memory (default)
+ * - ROOM_STORE=file, persisted at ROOM_STORE_PATH (default ./data/rooms.json)
+ */
+function createRoomStoreFromEnv(): RoomStore {
+    const kind = (process.env.ROOM_STORE || 'memory').trim().toLowerCase();
+
+    if (kind === 'file') {
+        const filePath = process.env.ROOM_STORE_PATH || './data/rooms.json';
+        console.log(`[Store] Using file room store at ${filePath}`);
+        return createFileRoomStore(filePath);
+    }
 
-// Global leaderboard (top 100, runtime only)
-interface GlobalLeaderboardEntry {
-    playerId: string;
-    playerName: string;
-    publicId: string;
-    totalPoints: number;
-    gamesPlayed: number;
+    if (kind !== 'memory') {
+        console.warn(`[Store] Unknown ROOM_STORE "${kind}", falling back to memory`);
+    }
+    return createMemoryRoomStore();
 }
-const globalLeaderboard: Map<string, GlobalLeaderboardEntry> = new Map();
+
+const store: RoomStore = createRoomStoreFromEnv();
 
 /**
  * Generate a random room code
  */
-export function generateRoomCode(): string {
+export function generateRoomCode(random: Random = secureRandom): string {
     const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Avoid confusing chars
     let code = '';
     for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
-        code += chars.charAt(Math.floor(Math.random() * chars.length));
+        code += chars.charAt(Math.floor(random() * chars.length));
     }
     // Ensure uniqueness
-    if (rooms.has(code)) {
-        return generateRoomCode();
+    if (store.hasRoom(code)) {
+        return generateRoomCode(random);
     }
     return code;
 }
@@ -47,22 +81,17 @@ export function generatePlayerId(): string {
 }
 
 /**
- * Shuffle an array using Fisher-Yates algorithm
+ * Generate a unique game ID (one per game, rematches included)
  */
-function shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
+export function generateGameId(): string {
+    return `game_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
 /**
- * Create initial boxes with shuffled values
+ * Create one box per board value, with the values shuffled by the room's generator
  */
-function createInitialBoxes(): Box[] {
-    const shuffledValues = shuffleArray(BOX_VALUES);
+function createInitialBoxes(boxValues: number[], random: Random): Box[] {
+    const shuffledValues = shuffleArray(boxValues, random);
     return shuffledValues.map((value, index) => ({
         number: index + 1,
         value,
@@ -74,12 +103,24 @@ function createInitialBoxes(): Box[] {
 /**
  * Create a new room
  */
-export function createRoom(hostSocketId: string, hostName: string): { room: Room; playerId: string } {
+export function createRoom(
+    hostSocketId: string,
+    hostName: string,
+    options: {
+        profileId?: string | null;
+        fingerprint?: string | null;
+        settings?: RoomSettings;
+        seed?: string;
+        mode?: GameMode;
+        visibility?: RoomVisibility;
+    } = {}
+): { room: Room; playerId: string } {
     const roomCode = generateRoomCode();
     const playerId = generatePlayerId();
 
     const host: Player = {
         id: playerId,
+        profileId: options.profileId || null,
         socketId: hostSocketId,
         name: sanitiseName(hostName),
         isHost: true,
@@ -93,43 +134,75 @@ export function createRoom(hostSocketId: string, hostName: string): { room: Room
         isLastStanding: false,
         points: 0,
         timeoutCount: 0,
+        offersRejected: 0,
+        swappedFromBox: null,
         isConnected: true,
+        isAway: false,
+        isMuted: false,
+        fingerprint: options.fingerprint || null,
+        isBot: false,
+        botDifficulty: null,
     };
 
+    const settings = options.settings || createDefaultRoomSettings();
+
     const gameState: GameState = {
         roomCode,
+        mode: options.mode || 'multiplayer',
         phase: 'waiting',
         players: new Map([[playerId, host]]),
-        boxes: createInitialBoxes(),
+        boxes: [], // Shuffled below from the room's seed
         currentRound: 0,
         boxesOpenedThisRound: [],
-        remainingValues: [...BOX_VALUES],
+        remainingValues: [...settings.boxValues],
         eliminatedValues: [],
         currentOffer: null,
         offerExpiresAt: null,
+        offerHistory: [],
         offerEligiblePlayerIds: [],
+        playerOffers: {},
         offerResponses: {},
+        swapExpiresAt: null,
+        isFinalSwap: false,
+        swapEligiblePlayerIds: [],
+        swapResponses: {},
         // Turn order (initialised on game start)
         turnOrder: [],
         currentTurnIndex: 0,
         currentTurnPlayerId: null,
         turnExpiresAt: null,
+        isPaused: false,
+        pausedRemainingMs: null,
+        pauseVotes: [],
+        chatReports: {},
         // Room settings
         hostId: playerId,
         password: null,
+        visibility: options.visibility || 'private',
+        invites: [],
+        settings,
+        bannedProfileIds: [],
+        bannedFingerprints: [],
+        gamesCompleted: 0,
+        roomScores: {},
         createdAt: Date.now(),
         startedAt: null,
         finishedAt: null,
+        seed: '',
+        rngState: 0,
+        fairness: null,
+        gameId: null,
     };
+    gameState.boxes = createInitialBoxes(settings.boxValues, reseedRoom(gameState, options.seed));
 
     const room: Room = {
         code: roomCode,
         gameState,
     };
 
-    rooms.set(roomCode, room);
-    playerToRoom.set(playerId, roomCode);
-    socketToPlayer.set(hostSocketId, playerId);
+    store.saveRoom(room);
+    store.setPlayerRoom(playerId, roomCode);
+    store.setSocketPlayer(hostSocketId, playerId);
 
     return { room, playerId };
 }
@@ -141,38 +214,60 @@ export function joinRoom(
     roomCode: string,
     socketId: string,
     playerName: string,
-    options: { password?: string; asSpectator?: boolean } = {}
-): { success: boolean; playerId?: string; error?: string; room?: Room } {
-    const room = rooms.get(roomCode.toUpperCase());
+    options: {
+        password?: string;
+        asSpectator?: boolean;
+        profileId?: string | null;
+        fingerprint?: string | null;
+        inviteToken?: string;
+    } = {}
+): { success: true; playerId: string; room: Room } | AckError {
+    const room = store.getRoom(roomCode.toUpperCase());
 
     if (!room) {
-        return { success: false, error: 'Room not found' };
+        return { success: false, code: 'ROOM_NOT_FOUND', error: 'Room not found' };
+    }
+
+    if (isBanned(room.gameState, options.profileId, options.fingerprint)) {
+        return { success: false, code: 'BANNED', error: 'You have been banned from this room' };
     }
 
-    // Check password if set
-    if (room.gameState.password && room.gameState.password !== options.password) {
-        return { success: false, error: 'Incorrect password' };
+    // A valid invite stands in for the password
+    const invite = options.inviteToken ? findRoomInvite(room.gameState, options.inviteToken) : undefined;
+
+    // Check password if set. An invite is only spent when it is what got past the password.
+    const needsInvite = !!room.gameState.password && room.gameState.password !== options.password;
+    if (needsInvite && !invite) {
+        return options.inviteToken
+            ? { success: false, code: 'INVITE_INVALID', error: 'This invite link has expired or been used up' }
+            : { success: false, code: 'WRONG_PASSWORD', error: 'Incorrect password' };
     }
 
     const role: PlayerRole = options.asSpectator ? 'spectator' : 'player';
 
+    // A solo game only ever has its creator as a contestant
+    if (role === 'player' && room.gameState.mode === 'solo') {
+        return { success: false, code: 'SOLO_GAME', error: 'This is a solo game (you can still watch)' };
+    }
+
     // Players can only join during waiting phase
     if (role === 'player' && room.gameState.phase !== 'waiting') {
-        return { success: false, error: 'Game already in progress' };
+        return { success: false, code: 'WRONG_PHASE', error: 'Game already in progress' };
     }
 
     // Count active players (not spectators)
     const playerCount = Array.from(room.gameState.players.values())
         .filter(p => p.role === 'player').length;
 
-    if (role === 'player' && playerCount >= MAX_PLAYERS_PER_ROOM) {
-        return { success: false, error: 'Room is full' };
+    if (role === 'player' && playerCount >= room.gameState.settings.maxPlayers) {
+        return { success: false, code: 'ROOM_FULL', error: 'Room is full' };
     }
 
     const playerId = generatePlayerId();
 
     const player: Player = {
         id: playerId,
+        profileId: options.profileId || null,
         socketId,
         name: sanitiseName(playerName),
         isHost: false,
@@ -186,44 +281,113 @@ export function joinRoom(
         isLastStanding: false,
         points: 0,
         timeoutCount: 0,
+        offersRejected: 0,
+        swappedFromBox: null,
         isConnected: true,
+        isAway: false,
+        isMuted: false,
+        fingerprint: options.fingerprint || null,
+        isBot: false,
+        botDifficulty: null,
     };
 
     room.gameState.players.set(playerId, player);
-    playerToRoom.set(playerId, roomCode.toUpperCase());
-    socketToPlayer.set(socketId, playerId);
+    if (invite && needsInvite) invite.usesLeft -= 1;
+    store.saveRoom(room);
+    store.setPlayerRoom(playerId, roomCode.toUpperCase());
+    store.setSocketPlayer(socketId, playerId);
 
     return { success: true, playerId, room };
 }
 
+/**
+ * Seat a server-side bot contestant in a room's lobby. Bots have no socket; the game
+ * handlers act for them.
+ */
+export function addBotToRoom(
+    roomCode: string,
+    difficulty: BotDifficulty
+): { success: true; player: Player } | AckError {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (!room) {
+        return { success: false, code: 'NOT_IN_ROOM', error: 'Room not found' };
+    }
+
+    if (room.gameState.mode === 'solo') {
+        return { success: false, code: 'SOLO_GAME', error: 'Solo games have no other seats' };
+    }
+
+    if (room.gameState.phase !== 'waiting') {
+        return { success: false, code: 'WRONG_PHASE', error: 'Bots can only join in the lobby' };
+    }
+
+    const players = Array.from(room.gameState.players.values());
+    if (players.filter((p) => p.role === 'player').length >= room.gameState.settings.maxPlayers) {
+        return { success: false, code: 'ROOM_FULL', error: 'Room is full' };
+    }
+
+    const playerId = generatePlayerId();
+    const player: Player = {
+        id: playerId,
+        profileId: null,
+        socketId: `bot_${playerId}`, // Never a real socket, so broadcasts to it go nowhere
+        name: pickBotName(players.map((p) => p.name), secureRandom),
+        isHost: false,
+        isReady: false,
+        role: 'player',
+        boxNumber: null,
+        hasDealt: false,
+        dealAmount: null,
+        boxValue: null,
+        roundDealt: null,
+        isLastStanding: false,
+        points: 0,
+        timeoutCount: 0,
+        offersRejected: 0,
+        swappedFromBox: null,
+        isConnected: true, // Bots never drop out
+        isAway: false,
+        isMuted: false,
+        fingerprint: null,
+        isBot: true,
+        botDifficulty: difficulty,
+    };
+
+    room.gameState.players.set(playerId, player);
+    store.saveRoom(room);
+    store.setPlayerRoom(playerId, room.code);
+
+    return { success: true, player };
+}
+
 /**
  * Get room by code
  */
 export function getRoom(roomCode: string): Room | undefined {
-    return rooms.get(roomCode.toUpperCase());
+    return store.getRoom(roomCode.toUpperCase());
 }
 
 /**
  * Get room by player ID
  */
 export function getRoomByPlayerId(playerId: string): Room | undefined {
-    const roomCode = playerToRoom.get(playerId);
+    const roomCode = store.getPlayerRoom(playerId);
     if (!roomCode) return undefined;
-    return rooms.get(roomCode);
+    return store.getRoom(roomCode);
 }
 
 /**
  * Get player ID from socket ID
  */
 export function getPlayerIdFromSocket(socketId: string): string | undefined {
-    return socketToPlayer.get(socketId);
+    return store.getSocketPlayer(socketId);
 }
 
 /**
  * Get player from room
  */
 export function getPlayer(roomCode: string, playerId: string): Player | undefined {
-    const room = rooms.get(roomCode);
+    const room = store.getRoom(roomCode);
     if (!room) return undefined;
     return room.gameState.players.get(playerId);
 }
@@ -232,13 +396,14 @@ export function getPlayer(roomCode: string, playerId: string): Player | undefine
  * Update player in room
  */
 export function updatePlayer(roomCode: string, playerId: string, updates: Partial<Player>): boolean {
-    const room = rooms.get(roomCode);
+    const room = store.getRoom(roomCode);
     if (!room) return false;
 
     const player = room.gameState.players.get(playerId);
     if (!player) return false;
 
     Object.assign(player, updates);
+    store.saveRoom(room);
     return true;
 }
 
@@ -247,13 +412,13 @@ export function updatePlayer(roomCode: string, playerId: string, updates: Partia
  * This supports reconnect-by-playerId at any phase.
  */
 export function handleDisconnect(socketId: string): { roomCode: string; playerId: string; removed: boolean } | undefined {
-    const playerId = socketToPlayer.get(socketId);
+    const playerId = store.getSocketPlayer(socketId);
     if (!playerId) return undefined;
 
-    const roomCode = playerToRoom.get(playerId);
+    const roomCode = store.getPlayerRoom(playerId);
     if (!roomCode) return undefined;
 
-    const room = rooms.get(roomCode);
+    const room = store.getRoom(roomCode);
     if (!room) return undefined;
 
     const player = room.gameState.players.get(playerId);
@@ -261,7 +426,8 @@ export function handleDisconnect(socketId: string): { roomCode: string; playerId
 
     // Mark as disconnected but keep in game (including lobby)
     player.isConnected = false;
-    socketToPlayer.delete(socketId);
+    store.deleteSocketPlayer(socketId);
+    store.saveRoom(room);
 
     return { roomCode, playerId, removed: false };
 }
@@ -279,10 +445,10 @@ export function removePlayer(socketId: string): { roomCode: string; playerId: st
  * Reconnect a player by playerId
  */
 export function reconnectPlayer(playerId: string, newSocketId: string): Room | undefined {
-    const roomCode = playerToRoom.get(playerId);
+    const roomCode = store.getPlayerRoom(playerId);
     if (!roomCode) return undefined;
 
-    const room = rooms.get(roomCode);
+    const room = store.getRoom(roomCode);
     if (!room) return undefined;
 
     const player = room.gameState.players.get(playerId);
@@ -291,7 +457,9 @@ export function reconnectPlayer(playerId: string, newSocketId: string): Room | u
     // Update socket mapping
     player.socketId = newSocketId;
     player.isConnected = true;
-    socketToPlayer.set(newSocketId, playerId);
+    player.isAway = false;
+    store.setSocketPlayer(newSocketId, playerId);
+    store.saveRoom(room);
 
     return room;
 }
@@ -300,10 +468,11 @@ export function reconnectPlayer(playerId: string, newSocketId: string): Room | u
  * Update game state
  */
 export function updateGameState(roomCode: string, updates: Partial<GameState>): boolean {
-    const room = rooms.get(roomCode);
+    const room = store.getRoom(roomCode);
     if (!room) return false;
 
     Object.assign(room.gameState, updates);
+    store.saveRoom(room);
     return true;
 }
 
@@ -311,35 +480,110 @@ export function updateGameState(roomCode: string, updates: Partial<GameState>):
  * Get all socket IDs in a room
  */
 export function getRoomSocketIds(roomCode: string): string[] {
-    const room = rooms.get(roomCode);
+    const room = store.getRoom(roomCode);
     if (!room) return [];
 
     return Array.from(room.gameState.players.values()).map((p) => p.socketId);
 }
 
-// Chat message storage (limited to last 100 per room)
-const chatMessages: Map<string, ChatMessage[]> = new Map();
+// Chat message storage (limited to the last MAX_CHAT_HISTORY per room)
 
 /**
  * Add chat message to room
  */
 export function addChatMessage(message: ChatMessage): void {
-    const messages = chatMessages.get(message.roomCode) || [];
+    const messages = [...store.getChatMessages(message.roomCode)];
     messages.push(message);
 
-    // Keep only last 100 messages
-    if (messages.length > 100) {
+    // Keep only the latest messages
+    if (messages.length > MAX_CHAT_HISTORY) {
         messages.shift();
     }
 
-    chatMessages.set(message.roomCode, messages);
+    store.saveChatMessages(message.roomCode, messages);
 }
 
 /**
  * Get chat messages for room
  */
 export function getChatMessages(roomCode: string): ChatMessage[] {
-    return chatMessages.get(roomCode) || [];
+    return store.getChatMessages(roomCode);
+}
+
+/**
+ * A page of a room's chat, oldest first: the latest `limit` messages stored before the
+ * message `beforeId`, or the latest overall. A message no longer kept has nothing older.
+ */
+export function getChatHistoryPage(roomCode: string, beforeId: string | undefined, limit: number): ChatHistoryPage {
+    const messages = store.getChatMessages(roomCode);
+    const end = beforeId === undefined ? messages.length : messages.findIndex((m) => m.id === beforeId);
+    const older = messages.slice(0, Math.max(end, 0));
+    return { messages: older.slice(-limit), hasMore: older.length > limit };
+}
+
+/**
+ * Record a player's report of a chat message. Returns false if they had already reported it.
+ * Reports on messages that have dropped out of the history are discarded along the way.
+ */
+export function reportChatMessage(roomCode: string, messageId: string, reporterId: string): boolean {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (!room) return false;
+
+    const { gameState } = room;
+    const reporters = gameState.chatReports[messageId] ?? [];
+    if (reporters.includes(reporterId)) return false;
+
+    const kept = new Set(store.getChatMessages(room.code).map((m) => m.id));
+    gameState.chatReports = Object.fromEntries(Object.entries(gameState.chatReports).filter(([id]) => kept.has(id)));
+    gameState.chatReports[messageId] = [...reporters, reporterId];
+    store.saveRoom(room);
+    return true;
+}
+
+// ============================================
+// Game Event Log & Replays
+// ============================================
+
+/**
+ * Append an event to a room's log
+ */
+export function appendGameEvent(roomCode: string, event: GameEvent): void {
+    store.appendGameEvent(roomCode, event);
+}
+
+/**
+ * Get a room's event log (the game in progress, plus lobby events since the last one was archived)
+ */
+export function getGameEvents(roomCode: string): GameEvent[] {
+    return store.getGameEvents(roomCode);
+}
+
+/**
+ * Archive a finished game's events as its replay. The room's log starts over, so it
+ * doesn't grow with every rematch.
+ */
+export function archiveGameReplay(room: Room): GameReplay | undefined {
+    const { gameId, settings, startedAt, finishedAt } = room.gameState;
+    if (!gameId || !startedAt || !finishedAt) return undefined;
+
+    const replay: GameReplay = {
+        gameId,
+        roomCode: room.code,
+        settings,
+        startedAt,
+        finishedAt,
+        events: store.getGameEvents(room.code).filter((e) => e.gameId === gameId),
+    };
+    store.saveGameReplay(replay);
+    store.deleteGameEvents(room.code);
+    return replay;
+}
+
+/**
+ * Get the replay of a finished game
+ */
+export function getGameReplay(gameId: string): GameReplay | undefined {
+    return store.getGameReplay(gameId);
 }
 
 // ============================================
@@ -347,61 +591,287 @@ export function getChatMessages(roomCode: string): ChatMessage[] {
 // ============================================
 
 /**
- * Update global leaderboard with player results
- */
-export function updateGlobalLeaderboard(playerId: string, playerName: string, pointsEarned: number): void {
-    const publicId = `${playerName}#${playerId.slice(-4).toUpperCase()}`;
-    const existing = globalLeaderboard.get(playerId);
-    if (existing) {
-        existing.totalPoints += pointsEarned;
-        existing.gamesPlayed += 1;
-        existing.playerName = playerName; // Update name in case it changed
-        existing.publicId = publicId;
-    } else {
-        globalLeaderboard.set(playerId, {
-            playerId,
-            playerName,
-            publicId,
-            totalPoints: pointsEarned,
-            gamesPlayed: 1,
-        });
+ * Record one player's result for a finished game in the global leaderboard history
+ */
+export function recordGameResult(result: Omit<GameResultRow, 'id' | 'publicId'>): void {
+    store.addGameResult({
+        ...result,
+        id: `result_${result.finishedAt}_${Math.random().toString(36).substr(2, 9)}`,
+        publicId: `${result.playerName}#${result.playerKey.slice(-4).toUpperCase()}`,
+    });
+}
+
+/**
+ * Get one page of the global leaderboard for a season
+ */
+export function getGlobalLeaderboard(query: GlobalLeaderboardQuery = {}): GlobalLeaderboardPage {
+    return aggregateLeaderboard(store.listGameResults(), query);
+}
+
+/**
+ * Check whether a profile or socket fingerprint is banned from a room
+ */
+function isBanned(gameState: GameState, profileId?: string | null, fingerprint?: string | null): boolean {
+    const bannedProfiles = gameState.bannedProfileIds || [];
+    const bannedFingerprints = gameState.bannedFingerprints || [];
+    return (
+        (!!profileId && bannedProfiles.includes(profileId)) ||
+        (!!fingerprint && bannedFingerprints.includes(fingerprint))
+    );
+}
+
+/**
+ * Remove a player from a room entirely (kick/ban). Returns the removed player.
+ * Callers are responsible for any game-flow fix-ups (turn order, host).
+ */
+export function removePlayerFromRoom(roomCode: string, playerId: string): Player | undefined {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (!room) return undefined;
+
+    const player = room.gameState.players.get(playerId);
+    if (!player) return undefined;
+
+    room.gameState.players.delete(playerId);
+    store.deletePlayerRoom(playerId);
+    if (store.getSocketPlayer(player.socketId) === playerId) {
+        store.deleteSocketPlayer(player.socketId);
+    }
+
+    // Nobody left to come back to (bots don't keep a room alive)
+    if (!Array.from(room.gameState.players.values()).some((p) => !p.isBot)) {
+        deleteRoom(room.code);
+        return player;
     }
+
+    store.saveRoom(room);
+
+    return player;
 }
 
 /**
- * Get top 100 global leaderboard
+ * Detach a contestant who left mid-game. Their record stays in the room so they still
+ * appear in the results, but they can no longer reconnect to it.
  */
-export interface GlobalLeaderboardEntryPublic {
-    rank: number;
-    publicId: string;
-    playerName: string;
-    totalPoints: number;
-    gamesPlayed: number;
+export function detachPlayerFromRoom(roomCode: string, playerId: string): Player | undefined {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (!room) return undefined;
+
+    const player = room.gameState.players.get(playerId);
+    if (!player) return undefined;
+
+    player.isConnected = false;
+    store.deletePlayerRoom(playerId);
+    if (store.getSocketPlayer(player.socketId) === playerId) {
+        store.deleteSocketPlayer(player.socketId);
+    }
+    store.saveRoom(room);
+
+    return player;
+}
+
+/**
+ * Ban a player's profile and fingerprint from a room for its lifetime, then remove them.
+ */
+export function banPlayerFromRoom(roomCode: string, playerId: string): Player | undefined {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (!room) return undefined;
+
+    const player = room.gameState.players.get(playerId);
+    if (!player) return undefined;
+
+    const { gameState } = room;
+    gameState.bannedProfileIds = gameState.bannedProfileIds || [];
+    gameState.bannedFingerprints = gameState.bannedFingerprints || [];
+    if (player.profileId && !gameState.bannedProfileIds.includes(player.profileId)) {
+        gameState.bannedProfileIds.push(player.profileId);
+    }
+    if (player.fingerprint && !gameState.bannedFingerprints.includes(player.fingerprint)) {
+        gameState.bannedFingerprints.push(player.fingerprint);
+    }
+
+    return removePlayerFromRoom(roomCode, playerId);
+}
+
+/**
+ * Make another player the host
+ */
+export function transferHost(roomCode: string, newHostId: string): boolean {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (!room) return false;
+
+    const newHost = room.gameState.players.get(newHostId);
+    if (!newHost) return false;
+
+    room.gameState.players.forEach((p) => {
+        p.isHost = p.id === newHostId;
+    });
+    room.gameState.hostId = newHostId;
+    store.saveRoom(room);
+    return true;
+}
+
+/**
+ * Reset a finished room for a rematch: fresh shuffled boxes and cleared per-game player
+ * state, keeping the roster (contestants and spectators), room settings and room scores.
+ * Contestants who left mid-game are dropped now that their results are recorded.
+ */
+export function resetRoomForRematch(roomCode: string): Room | undefined {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (!room) return undefined;
+
+    const { gameState } = room;
+
+    gameState.players.forEach((p) => {
+        if (store.getPlayerRoom(p.id) !== room.code) {
+            gameState.players.delete(p.id);
+            return;
+        }
+
+        p.boxNumber = null;
+        p.isReady = false;
+        p.hasDealt = false;
+        p.dealAmount = null;
+        p.boxValue = null;
+        p.roundDealt = null;
+        p.isLastStanding = false;
+        p.points = 0;
+        p.timeoutCount = 0;
+        p.offersRejected = 0;
+        p.swappedFromBox = null;
+        p.isAway = false;
+    });
+
+    updateGameState(room.code, {
+        phase: 'waiting',
+        boxes: createInitialBoxes(gameState.settings.boxValues, reseedRoom(gameState)),
+        currentRound: 0,
+        boxesOpenedThisRound: [],
+        remainingValues: [...gameState.settings.boxValues],
+        eliminatedValues: [],
+        currentOffer: null,
+        offerExpiresAt: null,
+        offerHistory: [],
+        offerEligiblePlayerIds: [],
+        playerOffers: {},
+        offerResponses: {},
+        swapExpiresAt: null,
+        isFinalSwap: false,
+        swapEligiblePlayerIds: [],
+        swapResponses: {},
+        turnOrder: [],
+        currentTurnIndex: 0,
+        currentTurnPlayerId: null,
+        turnExpiresAt: null,
+        isPaused: false,
+        pausedRemainingMs: null,
+        pauseVotes: [],
+        startedAt: null,
+        finishedAt: null,
+        fairness: null,
+        gameId: null,
+    });
+
+    return room;
 }
 
-export function getGlobalLeaderboard(): GlobalLeaderboardEntryPublic[] {
-    return Array.from(globalLeaderboard.values())
-        .sort((a, b) => b.totalPoints - a.totalPoints)
-        .slice(0, 100)
-        .map((entry, idx) => ({
-            rank: idx + 1,
-            publicId: entry.publicId,
-            playerName: entry.playerName,
-            totalPoints: entry.totalPoints,
-            gamesPlayed: entry.gamesPlayed,
-        }));
+/**
+ * Replace the room's rules (already validated by applyRoomSettings)
+ */
+export function updateRoomSettings(roomCode: string, settings: RoomSettings): boolean {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (!room) return false;
+
+    // A different board means different boxes: deal a fresh set and clear box picks
+    const { gameState } = room;
+    const boardChanged = settings.boxValues.length !== gameState.settings.boxValues.length ||
+        settings.boxValues.some((v, i) => v !== gameState.settings.boxValues[i]);
+    if (boardChanged) {
+        gameState.boxes = createInitialBoxes(settings.boxValues, reseedRoom(gameState));
+        gameState.remainingValues = [...settings.boxValues];
+        gameState.players.forEach((p) => {
+            p.boxNumber = null;
+            p.isReady = false;
+        });
+    }
+
+    gameState.settings = settings;
+    store.saveRoom(room);
+    return true;
 }
 
 /**
  * Set room password
  */
 export function setRoomPassword(roomCode: string, password: string | null): boolean {
-    const room = rooms.get(roomCode.toUpperCase());
+    const room = store.getRoom(roomCode.toUpperCase());
     if (!room) return false;
     room.gameState.password = password;
+    store.saveRoom(room);
+    return true;
+}
+
+/**
+ * Drop expired and used-up invites, then look one up by token
+ */
+function findRoomInvite(gameState: GameState, token: string): RoomInvite | undefined {
+    const now = Date.now();
+    gameState.invites = gameState.invites.filter((i) => i.expiresAt > now && i.usesLeft > 0);
+    return gameState.invites.find((i) => i.token === token);
+}
+
+/**
+ * Issue an invite link token for a room
+ */
+export function createRoomInvite(roomCode: string, ttlMs: number, maxUses: number): RoomInvite | undefined {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (!room) return undefined;
+
+    const invite: RoomInvite = {
+        token: `inv_${crypto.randomBytes(12).toString('base64url')}`,
+        expiresAt: Date.now() + ttlMs,
+        usesLeft: maxUses,
+    };
+    room.gameState.invites.push(invite);
+    store.saveRoom(room);
+    return invite;
+}
+
+/**
+ * Set whether a room is listed in the public room browser
+ */
+export function setRoomVisibility(roomCode: string, visibility: RoomVisibility): boolean {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (!room) return false;
+    room.gameState.visibility = visibility;
+    store.saveRoom(room);
     return true;
 }
 
+/**
+ * Public multiplayer rooms for the room browser: lobbies first, newest first within each
+ */
+export function listPublicRooms(): PublicRoomInfo[] {
+    return store.listRooms()
+        .filter((room) => room.gameState.visibility === 'public' && room.gameState.mode === 'multiplayer')
+        .sort((a, b) => {
+            const aWaiting = a.gameState.phase === 'waiting' ? 0 : 1;
+            const bWaiting = b.gameState.phase === 'waiting' ? 0 : 1;
+            return aWaiting - bWaiting || b.gameState.createdAt - a.gameState.createdAt;
+        })
+        .map((room) => {
+            const { gameState } = room;
+            const players = Array.from(gameState.players.values());
+            return {
+                code: room.code,
+                hostName: gameState.players.get(gameState.hostId)?.name ?? '',
+                playerCount: players.filter((p) => p.role === 'player').length,
+                maxPlayers: gameState.settings.maxPlayers,
+                phase: gameState.phase,
+                hasPassword: !!gameState.password,
+            };
+        });
+}
+
 function parsePositiveInt(raw: string | undefined, fallback: number): number {
     const n = Number(raw);
     return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
@@ -415,26 +885,27 @@ const ROOM_FINISHED_TTL_MS = parsePositiveInt(process.env.ROOM_FINISHED_TTL_MS,
 
 function deleteRoom(roomCode: string): boolean {
     const code = roomCode.toUpperCase();
-    const room = rooms.get(code);
+    const room = store.getRoom(code);
     if (!room) return false;
 
     // Remove player mappings for this room
     room.gameState.players.forEach((p) => {
-        playerToRoom.delete(p.id);
+        store.deletePlayerRoom(p.id);
         // Best-effort: if the socket is still mapped, remove it as well
-        socketToPlayer.delete(p.socketId);
+        store.deleteSocketPlayer(p.socketId);
     });
 
-    // Remove chat messages for this room
-    chatMessages.delete(code);
+    // Remove chat messages and the event log (finished games keep their replays)
+    store.deleteChatMessages(code);
+    store.deleteGameEvents(code);
 
     // Finally remove the room itself
-    rooms.delete(code);
+    store.deleteRoom(code);
     return true;
 }
 
 /**
- * Cleanup stale rooms from the in-memory store.
+ * Cleanup stale rooms from the store.
  *
  * This is a safety valve for long-running production instances. It does NOT attempt to
  * clean up active games (playing/offer) because those phases have live timers managed
@@ -446,7 +917,8 @@ function deleteRoom(roomCode: string): boolean {
 export function cleanupRooms(now: number = Date.now()): { removedRooms: number } {
     let removedRooms = 0;
 
-    for (const [code, room] of rooms.entries()) {
+    for (const room of store.listRooms()) {
+        const code = room.code;
         const { phase, createdAt, finishedAt, startedAt } = room.gameState;
 
         if (phase === 'finished') {
@@ -475,3 +947,25 @@ export function cleanupRooms(now: number = Date.now()): { removedRooms: number }
     return { removedRooms };
 }
 
+
+/**
+ * List every room in the store (used to re-arm timers after a restart).
+ */
+export function listRooms(): Room[] {
+    return store.listRooms();
+}
+
+/**
+ * Persist a room after handlers mutated its GameState in place.
+ */
+export function persistRoom(roomCode: string): void {
+    const room = store.getRoom(roomCode.toUpperCase());
+    if (room) store.saveRoom(room);
+}
+
+/**
+ * Write pending store changes synchronously (call before exiting).
+ */
+export function flushRoomStore(): void {
+    store.flush();
+}
@@ -4,8 +4,14 @@
 
 export type PlayerRole = 'player' | 'spectator';
 
+/**
+ * How well a server-side bot plays (see game/bots.ts)
+ */
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface Player {
-    id: string;
+    id: string; // Per-room player ID
+    profileId: string | null; // Stable guest profile across rooms (null if no valid profile token was sent)
     socketId: string;
     name: string;
     isHost: boolean;
@@ -19,7 +25,14 @@ export interface Player {
     isLastStanding: boolean; // True only for the final remaining active player
     points: number;
     timeoutCount: number; // Number of times player let timer expire
+    offersRejected: number; // Banker offers turned down with No Deal (timeouts not included)
+    swappedFromBox: number | null; // The box they started with, if they swapped it away
     isConnected: boolean; // False when disconnected but still in game
+    isAway: boolean; // Disconnected past the grace period, so the disconnect policy plays for them
+    isMuted: boolean; // Silenced in chat by the host
+    fingerprint: string | null; // Hash of the joining socket's IP + user agent (used for room bans)
+    isBot: boolean; // Server-side bot filling an empty seat (never on the global leaderboard)
+    botDifficulty: BotDifficulty | null;
 }
 
 export interface Box {
@@ -29,15 +42,123 @@ export interface Box {
     openedByPlayerId: string | null;
 }
 
+/**
+ * What happens to a contestant who leaves mid-game:
+ * - take-offer: they bank the current (or would-be) banker offer
+ * - forfeit: they walk away with whatever is in their box
+ */
+export type LeaveRule = 'take-offer' | 'forfeit';
+
+/**
+ * What the game does for a contestant who stays disconnected past the grace period:
+ * - skip: their turns are skipped and offers are turned down for them
+ * - auto-play: the server opens a random box on their turn and answers offers by the
+ *   room's leave rule (take-offer deals, forfeit plays on)
+ */
+export type DisconnectPolicy = 'skip' | 'auto-play';
+
+/**
+ * What chat does with banned words:
+ * - mask: they are starred out (first letter kept)
+ * - block: the message is refused
+ * - off: chat is not filtered (names always are)
+ */
+export type ChatFilterMode = 'mask' | 'block' | 'off';
+
+/**
+ * Which set of box values the room plays with. Presets live in game/boards.ts;
+ * 'custom' is a host-defined list.
+ */
+export type BoardId = 'uk-20' | 'us-26' | 'quick-12' | 'custom';
+
+/**
+ * Currency the room's money is shown in ('POINTS' shows plain numbers)
+ */
+export type Currency = 'GBP' | 'USD' | 'EUR' | 'POINTS';
+
+/**
+ * Banker personality the room plays against (see game/bankerStrategies.ts)
+ */
+export type BankerStrategyId = 'classic' | 'risk-averse' | 'lowballer' | 'tv';
+
+/**
+ * How the banker arrived at an offer. Kept per game and sent to clients once it is over.
+ */
+export interface BankerOfferBreakdown {
+    round: number;
+    strategy: BankerStrategyId;
+    expectedValue: number; // Average of the values still in play
+    roundModifier: number;
+    varianceAdjustment: number; // 1 = no adjustment for the spread of values
+    momentumAdjustment: number; // 1 = no reaction to how the last round went
+    randomFactor: number;
+    personalAdjustment: number; // 1 unless the offer was shaped for one player
+    playerId?: string; // Set on personal offers
+    offer: number;
+}
+
+/**
+ * Per-room rules. Defaults come from game/constants.ts; the host can change them in the lobby.
+ */
+export interface RoomSettings {
+    turnTimeoutMs: number; // Time each player has to open a box
+    offerTimeoutMs: number; // Time to answer a banker offer
+    swapTimeoutMs: number; // Time to decide on a box swap
+    roundSchedule: number[]; // Boxes to open in round 1, 2, ...; later rounds open 1
+    maxPlayers: number; // Contestants (spectators don't count)
+    minPlayersToStart: number;
+    leaveRule: LeaveRule;
+    disconnectPolicy: DisconnectPolicy;
+    boardId: BoardId;
+    boxValues: number[]; // The board's values in ascending order, one per box
+    currency: Currency;
+    bankerStrategy: BankerStrategyId;
+    personalOffers: boolean; // Banker makes each eligible player their own offer
+    midGameSwaps: boolean; // Banker sometimes offers a box swap instead of money
+    chatFilter: ChatFilterMode;
+    chatSlowModeMs: number; // Minimum gap between one player's messages (0 = off; the host is exempt)
+}
+
 export type GamePhase =
     | 'waiting'      // In lobby, waiting for players
     | 'selection'    // Players selecting their boxes
     | 'playing'      // Game in progress
     | 'offer'        // Banker offer phase
+    | 'swap-offer'   // Banker lets players swap their box for an unclaimed one
     | 'finished';    // Game complete
 
+/**
+ * 'multiplayer' rooms share turns between contestants; a 'solo' room is one player
+ * against the banker, opening each round's boxes themselves like the TV show
+ */
+export type GameMode = 'multiplayer' | 'solo';
+
+/**
+ * 'public' rooms are listed in the room browser; 'private' ones are only reachable by code
+ */
+export type RoomVisibility = 'public' | 'private';
+
+/**
+ * Running total for one player across every game played in a room (rematches included)
+ */
+export interface RoomScore {
+    playerName: string;
+    totalPoints: number;
+    gamesPlayed: number;
+}
+
+/**
+ * Host-issued invite link token: lets whoever holds it join without the room password
+ */
+export interface RoomInvite {
+    token: string;
+    expiresAt: number;
+    usesLeft: number;
+}
+
 export interface GameState {
     roomCode: string;
+    mode: GameMode; // Fixed when the room is created
     phase: GamePhase;
     players: Map<string, Player>;
     boxes: Box[];
@@ -47,20 +168,57 @@ export interface GameState {
     eliminatedValues: number[];
     currentOffer: number | null;
     offerExpiresAt: number | null;
+    offerHistory: BankerOfferBreakdown[]; // Every offer made this game
     // Offer response tracking (per offer)
     offerEligiblePlayerIds: string[]; // Active players who must respond to the current offer
+    playerOffers: Record<string, number>; // playerId -> personal offer (personal offers mode only)
     offerResponses: Record<string, boolean>; // playerId -> accepted (true=Deal, false=No Deal)
+    // Swap offer tracking (per swap offer)
+    swapExpiresAt: number | null;
+    isFinalSwap: boolean; // Offered to the last player standing before their box is revealed
+    swapEligiblePlayerIds: string[]; // Players who may swap
+    swapResponses: Record<string, number | null>; // playerId -> box swapped to (null = kept their box)
     // Turn order system
     turnOrder: string[]; // Player IDs in rotation order
     currentTurnIndex: number; // Index into turnOrder
     currentTurnPlayerId: string | null;
     turnExpiresAt: number | null;
+    // Pause (timers are cleared while paused)
+    isPaused: boolean;
+    pausedRemainingMs: number | null; // Time left on the turn/offer/swap timer when it was paused
+    pauseVotes: string[]; // Contestants asking to pause (or, while paused, to resume)
+    // Chat moderation
+    chatReports: Record<string, string[]>; // messageId -> players who reported it
     // Room settings
     hostId: string;
     password: string | null; // Optional room password
+    visibility: RoomVisibility;
+    invites: RoomInvite[]; // Outstanding invite links (expired and used-up ones are dropped)
+    settings: RoomSettings;
+    bannedProfileIds: string[]; // Banned for the room's lifetime
+    bannedFingerprints: string[];
+    // Rematch history (playerId -> running total)
+    gamesCompleted: number;
+    roomScores: Record<string, RoomScore>;
     createdAt: number;
     startedAt: number | null;
     finishedAt: number | null;
+    // Seeded randomness (kept secret until the game ends)
+    seed: string; // Seed of the room generator (a new one for each fresh set of boxes)
+    rngState: number; // Generator state after the draws so far
+    fairness: FairnessProof | null; // Commitment to the box layout, made when the game starts
+    gameId: string | null; // Set when a game starts (kept once finished, for its replay)
+}
+
+/**
+ * Commitment to a game's box layout (see game/rng.ts). Only `commitment` is public
+ * until the game ends; then the whole proof is revealed.
+ */
+export interface FairnessProof {
+    seed: string; // Seed the boxes were shuffled with
+    salt: string;
+    layout: number[]; // Box values in box order (box 1 first)
+    commitment: string; // SHA-256 hex of `<salt>:<layout as JSON>`
 }
 
 export interface Room {
@@ -68,19 +226,80 @@ export interface Room {
     gameState: GameState;
 }
 
+/**
+ * 'player' messages are typed by someone in the room; 'system' ones are notices from the
+ * server (mutes, slow mode, reports)
+ */
+export type ChatMessageKind = 'player' | 'system';
+
+export interface ChatModeration {
+    filtered: boolean; // Banned words were starred out
+    slowModeMs: number; // Slow mode in force when it was sent (0 = off)
+}
+
 export interface ChatMessage {
     id: string;
     roomCode: string;
-    senderId: string;
+    senderId: string; // 'system' for notices
     senderName: string;
     content: string;
     timestamp: number;
+    seq: number; // Order the server created messages in (breaks timestamp ties)
+    kind: ChatMessageKind;
+    moderation: ChatModeration;
+}
+
+// Game event log
+
+/**
+ * One thing that happened in a room. Handlers append these to the room's log as they
+ * go; a finished game's events are archived as its replay.
+ */
+export type GameEventData =
+    | { type: 'player-joined'; playerId: string; playerName: string; role: PlayerRole }
+    | { type: 'player-left'; playerId: string; playerName: string; reason: 'left' | 'kicked' | 'banned' }
+    | { type: 'chat'; playerId: string; playerName: string; content: string }
+    | { type: 'game-started'; players: { id: string; name: string; boxNumber: number }[]; turnOrder: string[] }
+    | { type: 'box-opened'; playerId: string; boxNumber: number; value: number; round: number }
+    | { type: 'turn-timeout'; playerId: string }
+    | { type: 'turn-skipped'; playerId: string } // Away under the 'skip' disconnect policy
+    | { type: 'game-paused'; playerId: string; byVote: boolean }
+    | { type: 'game-resumed'; playerId: string; byVote: boolean }
+    | { type: 'offer-made'; round: number; offer: number | null; playerOffers: Record<string, number> }
+    | { type: 'deal-response'; playerId: string; accepted: boolean; amount: number | null }
+    | { type: 'offer-timeout'; playerIds: string[] } // Defaulted to No Deal
+    | { type: 'swap-offered'; playerIds: string[]; isFinal: boolean }
+    | { type: 'swap-response'; playerId: string; fromBox: number | null; toBox: number | null } // toBox null = kept
+    | { type: 'box-revealed'; playerId: string; boxNumber: number; value: number } // A player's own box, once they are out
+    | { type: 'game-finished'; results: { playerId: string; playerName: string; amount: number; points: number }[] };
+
+export type GameEventType = GameEventData['type'];
+
+export type GameEvent = GameEventData & {
+    at: number; // Unix ms
+    gameId: string | null; // null for lobby events between games
+};
+
+/**
+ * Everything needed to play a finished game back
+ */
+export interface GameReplay {
+    gameId: string;
+    roomCode: string;
+    settings: RoomSettings; // Board, currency and round schedule the game was played with
+    startedAt: number;
+    finishedAt: number;
+    events: GameEvent[];
 }
 
 // Socket event payloads
 
 export interface CreateRoomPayload {
     playerName: string;
+    profileToken?: string;
+    settings?: Partial<RoomSettings>;
+    mode?: GameMode; // Defaults to 'multiplayer'
+    visibility?: RoomVisibility; // Defaults to 'private'
 }
 
 export interface JoinRoomPayload {
@@ -88,6 +307,38 @@ export interface JoinRoomPayload {
     playerName: string;
     password?: string;
     asSpectator?: boolean;
+    profileToken?: string;
+    inviteToken?: string; // From a host's invite link (stands in for the password)
+}
+
+export interface CreateInvitePayload {
+    expiresInMs?: number; // Defaults to DEFAULT_INVITE_TTL_MS
+    maxUses?: number; // Defaults to DEFAULT_INVITE_MAX_USES (single use)
+}
+
+export interface SetRoomVisibilityPayload {
+    visibility: RoomVisibility;
+}
+
+export interface JoinQuickPlayPayload {
+    playerName: string;
+    profileToken?: string;
+}
+
+export interface UpdateRoomSettingsPayload {
+    settings: Partial<RoomSettings>; // Only the fields being changed
+}
+
+export interface TargetPlayerPayload {
+    playerId: string; // Player the host action applies to
+}
+
+export interface AddBotPayload {
+    difficulty?: BotDifficulty; // Defaults to 'medium'
+}
+
+export interface GetProfilePayload {
+    token?: string; // Previously issued token, if the client has one
 }
 
 export interface SelectBoxPayload {
@@ -102,12 +353,40 @@ export interface DealResponsePayload {
     accepted: boolean;
 }
 
+export interface SwapResponsePayload {
+    boxNumber: number | null; // Unclaimed box to swap to, or null to keep your box
+}
+
 export interface ChatMessagePayload {
     content: string;
 }
 
+export interface MutePlayerPayload {
+    playerId: string;
+    muted: boolean; // false lifts the mute
+}
+
+export interface GetChatHistoryPayload {
+    before?: string; // Message ID: only messages stored before it (the latest page if omitted)
+    limit?: number;
+}
+
+export interface ReportMessagePayload {
+    messageId: string;
+    reason?: string;
+}
+
+export interface GetGameReplayPayload {
+    gameId: string;
+}
+
 // Socket response types
 
+export interface ChatHistoryPage {
+    messages: ChatMessage[]; // Oldest first
+    hasMore: boolean; // Older messages are still stored
+}
+
 export interface RoomCreatedResponse {
     roomCode: string;
     playerId: string;
@@ -128,12 +407,42 @@ export interface GameStateUpdate {
     boxesOpenedThisRound: number[];
     remainingValues: number[];
     eliminatedValues: number[];
-    currentOffer: number | null;
+    currentOffer: number | null; // The player's own offer in personal offers mode
     offerExpiresAt: number | null;
+    playerOffers: Record<string, number>; // Personal offers: just your own, or all of them for spectators
+    swapExpiresAt: number | null;
+    isFinalSwap: boolean;
+    swapEligiblePlayerIds: string[];
+    swapRespondedPlayerIds: string[]; // Who has decided (their choice stays private until the reveal)
     // Turn order info
     currentTurnPlayerId: string | null;
     turnExpiresAt: number | null;
+    // Pause info (expiry times are stale while paused; pausedRemainingMs is what's left)
+    paused: boolean;
+    pausedRemainingMs: number | null;
+    pauseVotes: string[];
+    pauseVotesNeeded: number;
+    settings: RoomSettings;
+    gamesCompleted: number;
+    roomScores: RoomScoreEntry[];
     recentlyOpenedBox?: { boxNumber: number; value: number };
+    bankerOffers?: BankerOfferBreakdown[]; // Only once the game is finished
+    fairnessCommitment: string | null; // Published when the game starts
+    gameId: string | null;
+    mode: GameMode;
+    visibility: RoomVisibility;
+}
+
+/**
+ * A room as shown in the public room browser
+ */
+export interface PublicRoomInfo {
+    code: string;
+    hostName: string;
+    playerCount: number; // Contestants seated (spectators not counted)
+    maxPlayers: number;
+    phase: GamePhase;
+    hasPassword: boolean;
 }
 
 export interface PlayerPublicInfo {
@@ -145,8 +454,13 @@ export interface PlayerPublicInfo {
     boxNumber: number | null;
     hasDealt: boolean;
     dealAmount: number | null;
+    swappedFromBox: number | null; // The box they started with, if they swapped it away
     isActive: boolean;
     isConnected: boolean;
+    isAway: boolean; // Disconnected past the grace period; the disconnect policy plays for them
+    isMuted: boolean; // Silenced in chat by the host
+    isBot: boolean;
+    botDifficulty: BotDifficulty | null;
 }
 
 export interface BoxPublicInfo {
@@ -157,6 +471,11 @@ export interface BoxPublicInfo {
     ownerId: string | null;
 }
 
+export interface RoomScoreEntry extends RoomScore {
+    playerId: string;
+    rank: number;
+}
+
 export interface LeaderboardEntry {
     playerId: string;
     playerName: string;
@@ -165,3 +484,52 @@ export interface LeaderboardEntry {
     rank: number;
     wasBoxValue: boolean; // true if final box value, false if deal amount
 }
+
+// Global leaderboard
+
+export type LeaderboardSeason = 'weekly' | 'monthly' | 'all-time';
+
+/**
+ * One finished game for one player. The global leaderboard is aggregated from these rows,
+ * so seasons are just a time filter over the same history.
+ */
+export interface GameResultRow {
+    id: string;
+    playerKey: string; // Leaderboard identity: profile ID, or the per-room player ID for guests without one
+    playerName: string;
+    publicId: string;
+    roomCode: string;
+    points: number;
+    amount: number;
+    roundDealt: number;
+    timeoutCount: number;
+    wasBoxValue: boolean;
+    finishedAt: number;
+    mode: GameMode; // Solo and multiplayer results rank separately
+}
+
+export interface GlobalLeaderboardQuery {
+    mode?: GameMode; // Defaults to 'multiplayer'
+    season?: LeaderboardSeason;
+    page?: number; // 1-based
+    pageSize?: number;
+}
+
+export interface GlobalLeaderboardEntryPublic {
+    rank: number;
+    publicId: string;
+    playerName: string;
+    totalPoints: number;
+    gamesPlayed: number;
+    bestAmount: number;
+}
+
+export interface GlobalLeaderboardPage {
+    mode: GameMode;
+    season: LeaderboardSeason;
+    seasonStartsAt: number | null; // null for all-time
+    page: number;
+    pageSize: number;
+    total: number; // Number of ranked players in the season
+    leaderboard: GlobalLeaderboardEntryPublic[];
+}
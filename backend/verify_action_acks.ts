@@ -0,0 +1,140 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies game action acks:
+ * - Box picks, ready and start say why they were refused (taken box, no box, not host, not ready)
+ * - In play: opening out of turn, opening a contestant's box and answering a missing offer are refused with codes
+ * - Blank and spectator chat are refused; accepted actions ack success
+ * - Room and host requests (names, room codes, rules, invites, targets, replays) are refused with codes
+ */
+
+const URL = "http://localhost:3001";
+
+type Ack = { success: boolean; error?: string; code?: string };
+
+type GameStateUpdate = {
+  phase: string;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_action_acks] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function expectCode(socket: Socket, event: string, payload: unknown, code: string) {
+  const res = await emitAck<Ack>(socket, event, payload);
+  if (res.success || res.code !== code) {
+    throw new Error(`${event} ${JSON.stringify(payload)}: expected ${code}, got ${JSON.stringify(res)}`);
+  }
+  if (!res.error) throw new Error(`${event}: ${code} came without a message`);
+}
+
+async function expectSuccess(socket: Socket, event: string, payload: unknown) {
+  const res = await emitAck<Ack>(socket, event, payload);
+  if (!res.success) throw new Error(`${event} ${JSON.stringify(payload)} failed: ${res.code} ${res.error}`);
+}
+
+async function run() {
+  console.log("[verify_action_acks] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+  const watchSocket = await connect("Watcher");
+  const outsideSocket = await connect("Outsider");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const joined = await emitAck<{ success: boolean; playerId: string }>(joinSocket, "join-room", { roomCode, playerName: "Join" });
+    await emitAck(watchSocket, "join-room", { roomCode, playerName: "Watcher", asSpectator: true });
+    const socketsById: Record<string, Socket> = { [created.playerId]: hostSocket, [joined.playerId]: joinSocket };
+
+    await expectCode(outsideSocket, "create-room", { playerName: "  " }, "NAME_REQUIRED");
+    await expectCode(outsideSocket, "join-room", { roomCode: "NOROOM", playerName: "Outsider" }, "ROOM_NOT_FOUND");
+    await expectCode(outsideSocket, "leave-quick-play", {}, "NOT_QUEUED");
+    await expectCode(outsideSocket, "get-game-replay", { gameId: "game_missing" }, "REPLAY_NOT_FOUND");
+    await expectCode(hostSocket, "join-quick-play", { playerName: "Host" }, "ALREADY_IN_ROOM");
+    await expectCode(hostSocket, "kick-player", { playerId: "player_missing" }, "PLAYER_NOT_FOUND");
+    await expectCode(hostSocket, "kick-player", { playerId: created.playerId }, "CANNOT_TARGET_SELF");
+    await expectCode(hostSocket, "create-invite", { expiresInMs: 1000 }, "INVALID_SETTINGS");
+    await expectCode(hostSocket, "update-room-settings", { settings: { maxPlayers: 99 } }, "INVALID_SETTINGS");
+    console.log("[verify_action_acks] ✅ room and host refusals carry codes");
+
+    await expectCode(joinSocket, "player-ready", {}, "NO_BOX_SELECTED");
+    await expectCode(hostSocket, "select-box", { boxNumber: 999 }, "INVALID_BOX");
+    await expectSuccess(hostSocket, "select-box", { boxNumber: 1 });
+    await expectCode(joinSocket, "select-box", { boxNumber: 1 }, "BOX_RESERVED");
+    await expectCode(watchSocket, "select-box", { boxNumber: 2 }, "NOT_A_PLAYER");
+    await expectSuccess(joinSocket, "select-box", { boxNumber: 2 });
+    await expectSuccess(hostSocket, "player-ready", {});
+    await expectCode(hostSocket, "select-box", { boxNumber: 3 }, "ALREADY_READY");
+    await expectCode(hostSocket, "start-game", {}, "NOT_ALL_READY");
+    await expectSuccess(joinSocket, "player-ready", {});
+    await expectCode(joinSocket, "start-game", {}, "NOT_HOST");
+    console.log("[verify_action_acks] ✅ lobby refusals carry codes");
+
+    const playing = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+    await expectSuccess(hostSocket, "start-game", {});
+    const state = await playing;
+    await expectCode(hostSocket, "start-game", {}, "WRONG_PHASE");
+
+    const turnId = state.currentTurnPlayerId!;
+    const turnSocket = socketsById[turnId];
+    const otherSocket = turnSocket === hostSocket ? joinSocket : hostSocket;
+    const openable = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+
+    await expectCode(otherSocket, "open-box", { boxNumber: openable.number }, "NOT_YOUR_TURN");
+    await expectCode(turnSocket, "open-box", { boxNumber: 2 }, "BOX_RESERVED");
+    await expectCode(turnSocket, "open-boxes", { boxNumbers: [] }, "INVALID_BOX");
+    await expectCode(turnSocket, "deal-response", { accepted: true }, "WRONG_PHASE");
+    await expectSuccess(turnSocket, "open-box", { boxNumber: openable.number });
+    await expectCode(turnSocket, "open-box", { boxNumber: openable.number }, "NOT_YOUR_TURN");
+    console.log("[verify_action_acks] ✅ in-game refusals carry codes");
+
+    await expectCode(hostSocket, "chat-message", { content: "   " }, "EMPTY_MESSAGE");
+    await expectCode(watchSocket, "chat-message", { content: "hi" }, "NOT_A_PLAYER");
+    await expectSuccess(hostSocket, "chat-message", { content: "good luck" });
+    console.log("[verify_action_acks] ✅ chat refusals carry codes");
+
+    console.log("[verify_action_acks] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+    watchSocket.disconnect();
+    outsideSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_action_acks] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,121 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies banker personalities:
+ * - The host picks the banker per room (unknown ones are rejected)
+ * - Offers follow the chosen strategy
+ * - The banker's breakdown is only sent once the game is over
+ */
+
+const URL = "http://localhost:3001";
+
+type Breakdown = { round: number; strategy: string; expectedValue: number; roundModifier: number; offer: number };
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; isReady: boolean }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+  currentOffer: number | null;
+  remainingValues: number[];
+  bankerOffers?: Breakdown[];
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_banker] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_banker] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const joined = await emitAck<{ success: boolean; playerId: string }>(joinSocket, "join-room", { roomCode, playerName: "Join" });
+    const socketsById: Record<string, Socket> = { [created.playerId]: hostSocket, [joined.playerId]: joinSocket };
+
+    const unknown = await emitAck<{ success: boolean }>(hostSocket, "update-room-settings", { settings: { bankerStrategy: "generous" } });
+    if (unknown.success) throw new Error("Unknown banker accepted");
+
+    const picked = await emitAck<{ success: boolean; error?: string }>(hostSocket, "update-room-settings", { settings: { bankerStrategy: "lowballer" } });
+    if (!picked.success) throw new Error(`Picking the banker failed: ${picked.error}`);
+
+    hostSocket.emit("select-box", { boxNumber: 1 });
+    hostSocket.emit("player-ready");
+    joinSocket.emit("select-box", { boxNumber: 20 });
+    joinSocket.emit("player-ready");
+    await waitForState(hostSocket, (s) => s.players.every((p) => p.isReady), 5000);
+
+    let state = await (async () => {
+      const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+      hostSocket.emit("start-game");
+      return await started;
+    })();
+
+    while (state.phase === "playing") {
+      const turnId = state.currentTurnPlayerId;
+      if (turnId) {
+        const box = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+        socketsById[turnId].emit("open-box", { boxNumber: box.number });
+      }
+      state = await waitForState(hostSocket, (s) => s.phase === "offer" || (s.phase === "playing" && s.currentTurnPlayerId !== turnId), 5000);
+    }
+
+    if (state.bankerOffers) throw new Error("Breakdown leaked before the game ended");
+    const ev = state.remainingValues.reduce((a, b) => a + b, 0) / state.remainingValues.length;
+    if ((state.currentOffer || 0) > ev * 0.5) throw new Error(`Lowballer offered too much (${state.currentOffer} vs EV ${ev})`);
+    console.log(`[verify_banker] ✅ lowballer offered ${state.currentOffer} against EV ${Math.round(ev)}`);
+
+    const finished = waitForState(hostSocket, (s) => s.phase === "finished", 5000);
+    hostSocket.emit("deal-response", { accepted: true });
+    joinSocket.emit("deal-response", { accepted: true });
+    const done = await finished;
+
+    const offers = done.bankerOffers || [];
+    if (offers.length !== 1 || offers[0].strategy !== "lowballer" || offers[0].offer !== state.currentOffer) {
+      throw new Error("Banker breakdown missing or wrong after the game");
+    }
+    console.log(`[verify_banker] ✅ breakdown sent after the game (modifier ${offers[0].roundModifier})`);
+
+    console.log("[verify_banker] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_banker] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
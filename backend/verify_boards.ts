@@ -0,0 +1,111 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies value boards:
+ * - A room can be created on a preset board, which brings its own box count and schedule
+ * - Switching board in the lobby deals fresh boxes and clears box picks
+ * - Custom lists are validated, and the board travels in the game state
+ * - Presets bring their currency unless the host picks one
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; boxNumber: number | null }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  remainingValues: number[];
+  settings: { boardId: string; boxValues: number[]; roundSchedule: number[]; currency: string };
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_boards] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_boards] starting…");
+
+  const hostSocket = await connect("Host");
+
+  try {
+    const initial = waitForState(hostSocket, (s) => s.settings.boardId === "quick-12", 5000);
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string; error?: string }>(hostSocket, "create-room", {
+      playerName: "Host",
+      settings: { boardId: "quick-12" },
+    });
+    if (!created.success) throw new Error(`Create failed: ${created.error}`);
+    const quick = await initial;
+    if (quick.boxes.length !== 12 || quick.remainingValues.length !== 12) throw new Error("Quick board did not deal 12 boxes");
+    if (quick.settings.roundSchedule.join(",") !== "3,2") throw new Error("Quick board schedule not applied");
+    console.log("[verify_boards] ✅ room created on the 12-box board");
+
+    hostSocket.emit("select-box", { boxNumber: 12 });
+    await waitForState(hostSocket, (s) => s.players.some((p) => p.boxNumber === 12), 5000);
+
+    const switched = waitForState(hostSocket, (s) => s.settings.boardId === "us-26", 5000);
+    const us = await emitAck<{ success: boolean; error?: string }>(hostSocket, "update-room-settings", { settings: { boardId: "us-26" } });
+    if (!us.success) throw new Error(`Switch to US board failed: ${us.error}`);
+    const usState = await switched;
+    if (usState.boxes.length !== 26 || Math.max(...usState.remainingValues) !== 1000000) throw new Error("US board not dealt");
+    if (usState.players.some((p) => p.boxNumber !== null)) throw new Error("Box picks were not cleared");
+    if (usState.settings.currency !== "USD") throw new Error("US board did not switch to dollars");
+    console.log("[verify_boards] ✅ switching board dealt 26 boxes, cleared picks and switched currency");
+
+    const badCurrency = await emitAck<{ success: boolean }>(hostSocket, "update-room-settings", { settings: { currency: "BTC" } });
+    if (badCurrency.success) throw new Error("Unknown currency accepted");
+
+    const dupes = await emitAck<{ success: boolean; error?: string }>(hostSocket, "update-room-settings", {
+      settings: { boardId: "custom", boxValues: [1, 1, 2, 3, 4, 5, 6, 7] },
+    });
+    if (dupes.success) throw new Error("Duplicate custom values accepted");
+    console.log(`[verify_boards] ✅ invalid custom board rejected (${dupes.error})`);
+
+    const customApplied = waitForState(hostSocket, (s) => s.settings.boardId === "custom", 5000);
+    const custom = await emitAck<{ success: boolean; error?: string }>(hostSocket, "update-room-settings", {
+      settings: { boardId: "custom", boxValues: [500, 1, 50, 5, 100, 10, 250, 25], roundSchedule: [2, 2], maxPlayers: 2, currency: "POINTS" },
+    });
+    if (!custom.success) throw new Error(`Custom board rejected: ${custom.error}`);
+    const customState = await customApplied;
+    if (customState.boxes.length !== 8) throw new Error("Custom board not dealt");
+    if (customState.settings.boxValues.join(",") !== "1,5,10,25,50,100,250,500") throw new Error("Custom values not sorted");
+    if (customState.settings.currency !== "POINTS") throw new Error("Currency not applied");
+    console.log("[verify_boards] ✅ custom board applied");
+
+    console.log("[verify_boards] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_boards] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,137 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies bot players:
+ * - Only the host can add a bot, and only with a known difficulty
+ * - A bot picks a box and readies up by itself
+ * - In game it opens boxes on its turn and answers the banker without a socket
+ * - Bots are left off the global leaderboard
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; name: string; isReady: boolean; boxNumber: number | null; hasDealt: boolean; isBot: boolean; botDifficulty: string | null }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+  gameId: string | null;
+};
+
+type GameEvent = { type: string; playerId?: string };
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_bots] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_bots] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    await emitAck(joinSocket, "join-room", { roomCode, playerName: "Join" });
+
+    const notHost = await emitAck<{ success: boolean; error?: string }>(joinSocket, "add-bot", { difficulty: "easy" });
+    if (notHost.success) throw new Error("A non-host added a bot");
+    const badLevel = await emitAck<{ success: boolean; error?: string }>(hostSocket, "add-bot", { difficulty: "godlike" });
+    if (badLevel.success) throw new Error("Unknown difficulty accepted");
+
+    // The guest leaves, so the host plays against the bot alone (on the small board)
+    await emitAck(joinSocket, "leave-room", {});
+    const rules = await emitAck<{ success: boolean; error?: string }>(hostSocket, "update-room-settings", { settings: { boardId: "quick-12" } });
+    if (!rules.success) throw new Error(`Could not switch board: ${rules.error}`);
+
+    const readyBot = waitForState(hostSocket, (s) => s.players.some((p) => p.isBot && p.isReady && p.boxNumber !== null), 5000);
+    const added = await emitAck<{ success: boolean; playerId?: string; error?: string }>(hostSocket, "add-bot", { difficulty: "hard" });
+    if (!added.success || !added.playerId) throw new Error(`add-bot failed: ${added.error}`);
+    const lobby = await readyBot;
+    const bot = lobby.players.find((p) => p.id === added.playerId)!;
+    if (bot.botDifficulty !== "hard") throw new Error("Bot difficulty not shown to clients");
+    console.log(`[verify_bots] ✅ ${bot.name} picked box ${bot.boxNumber} and readied up`);
+
+    const hostBox = lobby.boxes.find((b) => b.ownerId === null)!.number;
+    hostSocket.emit("select-box", { boxNumber: hostBox });
+    hostSocket.emit("player-ready");
+    await waitForState(hostSocket, (s) => s.players.every((p) => p.isReady), 5000);
+
+    let state = await (async () => {
+      const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+      hostSocket.emit("start-game");
+      return await started;
+    })();
+
+    // The host opens boxes on their turns and turns every offer down; the bot does the rest
+    while (state.phase !== "finished") {
+      if (state.phase === "playing" && state.currentTurnPlayerId === created.playerId) {
+        const box = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+        hostSocket.emit("open-box", { boxNumber: box.number });
+      } else if (state.phase === "offer" && !state.players.find((p) => p.id === created.playerId)!.hasDealt) {
+        hostSocket.emit("deal-response", { accepted: false });
+      } else if (state.phase === "swap-offer") {
+        hostSocket.emit("swap-response", { boxNumber: null });
+      }
+      const before = JSON.stringify([state.phase, state.currentTurnPlayerId, state.boxes.filter((b) => b.isOpened).length]);
+      state = await waitForState(
+        hostSocket,
+        (s) => JSON.stringify([s.phase, s.currentTurnPlayerId, s.boxes.filter((b) => b.isOpened).length]) !== before,
+        10000
+      );
+    }
+
+    const gameId = state.gameId;
+    const replay = await emitAck<{ success: boolean; replay?: { events: GameEvent[] } }>(hostSocket, "get-game-replay", { gameId });
+    const botEvents = (replay.replay?.events || []).filter((e) => e.playerId === added.playerId).map((e) => e.type);
+    if (!botEvents.includes("box-opened") && !botEvents.includes("deal-response")) {
+      throw new Error(`The bot never acted (${botEvents.join(", ")})`);
+    }
+    console.log(`[verify_bots] ✅ bot played: ${[...new Set(botEvents)].join(", ")}`);
+
+    const board = await emitAck<{ success: boolean; leaderboard?: Array<{ playerName: string }> }>(hostSocket, "get-global-leaderboard", { season: "all-time", pageSize: 100 });
+    const names = (board.leaderboard || []).map((e) => e.playerName);
+    if (names.includes(bot.name)) throw new Error("Bot appears on the global leaderboard");
+    if (!names.includes("Host")) throw new Error("Host missing from the global leaderboard");
+    console.log("[verify_bots] ✅ bot left off the global leaderboard");
+
+    console.log("[verify_bots] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_bots] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
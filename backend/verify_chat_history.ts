@@ -0,0 +1,123 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies chat history:
+ * - A late joiner gets the latest page of chat (oldest first) and is told there is more
+ * - get-chat-history pages back from a message ID, without gaps, and honours its limit
+ * - Reconnecting with reconnect-player sends the latest page again
+ * - Sockets outside a room can't read its history
+ */
+
+const URL = "http://localhost:3001";
+
+type ChatMessage = { id: string; content: string; timestamp: number; seq: number };
+type ChatHistory = { roomCode: string; messages: ChatMessage[]; hasMore: boolean };
+type HistoryAck = { success: boolean; error?: string; code?: string; messages?: ChatMessage[]; hasMore?: boolean };
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_chat_history] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForHistory(socket: Socket, timeoutMs: number): Promise<ChatHistory> {
+  return await new Promise<ChatHistory>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Timed out waiting for chat-history")), timeoutMs);
+    socket.once("chat-history", (data: ChatHistory) => {
+      clearTimeout(timer);
+      resolve(data);
+    });
+  });
+}
+
+function contents(messages: ChatMessage[]): string {
+  return messages.map((m) => m.content).join(",");
+}
+
+function range(from: number, to: number): string {
+  return Array.from({ length: to - from + 1 }, (_, i) => `msg ${from + i}`).join(",");
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function run() {
+  console.log("[verify_chat_history] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+  const lateSocket = await connect("Late");
+  const outsideSocket = await connect("Outside");
+  let rejoinSocket: Socket | null = null;
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const joined = await emitAck<{ success: boolean; playerId: string }>(joinSocket, "join-room", { roomCode, playerName: "Join" });
+
+    // Two senders, paced under the chat rate limit
+    for (let n = 1; n <= 32; n += 2) {
+      await emitAck(hostSocket, "chat-message", { content: `msg ${n}` });
+      await emitAck(joinSocket, "chat-message", { content: `msg ${n + 1}` });
+      if (n > 8) await sleep(1000);
+    }
+
+    const snapshot = waitForHistory(lateSocket, 3000);
+    await emitAck(lateSocket, "join-room", { roomCode, playerName: "Late", asSpectator: true });
+    const history = await snapshot;
+    if (history.roomCode !== roomCode || !history.hasMore || contents(history.messages) !== range(3, 32)) {
+      throw new Error(`Unexpected snapshot: ${contents(history.messages)} (hasMore=${history.hasMore})`);
+    }
+    console.log("[verify_chat_history] ✅ late joiner gets the latest page");
+
+    const seqs = history.messages.map((m) => m.seq);
+    if (seqs.some((seq, i) => i > 0 && seq <= seqs[i - 1])) throw new Error(`Messages out of order: ${seqs.join(",")}`);
+
+    const older = await emitAck<HistoryAck>(lateSocket, "get-chat-history", { before: history.messages[0].id });
+    if (!older.success || older.hasMore || contents(older.messages || []) !== range(1, 2)) {
+      throw new Error(`Unexpected older page: ${JSON.stringify(older)}`);
+    }
+    const latestFive = await emitAck<HistoryAck>(lateSocket, "get-chat-history", { limit: 5 });
+    if (!latestFive.hasMore || contents(latestFive.messages || []) !== range(28, 32)) {
+      throw new Error(`Unexpected limited page: ${JSON.stringify(latestFive)}`);
+    }
+    const previousFive = await emitAck<HistoryAck>(lateSocket, "get-chat-history", { before: latestFive.messages![0].id, limit: 5 });
+    if (!previousFive.hasMore || contents(previousFive.messages || []) !== range(23, 27)) {
+      throw new Error(`Unexpected previous page: ${JSON.stringify(previousFive)}`);
+    }
+    console.log("[verify_chat_history] ✅ pages back by message ID with a limit");
+
+    joinSocket.disconnect();
+    await sleep(300);
+    rejoinSocket = await connect("Join (again)");
+    const resent = waitForHistory(rejoinSocket, 3000);
+    const reconnected = await emitAck<{ success: boolean }>(rejoinSocket, "reconnect-player", { playerId: joined.playerId });
+    if (!reconnected.success) throw new Error("reconnect-player failed");
+    if (contents((await resent).messages) !== range(3, 32)) throw new Error("Reconnect did not resend the latest page");
+    console.log("[verify_chat_history] ✅ reconnect resends the latest page");
+
+    const outside = await emitAck<HistoryAck>(outsideSocket, "get-chat-history", {});
+    if (outside.success || outside.code !== "NOT_IN_ROOM") throw new Error(`Outsider read history: ${JSON.stringify(outside)}`);
+    console.log("[verify_chat_history] ✅ outsiders can't read history");
+
+    console.log("[verify_chat_history] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+    lateSocket.disconnect();
+    outsideSocket.disconnect();
+    rejoinSocket?.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_chat_history] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,155 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies chat moderation:
+ * - Banned words are masked (or refused with the filter set to block), and messages say so
+ * - Slow mode holds players (not the host) to one message per interval, with a notice when it changes
+ * - Reports reach the host once per player per message
+ * - Muted players can't post until the host lifts it; chat settings can change mid-game
+ */
+
+const URL = "http://localhost:3001";
+
+type Ack = { success: boolean; error?: string; code?: string };
+
+type ChatMessage = {
+  id: string;
+  senderId: string;
+  content: string;
+  kind: "player" | "system";
+  moderation: { filtered: boolean; slowModeMs: number };
+};
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; isMuted: boolean }>;
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_chat_moderation] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitFor<T>(socket: Socket, event: string, predicate: (data: T) => boolean, timeoutMs: number): Promise<T> {
+  return await new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off(event, onEvent);
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, timeoutMs);
+
+    const onEvent = (data: T) => {
+      if (!predicate(data)) return;
+      clearTimeout(timer);
+      socket.off(event, onEvent);
+      resolve(data);
+    };
+
+    socket.on(event, onEvent);
+  });
+}
+
+async function expectCode(socket: Socket, event: string, payload: unknown, code: string) {
+  const res = await emitAck<Ack>(socket, event, payload);
+  if (res.success || res.code !== code) {
+    throw new Error(`${event} ${JSON.stringify(payload)}: expected ${code}, got ${JSON.stringify(res)}`);
+  }
+}
+
+async function expectSuccess(socket: Socket, event: string, payload: unknown) {
+  const res = await emitAck<Ack>(socket, event, payload);
+  if (!res.success) throw new Error(`${event} ${JSON.stringify(payload)} failed: ${res.code} ${res.error}`);
+}
+
+// Send a message and return it as the room sees it
+async function say(socket: Socket, content: string): Promise<ChatMessage> {
+  const received = waitFor<ChatMessage>(socket, "chat-message", (m) => m.kind === "player" && m.senderId !== "system", 3000);
+  await expectSuccess(socket, "chat-message", { content });
+  return await received;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function run() {
+  console.log("[verify_chat_moderation] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const joined = await emitAck<{ success: boolean; playerId: string }>(joinSocket, "join-room", { roomCode, playerName: "Join" });
+
+    const masked = await say(joinSocket, "what the fuck");
+    if (masked.content !== "what the f***" || !masked.moderation.filtered) {
+      throw new Error(`Expected a masked message, got ${JSON.stringify(masked)}`);
+    }
+    const clean = await say(joinSocket, "a class act");
+    if (clean.content !== "a class act" || clean.moderation.filtered) {
+      throw new Error(`Clean message was changed: ${JSON.stringify(clean)}`);
+    }
+    await expectSuccess(hostSocket, "update-room-settings", { settings: { chatFilter: "block" } });
+    await expectCode(joinSocket, "chat-message", { content: "oh shit" }, "MESSAGE_BLOCKED");
+    console.log("[verify_chat_moderation] ✅ banned words masked or blocked");
+
+    await sleep(3000); // Join's last message is older than the slow mode interval
+    const notice = waitFor<ChatMessage>(joinSocket, "chat-message", (m) => m.kind === "system" && m.content.includes("Slow mode is on"), 3000);
+    await expectSuccess(hostSocket, "update-room-settings", { settings: { chatSlowModeMs: 3000 } });
+    await notice;
+    const slow = await say(joinSocket, "hello");
+    if (slow.moderation.slowModeMs !== 3000) throw new Error("Message did not record slow mode");
+    await expectCode(joinSocket, "chat-message", { content: "hello again" }, "SLOW_MODE");
+    await say(hostSocket, "host one");
+    await say(hostSocket, "host two");
+    console.log("[verify_chat_moderation] ✅ slow mode holds players, not the host");
+
+    await expectCode(joinSocket, "report-message", { messageId: slow.id }, "NOT_ELIGIBLE");
+    await expectCode(hostSocket, "report-message", { messageId: "msg_missing" }, "MESSAGE_NOT_FOUND");
+    const reported = waitFor<ChatMessage>(hostSocket, "chat-message", (m) => m.kind === "system" && m.content.includes("reported Join"), 3000);
+    await expectSuccess(hostSocket, "report-message", { messageId: slow.id, reason: "testing" });
+    await reported;
+    await expectCode(hostSocket, "report-message", { messageId: slow.id }, "ALREADY_REPORTED");
+    console.log("[verify_chat_moderation] ✅ reports reach the host once");
+
+    await expectCode(joinSocket, "mute-player", { playerId: created.playerId, muted: true }, "NOT_HOST");
+    const mutedState = waitFor<GameStateUpdate>(joinSocket, "game-state-update", (s) => !!s.players.find((p) => p.id === joined.playerId)?.isMuted, 3000);
+    const mutedNotice = waitFor<ChatMessage>(joinSocket, "chat-message", (m) => m.kind === "system" && m.content === "Join was muted by the host", 3000);
+    await expectSuccess(hostSocket, "mute-player", { playerId: joined.playerId, muted: true });
+    await Promise.all([mutedState, mutedNotice]);
+    await sleep(3000); // Past slow mode, so the refusal is the mute
+    await expectCode(joinSocket, "chat-message", { content: "let me talk" }, "MUTED");
+    await expectSuccess(hostSocket, "mute-player", { playerId: joined.playerId, muted: false });
+    await say(joinSocket, "thanks");
+    console.log("[verify_chat_moderation] ✅ muted players can't post until unmuted");
+
+    await expectSuccess(hostSocket, "select-box", { boxNumber: 1 });
+    await expectSuccess(joinSocket, "select-box", { boxNumber: 2 });
+    await expectSuccess(hostSocket, "player-ready", {});
+    await expectSuccess(joinSocket, "player-ready", {});
+    const playing = waitFor<GameStateUpdate>(hostSocket, "game-state-update", (s) => s.phase === "playing", 5000);
+    await expectSuccess(hostSocket, "start-game", {});
+    await playing;
+    await expectSuccess(hostSocket, "update-room-settings", { settings: { chatSlowModeMs: 0, chatFilter: "mask" } });
+    await expectCode(hostSocket, "update-room-settings", { settings: { turnTimeoutMs: 30000 } }, "WRONG_PHASE");
+    console.log("[verify_chat_moderation] ✅ chat settings change mid-game, other rules don't");
+
+    console.log("[verify_chat_moderation] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_chat_moderation] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
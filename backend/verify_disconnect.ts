@@ -0,0 +1,174 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies the disconnect policy:
+ * - A contestant who stays disconnected past the grace period is marked away
+ * - auto-play: the server opens boxes and answers offers for them before their timers run out
+ * - skip: their turns are skipped straight away, so the others keep playing
+ * - Reconnecting clears the away flag
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  phase: string;
+  gameId: string | null;
+  players: Array<{ id: string; isReady: boolean; hasDealt: boolean; isAway: boolean }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+  currentRound: number;
+};
+
+type GameEvent = { type: string; playerId?: string; playerIds?: string[] };
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_disconnect] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+/** Two-player room on the small board with the given policy; returns once the game is running */
+async function startGame(policy: string) {
+  const hostSocket = await connect(`Host (${policy})`);
+  const joinSocket = await connect(`Join (${policy})`);
+
+  const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", {
+    playerName: "Host",
+    settings: { boardId: "quick-12", disconnectPolicy: policy },
+  });
+  const joined = await emitAck<{ success: boolean; playerId: string }>(joinSocket, "join-room", { roomCode: created.roomCode, playerName: "Join" });
+
+  hostSocket.emit("select-box", { boxNumber: 1 });
+  hostSocket.emit("player-ready");
+  joinSocket.emit("select-box", { boxNumber: 12 });
+  joinSocket.emit("player-ready");
+  await waitForState(hostSocket, (s) => s.players.length === 2 && s.players.every((p) => p.isReady), 5000);
+
+  const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+  hostSocket.emit("start-game");
+  const state = await started;
+
+  return { hostSocket, joinSocket, hostId: created.playerId, joinId: joined.playerId, state };
+}
+
+async function getReplay(socket: Socket, gameId: string | null) {
+  const res = await emitAck<{ success: boolean; error?: string; replay?: { events: GameEvent[] } }>(socket, "get-game-replay", { gameId });
+  if (!res.replay) throw new Error(`get-game-replay failed: ${res.error}`);
+  return res.replay.events;
+}
+
+async function verifyAutoPlay() {
+  const { hostSocket, joinSocket, hostId, joinId } = await startGame("auto-play");
+
+  try {
+    joinSocket.disconnect();
+    let state = await waitForState(hostSocket, (s) => !!s.players.find((p) => p.id === joinId)?.isAway, 25000);
+    console.log("[verify_disconnect] ✅ disconnected player marked away after the grace period");
+
+    // The host deals at the first offer; the away player is played out to the end
+    while (state.phase !== "finished") {
+      if (state.phase === "playing" && state.currentTurnPlayerId === hostId) {
+        const box = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+        hostSocket.emit("open-box", { boxNumber: box.number });
+      } else if (state.phase === "offer" && !state.players.find((p) => p.id === hostId)!.hasDealt) {
+        hostSocket.emit("deal-response", { accepted: true });
+      }
+      const before = JSON.stringify([state.phase, state.currentTurnPlayerId, state.boxes.filter((b) => b.isOpened).length]);
+      state = await waitForState(
+        hostSocket,
+        (s) => JSON.stringify([s.phase, s.currentTurnPlayerId, s.boxes.filter((b) => b.isOpened).length]) !== before,
+        15000
+      );
+    }
+
+    const events = await getReplay(hostSocket, state.gameId);
+    const opened = events.filter((e) => e.type === "box-opened" && e.playerId === joinId).length;
+    const answered = events.filter((e) => e.type === "deal-response" && e.playerId === joinId).length;
+    if (opened === 0 || answered === 0) throw new Error(`Away player was not played for (${opened} opens, ${answered} answers)`);
+    if (events.some((e) => e.type === "turn-timeout" && e.playerId === joinId)) throw new Error("Away player's turn timed out");
+    console.log(`[verify_disconnect] ✅ auto-play opened ${opened} boxes and answered ${answered} offers`);
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+  }
+}
+
+async function verifySkip() {
+  const { hostSocket, joinSocket, hostId, joinId } = await startGame("skip");
+
+  // The skip and the next turn arrive together, so keep the latest state rather than waiting for each one
+  let latest: GameStateUpdate | null = null;
+  hostSocket.on("game-state-update", (s: GameStateUpdate) => { latest = s; });
+  const until = async (predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> => {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (latest && predicate(latest)) return latest;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    throw new Error("Timed out waiting for expected state");
+  };
+
+  try {
+    const roomCode = (await emitAck<{ success: boolean; roomCode: string }>(joinSocket, "reconnect-player", { playerId: joinId })).roomCode;
+    joinSocket.disconnect();
+    await until((s) => !!s.players.find((p) => p.id === joinId)?.isAway, 25000);
+
+    // With the other player away, every turn comes straight back to the host (well inside the turn timer)
+    for (let turn = 0; turn < 3; turn++) {
+      const state = await until((s) => s.phase === "playing" && s.currentTurnPlayerId === hostId, 3000);
+      const opened = state.boxes.filter((b) => b.isOpened).length;
+      const box = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+      hostSocket.emit("open-box", { boxNumber: box.number });
+      await until((s) => s.boxes.filter((b) => b.isOpened).length > opened, 5000);
+    }
+    console.log("[verify_disconnect] ✅ skip passed the away player's turns straight to the host");
+
+    const back = await connect("Join again");
+    const res = await emitAck<{ success: boolean; roomCode: string }>(back, "reconnect-player", { playerId: joinId });
+    if (!res.success || res.roomCode !== roomCode) throw new Error("Reconnect failed");
+    await until((s) => s.players.find((p) => p.id === joinId)?.isAway === false, 5000);
+    back.disconnect();
+    console.log("[verify_disconnect] ✅ reconnecting clears the away flag");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+  }
+}
+
+async function run() {
+  console.log("[verify_disconnect] starting…");
+  await verifyAutoPlay();
+  await verifySkip();
+  console.log("[verify_disconnect] ✅ OK");
+}
+
+run().catch((err) => {
+  console.error("[verify_disconnect] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
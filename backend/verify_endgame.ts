@@ -7,7 +7,7 @@ import { io, Socket } from "socket.io-client";
  * - Select unique personal boxes
  * - Start game
  * - Open required boxes for Round 1 to trigger a banker offer
- * - One player accepts Deal, other rejects (forcing last-player reveal)
+ * - One player accepts Deal, other rejects (forcing the final swap, which they decline, then the reveal)
  * - Assert final leaderboard points match the client-approved formula
  */
 
@@ -16,7 +16,7 @@ const URL = "http://localhost:3001";
 const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 type GameStateUpdate = {
-  phase: "waiting" | "selection" | "playing" | "offer" | "finished";
+  phase: "waiting" | "selection" | "playing" | "offer" | "swap-offer" | "finished";
   players: Array<{
     id: string;
     name: string;
@@ -161,6 +161,7 @@ async function run() {
     const reserved = new Set<number>([hostBox, joinBox]);
     let lastTurnHandled: number | null = null; // use turnExpiresAt as per-turn unique id
     let offerResponded = false;
+    let swapResponded = false;
 
     const gameEndedPromise = new Promise<GameEndedPayload>((resolve) => {
       hostSocket.on("game-ended", (payload: GameEndedPayload) => resolve(payload));
@@ -196,9 +197,15 @@ async function run() {
 
         // Force a deterministic endgame:
         // - host takes the Deal
-        // - joiner rejects -> becomes last standing -> auto reveal -> game ends
+        // - joiner rejects -> becomes last standing -> keeps their box at the final swap -> reveal -> game ends
         hostSocket.emit("deal-response", { accepted: true });
         joinSocket.emit("deal-response", { accepted: false });
+        return;
+      }
+
+      if (state.phase === "swap-offer" && !swapResponded) {
+        swapResponded = true;
+        joinSocket.emit("swap-response", { boxNumber: null });
       }
     });
 
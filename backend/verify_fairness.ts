@@ -0,0 +1,127 @@
+/// <reference types="node" />
+import crypto from "crypto";
+import { io, Socket } from "socket.io-client";
+import { createRoomRandom, seedToState, shuffleArray } from "./src/game/rng";
+
+/**
+ * Verifies the provably fair box layout:
+ * - A layout commitment is published when the game starts (and not before)
+ * - game-ended reveals the seed, salt and layout behind it
+ * - The salt + layout hash to the commitment, the seed shuffles the board into the
+ *   layout, and every opened box held its committed value
+ */
+
+const URL = "http://localhost:3001";
+
+type FairnessProof = { seed: string; salt: string; layout: number[]; commitment: string };
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; isReady: boolean }>;
+  boxes: Array<{ number: number; isOpened: boolean; value: number | null; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+  settings: { boxValues: number[] };
+  fairnessCommitment: string | null;
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_fairness] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_fairness] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const joined = await emitAck<{ success: boolean; playerId: string }>(joinSocket, "join-room", { roomCode, playerName: "Join" });
+    const socketsById: Record<string, Socket> = { [created.playerId]: hostSocket, [joined.playerId]: joinSocket };
+
+    hostSocket.emit("select-box", { boxNumber: 1 });
+    hostSocket.emit("player-ready");
+    joinSocket.emit("select-box", { boxNumber: 20 });
+    const lobby = await waitForState(hostSocket, (s) => s.players.some((p) => p.id === joined.playerId), 5000);
+    if (lobby.fairnessCommitment !== null) throw new Error("Commitment published before the game started");
+    joinSocket.emit("player-ready");
+    await waitForState(hostSocket, (s) => s.players.every((p) => p.isReady), 5000);
+
+    let state = await (async () => {
+      const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+      hostSocket.emit("start-game");
+      return await started;
+    })();
+
+    const commitment = state.fairnessCommitment;
+    if (!commitment || !/^[0-9a-f]{64}$/.test(commitment)) throw new Error(`No SHA-256 commitment at the start (${commitment})`);
+    console.log(`[verify_fairness] ✅ commitment published: ${commitment.slice(0, 16)}…`);
+
+    while (state.phase === "playing") {
+      const turnId = state.currentTurnPlayerId;
+      if (turnId) {
+        const box = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+        socketsById[turnId].emit("open-box", { boxNumber: box.number });
+      }
+      state = await waitForState(hostSocket, (s) => s.phase === "offer" || (s.phase === "playing" && s.currentTurnPlayerId !== turnId), 5000);
+    }
+
+    // Both deal, ending the game
+    const ended = new Promise<{ fairness: FairnessProof | null }>((resolve) => hostSocket.once("game-ended", resolve));
+    const finished = waitForState(hostSocket, (s) => s.phase === "finished", 5000);
+    hostSocket.emit("deal-response", { accepted: true });
+    joinSocket.emit("deal-response", { accepted: true });
+    const proof = (await ended).fairness;
+    const done = await finished;
+
+    if (!proof || proof.commitment !== commitment) throw new Error("game-ended did not reveal the published commitment");
+
+    const hash = crypto.createHash("sha256").update(`${proof.salt}:${JSON.stringify(proof.layout)}`).digest("hex");
+    if (hash !== commitment) throw new Error("Salt + layout do not hash to the commitment");
+
+    const reshuffled = shuffleArray(done.settings.boxValues, createRoomRandom({ rngState: seedToState(proof.seed) }));
+    if (JSON.stringify(reshuffled) !== JSON.stringify(proof.layout)) throw new Error("Seed does not reproduce the layout");
+
+    const moved = done.boxes.filter((b) => b.value !== null && b.value !== proof.layout[b.number - 1]);
+    if (moved.length > 0) throw new Error(`Boxes ${moved.map((b) => b.number).join(", ")} differ from the commitment`);
+    console.log(`[verify_fairness] ✅ seed ${proof.seed.slice(0, 8)}… reproduces the committed layout`);
+
+    console.log("[verify_fairness] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_fairness] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
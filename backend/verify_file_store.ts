@@ -0,0 +1,230 @@
+/// <reference types="node" />
+import { spawn, ChildProcess } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { io, Socket } from "socket.io-client";
+import { createFileRoomStore } from "./src/store/fileRoomStore";
+import { createDefaultRoomSettings } from "./src/game/roomSettings";
+import type { GameReplay, GameResultRow } from "./src/store/types";
+
+/**
+ * Verifies the file room store:
+ * - Older snapshots load: v1 chat gets its sequence numbers, v2 results and replays move
+ *   to their own files and the next write is a v3 snapshot without them
+ * - Live: a game in play survives a restart of a server using ROOM_STORE=file, and its turn
+ *   timer comes back with the time it had left (not a fresh one) and still fires
+ *
+ * Starts its own server on PORT (3002), so it doesn't need (or disturb) one on 3001.
+ */
+
+const PORT = 3002;
+const URL = `http://localhost:${PORT}`;
+const TURN_TIMEOUT_MS = 20000;
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; isReady: boolean }>;
+  currentTurnPlayerId: string | null;
+  turnExpiresAt: number | null;
+};
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_file_store] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+/**
+ * Run the server from source with the file store at `snapshotPath`, resolving once it listens
+ */
+async function startServer(snapshotPath: string): Promise<ChildProcess> {
+  const server = spawn(process.execPath, ["-r", "ts-node/register/transpile-only", "src/index.ts"], {
+    cwd: __dirname,
+    env: { ...process.env, PORT: String(PORT), ROOM_STORE: "file", ROOM_STORE_PATH: snapshotPath },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Server did not start")), 60000);
+    server.stdout!.on("data", (chunk: Buffer) => {
+      if (!chunk.toString().includes("Ready for connections")) return;
+      clearTimeout(timer);
+      resolve();
+    });
+    server.stderr!.on("data", (chunk: Buffer) => process.stderr.write(chunk));
+    server.on("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Server exited with ${code}`));
+    });
+  });
+  return server;
+}
+
+/**
+ * SIGTERM the server (which flushes the store) and wait for it to exit
+ */
+async function stopServer(server: ChildProcess): Promise<void> {
+  if (server.exitCode !== null) return;
+  const exited = new Promise<void>((resolve) => server.once("exit", () => resolve()));
+  server.kill("SIGTERM");
+  await exited;
+}
+
+function verifySnapshotUpgrades(dir: string) {
+  const settings = createDefaultRoomSettings();
+  const row: GameResultRow = {
+    id: "result-1",
+    playerKey: "profile-1",
+    playerName: "Alice",
+    publicId: "pub-1",
+    roomCode: "OLD001",
+    points: 120,
+    amount: 5000,
+    roundDealt: 3,
+    timeoutCount: 0,
+    wasBoxValue: false,
+    finishedAt: 1_700_000_000_000,
+    mode: "multiplayer",
+  };
+  const replay: GameReplay = { gameId: "game-1", roomCode: "OLD001", settings, startedAt: 1_699_999_000_000, finishedAt: 1_700_000_000_000, events: [] };
+
+  // v1: chat from before sequence numbers and moderation
+  const v1Path = path.join(dir, "v1.json");
+  const legacyChat = [1, 2].map((n) => ({ id: `m${n}`, roomCode: "OLD001", senderId: "p1", senderName: "Alice", content: `hi ${n}`, timestamp: 1_700_000_000_000 }));
+  fs.writeFileSync(v1Path, JSON.stringify({ version: 1, savedAt: 0, rooms: [], chat: { OLD001: legacyChat }, leaderboard: [] }));
+  const v1 = createFileRoomStore(v1Path);
+  const chat = v1.getChatMessages("OLD001");
+  assert(chat.length === 2 && chat[0].seq === 0 && chat[1].seq === 1, "v1 chat not given sequence numbers");
+  assert(chat.every((m) => m.kind === "player"), "v1 chat not marked as player messages");
+
+  // v2: results and replays inside the snapshot
+  const v2Path = path.join(dir, "v2.json");
+  fs.writeFileSync(v2Path, JSON.stringify({ version: 2, savedAt: 0, rooms: [], chat: {}, events: {}, results: [row], replays: [replay] }));
+  const v2 = createFileRoomStore(v2Path);
+  assert(v2.listGameResults().length === 1 && v2.listGameResults()[0].id === row.id, "v2 results not loaded");
+  assert(v2.getGameReplay(replay.gameId)?.roomCode === "OLD001", "v2 replay not loaded");
+  const resultsPath = path.join(dir, "v2.results.jsonl");
+  assert(fs.existsSync(resultsPath) && JSON.parse(fs.readFileSync(resultsPath, "utf8").trim()).id === row.id, "v2 results not moved to their own file");
+
+  v2.flush();
+  const rewritten = JSON.parse(fs.readFileSync(v2Path, "utf8"));
+  assert(rewritten.version === 3, `snapshot rewritten as version ${rewritten.version}`);
+  assert(rewritten.results === undefined && rewritten.replays === undefined, "v3 snapshot still holds results or replays");
+  const replays = JSON.parse(fs.readFileSync(path.join(dir, "v2.replays.json"), "utf8")) as GameReplay[];
+  assert(replays.length === 1 && replays[0].gameId === replay.gameId, "v2 replays not moved to their own file");
+
+  // And a reload of the upgraded files sees the same history
+  const reloaded = createFileRoomStore(v2Path);
+  assert(reloaded.listGameResults().length === 1 && !!reloaded.getGameReplay(replay.gameId), "history lost after the upgrade");
+  console.log("[verify_file_store] ✅ v1 and v2 snapshots load and are rewritten as v3");
+}
+
+async function verifyRestart(dir: string) {
+  const snapshotPath = path.join(dir, "rooms.json");
+  let server = await startServer(snapshotPath);
+  const sockets: Socket[] = [];
+
+  try {
+    const hostSocket = await connect("Host");
+    const aSocket = await connect("A");
+    sockets.push(hostSocket, aSocket);
+
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", {
+      playerName: "Host",
+      settings: { turnTimeoutMs: TURN_TIMEOUT_MS },
+    });
+    const roomCode = created.roomCode;
+    const a = await emitAck<{ success: boolean; playerId: string }>(aSocket, "join-room", { roomCode, playerName: "A" });
+
+    [hostSocket, aSocket].forEach((socket, i) => {
+      socket.emit("select-box", { boxNumber: i + 1 });
+      socket.emit("player-ready");
+    });
+    await waitForState(hostSocket, (s) => s.players.length === 2 && s.players.every((p) => p.isReady), 5000);
+    const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.turnExpiresAt, 5000);
+    hostSocket.emit("start-game");
+    const before = await started;
+    console.log(`[verify_file_store] game started in ${roomCode}; turn ends in ${before.turnExpiresAt! - Date.now()}ms`);
+
+    sockets.forEach((socket) => socket.disconnect());
+    sockets.length = 0;
+    await stopServer(server);
+
+    const saved = JSON.parse(fs.readFileSync(snapshotPath, "utf8"));
+    const savedRoom = saved.rooms.find((r: { code: string }) => r.code === roomCode);
+    assert(saved.version === 3 && !!savedRoom, "room not in the snapshot written on shutdown");
+    assert(savedRoom.gameState.phase === "playing" && savedRoom.gameState.turnExpiresAt === before.turnExpiresAt, "turn deadline not saved");
+
+    server = await startServer(snapshotPath);
+    const hostAgain = await connect("Host (restarted)");
+    const aAgain = await connect("A (restarted)");
+    sockets.push(hostAgain, aAgain);
+
+    const restored = waitForState(hostAgain, (s) => s.phase === "playing", 5000);
+    const rejoined = await emitAck<{ success: boolean; roomCode?: string }>(hostAgain, "reconnect-player", { playerId: created.playerId });
+    assert(rejoined.success && rejoined.roomCode === roomCode, "host could not reconnect after the restart");
+    await emitAck(aAgain, "reconnect-player", { playerId: a.playerId });
+    const after = await restored;
+    assert(after.currentTurnPlayerId === before.currentTurnPlayerId, "turn holder changed over the restart");
+    assert(after.turnExpiresAt === before.turnExpiresAt, `turn deadline reset over the restart (${before.turnExpiresAt} -> ${after.turnExpiresAt})`);
+    const left = after.turnExpiresAt! - Date.now();
+    assert(left > 0, "restart took longer than the turn; raise TURN_TIMEOUT_MS");
+    console.log(`[verify_file_store] ✅ restored game kept its turn deadline (${left}ms left)`);
+
+    const timedOut = await waitForState(hostAgain, (s) => s.currentTurnPlayerId !== before.currentTurnPlayerId, left + 5000);
+    const late = Date.now() - before.turnExpiresAt!;
+    assert(late > -500 && late < 2000, `re-armed timer fired ${late}ms from the saved deadline`);
+    assert(timedOut.phase === "playing", `unexpected phase ${timedOut.phase} after the timeout`);
+    console.log("[verify_file_store] ✅ re-armed turn timer fired at the saved deadline");
+  } finally {
+    sockets.forEach((socket) => socket.disconnect());
+    await stopServer(server);
+  }
+}
+
+async function run() {
+  console.log("[verify_file_store] starting…");
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "verify-file-store-"));
+
+  try {
+    verifySnapshotUpgrades(dir);
+    await verifyRestart(dir);
+    console.log("[verify_file_store] ✅ OK");
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_file_store] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
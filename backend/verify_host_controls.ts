@@ -0,0 +1,113 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies host controls in the lobby:
+ * - Non-hosts cannot kick
+ * - Host can transfer host to another contestant
+ * - Host can kick a player (they receive `kicked` and disappear from the room)
+ * - A banned player cannot rejoin the room from the same browser
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; name: string; isHost: boolean }>;
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_host_controls] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_host_controls] starting…");
+
+  const hostSocket = await connect("Host");
+  const p2Socket = await connect("P2");
+  const p3Socket = await connect("P3");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const hostId = created.playerId;
+
+    const p2 = await emitAck<{ success: boolean; playerId: string }>(p2Socket, "join-room", { roomCode, playerName: "Second" });
+    const p3 = await emitAck<{ success: boolean; playerId: string }>(p3Socket, "join-room", { roomCode, playerName: "Third" });
+    if (!p2.success || !p3.success) throw new Error("Join failed");
+
+    // Non-host cannot kick
+    const denied = await emitAck<{ success: boolean; error?: string }>(p2Socket, "kick-player", { playerId: p3.playerId });
+    if (denied.success) throw new Error("Non-host was allowed to kick");
+    console.log(`[verify_host_controls] ✅ non-host kick rejected (${denied.error})`);
+
+    // Transfer host to P2, then back
+    const transferred = waitForState(hostSocket, (s) => s.players.some((p) => p.id === p2.playerId && p.isHost), 5000);
+    const transferRes = await emitAck<{ success: boolean; error?: string }>(hostSocket, "transfer-host", { playerId: p2.playerId });
+    if (!transferRes.success) throw new Error(`Transfer failed: ${transferRes.error}`);
+    await transferred;
+    console.log("[verify_host_controls] ✅ host transferred");
+
+    const back = await emitAck<{ success: boolean; error?: string }>(p2Socket, "transfer-host", { playerId: hostId });
+    if (!back.success) throw new Error(`Transfer back failed: ${back.error}`);
+
+    // Kick P3
+    const kickedEvent = new Promise<{ reason: string }>((resolve) => p3Socket.once("kicked", resolve));
+    const gone = waitForState(hostSocket, (s) => !s.players.some((p) => p.id === p3.playerId), 5000);
+    const kickRes = await emitAck<{ success: boolean; error?: string }>(hostSocket, "kick-player", { playerId: p3.playerId });
+    if (!kickRes.success) throw new Error(`Kick failed: ${kickRes.error}`);
+    const kicked = await kickedEvent;
+    if (kicked.reason !== "kicked") throw new Error(`Unexpected kick reason ${kicked.reason}`);
+    await gone;
+    console.log("[verify_host_controls] ✅ player kicked");
+
+    // Kicked players may rejoin
+    const rejoin = await emitAck<{ success: boolean; playerId: string }>(p3Socket, "join-room", { roomCode, playerName: "Third" });
+    if (!rejoin.success) throw new Error("Kicked player could not rejoin");
+
+    // Ban P3: rejoining from the same browser fails
+    const banRes = await emitAck<{ success: boolean; error?: string }>(hostSocket, "ban-player", { playerId: rejoin.playerId });
+    if (!banRes.success) throw new Error(`Ban failed: ${banRes.error}`);
+    const blocked = await emitAck<{ success: boolean; error?: string }>(p3Socket, "join-room", { roomCode, playerName: "Third" });
+    if (blocked.success) throw new Error("Banned player was able to rejoin");
+    console.log(`[verify_host_controls] ✅ banned player blocked (${blocked.error})`);
+
+    console.log("[verify_host_controls] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    p2Socket.disconnect();
+    p3Socket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_host_controls] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,97 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies invite links:
+ * - Only the host can create an invite, within the allowed expiry and use count
+ * - A valid invite gets its holder past the room password, as a player or spectator
+ * - A single-use invite stops working once used; a bad token still needs the password
+ * - An invite isn't spent by someone who also knew the password
+ */
+
+const URL = "http://localhost:3001";
+
+type Invite = { token: string; expiresAt: number; usesLeft: number };
+type Ack = { success: boolean; error?: string };
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_invites] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function run() {
+  console.log("[verify_invites] starting…");
+
+  const hostSocket = await connect("Host");
+  const guestA = await connect("GuestA");
+  const guestB = await connect("GuestB");
+  const watcher = await connect("Watcher");
+  const knowsPassword = await connect("KnowsPassword");
+  const lateGuest = await connect("LateGuest");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    await emitAck(hostSocket, "set-room-password", { password: "secret" });
+
+    const tooLong = await emitAck<Ack>(hostSocket, "create-invite", { expiresInMs: 30 * 24 * 60 * 60 * 1000 });
+    if (tooLong.success) throw new Error("A 30-day invite was accepted");
+    const noUses = await emitAck<Ack>(hostSocket, "create-invite", { maxUses: 0 });
+    if (noUses.success) throw new Error("A zero-use invite was accepted");
+
+    const single = await emitAck<Ack & { invite?: Invite }>(hostSocket, "create-invite", {});
+    if (!single.success || !single.invite) throw new Error(`create-invite failed: ${single.error}`);
+    if (single.invite.usesLeft !== 1 || single.invite.expiresAt <= Date.now()) throw new Error("Unexpected invite defaults");
+
+    const joinedA = await emitAck<Ack>(guestA, "join-room", { roomCode, playerName: "GuestA", inviteToken: single.invite.token });
+    if (!joinedA.success) throw new Error(`Invite did not bypass the password: ${joinedA.error}`);
+    const reused = await emitAck<Ack>(guestB, "join-room", { roomCode, playerName: "GuestB", inviteToken: single.invite.token });
+    if (reused.success) throw new Error("A single-use invite worked twice");
+    const bogus = await emitAck<Ack>(guestB, "join-room", { roomCode, playerName: "GuestB", inviteToken: "inv_nope" });
+    if (bogus.success) throw new Error("A bogus invite got past the password");
+    const withPassword = await emitAck<Ack>(guestB, "join-room", { roomCode, playerName: "GuestB", inviteToken: "inv_nope", password: "secret" });
+    if (!withPassword.success) throw new Error(`The password stopped working alongside a bad invite: ${withPassword.error}`);
+    console.log("[verify_invites] ✅ single-use invite bypasses the password once");
+
+    const notHost = await emitAck<Ack>(guestA, "create-invite", {});
+    if (notHost.success) throw new Error("A non-host created an invite");
+
+    const watch = await emitAck<Ack & { invite?: Invite }>(hostSocket, "create-invite", { maxUses: 5, expiresInMs: 5 * 60 * 1000 });
+    if (!watch.success || watch.invite?.usesLeft !== 5) throw new Error(`Multi-use invite failed: ${watch.error}`);
+    const spectated = await emitAck<Ack>(watcher, "join-room", { roomCode, playerName: "Watcher", asSpectator: true, inviteToken: watch.invite.token });
+    if (!spectated.success) throw new Error(`Spectator invite failed: ${spectated.error}`);
+    console.log("[verify_invites] ✅ multi-use invite lets a spectator in");
+
+    const spare = await emitAck<Ack & { invite?: Invite }>(hostSocket, "create-invite", {});
+    if (!spare.success || !spare.invite) throw new Error(`create-invite failed: ${spare.error}`);
+    const both = await emitAck<Ack>(knowsPassword, "join-room", {
+      roomCode, playerName: "KnowsPassword", asSpectator: true, password: "secret", inviteToken: spare.invite.token,
+    });
+    if (!both.success) throw new Error(`Password and invite together failed: ${both.error}`);
+    const afterBoth = await emitAck<Ack>(lateGuest, "join-room", { roomCode, playerName: "LateGuest", asSpectator: true, inviteToken: spare.invite.token });
+    if (!afterBoth.success) throw new Error(`An invite was spent by someone who had the password: ${afterBoth.error}`);
+    console.log("[verify_invites] ✅ invites are only spent getting past the password");
+
+    console.log("[verify_invites] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    guestA.disconnect();
+    guestB.disconnect();
+    watcher.disconnect();
+    knowsPassword.disconnect();
+    lateGuest.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_invites] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
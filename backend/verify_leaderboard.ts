@@ -0,0 +1,129 @@
+/// <reference types="node" />
+import { aggregateLeaderboard, getSeasonStart, MAX_LEADERBOARD_PAGE_SIZE } from "./src/store/leaderboard";
+import type { GameResultRow } from "./src/store/types";
+
+/**
+ * Verifies global leaderboard aggregation (no server needed; every timestamp is fixed):
+ * - Weekly seasons start Monday 00:00 UTC and monthly ones on the 1st, both inclusive
+ * - Rows are grouped by profile (playerKey), not by the per-room player ID or the name,
+ *   and show the latest name used
+ * - Solo and multiplayer results rank apart
+ * - page and pageSize are clamped, and ranks carry on across pages
+ */
+
+// Wednesday 15 January 2025, 12:00 UTC
+const NOW = Date.UTC(2025, 0, 15, 12);
+const WEEK_START = Date.UTC(2025, 0, 13);
+const MONTH_START = Date.UTC(2025, 0, 1);
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+let nextId = 1;
+function row(playerKey: string, playerName: string, points: number, amount: number, finishedAt: number, mode: GameResultRow["mode"] = "multiplayer"): GameResultRow {
+  const id = nextId++;
+  return {
+    id: `result-${id}`,
+    playerKey,
+    playerName,
+    publicId: `public-${id}`, // A new one per room, like the per-room player IDs it stands in for
+    roomCode: `ROOM${id}`,
+    points,
+    amount,
+    roundDealt: 3,
+    timeoutCount: 0,
+    wasBoxValue: false,
+    finishedAt,
+    mode,
+  };
+}
+
+const ROWS: GameResultRow[] = [
+  row("profile-alice", "Alice", 200, 50000, Date.UTC(2024, 11, 20)),
+  row("profile-alice", "Alice", 50, 1000, Date.UTC(2025, 0, 5)),
+  row("profile-alice", "Alice B", 100, 250, Date.UTC(2025, 0, 14)),
+  row("profile-alice", "Alice", 999, 999, Date.UTC(2025, 0, 14), "solo"),
+  row("profile-bob", "Bob", 10, 10, WEEK_START - 1),
+  row("profile-bob", "Bob", 120, 3000, WEEK_START),
+  row("guest-room1-player", "Guest", 300, 75000, MONTH_START - 1),
+  // Same name as Alice's latest, but another player
+  row("guest-room2-player", "Alice B", 5, 1, Date.UTC(2024, 5, 1)),
+];
+
+function names(page: ReturnType<typeof aggregateLeaderboard>): string {
+  return page.leaderboard.map((e) => `${e.rank}:${e.playerName}:${e.totalPoints}`).join(",");
+}
+
+function verifySeasonStarts() {
+  assert(getSeasonStart("weekly", NOW) === WEEK_START, "week should start on Monday");
+  assert(getSeasonStart("weekly", WEEK_START) === WEEK_START, "Monday midnight should start its own week");
+  assert(getSeasonStart("weekly", WEEK_START - 1) === WEEK_START - 7 * 24 * 60 * 60 * 1000, "Sunday night belongs to the week before");
+  assert(getSeasonStart("monthly", NOW) === MONTH_START, "month should start on the 1st");
+  assert(getSeasonStart("monthly", MONTH_START - 1) === Date.UTC(2024, 11, 1), "31 December belongs to December");
+  assert(getSeasonStart("all-time", NOW) === null, "all-time has no start");
+  console.log("[verify_leaderboard] ✅ season cut-offs are Monday / the 1st at 00:00 UTC");
+}
+
+function verifySeasons() {
+  const weekly = aggregateLeaderboard(ROWS, { season: "weekly" }, NOW);
+  assert(weekly.seasonStartsAt === WEEK_START, "weekly page reports the wrong start");
+  assert(names(weekly) === "1:Bob:120,2:Alice B:100", `weekly: ${names(weekly)}`);
+
+  const monthly = aggregateLeaderboard(ROWS, { season: "monthly" }, NOW);
+  assert(monthly.seasonStartsAt === MONTH_START, "monthly page reports the wrong start");
+  assert(names(monthly) === "1:Alice B:150,2:Bob:130", `monthly: ${names(monthly)}`);
+  assert(monthly.leaderboard.every((e) => e.gamesPlayed === 2), "monthly games played miscounted");
+
+  const allTime = aggregateLeaderboard(ROWS, {}, NOW);
+  assert(allTime.season === "all-time" && allTime.seasonStartsAt === null, "default season should be all-time");
+  assert(names(allTime) === "1:Alice B:350,2:Guest:300,3:Bob:130,4:Alice B:5", `all-time: ${names(allTime)}`);
+  assert(aggregateLeaderboard(ROWS, { season: "yearly" as never }, NOW).season === "all-time", "unknown season not treated as all-time");
+  console.log("[verify_leaderboard] ✅ weekly, monthly and all-time seasons filter by finishedAt");
+}
+
+function verifyGrouping() {
+  const allTime = aggregateLeaderboard(ROWS, {}, NOW);
+  const alice = allTime.leaderboard[0];
+  assert(alice.gamesPlayed === 3 && alice.bestAmount === 50000, "one profile's games across rooms not added up");
+  assert(alice.publicId === "public-3", "entry should show the latest game's public ID");
+  assert(allTime.total === 4, "players sharing a name were merged, or one profile was split");
+
+  const solo = aggregateLeaderboard(ROWS, { mode: "solo" }, NOW);
+  assert(solo.mode === "solo" && names(solo) === "1:Alice:999", `solo: ${names(solo)}`);
+  console.log("[verify_leaderboard] ✅ rows group by profile, with solo results kept apart");
+}
+
+function verifyPaging() {
+  const second = aggregateLeaderboard(ROWS, { pageSize: 2, page: 2 }, NOW);
+  assert(second.page === 2 && second.pageSize === 2 && second.total === 4, "page 2 metadata wrong");
+  assert(names(second) === "3:Bob:130,4:Alice B:5", `page 2: ${names(second)}`);
+
+  assert(aggregateLeaderboard(ROWS, { pageSize: 2, page: 99 }, NOW).page === 2, "page past the end not clamped to the last page");
+  for (const page of [0, -3, Number.NaN, "abc" as never]) {
+    assert(aggregateLeaderboard(ROWS, { page }, NOW).page === 1, `page ${String(page)} not clamped to 1`);
+  }
+  assert(aggregateLeaderboard(ROWS, { pageSize: 2.7 }, NOW).pageSize === 2, "fractional page size not floored");
+  assert(aggregateLeaderboard(ROWS, { pageSize: 0 }, NOW).pageSize === 1, "page size 0 not clamped to 1");
+  assert(aggregateLeaderboard(ROWS, { pageSize: 10_000 }, NOW).pageSize === MAX_LEADERBOARD_PAGE_SIZE, "page size not capped");
+
+  const empty = aggregateLeaderboard([], { page: 5 }, NOW);
+  assert(empty.page === 1 && empty.total === 0 && empty.leaderboard.length === 0, "empty leaderboard should be one empty page");
+  console.log("[verify_leaderboard] ✅ page and pageSize are clamped; ranks continue across pages");
+}
+
+function run() {
+  console.log("[verify_leaderboard] starting…");
+  verifySeasonStarts();
+  verifySeasons();
+  verifyGrouping();
+  verifyPaging();
+  console.log("[verify_leaderboard] ✅ OK");
+}
+
+try {
+  run();
+} catch (err) {
+  console.error("[verify_leaderboard] ❌ FAILED:", (err as Error)?.message || err);
+  process.exitCode = 1;
+}
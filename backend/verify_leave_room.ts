@@ -0,0 +1,133 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies the explicit leave-room flow:
+ * - Leaving the lobby removes the player and frees their box
+ * - The host leaving hands the host role on
+ * - A contestant leaving on their turn mid-game is settled (forfeit: box value),
+ *   and the turn moves to the next player immediately
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; name: string; isHost: boolean; hasDealt: boolean; dealAmount: number | null; boxNumber: number | null }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_leave_room] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_leave_room] starting…");
+
+  const sockets = await Promise.all(["A", "B", "C", "D"].map((n) => connect(n)));
+  const [aSocket, bSocket, cSocket, dSocket] = sockets;
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(aSocket, "create-room", { playerName: "Alpha" });
+    const roomCode = created.roomCode;
+    const aId = created.playerId;
+
+    const ids: Record<string, string> = { A: aId };
+    for (const [name, socket] of [["B", bSocket], ["C", cSocket], ["D", dSocket]] as const) {
+      const res = await emitAck<{ success: boolean; playerId: string }>(socket, "join-room", { roomCode, playerName: name });
+      if (!res.success) throw new Error(`Join failed for ${name}`);
+      ids[name] = res.playerId;
+    }
+
+    // Lobby leave frees the box
+    dSocket.emit("select-box", { boxNumber: 7 });
+    await waitForState(aSocket, (s) => s.boxes.some((b) => b.number === 7 && b.ownerId === ids.D), 5000);
+    const dGone = waitForState(aSocket, (s) => !s.players.some((p) => p.id === ids.D) && s.boxes.every((b) => b.ownerId !== ids.D), 5000);
+    const dLeft = await emitAck<{ success: boolean }>(dSocket, "leave-room", {});
+    if (!dLeft.success) throw new Error("Lobby leave failed");
+    await dGone;
+    console.log("[verify_leave_room] ✅ lobby leave removed player and freed box");
+
+    // Host leaves the lobby -> next contestant becomes host
+    const hostMoved = waitForState(bSocket, (s) => s.players.some((p) => p.id === ids.B && p.isHost) && !s.players.some((p) => p.id === aId), 5000);
+    await emitAck(aSocket, "leave-room", {});
+    await hostMoved;
+    console.log("[verify_leave_room] ✅ host role passed on");
+
+    // Re-join A as a regular player and start a 3-player game
+    const rejoin = await emitAck<{ success: boolean; playerId: string }>(aSocket, "join-room", { roomCode, playerName: "Alpha" });
+    ids.A = rejoin.playerId;
+
+    const ruleRes = await emitAck<{ success: boolean; error?: string }>(bSocket, "update-room-settings", { settings: { leaveRule: "forfeit" } });
+    if (!ruleRes.success) throw new Error(`Set leave rule failed: ${ruleRes.error}`);
+
+    const boxes: Record<string, number> = { A: 1, B: 2, C: 3 };
+    for (const [name, socket] of [["A", aSocket], ["B", bSocket], ["C", cSocket]] as const) {
+      socket.emit("select-box", { boxNumber: boxes[name] });
+      socket.emit("player-ready");
+    }
+    await waitForState(bSocket, (s) => s.players.filter((p) => p.boxNumber !== null).length === 3, 5000);
+
+    const started = waitForState(bSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+    bSocket.emit("start-game");
+    const playing = await started;
+
+    // Whoever is on turn leaves
+    const leaverId = playing.currentTurnPlayerId!;
+    const leaverName = Object.keys(ids).find((k) => ids[k] === leaverId)!;
+    const leaverSocket = { A: aSocket, B: bSocket, C: cSocket }[leaverName as "A" | "B" | "C"];
+    const observer = leaverSocket === bSocket ? cSocket : bSocket;
+
+    const settled = waitForState(
+      observer,
+      (s) => {
+        const leaver = s.players.find((p) => p.id === leaverId);
+        return !!leaver?.hasDealt && s.currentTurnPlayerId !== null && s.currentTurnPlayerId !== leaverId;
+      },
+      5000
+    );
+    await emitAck(leaverSocket, "leave-room", {});
+    const after = await settled;
+
+    const leaverBox = after.boxes.find((b) => b.number === boxes[leaverName]);
+    if (!leaverBox?.isOpened) throw new Error("Leaver's box was not revealed");
+    console.log(`[verify_leave_room] ✅ mid-game leaver settled (£${after.players.find((p) => p.id === leaverId)?.dealAmount}), turn moved on`);
+
+    console.log("[verify_leave_room] ✅ OK");
+  } finally {
+    sockets.forEach((s) => s.disconnect());
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_leave_room] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
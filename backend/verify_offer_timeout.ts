@@ -7,6 +7,7 @@ import { io, Socket } from "socket.io-client";
  * - Play Round 1 until offer
  * - One player takes the Deal
  * - The other player does NOT respond; wait past `offerExpiresAt`
+ * - The non-responder is left last standing and keeps their box at the final swap
  * - Assert game ends and the non-responder received the correct -50 timeout penalty in points
  */
 
@@ -14,7 +15,7 @@ const URL = "http://localhost:3001";
 const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 type GameStateUpdate = {
-  phase: "waiting" | "selection" | "playing" | "offer" | "finished";
+  phase: "waiting" | "selection" | "playing" | "offer" | "swap-offer" | "finished";
   boxes: Array<{ number: number; isOpened: boolean; value: number | null; ownerId: string | null }>;
   currentRound: number;
   currentOffer: number | null;
@@ -140,6 +141,7 @@ async function run() {
       hostSocket.once("game-ended", (payload: GameEndedPayload) => resolve(payload));
     });
     const finishedStatePromise = waitForState(hostSocket, (s) => s.phase === "finished", 60000);
+    const swapOfferPromise = waitForState(hostSocket, (s) => s.phase === "swap-offer", 60000);
     const offerStatePromise = waitForState(
       hostSocket,
       (s) => s.phase === "offer" && s.currentOffer !== null && typeof s.offerExpiresAt === "number" && s.currentRound === 1,
@@ -175,6 +177,10 @@ async function run() {
     const msToOfferExpiry = Math.max(0, offerState.offerExpiresAt - Date.now());
     await wait(msToOfferExpiry + 1000);
 
+    // Last standing: decline the final swap so the reveal happens straight away
+    await swapOfferPromise;
+    hostSocket.emit("swap-response", { boxNumber: null });
+
     const ended = await gameEndedPromise;
     const finishedState = await finishedStatePromise;
 
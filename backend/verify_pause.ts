@@ -0,0 +1,233 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies pausing and resuming:
+ * - The host pauses at once; the turn timer is frozen and box opens are refused
+ * - Resuming restarts the timer with the time it had left
+ * - Anyone else's call is a vote, carried by a majority of the contestants
+ * - Offers are frozen the same way
+ * - If the turn holder leaves mid-pause, the next turn waits for the resume and then gets its full time
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; isReady: boolean; hasDealt: boolean }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+  turnExpiresAt: number | null;
+  offerExpiresAt: number | null;
+  paused: boolean;
+  pausedRemainingMs: number | null;
+  pauseVotes: string[];
+  pauseVotesNeeded: number;
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_pause] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function verifyLeaveWhilePaused() {
+  const hostSocket = await connect("Host (leave)");
+  const aSocket = await connect("A (leave)");
+  const bSocket = await connect("B (leave)");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", {
+      playerName: "Host",
+      settings: { turnTimeoutMs: 5000 },
+    });
+    const roomCode = created.roomCode;
+    const a = await emitAck<{ success: boolean; playerId: string }>(aSocket, "join-room", { roomCode, playerName: "A" });
+    const b = await emitAck<{ success: boolean; playerId: string }>(bSocket, "join-room", { roomCode, playerName: "B" });
+    const socketsById: Record<string, Socket> = { [created.playerId]: hostSocket, [a.playerId]: aSocket, [b.playerId]: bSocket };
+
+    [hostSocket, aSocket, bSocket].forEach((socket, i) => {
+      socket.emit("select-box", { boxNumber: i + 1 });
+      socket.emit("player-ready");
+    });
+    await waitForState(hostSocket, (s) => s.players.length === 3 && s.players.every((p) => p.isReady), 5000);
+    const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+    hostSocket.emit("start-game");
+    let state = await started;
+
+    // The host has to stay, so pass the turn on if it starts with them
+    if (state.currentTurnPlayerId === created.playerId) {
+      const passed = waitForState(hostSocket, (s) => !!s.currentTurnPlayerId && s.currentTurnPlayerId !== created.playerId, 5000);
+      hostSocket.emit("open-box", { boxNumber: state.boxes.find((bx) => !bx.isOpened && bx.ownerId === null)!.number });
+      state = await passed;
+    }
+    const leaverId = state.currentTurnPlayerId!;
+
+    const pausedState = waitForState(hostSocket, (s) => s.paused, 5000);
+    await emitAck(hostSocket, "pause-game", {});
+    await pausedState;
+
+    const handedOn = waitForState(hostSocket, (s) => s.currentTurnPlayerId !== leaverId, 5000);
+    await emitAck(socketsById[leaverId], "leave-room", {});
+    state = await handedOn;
+    const nextId = state.currentTurnPlayerId;
+    if (!state.paused || !nextId || state.turnExpiresAt !== null || state.pausedRemainingMs !== 5000) {
+      throw new Error(`Turn not held for the resume: ${JSON.stringify({ paused: state.paused, nextId, turnExpiresAt: state.turnExpiresAt, pausedRemainingMs: state.pausedRemainingMs })}`);
+    }
+
+    // Longer than the turn timer: nothing may move while paused
+    const moved = waitForState(hostSocket, (s) => !s.paused || s.currentTurnPlayerId !== nextId, 6500).then(() => true, () => false);
+    if (await moved) throw new Error("The turn moved on while paused");
+
+    const resumedState = waitForState(hostSocket, (s) => !s.paused, 5000);
+    const resumedAt = Date.now();
+    await emitAck(hostSocket, "resume-game", {});
+    state = await resumedState;
+    const left = (state.turnExpiresAt || 0) - resumedAt;
+    if (state.currentTurnPlayerId !== nextId || Math.abs(left - 5000) > 1000) throw new Error(`Resumed turn had ${left}ms`);
+    const open = await emitAck<{ success: boolean; error?: string }>(socketsById[nextId], "open-box", {
+      boxNumber: state.boxes.find((bx) => !bx.isOpened && bx.ownerId === null)!.number,
+    });
+    if (!open.success) throw new Error(`Next player could not open after the resume: ${open.error}`);
+    console.log("[verify_pause] ✅ turn holder leaving mid-pause hands the turn on without starting its timer");
+  } finally {
+    hostSocket.disconnect();
+    aSocket.disconnect();
+    bSocket.disconnect();
+  }
+}
+
+async function run() {
+  console.log("[verify_pause] starting…");
+
+  const hostSocket = await connect("Host");
+  const aSocket = await connect("A");
+  const bSocket = await connect("B");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const a = await emitAck<{ success: boolean; playerId: string }>(aSocket, "join-room", { roomCode, playerName: "A" });
+    const b = await emitAck<{ success: boolean; playerId: string }>(bSocket, "join-room", { roomCode, playerName: "B" });
+    const socketsById: Record<string, Socket> = { [created.playerId]: hostSocket, [a.playerId]: aSocket, [b.playerId]: bSocket };
+
+    const early = await emitAck<{ success: boolean }>(hostSocket, "pause-game", {});
+    if (early.success) throw new Error("Paused before the game started");
+
+    [hostSocket, aSocket, bSocket].forEach((socket, i) => {
+      socket.emit("select-box", { boxNumber: i + 1 });
+      socket.emit("player-ready");
+    });
+    await waitForState(hostSocket, (s) => s.players.length === 3 && s.players.every((p) => p.isReady), 5000);
+
+    let state = await (async () => {
+      const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+      hostSocket.emit("start-game");
+      return await started;
+    })();
+
+    // Host pauses: timer frozen, opens refused
+    const pausedState = waitForState(hostSocket, (s) => s.paused, 5000);
+    const paused = await emitAck<{ success: boolean; error?: string }>(hostSocket, "pause-game", {});
+    if (!paused.success) throw new Error(`Host could not pause: ${paused.error}`);
+    state = await pausedState;
+    const frozen = state.pausedRemainingMs;
+    if (frozen === null || frozen <= 0 || frozen > 20000) throw new Error(`Unexpected frozen time ${frozen}`);
+
+    const turnId = state.currentTurnPlayerId!;
+    const box = state.boxes.find((bx) => !bx.isOpened && bx.ownerId === null)!;
+    const opened = waitForState(hostSocket, (s) => s.boxes.some((bx) => bx.number === box.number && bx.isOpened), 1500)
+      .then(() => true, () => false);
+    socketsById[turnId].emit("open-box", { boxNumber: box.number });
+    if (await opened) throw new Error("A box opened while paused");
+    const again = await emitAck<{ success: boolean }>(aSocket, "pause-game", {});
+    if (again.success) throw new Error("Paused twice");
+    console.log(`[verify_pause] ✅ host paused with ${frozen}ms frozen; opens refused`);
+
+    const resumedState = waitForState(hostSocket, (s) => !s.paused, 5000);
+    const resumedAt = Date.now();
+    await emitAck(hostSocket, "resume-game", {});
+    state = await resumedState;
+    const left = (state.turnExpiresAt || 0) - resumedAt;
+    if (Math.abs(left - frozen) > 1000) throw new Error(`Timer resumed with ${left}ms instead of ~${frozen}ms`);
+    console.log("[verify_pause] ✅ resumed with the time that was left");
+
+    // Vote: two of the three contestants carry it
+    const firstVote = waitForState(hostSocket, (s) => s.pauseVotes.length === 1, 5000);
+    await emitAck(aSocket, "pause-game", {});
+    state = await firstVote;
+    if (state.paused || state.pauseVotesNeeded !== 2) throw new Error(`One vote paused the game (needed ${state.pauseVotesNeeded})`);
+    const votedPause = waitForState(hostSocket, (s) => s.paused, 5000);
+    await emitAck(bSocket, "pause-game", {});
+    state = await votedPause;
+    if (state.pauseVotes.length !== 0) throw new Error("Votes not cleared after the pause");
+    console.log("[verify_pause] ✅ a majority vote paused the game");
+
+    const hostResume = waitForState(hostSocket, (s) => !s.paused, 5000);
+    await emitAck(aSocket, "resume-game", {});
+    await emitAck(hostSocket, "resume-game", {});
+    state = await hostResume;
+
+    // Play to the offer, then freeze it
+    while (state.phase === "playing") {
+      const turn = state.currentTurnPlayerId;
+      if (turn) {
+        const next = state.boxes.find((bx) => !bx.isOpened && bx.ownerId === null)!;
+        socketsById[turn].emit("open-box", { boxNumber: next.number });
+      }
+      state = await waitForState(hostSocket, (s) => s.phase === "offer" || (s.phase === "playing" && s.currentTurnPlayerId !== turn), 5000);
+    }
+    const offerPaused = waitForState(hostSocket, (s) => s.paused, 5000);
+    await emitAck(hostSocket, "pause-game", {});
+    state = await offerPaused;
+    if (state.phase !== "offer" || !state.pausedRemainingMs) throw new Error("Offer timer not frozen");
+    aSocket.emit("deal-response", { accepted: true });
+    await sleep(500);
+
+    const finished = waitForState(hostSocket, (s) => s.phase === "finished", 8000);
+    await emitAck(hostSocket, "resume-game", {});
+    [hostSocket, aSocket, bSocket].forEach((socket) => socket.emit("deal-response", { accepted: true }));
+    state = await finished;
+    console.log("[verify_pause] ✅ offer frozen while paused, answered after resuming");
+
+    await verifyLeaveWhilePaused();
+
+    console.log("[verify_pause] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    aSocket.disconnect();
+    bSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_pause] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,150 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies personal banker offers:
+ * - Each contestant only sees their own offer; spectators see everyone's
+ * - Taking a deal pays the player's own offer
+ * - Rejecting offers makes the banker sweeten the next one
+ */
+
+const URL = "http://localhost:3001";
+
+type Breakdown = { round: number; playerId?: string; personalAdjustment: number; offer: number };
+
+type GameStateUpdate = {
+  phase: string;
+  currentRound: number;
+  players: Array<{ id: string; isReady: boolean; dealAmount: number | null }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+  currentOffer: number | null;
+  playerOffers: Record<string, number>;
+  bankerOffers?: Breakdown[];
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_personal_offers] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function playToOffer(state: GameStateUpdate, watcher: Socket, socketsById: Record<string, Socket>): Promise<GameStateUpdate> {
+  while (state.phase === "playing") {
+    const turnId = state.currentTurnPlayerId;
+    if (turnId) {
+      const box = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+      socketsById[turnId].emit("open-box", { boxNumber: box.number });
+    }
+    state = await waitForState(watcher, (s) => s.phase === "offer" || (s.phase === "playing" && s.currentTurnPlayerId !== turnId), 5000);
+  }
+  return state;
+}
+
+async function run() {
+  console.log("[verify_personal_offers] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+  const watchSocket = await connect("Watch");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const joined = await emitAck<{ success: boolean; playerId: string }>(joinSocket, "join-room", { roomCode, playerName: "Join" });
+    await emitAck(watchSocket, "join-room", { roomCode, playerName: "Watch", asSpectator: true });
+    const socketsById: Record<string, Socket> = { [created.playerId]: hostSocket, [joined.playerId]: joinSocket };
+
+    const invalid = await emitAck<{ success: boolean }>(hostSocket, "update-room-settings", { settings: { personalOffers: "yes" } });
+    if (invalid.success) throw new Error("Non-boolean personalOffers accepted");
+
+    const picked = await emitAck<{ success: boolean; error?: string }>(hostSocket, "update-room-settings", { settings: { personalOffers: true } });
+    if (!picked.success) throw new Error(`Turning on personal offers failed: ${picked.error}`);
+
+    hostSocket.emit("select-box", { boxNumber: 1 });
+    hostSocket.emit("player-ready");
+    joinSocket.emit("select-box", { boxNumber: 20 });
+    joinSocket.emit("player-ready");
+    await waitForState(hostSocket, (s) => s.players.filter((p) => p.isReady).length === 2, 5000);
+
+    const joinOffered = waitForState(joinSocket, (s) => s.phase === "offer", 15000);
+    const watchOffered = waitForState(watchSocket, (s) => s.phase === "offer", 15000);
+    const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+    hostSocket.emit("start-game");
+    const firstOffer = await playToOffer(await started, hostSocket, socketsById);
+    const joinView = await joinOffered;
+    const watchView = await watchOffered;
+
+    // Round 1: each player sees their own offer only
+    if (Object.keys(firstOffer.playerOffers).join() !== created.playerId) throw new Error("Host saw other players' offers");
+    if (firstOffer.currentOffer !== firstOffer.playerOffers[created.playerId]) throw new Error("Host's currentOffer is not their own offer");
+    if (Object.keys(joinView.playerOffers).join() !== joined.playerId) throw new Error("Join saw other players' offers");
+    if (watchView.currentOffer !== null || Object.keys(watchView.playerOffers).length !== 2) {
+      throw new Error("Spectator should see every offer and no offer of their own");
+    }
+    console.log("[verify_personal_offers] ✅ players see their own offer, spectators see all");
+
+    // Both play on into round 2
+    const nextRound = waitForState(hostSocket, (s) => s.phase === "playing" && s.currentRound === 2, 5000);
+    hostSocket.emit("deal-response", { accepted: false });
+    joinSocket.emit("deal-response", { accepted: false });
+    const round2 = await nextRound;
+
+    const joinOffered2 = waitForState(joinSocket, (s) => s.phase === "offer" && s.currentRound === 2, 15000);
+    await playToOffer(round2, hostSocket, socketsById);
+    const joinOffer = (await joinOffered2).currentOffer;
+
+    // Join takes their deal first, then Host
+    const joinDealt = waitForState(hostSocket, (s) => s.players.some((p) => p.id === joined.playerId && p.dealAmount !== null), 5000);
+    joinSocket.emit("deal-response", { accepted: true });
+    const joinDeal = (await joinDealt).players.find((p) => p.id === joined.playerId)?.dealAmount;
+    if (joinOffer === null || joinDeal !== joinOffer) throw new Error(`Join was paid ${joinDeal}, offered ${joinOffer}`);
+    console.log(`[verify_personal_offers] ✅ deal paid the player's own offer (${joinDeal})`);
+
+    const finished = waitForState(hostSocket, (s) => s.phase === "finished", 5000);
+    hostSocket.emit("deal-response", { accepted: true });
+    const done = await finished;
+
+    const offers = done.bankerOffers || [];
+    const hostRound2 = offers.find((o) => o.round === 2 && o.playerId === created.playerId);
+    if (offers.length !== 4 || offers.some((o) => !o.playerId)) throw new Error("Expected one breakdown per player per offer");
+    if (!hostRound2 || hostRound2.personalAdjustment <= 1) throw new Error("Rejecting did not sweeten the next offer");
+    console.log(`[verify_personal_offers] ✅ rejection sweetened the next offer (×${hostRound2.personalAdjustment.toFixed(2)})`);
+
+    console.log("[verify_personal_offers] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+    watchSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_personal_offers] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,181 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+import { issueProfileToken, verifyProfileToken } from "./src/auth/profileToken";
+
+/**
+ * Verifies guest profile tokens:
+ * - Issue/verify round trip (in-process, with this process's own secret)
+ * - A token with its profileId, issuedAt or signature altered, the wrong number of parts,
+ *   a non-prof_ ID or more than 256 characters is rejected
+ * - Live: get-profile hands a valid token back unchanged and replaces a tampered one
+ * - Live: playing two rooms with the same token ranks as one profile on the global
+ *   leaderboard, while a guest with no token counts separately in each room
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; isReady: boolean }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+};
+
+type ProfileAck = { success: boolean; profileId?: string; token?: string };
+type LeaderboardAck = {
+  success: boolean;
+  total: number;
+  pageSize: number;
+  leaderboard: Array<{ playerName: string; gamesPlayed: number }>;
+};
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_profile_tokens] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+function verifyTokens() {
+  const { profileId, token } = issueProfileToken();
+  assert(profileId.startsWith("prof_"), `unexpected profile ID ${profileId}`);
+  assert(verifyProfileToken(token) === profileId, "fresh token did not verify");
+  assert(issueProfileToken("prof_given").profileId === "prof_given", "given profile ID not used");
+
+  const [id, issuedAt, signature] = token.split(".");
+  const flipped = signature.slice(0, -1) + (signature.endsWith("A") ? "B" : "A");
+  const rejected: Array<[string, unknown]> = [
+    ["another profileId", `prof_someoneelse.${issuedAt}.${signature}`],
+    ["a changed issuedAt", `${id}.${Number(issuedAt) + 1}.${signature}`],
+    ["a changed signature", `${id}.${issuedAt}.${flipped}`],
+    ["a missing signature", `${id}.${issuedAt}.`],
+    ["two parts", `${id}.${signature}`],
+    ["four parts", `${token}.extra`],
+    ["a non-numeric issuedAt", `${id}.soon.${signature}`],
+    ["a signed non-prof_ ID", issueProfileToken("user_1").token],
+    ["over 256 characters", issueProfileToken(`prof_${"a".repeat(250)}`).token],
+    ["a number", 12345],
+    ["null", null],
+  ];
+  rejected.forEach(([label, candidate]) => {
+    assert(verifyProfileToken(candidate) === null, `token with ${label} was accepted`);
+  });
+  console.log("[verify_profile_tokens] ✅ tokens round-trip; tampered or malformed ones are rejected");
+}
+
+/**
+ * Play one 2-player game to the end: both contestants take the first offer
+ */
+async function playGame(hostSocket: Socket, guestSocket: Socket, hostName: string, guestName: string, profileToken: string) {
+  const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: hostName, profileToken });
+  assert(created.success, "create-room failed");
+  const joined = await emitAck<{ success: boolean; playerId: string }>(guestSocket, "join-room", { roomCode: created.roomCode, playerName: guestName });
+  assert(joined.success, "join-room failed");
+  const socketsById: Record<string, Socket> = { [created.playerId]: hostSocket, [joined.playerId]: guestSocket };
+
+  [hostSocket, guestSocket].forEach((socket, i) => {
+    socket.emit("select-box", { boxNumber: i + 1 });
+    socket.emit("player-ready");
+  });
+  await waitForState(hostSocket, (s) => s.players.length === 2 && s.players.every((p) => p.isReady), 5000);
+  const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+  hostSocket.emit("start-game");
+  let state = await started;
+
+  while (state.phase === "playing") {
+    const turn = state.currentTurnPlayerId;
+    if (turn) {
+      const next = state.boxes.find((bx) => !bx.isOpened && bx.ownerId === null)!;
+      socketsById[turn].emit("open-box", { boxNumber: next.number });
+    }
+    state = await waitForState(hostSocket, (s) => s.phase === "offer" || (s.phase === "playing" && s.currentTurnPlayerId !== turn), 5000);
+  }
+
+  const finished = waitForState(hostSocket, (s) => s.phase === "finished", 5000);
+  [hostSocket, guestSocket].forEach((socket) => socket.emit("deal-response", { accepted: true }));
+  await finished;
+  await emitAck(hostSocket, "leave-room", {});
+  await emitAck(guestSocket, "leave-room", {});
+}
+
+/**
+ * Every all-time multiplayer entry shown under `playerName`
+ */
+async function findEntries(socket: Socket, playerName: string) {
+  const found: LeaderboardAck["leaderboard"] = [];
+  for (let page = 1; ; page++) {
+    const res = await emitAck<LeaderboardAck>(socket, "get-global-leaderboard", { season: "all-time", page, pageSize: 100 });
+    assert(res.success, "get-global-leaderboard failed");
+    found.push(...res.leaderboard.filter((e) => e.playerName === playerName));
+    if (page * res.pageSize >= res.total) return found;
+  }
+}
+
+async function run() {
+  console.log("[verify_profile_tokens] starting…");
+  verifyTokens();
+
+  const hostSocket = await connect("Linked");
+  const guestSocket = await connect("Guest");
+
+  try {
+    const issued = await emitAck<ProfileAck>(hostSocket, "get-profile", {});
+    assert(issued.success && !!issued.token && !!issued.profileId, "get-profile issued nothing");
+    const kept = await emitAck<ProfileAck>(hostSocket, "get-profile", { token: issued.token });
+    assert(kept.profileId === issued.profileId && kept.token === issued.token, "valid token was not handed back");
+    const [id, issuedAt, signature] = issued.token!.split(".");
+    const replaced = await emitAck<ProfileAck>(hostSocket, "get-profile", { token: `${id}.${Number(issuedAt) + 1}.${signature}` });
+    assert(replaced.success && replaced.profileId !== issued.profileId, "tampered token kept its profile");
+    console.log("[verify_profile_tokens] ✅ get-profile keeps valid tokens and replaces tampered ones");
+
+    const suffix = Math.random().toString(36).slice(2, 8);
+    const linkedName = `Linked ${suffix}`;
+    const guestName = `Guest ${suffix}`;
+    await playGame(hostSocket, guestSocket, linkedName, guestName, issued.token!);
+    await playGame(hostSocket, guestSocket, linkedName, guestName, issued.token!);
+
+    const linked = await findEntries(hostSocket, linkedName);
+    assert(linked.length === 1 && linked[0].gamesPlayed === 2, `token holder ranked as ${JSON.stringify(linked)}`);
+    const guests = await findEntries(hostSocket, guestName);
+    assert(guests.length === 2 && guests.every((e) => e.gamesPlayed === 1), `tokenless guest ranked as ${JSON.stringify(guests)}`);
+    console.log("[verify_profile_tokens] ✅ one token links results from two rooms to one profile");
+
+    console.log("[verify_profile_tokens] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    guestSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_profile_tokens] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
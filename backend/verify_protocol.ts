@@ -0,0 +1,75 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies inbound payload validation:
+ * - Malformed payloads get an INVALID_PAYLOAD ack naming the bad field
+ * - Missing fields that used to crash handlers (chat content, open-boxes list) are rejected
+ * - A non-function "ack" argument is ignored, and the server keeps serving afterwards
+ */
+
+const URL = "http://localhost:3001";
+
+type Ack = { success: boolean; error?: string; code?: string };
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_protocol] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function expectInvalid(socket: Socket, event: string, payload: unknown, field: string) {
+  const res = await emitAck<Ack>(socket, event, payload);
+  if (res.success || res.code !== "INVALID_PAYLOAD") throw new Error(`${event} accepted ${JSON.stringify(payload)}`);
+  if (!res.error?.includes(field)) throw new Error(`${event} error does not name ${field}: ${res.error}`);
+}
+
+async function run() {
+  console.log("[verify_protocol] starting…");
+
+  const socket = await connect("Client");
+
+  try {
+    await expectInvalid(socket, "create-room", { playerName: 42 }, "payload.playerName");
+    await expectInvalid(socket, "create-room", { playerName: "Host", mode: "duel" }, "payload.mode");
+    await expectInvalid(socket, "join-room", null, "payload");
+    console.log("[verify_protocol] ✅ bad room payloads rejected");
+
+    const created = await emitAck<Ack & { roomCode?: string }>(socket, "create-room", { playerName: "Host", extra: "ignored" });
+    if (!created.success) throw new Error(`create-room failed: ${created.error}`);
+
+    await expectInvalid(socket, "chat-message", {}, "payload.content");
+    await expectInvalid(socket, "open-boxes", {}, "payload.boxNumbers");
+    await expectInvalid(socket, "open-boxes", { boxNumbers: [1, "2"] }, "payload.boxNumbers[1]");
+    await expectInvalid(socket, "select-box", { boxNumber: 2.5 }, "payload.boxNumber");
+    await expectInvalid(socket, "deal-response", { accepted: "yes" }, "payload.accepted");
+    await expectInvalid(socket, "update-room-settings", { settings: "fast" }, "payload.settings");
+    console.log("[verify_protocol] ✅ bad game payloads rejected");
+
+    // A junk "ack" must not take the server down
+    socket.emit("create-room", { playerName: "Junk" }, "not a function");
+    socket.emit("player-ready");
+    const leaderboard = await emitAck<Ack>(socket, "get-global-leaderboard", undefined);
+    if (!leaderboard.success) throw new Error(`Server stopped answering: ${leaderboard.error}`);
+
+    const rooms = await new Promise<Ack>((resolve) => socket.emit("list-public-rooms", (res: Ack) => resolve(res)));
+    if (!rooms.success) throw new Error("An ack-only emit was not answered");
+    console.log("[verify_protocol] ✅ server survives junk acks and answers ack-only emits");
+
+    console.log("[verify_protocol] ✅ OK");
+  } finally {
+    socket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_protocol] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
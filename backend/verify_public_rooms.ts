@@ -0,0 +1,117 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies the public room browser and Quick Play:
+ * - Rooms are private unless created public or made public by the host
+ * - list-public-rooms and GET /api/rooms list public rooms with their host, seats, phase and password flag
+ * - Quick Play seats waiting players together in a new public room once enough are queued
+ */
+
+const URL = "http://localhost:3001";
+
+type PublicRoomInfo = { code: string; hostName: string; playerCount: number; maxPlayers: number; phase: string; hasPassword: boolean };
+type Matched = { roomCode: string; playerId: string };
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_public_rooms] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForMatch(socket: Socket, timeoutMs: number): Promise<Matched> {
+  return await new Promise<Matched>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("Timed out waiting for a Quick Play match")), timeoutMs);
+    socket.once("quick-play-matched", (match: Matched) => {
+      clearTimeout(timer);
+      resolve(match);
+    });
+  });
+}
+
+async function listRooms(socket: Socket): Promise<PublicRoomInfo[]> {
+  const res = await emitAck<{ success: boolean; rooms: PublicRoomInfo[] }>(socket, "list-public-rooms", {});
+  return res.rooms;
+}
+
+async function run() {
+  console.log("[verify_public_rooms] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+  const quickA = await connect("QuickA");
+  const quickB = await connect("QuickB");
+
+  try {
+    const hidden = await emitAck<{ success: boolean; roomCode: string }>(hostSocket, "create-room", { playerName: "Hidden" });
+    if ((await listRooms(joinSocket)).some((r) => r.code === hidden.roomCode)) throw new Error("A private room was listed");
+    await emitAck(hostSocket, "leave-room", {});
+
+    const created = await emitAck<{ success: boolean; roomCode: string }>(hostSocket, "create-room", { playerName: "Host", visibility: "public" });
+    const roomCode = created.roomCode;
+    await emitAck(hostSocket, "set-room-password", { password: "secret" });
+    const listed = (await listRooms(joinSocket)).find((r) => r.code === roomCode);
+    if (!listed) throw new Error("Public room missing from the list");
+    if (listed.hostName !== "Host" || listed.playerCount !== 1 || listed.maxPlayers !== 6 || listed.phase !== "waiting" || !listed.hasPassword) {
+      throw new Error(`Unexpected listing: ${JSON.stringify(listed)}`);
+    }
+    if (JSON.stringify(listed).includes("secret")) throw new Error("The password leaked into the listing");
+
+    const res = await fetch(`${URL}/api/rooms`);
+    const viaRest = (await res.json()) as { rooms: PublicRoomInfo[] };
+    if (!res.ok || !viaRest.rooms.some((r) => r.code === roomCode && r.hasPassword)) throw new Error("GET /api/rooms differs from the socket list");
+    console.log("[verify_public_rooms] ✅ public room listed over socket and REST");
+
+    await emitAck(joinSocket, "join-room", { roomCode, playerName: "Join", password: "secret" });
+    const notHost = await emitAck<{ success: boolean }>(joinSocket, "set-room-visibility", { visibility: "private" });
+    if (notHost.success) throw new Error("A non-host changed the visibility");
+    const bad = await emitAck<{ success: boolean }>(hostSocket, "set-room-visibility", { visibility: "secret" });
+    if (bad.success) throw new Error("Unknown visibility accepted");
+    const hide = await emitAck<{ success: boolean; error?: string }>(hostSocket, "set-room-visibility", { visibility: "private" });
+    if (!hide.success) throw new Error(`set-room-visibility failed: ${hide.error}`);
+    if ((await listRooms(joinSocket)).some((r) => r.code === roomCode)) throw new Error("Room still listed after going private");
+    console.log("[verify_public_rooms] ✅ host toggles visibility");
+
+    const noName = await emitAck<{ success: boolean }>(quickA, "join-quick-play", { playerName: " " });
+    if (noName.success) throw new Error("Quick Play accepted a blank name");
+    const inRoom = await emitAck<{ success: boolean }>(joinSocket, "join-quick-play", { playerName: "Join" });
+    if (inRoom.success) throw new Error("A seated player joined Quick Play");
+
+    const queued = await emitAck<{ success: boolean; waiting?: number }>(quickA, "join-quick-play", { playerName: "QuickA" });
+    if (!queued.success || queued.waiting !== 1) throw new Error(`join-quick-play failed: ${JSON.stringify(queued)}`);
+    const left = await emitAck<{ success: boolean }>(quickA, "leave-quick-play", {});
+    if (!left.success) throw new Error("leave-quick-play failed");
+
+    const matchA = waitForMatch(quickA, 5000);
+    const matchB = waitForMatch(quickB, 5000);
+    await emitAck(quickA, "join-quick-play", { playerName: "QuickA" });
+    await emitAck(quickB, "join-quick-play", { playerName: "QuickB" });
+    const [a, b] = await Promise.all([matchA, matchB]);
+    if (a.roomCode !== b.roomCode || a.playerId === b.playerId) throw new Error("Quick Play players were not seated together");
+
+    const quickRoom = (await listRooms(joinSocket)).find((r) => r.code === a.roomCode);
+    if (!quickRoom || quickRoom.hostName !== "QuickA" || quickRoom.playerCount !== 2) {
+      throw new Error(`Quick Play room not listed as expected: ${JSON.stringify(quickRoom)}`);
+    }
+    console.log(`[verify_public_rooms] ✅ Quick Play matched both players into ${a.roomCode}`);
+
+    console.log("[verify_public_rooms] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+    quickA.disconnect();
+    quickB.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_public_rooms] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,135 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+import { createRateLimiter, getClientIp } from "./src/socket/rateLimit";
+
+/**
+ * Verifies rate limiting:
+ * - Token buckets (driven by a fake clock): bursts up to capacity, refill over time,
+ *   per-IP budgets shared across sockets, refusals that cost nothing, the hourly room cap
+ * - The client address ignores X-Forwarded-For unless a proxy is trusted, and then takes
+ *   the entry the proxy appended
+ * - Live: flooding chat gets RATE_LIMITED acks and a 'rate-limited' event, while another
+ *   socket from the same address can still talk
+ */
+
+const URL = "http://localhost:3001";
+
+type Ack = { success: boolean; error?: string; code?: string };
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_rate_limit] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+function verifyBuckets() {
+  let clock = 1_000_000;
+  const budget = { perSocket: { capacity: 3, refillPerSecond: 1 }, perIp: { capacity: 5, refillPerSecond: 1 } };
+  const limiter = createRateLimiter({
+    budgets: { chat: budget, game: budget, room: budget, host: budget, query: budget },
+    roomsPerIpPerHour: 2,
+    now: () => clock,
+  });
+
+  for (let i = 0; i < 3; i++) assert(limiter.check("a", "1.1.1.1", "chat-message").allowed, `burst message ${i + 1} refused`);
+  const refused = limiter.check("a", "1.1.1.1", "chat-message");
+  assert(!refused.allowed && refused.reason === "rate" && refused.eventClass === "chat", "4th message in a burst allowed");
+  assert(!refused.allowed && refused.retryAfterMs === 1000, "retryAfterMs should be one refill");
+  assert(limiter.check("a", "1.1.1.1", "open-box").allowed, "other event classes have their own budget");
+
+  // Same address, another socket: only the IP budget's 2 spare tokens are left
+  assert(limiter.check("b", "1.1.1.1", "chat-message").allowed, "second socket refused");
+  assert(limiter.check("b", "1.1.1.1", "chat-message").allowed, "second socket refused");
+  assert(!limiter.check("b", "1.1.1.1", "chat-message").allowed, "IP budget not shared across sockets");
+  assert(limiter.check("c", "2.2.2.2", "chat-message").allowed, "another address was throttled");
+
+  clock += 1000;
+  assert(limiter.check("a", "1.1.1.1", "chat-message").allowed, "no refill after a second");
+  assert(!limiter.check("a", "1.1.1.1", "chat-message").allowed, "refilled more than one token");
+  console.log("[verify_rate_limit] ✅ buckets burst, refill and share the per-IP budget");
+
+  clock += 60_000;
+  assert(limiter.check("a", "3.3.3.3", "create-room").allowed, "first room refused");
+  assert(limiter.check("a", "3.3.3.3", "create-room").allowed, "a refused or failed create-room counted as a room");
+  limiter.recordRoomCreated("3.3.3.3");
+  clock += 60_000;
+  limiter.recordRoomCreated("3.3.3.3"); // e.g. a Quick Play room
+  clock += 60_000;
+  const capped = limiter.check("d", "3.3.3.3", "create-room");
+  assert(!capped.allowed && capped.reason === "room-cap", "room cap not enforced");
+  assert(!limiter.check("d", "3.3.3.3", "join-quick-play").allowed, "Quick Play skipped the room cap");
+  assert(!capped.allowed && capped.retryAfterMs === 60 * 60 * 1000 - 120_000, "room cap should lift an hour after the oldest room");
+  clock += 60 * 60 * 1000 - 120_000;
+  assert(limiter.check("d", "3.3.3.3", "create-room").allowed, "room cap did not lift after an hour");
+  console.log("[verify_rate_limit] ✅ rooms per IP per hour are capped");
+
+  limiter.forgetSocket("a");
+  limiter.sweep();
+  assert(limiter.check("a", "1.1.1.1", "chat-message").allowed, "buckets not refilled after a sweep");
+  console.log("[verify_rate_limit] ✅ sweep and forgetSocket keep state bounded");
+}
+
+function verifyClientIp() {
+  const handshake = (forwarded?: string) => ({
+    handshake: { address: "10.0.0.1", headers: forwarded === undefined ? {} : { "x-forwarded-for": forwarded } },
+  }) as unknown as Parameters<typeof getClientIp>[0];
+
+  assert(getClientIp(handshake("6.6.6.6"), 0) === "10.0.0.1", "forwarded header trusted with no proxy");
+  assert(getClientIp(handshake("6.6.6.6, 5.5.5.5"), 1) === "5.5.5.5", "spoofed left-most entry used behind a proxy");
+  assert(getClientIp(handshake("6.6.6.6, 5.5.5.5, 4.4.4.4"), 2) === "5.5.5.5", "wrong hop used behind two proxies");
+  assert(getClientIp(handshake(), 1) === "10.0.0.1", "no fallback to the connection address");
+  console.log("[verify_rate_limit] ✅ client address only trusts forwarded hops from configured proxies");
+}
+
+async function verifyLive() {
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string }>(hostSocket, "create-room", { playerName: "Host" });
+    await emitAck(joinSocket, "join-room", { roomCode: created.roomCode, playerName: "Join" });
+
+    const notices: Array<{ event: string; eventClass: string; retryAfterMs: number }> = [];
+    hostSocket.on("rate-limited", (data) => notices.push(data));
+
+    const acks = await Promise.all(
+      Array.from({ length: 12 }, (_, i) => emitAck<Ack>(hostSocket, "chat-message", { content: `spam ${i}` }))
+    );
+    const limited = acks.filter((a) => a.code === "RATE_LIMITED");
+    assert(acks.some((a) => a.success), "no message got through");
+    assert(limited.length > 0, "a flood of chat was not limited");
+    assert(notices.length > 0 && notices[0].eventClass === "chat" && notices[0].retryAfterMs > 0, "no rate-limited event");
+    console.log(`[verify_rate_limit] ✅ flood limited (${limited.length}/12 refused, retry in ${notices[0].retryAfterMs}ms)`);
+
+    const other = await emitAck<Ack>(joinSocket, "chat-message", { content: "still here" });
+    assert(other.success, `another socket was throttled: ${other.error}`);
+    console.log("[verify_rate_limit] ✅ other sockets keep their own budget");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+  }
+}
+
+async function run() {
+  console.log("[verify_rate_limit] starting…");
+  verifyBuckets();
+  verifyClientIp();
+  await verifyLive();
+  console.log("[verify_rate_limit] ✅ OK");
+}
+
+run().catch((err) => {
+  console.error("[verify_rate_limit] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
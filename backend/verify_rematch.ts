@@ -0,0 +1,120 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies the rematch flow:
+ * - Play a short 2-player game (both take the first offer)
+ * - Only the host can request a rematch
+ * - The room returns to the lobby with fresh boxes and cleared player state,
+ *   keeping the roster and the room's running totals
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; boxNumber: number | null; isReady: boolean; hasDealt: boolean }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+  gamesCompleted: number;
+  roomScores: Array<{ playerId: string; totalPoints: number; gamesPlayed: number }>;
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_rematch] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_rematch] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const hostId = created.playerId;
+    const joined = await emitAck<{ success: boolean; playerId: string }>(joinSocket, "join-room", { roomCode, playerName: "Join" });
+    const socketsById: Record<string, Socket> = { [hostId]: hostSocket, [joined.playerId]: joinSocket };
+
+    hostSocket.emit("select-box", { boxNumber: 1 });
+    hostSocket.emit("player-ready");
+    joinSocket.emit("select-box", { boxNumber: 20 });
+    joinSocket.emit("player-ready");
+    await waitForState(hostSocket, (s) => s.players.every((p) => p.isReady), 5000);
+
+    let state = await (async () => {
+      const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+      hostSocket.emit("start-game");
+      return await started;
+    })();
+
+    // Open boxes on each turn until the banker calls
+    while (state.phase === "playing") {
+      const turnId = state.currentTurnPlayerId;
+      if (turnId) {
+        const box = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+        socketsById[turnId].emit("open-box", { boxNumber: box.number });
+      }
+      state = await waitForState(hostSocket, (s) => s.phase === "offer" || (s.phase === "playing" && s.currentTurnPlayerId !== turnId), 5000);
+    }
+
+    const finished = waitForState(hostSocket, (s) => s.phase === "finished", 5000);
+    hostSocket.emit("deal-response", { accepted: true });
+    joinSocket.emit("deal-response", { accepted: true });
+    const done = await finished;
+    if (done.gamesCompleted !== 1 || done.roomScores.length !== 2) throw new Error("Room scores not recorded");
+    console.log("[verify_rematch] ✅ first game finished");
+
+    const denied = await emitAck<{ success: boolean; error?: string }>(joinSocket, "request-rematch", {});
+    if (denied.success) throw new Error("Non-host was allowed to start a rematch");
+
+    const reset = waitForState(joinSocket, (s) => s.phase === "waiting", 5000);
+    const rematch = await emitAck<{ success: boolean; error?: string }>(hostSocket, "request-rematch", {});
+    if (!rematch.success) throw new Error(`Rematch failed: ${rematch.error}`);
+    const lobby = await reset;
+
+    if (lobby.players.length !== 2) throw new Error("Roster was not kept");
+    if (lobby.players.some((p) => p.boxNumber !== null || p.isReady || p.hasDealt)) throw new Error("Player state was not cleared");
+    if (lobby.boxes.some((b) => b.isOpened)) throw new Error("Boxes were not reset");
+    if (lobby.gamesCompleted !== 1 || lobby.roomScores.every((s) => s.gamesPlayed !== 1)) throw new Error("Room totals were lost");
+    console.log("[verify_rematch] ✅ room reset for rematch with totals kept");
+
+    console.log("[verify_rematch] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_rematch] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,134 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies the game event log and replays:
+ * - No replay exists until the game is finished
+ * - Once finished, get-game-replay and GET /api/replays/:gameId return the same log
+ * - The log covers the start, box opens, offers, deal responses, chat and the finish, in order
+ */
+
+const URL = "http://localhost:3001";
+
+type GameEvent = { type: string; at: number; gameId: string | null; playerId?: string };
+type GameReplay = { gameId: string; roomCode: string; events: GameEvent[] };
+
+type GameStateUpdate = {
+  phase: string;
+  gameId: string | null;
+  players: Array<{ id: string; isReady: boolean }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_replay] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_replay] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const joined = await emitAck<{ success: boolean; playerId: string }>(joinSocket, "join-room", { roomCode, playerName: "Join" });
+    const socketsById: Record<string, Socket> = { [created.playerId]: hostSocket, [joined.playerId]: joinSocket };
+
+    hostSocket.emit("select-box", { boxNumber: 1 });
+    hostSocket.emit("player-ready");
+    joinSocket.emit("select-box", { boxNumber: 20 });
+    joinSocket.emit("player-ready");
+    await waitForState(hostSocket, (s) => s.players.every((p) => p.isReady), 5000);
+
+    let state = await (async () => {
+      const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+      hostSocket.emit("start-game");
+      return await started;
+    })();
+
+    const gameId = state.gameId;
+    if (!gameId) throw new Error("No gameId once the game started");
+    const early = await emitAck<{ success: boolean }>(hostSocket, "get-game-replay", { gameId });
+    if (early.success) throw new Error("Replay available before the game finished");
+
+    hostSocket.emit("chat-message", { content: "good luck" });
+
+    while (state.phase === "playing") {
+      const turnId = state.currentTurnPlayerId;
+      if (turnId) {
+        const box = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+        socketsById[turnId].emit("open-box", { boxNumber: box.number });
+      }
+      state = await waitForState(hostSocket, (s) => s.phase === "offer" || (s.phase === "playing" && s.currentTurnPlayerId !== turnId), 5000);
+    }
+
+    const finished = waitForState(hostSocket, (s) => s.phase === "finished", 5000);
+    hostSocket.emit("deal-response", { accepted: true });
+    joinSocket.emit("deal-response", { accepted: true });
+    await finished;
+
+    const viaSocket = await emitAck<{ success: boolean; error?: string; replay?: GameReplay }>(joinSocket, "get-game-replay", { gameId });
+    if (!viaSocket.success || !viaSocket.replay) throw new Error(`get-game-replay failed: ${viaSocket.error}`);
+    const replay = viaSocket.replay;
+
+    const res = await fetch(`${URL}/api/replays/${gameId}`);
+    const viaRest = (await res.json()) as GameReplay;
+    if (!res.ok || JSON.stringify(viaRest) !== JSON.stringify(replay)) throw new Error("REST replay differs from the socket one");
+
+    const missing = await fetch(`${URL}/api/replays/game_nope`);
+    if (missing.status !== 404) throw new Error(`Unknown replay returned ${missing.status}`);
+    console.log("[verify_replay] ✅ replay served over socket and REST once finished");
+
+    const types = replay.events.map((e) => e.type);
+    const expected = ["game-started", "chat", "box-opened", "offer-made", "deal-response", "box-revealed", "game-finished"];
+    const missingTypes = expected.filter((t) => !types.includes(t));
+    if (missingTypes.length > 0) throw new Error(`Replay is missing ${missingTypes.join(", ")}`);
+    if (types[0] !== "game-started" || types[types.length - 1] !== "game-finished") throw new Error("Replay does not run from start to finish");
+    if (types.includes("player-joined")) throw new Error("Lobby events leaked into the replay");
+    if (replay.events.some((e, i) => e.gameId !== gameId || (i > 0 && e.at < replay.events[i - 1].at))) {
+      throw new Error("Replay events are out of order or from another game");
+    }
+    if (types.filter((t) => t === "deal-response").length !== 2) throw new Error("Expected both deal responses");
+    console.log(`[verify_replay] ✅ ${types.length} events: ${[...new Set(types)].join(", ")}`);
+
+    console.log("[verify_replay] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_replay] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,110 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies per-room rules:
+ * - Only the host can change them, and out-of-bounds values are rejected
+ * - maxPlayers is enforced on join
+ * - The turn timer and round schedule come from the room's settings
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; isReady: boolean }>;
+  currentTurnPlayerId: string | null;
+  turnExpiresAt: number | null;
+  boxesToOpenThisRound: number;
+  settings: { turnTimeoutMs: number; maxPlayers: number; roundSchedule: number[] };
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_room_settings] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_room_settings] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+  const extraSocket = await connect("Extra");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const joined = await emitAck<{ success: boolean }>(joinSocket, "join-room", { roomCode, playerName: "Join" });
+    if (!joined.success) throw new Error("Join failed");
+
+    const denied = await emitAck<{ success: boolean }>(joinSocket, "update-room-settings", { settings: { maxPlayers: 3 } });
+    if (denied.success) throw new Error("Non-host changed the rules");
+
+    const tooShort = await emitAck<{ success: boolean; error?: string }>(hostSocket, "update-room-settings", { settings: { turnTimeoutMs: 1000 } });
+    if (tooShort.success) throw new Error("Out-of-bounds timer accepted");
+    console.log(`[verify_room_settings] ✅ invalid rules rejected (${tooShort.error})`);
+
+    const applied = waitForState(hostSocket, (s) => s.settings.maxPlayers === 2 && s.settings.turnTimeoutMs === 8000, 5000);
+    const ok = await emitAck<{ success: boolean; error?: string }>(hostSocket, "update-room-settings", {
+      settings: { maxPlayers: 2, turnTimeoutMs: 8000, roundSchedule: [3, 2] },
+    });
+    if (!ok.success) throw new Error(`Valid rules rejected: ${ok.error}`);
+    await applied;
+
+    const full = await emitAck<{ success: boolean; error?: string }>(extraSocket, "join-room", { roomCode, playerName: "Extra" });
+    if (full.success) throw new Error("maxPlayers not enforced");
+    console.log(`[verify_room_settings] ✅ maxPlayers enforced (${full.error})`);
+
+    hostSocket.emit("select-box", { boxNumber: 1 });
+    hostSocket.emit("player-ready");
+    joinSocket.emit("select-box", { boxNumber: 2 });
+    joinSocket.emit("player-ready");
+    await waitForState(hostSocket, (s) => s.players.every((p) => p.isReady), 5000);
+
+    const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.turnExpiresAt, 5000);
+    hostSocket.emit("start-game");
+    const playing = await started;
+
+    const turnMs = (playing.turnExpiresAt || 0) - Date.now();
+    if (turnMs > 8500 || turnMs < 6000) throw new Error(`Turn timer not applied (${turnMs}ms)`);
+    if (playing.boxesToOpenThisRound !== 3) throw new Error("Round schedule not applied");
+    console.log("[verify_room_settings] ✅ turn timer and round schedule applied");
+
+    console.log("[verify_room_settings] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+    extraSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_room_settings] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
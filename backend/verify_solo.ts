@@ -0,0 +1,150 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies solo mode:
+ * - A solo room's round schedule only has to leave a box for its one contestant
+ * - Nobody else can join a solo room as a contestant (spectators can) and bots can't be added
+ * - The game starts without a ready check
+ * - The player opens every box of each round with no turn timer
+ * - The banker's last offer comes with two boxes left, then the final swap and reveal
+ * - The result is ranked on the solo leaderboard only
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  mode: string;
+  phase: string;
+  players: Array<{ id: string; hasDealt: boolean }>;
+  boxes: Array<{ number: number; isOpened: boolean; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+  turnExpiresAt: number | null;
+  isFinalSwap: boolean;
+};
+
+type LeaderboardPage = { success: boolean; mode: string; leaderboard?: Array<{ playerName: string }> };
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_solo] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_solo] starting…");
+
+  const soloSocket = await connect("Solo");
+  const otherSocket = await connect("Other");
+
+  try {
+    // 11 of 12 boxes opened: room for one contestant's box, not for the default six
+    const tight = { boardId: "quick-12", roundSchedule: [4, 3, 2, 1, 1] };
+    const crowded = await emitAck<{ success: boolean; code?: string }>(otherSocket, "create-room", { playerName: "Other", settings: tight });
+    if (crowded.success || crowded.code !== "INVALID_SETTINGS") throw new Error("Multiplayer room accepted a schedule with no boxes to spare");
+    const tightSolo = await emitAck<{ success: boolean; error?: string }>(otherSocket, "create-room", { playerName: "Other", mode: "solo", settings: tight });
+    if (!tightSolo.success) throw new Error(`Solo room refused a schedule that leaves its box: ${tightSolo.error}`);
+    const updated = await emitAck<{ success: boolean; error?: string }>(otherSocket, "update-room-settings", { settings: { roundSchedule: [5, 3, 2, 1] } });
+    if (!updated.success) throw new Error(`Solo room refused a schedule update: ${updated.error}`);
+    await emitAck(otherSocket, "leave-room", {});
+    console.log("[verify_solo] ✅ solo round schedules only reserve one box");
+
+    const name = `Solo${Date.now() % 100000}`;
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(soloSocket, "create-room", {
+      playerName: name,
+      mode: "solo",
+      settings: { boardId: "quick-12" },
+    });
+    const roomCode = created.roomCode;
+
+    const joined = await emitAck<{ success: boolean }>(otherSocket, "join-room", { roomCode, playerName: "Other" });
+    if (joined.success) throw new Error("A second contestant joined a solo room");
+    const watching = await emitAck<{ success: boolean; error?: string }>(otherSocket, "join-room", { roomCode, playerName: "Watcher", asSpectator: true });
+    if (!watching.success) throw new Error(`Spectator could not join: ${watching.error}`);
+    const bot = await emitAck<{ success: boolean }>(soloSocket, "add-bot", { difficulty: "easy" });
+    if (bot.success) throw new Error("A bot was added to a solo room");
+    console.log("[verify_solo] ✅ solo room keeps its one seat");
+
+    // No player-ready: picking a box is enough to start
+    soloSocket.emit("select-box", { boxNumber: 3 });
+    const lobby = await waitForState(soloSocket, (s) => s.boxes.some((b) => b.ownerId === created.playerId), 5000);
+    if (lobby.mode !== "solo") throw new Error(`Room mode is ${lobby.mode}`);
+
+    let state = await (async () => {
+      const started = waitForState(soloSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+      soloSocket.emit("start-game");
+      return await started;
+    })();
+    console.log("[verify_solo] ✅ started without a ready check");
+
+    let offers = 0;
+    let boxesLeftAtLastOffer = 0;
+    while (state.phase !== "finished") {
+      if (state.phase === "playing" && state.currentTurnPlayerId) {
+        if (state.currentTurnPlayerId !== created.playerId) throw new Error("Turn went to someone else");
+        if (state.turnExpiresAt !== null) throw new Error("Solo turn has a timer");
+        const box = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+        soloSocket.emit("open-box", { boxNumber: box.number });
+      } else if (state.phase === "offer") {
+        offers += 1;
+        boxesLeftAtLastOffer = state.boxes.filter((b) => !b.isOpened).length;
+        soloSocket.emit("deal-response", { accepted: false });
+      } else if (state.phase === "swap-offer") {
+        if (!state.isFinalSwap) throw new Error("Expected the final swap");
+        soloSocket.emit("swap-response", { boxNumber: null });
+      }
+      const before = JSON.stringify([state.phase, state.currentTurnPlayerId, state.boxes.filter((b) => b.isOpened).length]);
+      state = await waitForState(
+        soloSocket,
+        (s) => JSON.stringify([s.phase, s.currentTurnPlayerId, s.boxes.filter((b) => b.isOpened).length]) !== before,
+        10000
+      );
+    }
+
+    if (offers < 2) throw new Error(`Only ${offers} offer(s) in a solo game`);
+    if (boxesLeftAtLastOffer !== 2) throw new Error(`Last offer came with ${boxesLeftAtLastOffer} boxes left`);
+    if (state.boxes.filter((b) => !b.isOpened).length !== 1) throw new Error("Expected only the other last box left closed");
+    console.log(`[verify_solo] ✅ ${offers} offers, the last with two boxes left, then the final swap`);
+
+    const solo = await emitAck<LeaderboardPage>(soloSocket, "get-global-leaderboard", { mode: "solo", season: "all-time", pageSize: 100 });
+    const shared = await emitAck<LeaderboardPage>(soloSocket, "get-global-leaderboard", { season: "all-time", pageSize: 100 });
+    if (solo.mode !== "solo" || !(solo.leaderboard || []).some((e) => e.playerName === name)) throw new Error("Missing from the solo leaderboard");
+    if ((shared.leaderboard || []).some((e) => e.playerName === name)) throw new Error("Solo game ranked on the multiplayer leaderboard");
+    console.log("[verify_solo] ✅ ranked on the solo leaderboard only");
+
+    console.log("[verify_solo] ✅ OK");
+  } finally {
+    soloSocket.disconnect();
+    otherSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_solo] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,130 @@
+/// <reference types="node" />
+import { io, Socket } from "socket.io-client";
+
+/**
+ * Verifies the swap offer:
+ * - The last player standing is offered the final swap before their box is revealed
+ * - Only they may answer, and only with an unclaimed unopened box
+ * - Swapping moves them to the new box, whose value they win
+ */
+
+const URL = "http://localhost:3001";
+
+type GameStateUpdate = {
+  phase: string;
+  players: Array<{ id: string; isReady: boolean; boxNumber: number | null; dealAmount: number | null; swappedFromBox: number | null }>;
+  boxes: Array<{ number: number; isOpened: boolean; value: number | null; ownerId: string | null }>;
+  currentTurnPlayerId: string | null;
+  isFinalSwap: boolean;
+  swapEligiblePlayerIds: string[];
+  swapExpiresAt: number | null;
+};
+
+async function connect(name: string): Promise<Socket> {
+  const socket = io(URL, { transports: ["websocket", "polling"] });
+  await new Promise<void>((resolve) => socket.on("connect", () => resolve()));
+  console.log(`[verify_swap] connected: ${name} (${socket.id})`);
+  return socket;
+}
+
+async function emitAck<TRes>(socket: Socket, event: string, payload: unknown): Promise<TRes> {
+  return await new Promise<TRes>((resolve) => {
+    socket.emit(event, payload, (res: TRes) => resolve(res));
+  });
+}
+
+async function waitForState(socket: Socket, predicate: (s: GameStateUpdate) => boolean, timeoutMs: number): Promise<GameStateUpdate> {
+  return await new Promise<GameStateUpdate>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.off("game-state-update", onUpdate);
+      reject(new Error("Timed out waiting for expected state"));
+    }, timeoutMs);
+
+    const onUpdate = (state: GameStateUpdate) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      socket.off("game-state-update", onUpdate);
+      resolve(state);
+    };
+
+    socket.on("game-state-update", onUpdate);
+  });
+}
+
+async function run() {
+  console.log("[verify_swap] starting…");
+
+  const hostSocket = await connect("Host");
+  const joinSocket = await connect("Join");
+
+  try {
+    const created = await emitAck<{ success: boolean; roomCode: string; playerId: string }>(hostSocket, "create-room", { playerName: "Host" });
+    const roomCode = created.roomCode;
+    const joined = await emitAck<{ success: boolean; playerId: string }>(joinSocket, "join-room", { roomCode, playerName: "Join" });
+    const socketsById: Record<string, Socket> = { [created.playerId]: hostSocket, [joined.playerId]: joinSocket };
+
+    const tooShort = await emitAck<{ success: boolean }>(hostSocket, "update-room-settings", { settings: { swapTimeoutMs: 1000 } });
+    if (tooShort.success) throw new Error("Out-of-range swap timer accepted");
+
+    hostSocket.emit("select-box", { boxNumber: 1 });
+    hostSocket.emit("player-ready");
+    joinSocket.emit("select-box", { boxNumber: 20 });
+    joinSocket.emit("player-ready");
+    await waitForState(hostSocket, (s) => s.players.every((p) => p.isReady), 5000);
+
+    let state = await (async () => {
+      const started = waitForState(hostSocket, (s) => s.phase === "playing" && !!s.currentTurnPlayerId, 5000);
+      hostSocket.emit("start-game");
+      return await started;
+    })();
+
+    while (state.phase === "playing") {
+      const turnId = state.currentTurnPlayerId;
+      if (turnId) {
+        const box = state.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+        socketsById[turnId].emit("open-box", { boxNumber: box.number });
+      }
+      state = await waitForState(hostSocket, (s) => s.phase === "offer" || (s.phase === "playing" && s.currentTurnPlayerId !== turnId), 5000);
+    }
+
+    // Join deals, leaving Host as the last player standing
+    const swapOffered = waitForState(hostSocket, (s) => s.phase === "swap-offer", 5000);
+    joinSocket.emit("deal-response", { accepted: true });
+    hostSocket.emit("deal-response", { accepted: false });
+    const swap = await swapOffered;
+
+    if (!swap.isFinalSwap || swap.swapEligiblePlayerIds.join() !== created.playerId || !swap.swapExpiresAt) {
+      throw new Error("Final swap not offered to the last player");
+    }
+    console.log("[verify_swap] ✅ final swap offered to the last player");
+
+    const notYours = await emitAck<{ success: boolean }>(joinSocket, "swap-response", { boxNumber: null });
+    if (notYours.success) throw new Error("A player who dealt answered the swap");
+
+    const openedBox = swap.boxes.find((b) => b.isOpened)!;
+    const badSwap = await emitAck<{ success: boolean }>(hostSocket, "swap-response", { boxNumber: openedBox.number });
+    if (badSwap.success) throw new Error("Swapped to an opened box");
+
+    const target = swap.boxes.find((b) => !b.isOpened && b.ownerId === null)!;
+    const finished = waitForState(hostSocket, (s) => s.phase === "finished", 5000);
+    const swapped = await emitAck<{ success: boolean; error?: string }>(hostSocket, "swap-response", { boxNumber: target.number });
+    if (!swapped.success) throw new Error(`Swap failed: ${swapped.error}`);
+    const done = await finished;
+
+    const host = done.players.find((p) => p.id === created.playerId)!;
+    const revealed = done.boxes.find((b) => b.number === target.number)!;
+    if (host.boxNumber !== target.number || host.swappedFromBox !== 1) throw new Error("Swap did not move the player to the new box");
+    if (!revealed.isOpened || host.dealAmount !== revealed.value) throw new Error("Player was not paid the swapped box's value");
+    console.log(`[verify_swap] ✅ swapped 1 → ${target.number} and won ${host.dealAmount}`);
+
+    console.log("[verify_swap] ✅ OK");
+  } finally {
+    hostSocket.disconnect();
+    joinSocket.disconnect();
+  }
+}
+
+run().catch((err) => {
+  console.error("[verify_swap] ❌ FAILED:", err?.message || err);
+  process.exitCode = 1;
+});
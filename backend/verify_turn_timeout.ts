@@ -13,7 +13,7 @@ const URL = "http://localhost:3001";
 const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 type GameStateUpdate = {
-  phase: "waiting" | "selection" | "playing" | "offer" | "finished";
+  phase: "waiting" | "selection" | "playing" | "offer" | "swap-offer" | "finished";
   players: Array<{ id: string; role: "player" | "spectator"; isReady: boolean; boxNumber: number | null }>;
   boxes: Array<{ number: number; isOpened: boolean; value: number | null; ownerId: string | null }>;
   currentRound: number;
@@ -179,6 +179,7 @@ async function run() {
     let autoPlayEnabled = false;
     let lastTurnHandled: number | null = null;
     let offerResponded = false;
+    let swapResponded = false;
 
     hostSocket.on("game-state-update", async (state: GameStateUpdate) => {
       if (!autoPlayEnabled) return;
@@ -198,6 +199,12 @@ async function run() {
         hostSocket.emit("deal-response", { accepted: true });
         joinSocket.emit("deal-response", { accepted: false });
       }
+
+      // Join is left last standing: keep their box at the final swap
+      if (state.phase === "swap-offer" && !swapResponded) {
+        swapResponded = true;
+        joinSocket.emit("swap-response", { boxNumber: null });
+      }
     });
 
     // Server should have advanced the turn to the other player (skip).
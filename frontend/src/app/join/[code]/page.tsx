@@ -0,0 +1,151 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { useGame } from "@/context/GameContext";
+import { LogoMark } from "@/components/Logo";
+
+/**
+ * Invite link form: the room code comes from the URL, so only a name is needed.
+ * `?spectate=1` joins as a spectator and `?invite=<token>` carries the host's
+ * invite, which stands in for the room password.
+ */
+function JoinForm() {
+    const params = useParams();
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const { state, joinRoom } = useGame();
+
+    const roomCode = ((params.code as string) || "").toUpperCase();
+    const inviteToken = searchParams.get("invite") || undefined;
+
+    const [playerName, setPlayerName] = useState("");
+    const [password, setPassword] = useState("");
+    const [asSpectator, setAsSpectator] = useState(searchParams.get("spectate") === "1");
+    const [isJoining, setIsJoining] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleJoin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!playerName.trim()) {
+            setError("Please enter your name");
+            return;
+        }
+
+        setError(null);
+        setIsJoining(true);
+
+        try {
+            const result = await joinRoom(roomCode, playerName.trim(), {
+                password: password.trim() ? password.trim() : undefined,
+                asSpectator,
+                inviteToken,
+            });
+            if (result.success) {
+                router.push(`/room/${roomCode}/lobby`);
+            } else {
+                setError(result.error || "Failed to join room");
+            }
+        } catch {
+            setError("Connection error. Please try again.");
+        } finally {
+            setIsJoining(false);
+        }
+    };
+
+    return (
+        <main
+            id="main-content"
+            className="min-h-screen flex flex-col items-center justify-center p-4 sm:p-6 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-studio-800 to-studio-950"
+        >
+            <form onSubmit={handleJoin} className="glass p-8 sm:p-10 max-w-md w-full text-center shadow-2xl border-t border-white/10 space-y-6">
+                <div className="flex justify-center">
+                    <LogoMark size="md" />
+                </div>
+
+                <div>
+                    <p className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-2">
+                        {asSpectator ? "You're invited to watch room" : "You're invited to join room"}
+                    </p>
+                    <p className="font-mono font-bold text-3xl text-gold-400 tracking-[0.3em]">{roomCode}</p>
+                    {inviteToken && (
+                        <p className="text-xs text-gray-500 mt-2">This invite skips the room password.</p>
+                    )}
+                </div>
+
+                {(error || state.error) && (
+                    <div className="p-3 rounded-xl bg-danger-950/40 border border-danger-500/30 text-danger-200 text-sm font-medium" role="alert">
+                        {error || state.error}
+                    </div>
+                )}
+
+                <div className="text-left">
+                    <label htmlFor="playerName" className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 ml-1">
+                        Enter Your Name
+                    </label>
+                    <input
+                        id="playerName"
+                        type="text"
+                        value={playerName}
+                        onChange={(e) => setPlayerName(e.target.value)}
+                        placeholder="e.g. The Banker"
+                        maxLength={16}
+                        autoFocus
+                        className="w-full px-4 py-4 rounded-xl bg-studio-950/50 border-2 border-white/5 text-white placeholder-gray-600 focus:outline-none focus:border-gold-500/50 transition-all font-medium text-lg"
+                    />
+                </div>
+
+                {!inviteToken && (
+                    <div className="text-left">
+                        <label htmlFor="roomPassword" className="block text-xs font-bold text-gray-400 uppercase tracking-wider mb-2 ml-1">
+                            Password (optional)
+                        </label>
+                        <input
+                            id="roomPassword"
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder="If the host set one"
+                            maxLength={64}
+                            className="w-full px-4 py-3 rounded-xl bg-studio-950/50 border-2 border-white/5 text-white placeholder-gray-600 focus:outline-none focus:border-primary-500/50 transition-all font-medium"
+                        />
+                    </div>
+                )}
+
+                <label className="flex items-center gap-3 rounded-xl border border-white/5 bg-black/20 p-3 cursor-pointer hover:bg-white/5 transition-colors text-left">
+                    <input
+                        type="checkbox"
+                        checked={asSpectator}
+                        onChange={(e) => setAsSpectator(e.target.checked)}
+                        className="w-5 h-5 rounded border-2 border-white/20 bg-studio-950 text-primary-500 focus:ring-2 focus:ring-primary-500"
+                    />
+                    <span className="text-sm font-bold text-gray-200">Join as spectator</span>
+                </label>
+
+                <button
+                    type="submit"
+                    disabled={isJoining || !state.isConnected}
+                    className="w-full py-4 rounded-xl font-bold text-white bg-primary-600 hover:bg-primary-500 active:scale-95 disabled:opacity-50 disabled:transform-none transition-all uppercase tracking-widest"
+                >
+                    {isJoining ? "Joining..." : asSpectator ? "Watch Game" : "Join Game"}
+                </button>
+
+                <Link href="/" className="block text-sm text-gray-400 hover:text-white">
+                    Back to home
+                </Link>
+            </form>
+        </main>
+    );
+}
+
+/**
+ * Join Page - Wrapper with Suspense for useSearchParams
+ */
+export default function JoinPage() {
+    return (
+        <Suspense fallback={<div className="min-h-screen flex items-center justify-center text-gray-400">Loading...</div>}>
+            <JoinForm />
+        </Suspense>
+    );
+}
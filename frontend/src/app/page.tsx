@@ -1,11 +1,20 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { useGame } from "@/context/GameContext";
+import { useGame, type GameMode, type PublicRoomInfo } from "@/context/GameContext";
 import { LogoMark } from "@/components/Logo";
 import { getAvatarForName } from "@/lib/avatar";
 
+/** How often the room browser refreshes itself */
+const ROOM_LIST_REFRESH_MS = 10000;
+
+function describePhase(phase: PublicRoomInfo["phase"]): string {
+  if (phase === "waiting") return "In lobby";
+  if (phase === "finished") return "Finished";
+  return "In game";
+}
+
 /**
  * Home Page - Entry point for the game
  * 
@@ -13,7 +22,7 @@ import { getAvatarForName } from "@/lib/avatar";
  */
 export default function Home() {
   const router = useRouter();
-  const { state, createRoom, joinRoom } = useGame();
+  const { state, createRoom, joinRoom, listPublicRooms, joinQuickPlay, leaveQuickPlay } = useGame();
 
   const [playerName, setPlayerName] = useState("");
   const [roomCode, setRoomCode] = useState("");
@@ -23,8 +32,82 @@ export default function Home() {
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showJoinForm, setShowJoinForm] = useState(false);
+  const [publicRooms, setPublicRooms] = useState<PublicRoomInfo[]>([]);
+  const [quickPlayWaiting, setQuickPlayWaiting] = useState<number | null>(null);
+
+  const refreshRooms = useCallback(async () => {
+    const result = await listPublicRooms();
+    if (result.success) setPublicRooms(result.rooms);
+  }, [listPublicRooms]);
+
+  // Keep the room browser fresh while the page is open
+  useEffect(() => {
+    if (!state.isConnected) return;
+    refreshRooms();
+    const timer = setInterval(refreshRooms, ROOM_LIST_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [state.isConnected, refreshRooms]);
+
+  // Quick Play seats us in a room on the server; follow it to the lobby
+  useEffect(() => {
+    if (quickPlayWaiting !== null && state.roomCode) {
+      router.push(`/room/${state.roomCode}/lobby`);
+    }
+  }, [quickPlayWaiting, state.roomCode, router]);
+
+  const handleQuickPlay = async () => {
+    if (!playerName.trim()) {
+      setError("Please enter your name");
+      return;
+    }
+
+    setError(null);
+    const result = await joinQuickPlay(playerName.trim());
+    if (result.success) {
+      setQuickPlayWaiting(result.waiting ?? 1);
+    } else {
+      setError(result.error || "Failed to join Quick Play");
+    }
+  };
+
+  const handleCancelQuickPlay = () => {
+    leaveQuickPlay();
+    setQuickPlayWaiting(null);
+  };
+
+  // Rooms with a password go through the join form so the password can be typed in
+  const handleBrowseJoin = async (room: PublicRoomInfo) => {
+    const asSpectator = room.phase !== "waiting" || room.playerCount >= room.maxPlayers;
+    if (room.hasPassword) {
+      setRoomCode(room.code);
+      setJoinAsSpectator(asSpectator);
+      setShowJoinForm(true);
+      return;
+    }
 
-  const handleCreateRoom = async () => {
+    if (!playerName.trim()) {
+      setError("Please enter your name");
+      return;
+    }
+
+    setError(null);
+    setIsJoining(true);
+    try {
+      const result = await joinRoom(room.code, playerName.trim(), { asSpectator });
+      if (result.success) {
+        router.push(`/room/${room.code}/lobby`);
+      } else {
+        setError(result.error || "Failed to join room");
+        refreshRooms();
+      }
+    } catch {
+      setError("Connection error. Please try again.");
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const handleCreateRoom = async (mode: GameMode = "multiplayer") => {
     if (!playerName.trim()) {
       setError("Please enter your name");
       return;
@@ -34,7 +117,7 @@ export default function Home() {
     setIsCreating(true);
 
     try {
-      const result = await createRoom(playerName.trim());
+      const result = await createRoom(playerName.trim(), { mode });
       if (result.success && result.roomCode) {
         router.push(`/room/${result.roomCode}/lobby`);
       } else {
@@ -116,11 +199,11 @@ export default function Home() {
           </div>
         </div>
 
-        {/* Error Feedback */}
-        {error && (
+        {/* Error Feedback (local form errors, or e.g. being removed from a room) */}
+        {(error || state.error) && (
           <div className="mb-6 p-4 rounded-xl bg-danger-950/40 border border-danger-500/30 text-danger-200 text-sm font-medium flex items-center justify-center gap-2 animate-in fade-in slide-in-from-top-2">
             <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10" /><line x1="12" y1="8" x2="12" y2="12" /><line x1="12" y1="16" x2="12.01" y2="16" /></svg>
-            {error}
+            {error || state.error}
           </div>
         )}
 
@@ -149,7 +232,7 @@ export default function Home() {
           {!showJoinForm ? (
             <div className="space-y-4 pt-2">
               <button
-                onClick={handleCreateRoom}
+                onClick={() => handleCreateRoom()}
                 disabled={isCreating || !state.isConnected}
                 className="w-full py-6 rounded-2xl font-display font-black text-2xl tracking-widest uppercase bg-gradient-to-b from-gold-300 via-gold-500 to-gold-700 text-studio-950 shadow-[0_0_30px_rgba(234,179,8,0.3)] border-t border-white/50 border-b border-gold-900/50 hover:shadow-[0_0_50px_rgba(234,179,8,0.6)] hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none transition-all duration-300 relative overflow-hidden group/btn"
               >
@@ -171,6 +254,37 @@ export default function Home() {
                 </span>
               </button>
 
+              {quickPlayWaiting === null ? (
+                <button
+                  onClick={handleQuickPlay}
+                  disabled={isCreating || !state.isConnected}
+                  className="w-full py-4 rounded-xl font-bold uppercase tracking-widest text-white bg-primary-600 hover:bg-primary-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                  Quick Play
+                </button>
+              ) : (
+                <div className="flex items-center justify-between gap-3 rounded-xl border border-primary-500/30 bg-primary-500/10 px-4 py-3" role="status" aria-live="polite">
+                  <span className="flex items-center gap-2 text-sm font-bold text-primary-200">
+                    <span className="w-4 h-4 border-2 border-primary-300 border-t-transparent rounded-full animate-spin" />
+                    Finding players… ({quickPlayWaiting} waiting)
+                  </span>
+                  <button
+                    onClick={handleCancelQuickPlay}
+                    className="text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+
+              <button
+                onClick={() => handleCreateRoom("solo")}
+                disabled={isCreating || !state.isConnected}
+                className="w-full py-4 rounded-xl font-bold uppercase tracking-widest text-gold-300 border border-gold-500/30 bg-gold-500/5 hover:bg-gold-500/15 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Play Solo vs the Banker
+              </button>
+
               <button
                 onClick={() => setShowJoinForm(true)}
                 className="w-full py-4 rounded-xl font-bold text-gray-400 hover:text-white hover:bg-white/5 transition-all flex items-center justify-center gap-2 group/join"
@@ -261,6 +375,63 @@ export default function Home() {
         </div>
       </div>
 
+      {/* Public Room Browser */}
+      <section className="mt-8 glass p-6 max-w-lg w-full" aria-labelledby="public-rooms-heading">
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="public-rooms-heading" className="text-xs font-bold text-gray-400 uppercase tracking-widest">
+            Public Rooms
+          </h2>
+          <button
+            onClick={refreshRooms}
+            disabled={!state.isConnected}
+            className="text-xs font-bold text-gold-400 hover:text-gold-300 disabled:opacity-50"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {publicRooms.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No public rooms right now. Create one or try Quick Play.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {publicRooms.map((room) => {
+              const canPlay = room.phase === "waiting" && room.playerCount < room.maxPlayers;
+              return (
+                <li
+                  key={room.code}
+                  className="flex items-center justify-between gap-3 rounded-xl border border-white/5 bg-black/20 px-4 py-3"
+                >
+                  <div className="min-w-0 text-left">
+                    <p className="font-mono font-bold text-white tracking-[0.2em]">
+                      {room.code}
+                      {room.hasPassword && (
+                        <span className="ml-2 text-xs" role="img" aria-label="Password required">🔒</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-400 truncate">
+                      {room.hostName} · {room.playerCount}/{room.maxPlayers} players · {describePhase(room.phase)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleBrowseJoin(room)}
+                    disabled={isJoining || !state.isConnected}
+                    className={`shrink-0 min-h-[44px] px-4 rounded-lg font-bold text-sm disabled:opacity-50 transition-all ${canPlay
+                      ? "bg-primary-600 hover:bg-primary-500 text-white"
+                      : "border border-white/10 text-gray-300 hover:bg-white/5"
+                      }`}
+                    aria-label={`${canPlay ? "Join" : "Watch"} room ${room.code}`}
+                  >
+                    {canPlay ? "Join" : "Watch"}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
       {/* Value Props */}
       <div className="mt-8 flex flex-wrap justify-center gap-4 sm:gap-8 opacity-60 hover:opacity-100 transition-opacity duration-500">
         <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-black/20 backdrop-blur-sm border border-white/5">
@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { StageGrid } from "@/layouts/StageGrid";
+import { RemainingBoard } from "@/components/RemainingBoard";
+import { PlayerPanel } from "@/components/PlayerPanel";
+import { BoxGrid } from "@/components/BoxGrid";
+import { OfferZone } from "@/components/OfferZone";
+import { SOCKET_URL } from "@/hooks/useSocket";
+import { buildReplayFrames, type GameReplay } from "@/lib/replay";
+
+/** Time each event stays on screen at 1× speed */
+const STEP_MS = 1500;
+
+const SPEEDS = [1, 2, 4];
+
+function formatElapsed(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Replay Page - Plays a finished game back from its event log
+ *
+ * Each event is one step; play/pause steps through them on a timer and the slider
+ * seeks straight to any step.
+ */
+export default function ReplayPage() {
+    const params = useParams();
+    const gameId = (params.gameId as string) || "";
+
+    const [replay, setReplay] = useState<GameReplay | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [step, setStep] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(`${SOCKET_URL}/api/replays/${encodeURIComponent(gameId)}`)
+            .then(async (res) => {
+                if (!res.ok) throw new Error(res.status === 404 ? "Replay not found" : "Could not load the replay");
+                return (await res.json()) as GameReplay;
+            })
+            .then((data) => {
+                if (!cancelled) setReplay(data);
+            })
+            .catch((err: Error) => {
+                if (!cancelled) setLoadError(err.message || "Could not load the replay");
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [gameId]);
+
+    const frames = useMemo(() => (replay ? buildReplayFrames(replay) : []), [replay]);
+    const lastStep = Math.max(0, frames.length - 1);
+    const frame = frames[Math.min(step, lastStep)];
+    // Playback stops by itself on the last event
+    const isRunning = isPlaying && step < lastStep;
+
+    // Advance one event per tick
+    useEffect(() => {
+        if (!isRunning) return;
+        const timer = setInterval(() => {
+            setStep((current) => Math.min(current + 1, lastStep));
+        }, STEP_MS / speed);
+        return () => clearInterval(timer);
+    }, [isRunning, speed, lastStep]);
+
+    const handlePlayPause = () => {
+        if (!isRunning && step >= lastStep) setStep(0); // Replay from the start
+        setIsPlaying(!isRunning);
+    };
+
+    if (loadError || !replay || !frame) {
+        return (
+            <main className="min-h-screen flex flex-col items-center justify-center gap-4 p-6">
+                <p className={loadError ? "text-red-400" : "text-gray-400"} role={loadError ? "alert" : "status"}>
+                    {loadError || "Loading replay..."}
+                </p>
+                <Link href="/" className="text-sm text-gold-400 hover:text-gold-300">
+                    Back to home
+                </Link>
+            </main>
+        );
+    }
+
+    const { currency } = replay.settings;
+
+    return (
+        <div className="min-h-screen flex flex-col">
+            <header className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+                <Link href="/" className="text-sm text-gray-400 hover:text-white">
+                    ← Home
+                </Link>
+                <h1 className="font-display text-gold-300 uppercase tracking-widest text-sm">
+                    Replay · Room {replay.roomCode}
+                </h1>
+                <span className="text-xs text-gray-500">
+                    {new Date(replay.startedAt).toLocaleString()}
+                </span>
+            </header>
+
+            <StageGrid
+                className="flex-1"
+                leftPanel={
+                    <RemainingBoard
+                        values={replay.settings.boxValues}
+                        currency={currency}
+                        eliminatedValues={frame.eliminatedValues}
+                        showScorchAnimation={isRunning}
+                        recentlyEliminated={frame.recentlyEliminated}
+                    />
+                }
+                centre={
+                    <OfferZone
+                        currency={currency}
+                        personalOffers={frame.offers}
+                    />
+                }
+                rightPanel={
+                    <div className="space-y-4">
+                        <PlayerPanel
+                            players={frame.players.map((p) => ({
+                                id: p.id,
+                                name: p.name,
+                                boxNumber: p.boxNumber ?? undefined,
+                                hasDealt: p.dealAmount !== null,
+                                finalAmount: p.dealAmount ?? undefined,
+                                isActive: p.id === frame.actorId,
+                                isConnected: !p.hasLeft,
+                            }))}
+                            showReadyStatus={false}
+                            currency={currency}
+                        />
+
+                        {frame.chat.length > 0 && (
+                            <div>
+                                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-2">Chat</h3>
+                                <ul className="space-y-1 text-xs">
+                                    {frame.chat.slice(-8).map((m, i) => (
+                                        <li key={i} className="text-gray-300">
+                                            <span className="text-gold-400">{m.playerName}:</span> {m.content}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                    </div>
+                }
+                bottomPanel={
+                    <div>
+                        <div className="mb-4 text-center py-3 px-4 rounded-xl bg-studio-800/50 border border-white/10">
+                            <p className="text-lg font-display font-semibold text-gray-300" role="status" aria-live="polite">
+                                {frame.caption}
+                            </p>
+                            <p className="text-sm text-gray-500 mt-1">Round {frame.round}</p>
+                        </div>
+
+                        <BoxGrid
+                            boxes={frame.boxes.map((b) => ({ ...b, isSelected: false, isPlayerBox: false }))}
+                            currency={currency}
+                        />
+                    </div>
+                }
+                playerBoxArea={
+                    <div className="flex flex-col gap-3" aria-label="Replay controls">
+                        <div className="flex items-center justify-center gap-2">
+                            <button
+                                type="button"
+                                onClick={() => setStep(Math.max(0, step - 1))}
+                                disabled={step === 0}
+                                className="hit-44 px-3 py-2 rounded-lg border border-white/20 text-gray-300 disabled:opacity-40"
+                                aria-label="Previous event"
+                            >
+                                ‹
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handlePlayPause}
+                                className="hit-44 px-6 py-2 rounded-lg bg-gold-500 text-studio-900 font-bold uppercase tracking-wider"
+                            >
+                                {isRunning ? "Pause" : "Play"}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setStep(Math.min(lastStep, step + 1))}
+                                disabled={step >= lastStep}
+                                className="hit-44 px-3 py-2 rounded-lg border border-white/20 text-gray-300 disabled:opacity-40"
+                                aria-label="Next event"
+                            >
+                                ›
+                            </button>
+                            <div className="flex gap-1 ml-2" role="radiogroup" aria-label="Playback speed">
+                                {SPEEDS.map((s) => (
+                                    <button
+                                        key={s}
+                                        type="button"
+                                        role="radio"
+                                        aria-checked={speed === s}
+                                        onClick={() => setSpeed(s)}
+                                        className={`px-2 py-1 rounded text-xs font-bold ${speed === s ? "bg-white/15 text-white" : "text-gray-500"}`}
+                                    >
+                                        {s}×
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-3">
+                            <span className="text-xs font-mono text-gray-400">{formatElapsed(frame.elapsedMs)}</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={lastStep}
+                                value={step}
+                                onChange={(e) => setStep(Number(e.target.value))}
+                                className="flex-1 accent-gold-500"
+                                aria-label="Seek"
+                                aria-valuetext={`Event ${step + 1} of ${frames.length}`}
+                            />
+                            <span className="text-xs text-gray-500">{step + 1}/{frames.length}</span>
+                        </div>
+                    </div>
+                }
+            />
+        </div>
+    );
+}
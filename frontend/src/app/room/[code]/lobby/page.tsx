@@ -5,7 +5,10 @@ import { useParams, useRouter } from "next/navigation";
 import { TopBar } from "@/components/TopBar";
 import { PlayerPanel } from "@/components/PlayerPanel";
 import { BoxGrid } from "@/components/BoxGrid";
-import { useGame } from "@/context/GameContext";
+import { RoomRulesPanel } from "@/components/RoomRulesPanel";
+import { ToastStack, useToasts } from "@/components/Toast";
+import { CooldownNotice } from "@/components/CooldownNotice";
+import { useGame, type ActionResult, type BotDifficulty } from "@/context/GameContext";
 
 import { LogoMark } from "@/components/Logo";
 
@@ -21,7 +24,13 @@ export default function LobbyPage() {
     const router = useRouter();
     const roomCode = (params.code as string)?.toUpperCase() || "";
 
-    const { state, selectBox, setReady, startGame, setRoomPassword } = useGame();
+    const { state, selectBox, setReady, startGame, setRoomPassword, createInvite, setRoomVisibility, updateRoomSettings, kickPlayer, banPlayer, transferHost, mutePlayer, addBot, leaveRoom } = useGame();
+    // Why the server turned down a box pick, ready or start
+    const { toasts, showToast, dismissToast } = useToasts();
+    // Throttled actions show the cooldown notice instead
+    const toastFailure = (res: ActionResult, fallback: string) => {
+        if (!res.success && res.code !== "RATE_LIMITED") showToast(res.error || fallback);
+    };
 
     // Redirect if not in a room
     useEffect(() => {
@@ -38,7 +47,7 @@ export default function LobbyPage() {
 
     // Navigate to play page when game starts
     useEffect(() => {
-        if (state.phase === "playing" || state.phase === "offer") {
+        if (state.phase === "playing" || state.phase === "offer" || state.phase === "swap-offer") {
             router.push(`/room/${roomCode}/play`);
         }
     }, [state.phase, roomCode, router]);
@@ -49,52 +58,59 @@ export default function LobbyPage() {
     const isSpectator = currentPlayer?.role === "spectator";
     const selectedBox = currentPlayer?.boxNumber || null;
     const isReady = currentPlayer?.isReady || false;
+    // Solo: no ready check, the player starts as soon as they have a box
+    const isSolo = state.mode === "solo";
 
     // Check if all (non-spectator) players are ready
     const playerContestants = state.players.filter((p) => p.role === "player");
-    const allPlayersReady = playerContestants.length >= 2 &&
-        playerContestants.every((p) => p.isReady && p.boxNumber !== null);
+    const allPlayersReady = isSolo
+        ? playerContestants.length === 1 && playerContestants[0].boxNumber !== null
+        : playerContestants.length >= state.settings.minPlayersToStart &&
+            playerContestants.every((p) => p.isReady && p.boxNumber !== null);
 
-    const handleBoxClick = (boxNumber: number) => {
+    const handleBoxClick = async (boxNumber: number) => {
         if (!isReady && !isSpectator) {
-            selectBox(boxNumber);
+            toastFailure(await selectBox(boxNumber), "Could not pick that box");
         }
     };
 
-    const handleReady = () => {
+    const handleReady = async () => {
         if (selectedBox && !isReady && !isSpectator) {
-            setReady();
+            toastFailure(await setReady(), "Could not lock in your box");
         }
     };
 
-    const handleStartGame = () => {
+    const handleStartGame = async () => {
         if (isHost && allPlayersReady) {
-            startGame();
+            toastFailure(await startGame(), "Could not start the game");
         }
     };
 
     // Copy room code to clipboard with feedback
     const [copied, setCopied] = useState(false);
 
+    const copyToClipboard = async (text: string) => {
+        // Try modern clipboard API first
+        if (navigator.clipboard && window.isSecureContext) {
+            await navigator.clipboard.writeText(text);
+        } else {
+            // Fallback for older browsers or non-secure contexts
+            const textArea = document.createElement('textarea');
+            textArea.value = text;
+            textArea.style.position = 'fixed';
+            textArea.style.left = '-9999px';
+            document.body.appendChild(textArea);
+            textArea.select();
+            document.execCommand('copy');
+            document.body.removeChild(textArea);
+        }
+    };
+
     const handleCopyCode = async () => {
         const codeToShare = state.roomCode || roomCode;
 
         try {
-            // Try modern clipboard API first
-            if (navigator.clipboard && window.isSecureContext) {
-                await navigator.clipboard.writeText(codeToShare);
-            } else {
-                // Fallback for older browsers or non-secure contexts
-                const textArea = document.createElement('textarea');
-                textArea.value = codeToShare;
-                textArea.style.position = 'fixed';
-                textArea.style.left = '-9999px';
-                document.body.appendChild(textArea);
-                textArea.select();
-                document.execCommand('copy');
-                document.body.removeChild(textArea);
-            }
-
+            await copyToClipboard(codeToShare);
             setCopied(true);
             setTimeout(() => setCopied(false), 2000);
         } catch (err) {
@@ -102,8 +118,44 @@ export default function LobbyPage() {
         }
     };
 
+    // Share a /join link: the Web Share sheet where there is one, the clipboard otherwise
+    const [shareStatus, setShareStatus] = useState<string | null>(null);
+
+    const handleShareLink = async (options: { asSpectator?: boolean; withInvite?: boolean } = {}) => {
+        setShareStatus(null);
+        const code = state.roomCode || roomCode;
+        const query = new URLSearchParams();
+        if (options.asSpectator) query.set("spectate", "1");
+
+        // Host only: a single-use token that gets one friend past the password
+        if (options.withInvite) {
+            const res = await createInvite();
+            if (!res.success || !res.invite) {
+                setShareStatus(res.error || "Could not create an invite");
+                return;
+            }
+            query.set("invite", res.invite.token);
+        }
+
+        const search = query.toString();
+        const url = `${window.location.origin}/join/${code}${search ? `?${search}` : ""}`;
+        const text = options.asSpectator ? `Watch my Deal or No Deal game (room ${code})` : `Join my Deal or No Deal game (room ${code})`;
+
+        try {
+            if (typeof navigator.share === "function") {
+                await navigator.share({ title: "Deal or No Deal", text, url });
+                return;
+            }
+            await copyToClipboard(url);
+            setShareStatus(options.withInvite ? "One-time invite link copied" : "Link copied");
+        } catch (err) {
+            // Closing the share sheet is not an error
+            if ((err as Error)?.name !== "AbortError") setShareStatus("Could not share the link");
+        }
+    };
+
     // Create boxes array for display
-    const boxes = Array.from({ length: 20 }, (_, i) => {
+    const boxes = Array.from({ length: state.settings.boxValues.length }, (_, i) => {
         const boxNumber = i + 1;
         // Check if this box is taken by any player
         const owner = state.players.find((p) => p.boxNumber === boxNumber);
@@ -128,8 +180,51 @@ export default function LobbyPage() {
         boxNumber: p.boxNumber || undefined,
         isReady: p.isReady,
         hasDealt: false,
+        isConnected: p.isConnected,
+        isBot: p.isBot,
+        isMuted: p.isMuted,
     }));
 
+    // Host-only player management (kick / ban / mute / transfer host)
+    const [hostActionStatus, setHostActionStatus] = useState<string | null>(null);
+
+    const runHostAction = async (
+        action: (playerId: string) => Promise<{ success: boolean; error?: string }>,
+        playerId: string
+    ) => {
+        setHostActionStatus(null);
+        const res = await action(playerId);
+        if (!res.success) {
+            setHostActionStatus(res.error || "Action failed");
+        }
+    };
+
+    const hostActions = isHost && !isSpectator
+        ? {
+            onKick: (playerId: string) => runHostAction(kickPlayer, playerId),
+            onBan: (playerId: string) => {
+                const target = state.players.find((p) => p.id === playerId);
+                if (window.confirm(`Ban ${target?.name || "this player"} from the room? They won't be able to rejoin.`)) {
+                    runHostAction(banPlayer, playerId);
+                }
+            },
+            onTransferHost: (playerId: string) => runHostAction(transferHost, playerId),
+            onMute: (playerId: string, muted: boolean) => runHostAction((id) => mutePlayer(id, muted), playerId),
+        }
+        : undefined;
+
+    // Host-only: fill empty seats with bots
+    const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>("medium");
+    const isRoomFull = playerContestants.length >= state.settings.maxPlayers;
+
+    const handleAddBot = async () => {
+        setHostActionStatus(null);
+        const res = await addBot(botDifficulty);
+        if (!res.success) {
+            setHostActionStatus(res.error || "Failed to add a bot");
+        }
+    };
+
     // Host-only password controls (optional)
     const [passwordDraft, setPasswordDraft] = useState("");
     const [passwordStatus, setPasswordStatus] = useState<string | null>(null);
@@ -145,12 +240,28 @@ export default function LobbyPage() {
         }
     };
 
+    const [visibilityStatus, setVisibilityStatus] = useState<string | null>(null);
+
+    const handleToggleVisibility = async () => {
+        setVisibilityStatus(null);
+        const res = await setRoomVisibility(state.visibility === "public" ? "private" : "public");
+        if (!res.success) {
+            setVisibilityStatus(res.error || "Could not change room visibility");
+        }
+    };
+
+    const handleLeaveRoom = () => {
+        leaveRoom();
+        router.push("/");
+    };
+
     return (
         <div className="min-h-screen flex flex-col">
             <TopBar
                 roomCode={roomCode}
                 playerName={state.playerName || "Player"}
                 isHost={isHost}
+                onLogoClick={handleLeaveRoom}
             />
 
             <main
@@ -173,9 +284,11 @@ export default function LobbyPage() {
                     <p className="text-gray-400">
                         {isSpectator
                             ? "You are spectating. You can watch live, but you cannot pick boxes or start the game."
-                            : isHost
-                                ? "Waiting for contestants to take their positions..."
-                                : "Choose your lucky box to begin!"}
+                            : isSolo
+                                ? "Just you and the banker. Pick your box, then start the game."
+                                : isHost
+                                    ? "Waiting for contestants to take their positions..."
+                                    : "Choose your lucky box to begin!"}
                     </p>
                 </div>
 
@@ -211,7 +324,7 @@ export default function LobbyPage() {
                                 />
 
                                 {/* Ready Button */}
-                                {selectedBox && !isReady && !isSpectator && (
+                                {selectedBox && !isReady && !isSpectator && !isSolo && (
                                     <div className="mt-8 text-center animate-in zoom-in duration-300">
                                         <button
                                             onClick={handleReady}
@@ -271,6 +384,32 @@ export default function LobbyPage() {
                                 <p className="text-center text-[10px] text-gold-500/60 uppercase tracking-widest">
                                     Share with friends
                                 </p>
+                                <div className="flex flex-wrap justify-center gap-2 mt-3">
+                                    <button
+                                        onClick={() => handleShareLink()}
+                                        className="min-h-[44px] px-3 rounded-lg bg-gold-500/20 hover:bg-gold-500/30 border border-gold-500/30 text-gold-300 font-bold text-xs uppercase tracking-wider"
+                                    >
+                                        Share Link
+                                    </button>
+                                    <button
+                                        onClick={() => handleShareLink({ asSpectator: true })}
+                                        className="min-h-[44px] px-3 rounded-lg border border-white/10 hover:bg-white/5 text-gray-300 font-bold text-xs uppercase tracking-wider"
+                                    >
+                                        Watch Link
+                                    </button>
+                                    {isHost && !isSpectator && !isSolo && (
+                                        <button
+                                            onClick={() => handleShareLink({ withInvite: true })}
+                                            className="min-h-[44px] px-3 rounded-lg border border-white/10 hover:bg-white/5 text-gray-300 font-bold text-xs uppercase tracking-wider"
+                                            title="Single-use link that skips the room password (expires in an hour)"
+                                        >
+                                            One-Time Invite
+                                        </button>
+                                    )}
+                                </div>
+                                {shareStatus && (
+                                    <p className="text-center text-xs text-gray-400 mt-2" role="status">{shareStatus}</p>
+                                )}
                             </div>
                         </div>
 
@@ -279,12 +418,38 @@ export default function LobbyPage() {
                             <PlayerPanel
                                 players={panelPlayers}
                                 currentPlayerId={state.playerId || ""}
-                                maxPlayers={6}
+                                maxPlayers={isSolo ? 1 : state.settings.maxPlayers}
+                                hostActions={hostActions}
                             />
 
+                            {hostActionStatus && (
+                                <p className="text-xs text-danger-300 mt-3" role="alert">{hostActionStatus}</p>
+                            )}
+
                             {/* Host Controls */}
                             {isHost && !isSpectator && (
                                 <div className="mt-6 pt-6 border-t border-white/10">
+                                    {!isSolo && (
+                                        <div className="flex gap-2 mb-4">
+                                            <select
+                                                value={botDifficulty}
+                                                onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty)}
+                                                className="min-h-[44px] rounded-lg bg-studio-950/50 border border-white/10 px-3 text-sm text-white focus:outline-none focus:border-gold-500/40"
+                                                aria-label="Bot difficulty"
+                                            >
+                                                <option value="easy">Easy</option>
+                                                <option value="medium">Medium</option>
+                                                <option value="hard">Hard</option>
+                                            </select>
+                                            <button
+                                                onClick={handleAddBot}
+                                                disabled={isRoomFull}
+                                                className="flex-1 min-h-[44px] px-4 rounded-lg bg-blue-500/15 hover:bg-blue-500/25 border border-blue-400/30 text-blue-200 font-bold text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+                                            >
+                                                {isRoomFull ? "Room Full" : "Add Bot"}
+                                            </button>
+                                        </div>
+                                    )}
                                     <button
                                         onClick={handleStartGame}
                                         disabled={!allPlayersReady}
@@ -293,7 +458,7 @@ export default function LobbyPage() {
                                             : "bg-studio-800 text-gray-600 cursor-not-allowed border border-white/5"
                                             }`}
                                     >
-                                        {allPlayersReady ? "START THE GAME" : "Waiting for Players..."}
+                                        {allPlayersReady ? "START THE GAME" : isSolo ? "Pick Your Box First" : "Waiting for Players..."}
                                     </button>
                                 </div>
                             )}
@@ -329,10 +494,55 @@ export default function LobbyPage() {
                                     </p>
                                 </div>
                             )}
+
+                            {/* Host: list the room in the public room browser */}
+                            {isHost && !isSpectator && !isSolo && (
+                                <div className="mt-6 pt-6 border-t border-white/10">
+                                    <label className="flex items-start gap-3 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={state.visibility === "public"}
+                                            onChange={handleToggleVisibility}
+                                            className="mt-1 w-5 h-5 rounded border-2 border-white/20 bg-studio-950 text-gold-500 focus:ring-2 focus:ring-gold-500"
+                                        />
+                                        <span className="flex flex-col">
+                                            <span className="text-sm font-bold text-gray-200">Public room</span>
+                                            <span className="text-[10px] text-gray-500">
+                                                Listed on the home page so anyone can join. Private rooms need the code.
+                                            </span>
+                                        </span>
+                                    </label>
+                                    {visibilityStatus && (
+                                        <p className="text-xs text-gray-400 mt-2">{visibilityStatus}</p>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Room rules: editable by the host, visible to everyone */}
+                            <div className="mt-6 pt-6 border-t border-white/10">
+                                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-3">
+                                    Room Rules
+                                </h3>
+                                <RoomRulesPanel
+                                    settings={state.settings}
+                                    canEdit={isHost && !isSpectator}
+                                    onSave={updateRoomSettings}
+                                />
+                            </div>
+
+                            <button
+                                onClick={handleLeaveRoom}
+                                className="mt-6 w-full min-h-[44px] rounded-lg border border-danger-500/30 text-danger-300 hover:bg-danger-500/10 text-sm font-bold transition-colors"
+                            >
+                                Leave Room
+                            </button>
                         </div>
                     </aside>
                 </div>
             </main>
+
+            <ToastStack toasts={toasts} onDismiss={dismissToast} />
+            <CooldownNotice />
         </div>
     );
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { TopBar } from "@/components/TopBar";
 import { StageGrid } from "@/layouts/StageGrid";
@@ -8,13 +8,17 @@ import { RemainingBoard } from "@/components/RemainingBoard";
 import { PlayerPanel } from "@/components/PlayerPanel";
 import { BoxGrid } from "@/components/BoxGrid";
 import { OfferZone } from "@/components/OfferZone";
+import { SwapZone, BoxReveal } from "@/components/SwapZone";
 import { BankerScreen } from "@/components/BankerScreen";
 import { ChatPopup, ChatMessage } from "@/components/ChatPopup";
-import { LeaderboardOverlay, LeaderboardScore } from "@/components/LeaderboardOverlay";
-import { useGame } from "@/context/GameContext";
+import { LeaderboardOverlay, LeaderboardScore, RoomTotalScore } from "@/components/LeaderboardOverlay";
+import { ToastStack, useToasts } from "@/components/Toast";
+import { CooldownNotice } from "@/components/CooldownNotice";
+import { useGame, type ActionResult } from "@/context/GameContext";
 import { CountdownRingFromExpiry } from "@/components/CountdownRing";
 
 import { useFeedbackOptional } from "@/context/FeedbackContext";
+import { formatWinnings } from "@/lib/currency";
 
 /**
  * Room Play Page
@@ -33,15 +37,32 @@ export default function PlayPage() {
         state,
         openBox,
         respondToDeal,
-        sendChatMessage
+        respondToSwap,
+        sendChatMessage,
+        loadOlderChat,
+        reportMessage,
+        updateRoomSettings,
+        transferHost,
+        mutePlayer,
+        pauseGame,
+        resumeGame,
+        leaveRoom,
+        requestRematch,
     } = useGame();
 
     const { playSound } = useFeedbackOptional();
+    // Why the server turned down a move (not your turn, round complete, ...)
+    const { toasts, showToast, dismissToast } = useToasts();
+    // Throttled actions show the cooldown notice instead
+    const toastFailure = useCallback((res: ActionResult, fallback: string) => {
+        if (!res.success && res.code !== "RATE_LIMITED") showToast(res.error || fallback);
+    }, [showToast]);
 
     const [isChatOpen, setIsChatOpen] = useState(false);
     const [isLeaderboardOpen, setIsLeaderboardOpen] = useState(false);
     const [hasResponded, setHasResponded] = useState(false);
     const [offerChoice, setOfferChoice] = useState<"deal" | "no-deal" | null>(null);
+    const [swapError, setSwapError] = useState<string | null>(null);
 
     // Redirect if not in correct room
     useEffect(() => {
@@ -67,6 +88,15 @@ export default function PlayPage() {
         setOfferChoice(null);
     }, [state.phase, state.currentOffer]);
 
+    // Rematch: the room went from finished back to the lobby with the same roster
+    const previousPhaseRef = useRef(state.phase);
+    useEffect(() => {
+        if (previousPhaseRef.current === "finished" && state.phase === "waiting") {
+            router.push(`/room/${roomCode}/lobby`);
+        }
+        previousPhaseRef.current = state.phase;
+    }, [state.phase, roomCode, router]);
+
     // Show leaderboard when game finishes
     useEffect(() => {
         if (state.phase === "finished" && state.leaderboard.length > 0) {
@@ -91,41 +121,88 @@ export default function PlayPage() {
     const hasActiveOffer = state.phase === "offer" && state.currentOffer !== null;
     const bankerOfferAmount = state.currentOffer || 0;
 
+    // Personal offers mode: spectators watch every contestant's offer
+    const spectatedOffers = isSpectator && state.phase === "offer"
+        ? Object.entries(state.playerOffers).map(([playerId, amount]) => ({
+            playerId,
+            name: state.players.find((p) => p.id === playerId)?.name || "Unknown",
+            amount,
+        }))
+        : [];
+
     // Boxes opened and remaining this round
     const boxesToOpenThisRound = state.boxesToOpenThisRound;
     const boxesOpenedThisRound = state.boxesOpenedThisRound.length;
     const boxesRemainingThisRound = boxesToOpenThisRound - boxesOpenedThisRound;
 
     // Handle single box click - opens immediately if it's your turn
-    const handleBoxClick = useCallback((boxNumber: number) => {
-        if (hasActiveOffer || hasDealt || !isMyTurn) return;
+    const handleBoxClick = useCallback(async (boxNumber: number) => {
+        if (hasActiveOffer || hasDealt || !isMyTurn || state.paused) return;
 
         const box = state.boxes.find((b) => b.number === boxNumber);
         if (!box || box.isOpened || box.ownerId !== null) return;
 
         // Open the box immediately (single box per turn)
-        openBox(boxNumber);
         playSound('box-open');
-    }, [hasActiveOffer, hasDealt, isMyTurn, state.boxes, openBox, playSound]);
+        toastFailure(await openBox(boxNumber), "Could not open that box");
+    }, [hasActiveOffer, hasDealt, isMyTurn, state.paused, state.boxes, openBox, playSound, toastFailure]);
 
-    const handleDeal = useCallback(() => {
+    const answerBanker = useCallback(async (accepted: boolean) => {
         if (isSpectator) return;
         setHasResponded(true);
-        setOfferChoice("deal");
-        respondToDeal(true);
-    }, [respondToDeal, isSpectator]);
+        setOfferChoice(accepted ? "deal" : "no-deal");
+        const res = await respondToDeal(accepted);
+        if (!res.success) {
+            // Let them answer again unless the offer has already moved on
+            if (res.code !== "WRONG_PHASE") {
+                setHasResponded(false);
+                setOfferChoice(null);
+            }
+            toastFailure(res, "Could not answer the banker");
+        }
+    }, [respondToDeal, isSpectator, toastFailure]);
 
-    const handleNoDeal = useCallback(() => {
-        if (isSpectator) return;
-        setHasResponded(true);
-        setOfferChoice("no-deal");
-        respondToDeal(false);
-    }, [respondToDeal, isSpectator]);
+    const handleDeal = useCallback(() => answerBanker(true), [answerBanker]);
+
+    const handleNoDeal = useCallback(() => answerBanker(false), [answerBanker]);
+
+    // Swap offer: pick an unclaimed box or keep your own
+    const isSwapOffer = state.phase === "swap-offer";
+    const canRespondToSwap = isSwapOffer &&
+        !state.paused &&
+        !!state.playerId &&
+        state.swapEligiblePlayerIds.includes(state.playerId) &&
+        !state.swapRespondedPlayerIds.includes(state.playerId);
+    const swappableBoxes = state.boxes
+        .filter((b) => !b.isOpened && b.ownerId === null)
+        .map((b) => b.number);
+
+    const handleSwap = useCallback(async (boxNumber: number | null) => {
+        const res = await respondToSwap(boxNumber);
+        setSwapError(res.success || res.code === "RATE_LIMITED" ? null : res.error || "Could not swap boxes");
+    }, [respondToSwap]);
 
-    const handleSendMessage = useCallback((content: string) => {
+    const handleSendMessage = useCallback(async (content: string) => {
         if (isSpectator) return;
-        sendChatMessage(content);
-    }, [sendChatMessage, isSpectator]);
+        toastFailure(await sendChatMessage(content), "Could not send your message");
+    }, [sendChatMessage, isSpectator, toastFailure]);
+
+    const handleLoadOlderChat = useCallback(async () => {
+        const res = await loadOlderChat();
+        if (!res.success) showToast(res.error || "Could not load earlier messages");
+    }, [loadOlderChat, showToast]);
+
+    const handleReportMessage = useCallback(async (messageId: string) => {
+        const res = await reportMessage(messageId);
+        toastFailure(res, "Could not report that message");
+        return res.success;
+    }, [reportMessage, toastFailure]);
+
+    // Host-only: slow mode can change mid-game
+    const handleSlowModeChange = useCallback(async (chatSlowModeMs: number) => {
+        const res = await updateRoomSettings({ chatSlowModeMs });
+        if (!res.success) showToast(res.error || "Could not change slow mode");
+    }, [updateRoomSettings, showToast]);
 
     // Convert state to component props - highlight current turn player
     const panelPlayers = state.players
@@ -139,8 +216,29 @@ export default function PlayPage() {
         boxNumber: p.boxNumber || undefined,
         hasDealt: p.hasDealt,
         finalAmount: p.dealAmount || undefined,
+        isConnected: p.isConnected,
+        isAway: p.isAway,
+        isBot: p.isBot,
+        isMuted: p.isMuted,
     }));
 
+    // Mid-game the host can hand over the role or mute someone (removals are lobby-only for contestants)
+    const [hostActionStatus, setHostActionStatus] = useState<string | null>(null);
+    const hostActions = isHost
+        ? {
+            onTransferHost: async (playerId: string) => {
+                setHostActionStatus(null);
+                const res = await transferHost(playerId);
+                if (!res.success) setHostActionStatus(res.error || "Could not transfer host");
+            },
+            onMute: async (playerId: string, muted: boolean) => {
+                setHostActionStatus(null);
+                const res = await mutePlayer(playerId, muted);
+                if (!res.success) setHostActionStatus(res.error || "Could not change mute");
+            },
+        }
+        : undefined;
+
     const gridBoxes = state.boxes.map((box) => ({
         number: box.number,
         isOpened: box.isOpened,
@@ -157,6 +255,8 @@ export default function PlayPage() {
         content: m.content,
         timestamp: new Date(m.timestamp),
         isOwn: m.senderId === state.playerId,
+        kind: m.kind,
+        isFiltered: m.moderation.filtered,
     }));
 
     const leaderboardScores: LeaderboardScore[] = state.leaderboard.map((entry) => ({
@@ -168,9 +268,29 @@ export default function PlayPage() {
         isCurrentPlayer: entry.playerId === state.playerId,
     }));
 
+    const roomTotals: RoomTotalScore[] = state.roomScores.map((score) => ({
+        id: score.playerId,
+        playerName: score.playerName,
+        totalPoints: score.totalPoints,
+        gamesPlayed: score.gamesPlayed,
+        isCurrentPlayer: score.playerId === state.playerId,
+    }));
+
+    const [rematchError, setRematchError] = useState<string | null>(null);
+
+    const handlePlayAgain = async () => {
+        setRematchError(null);
+        const res = await requestRematch();
+        if (!res.success) {
+            setRematchError(res.error || "Could not start a rematch");
+        }
+    };
+
     // Recently eliminated value for scorch animation
     const recentlyEliminatedValue = state.recentlyOpenedBox?.value;
 
+    const { currency } = state.settings;
+
     // Find deal amount for subtitle
     const myLeaderboardEntry = state.playerId
         ? state.leaderboard.find((e) => e.playerId === state.playerId)
@@ -180,15 +300,38 @@ export default function PlayPage() {
         if (!myLeaderboardEntry) return undefined;
         if (myLeaderboardEntry.amount <= 0) return undefined;
         if (myLeaderboardEntry.wasBoxValue) {
-            return `Your box contained £${myLeaderboardEntry.amount.toLocaleString("en-GB")}`;
+            return `Your box contained ${formatWinnings(myLeaderboardEntry.amount, currency)}`;
         }
-        return `You accepted £${myLeaderboardEntry.amount.toLocaleString("en-GB")}`;
+        return `You accepted ${formatWinnings(myLeaderboardEntry.amount, currency)}`;
+    })();
+
+    // Pause: the host pauses and resumes at once; other contestants vote
+    const isMidGame = state.phase === "playing" || state.phase === "offer" || state.phase === "swap-offer";
+    const canPause = isMidGame && !isSpectator && !!currentPlayer;
+    const hasVotedPause = !!state.playerId && state.pauseVotes.includes(state.playerId);
+    const [pauseError, setPauseError] = useState<string | null>(null);
+    // Frozen time left on the running timer while paused
+    const pausedRemainingMs = state.paused ? state.pausedRemainingMs : null;
+
+    const handlePauseToggle = async () => {
+        setPauseError(null);
+        const res = state.paused ? await resumeGame() : await pauseGame();
+        if (!res.success && res.code !== "RATE_LIMITED") setPauseError(res.error || "Could not change the pause");
+    };
+
+    const pauseLabel = (() => {
+        const action = state.paused ? "Resume" : "Pause";
+        if (isHost) return `${action} Game`;
+        const tally = `${state.pauseVotes.length}/${state.pauseVotesNeeded}`;
+        return hasVotedPause ? `Voted to ${action.toLowerCase()} (${tally})` : `Vote to ${action} (${tally})`;
     })();
 
     // Get status message for the bottom panel
     const getStatusMessage = () => {
+        if (state.paused) return "Game paused";
         if (hasDealt) return "Watching...";
         if (hasActiveOffer) return "Respond to the Banker's Offer";
+        if (isSwapOffer) return canRespondToSwap ? "Swap or keep your box" : "The Banker is offering a swap...";
         if (state.phase !== "playing") return "Waiting...";
 
         // During the brief pause between finishing a round and the banker offer appearing,
@@ -202,6 +345,18 @@ export default function PlayPage() {
         }
     };
 
+    const handleLeaveRoom = () => {
+        const isStillPlaying = !isSpectator && !hasDealt && state.phase !== "finished";
+        if (isStillPlaying) {
+            const outcome = state.settings.leaveRule === "take-offer"
+                ? "you will bank the banker's current offer"
+                : "you will walk away with whatever is in your box";
+            if (!window.confirm(`Leave the game? Under this room's rules ${outcome}.`)) return;
+        }
+        leaveRoom();
+        router.push("/");
+    };
+
     return (
         <div className="min-h-screen flex flex-col">
             <TopBar
@@ -209,12 +364,15 @@ export default function PlayPage() {
                 playerName={state.playerName || "Player"}
                 isHost={isHost}
                 hasActiveOffer={hasActiveOffer}
+                onLogoClick={handleLeaveRoom}
             />
 
             <StageGrid
                 className="flex-1"
                 leftPanel={
                     <RemainingBoard
+                        values={state.settings.boxValues}
+                        currency={currency}
                         eliminatedValues={state.eliminatedValues}
                         showScorchAnimation
                         recentlyEliminated={recentlyEliminatedValue}
@@ -231,16 +389,32 @@ export default function PlayPage() {
                             />
                         </div>
 
-                        {/* OfferZone foreground */}
-                        {!hasDealt ? (
+                        {/* OfferZone foreground (SwapZone during a swap offer) */}
+                        {isSwapOffer && !hasDealt ? (
+                            <SwapZone
+                                ownBoxNumber={playerBoxNumber}
+                                swappableBoxes={swappableBoxes}
+                                expiresAt={state.swapExpiresAt || undefined}
+                                totalDuration={Math.round(state.settings.swapTimeoutMs / 1000)}
+                                pausedRemainingMs={pausedRemainingMs}
+                                isFinal={state.isFinalSwap}
+                                canRespond={canRespondToSwap}
+                                onRespond={handleSwap}
+                                error={swapError}
+                            />
+                        ) : !hasDealt ? (
                             <OfferZone
                                 amount={hasActiveOffer ? bankerOfferAmount : undefined}
                                 expiresAt={state.offerExpiresAt || undefined}
-                                totalDuration={20}
-                                onDeal={isSpectator ? undefined : handleDeal}
-                                onNoDeal={isSpectator ? undefined : handleNoDeal}
+                                totalDuration={Math.round(state.settings.offerTimeoutMs / 1000)}
+                                pausedRemainingMs={pausedRemainingMs}
+                                onDeal={isSpectator || state.paused ? undefined : handleDeal}
+                                onNoDeal={isSpectator || state.paused ? undefined : handleNoDeal}
                                 hasResponded={hasResponded}
                                 choseDeal={offerChoice === "deal"}
+                                currency={currency}
+                                isPersonal={state.settings.personalOffers}
+                                personalOffers={spectatedOffers}
                             />
                         ) : (
                             <div className="flex items-center justify-center h-full">
@@ -250,14 +424,28 @@ export default function PlayPage() {
                                             ? "Your Box Was Revealed!"
                                             : "You've Dealt!"}
                                     </p>
+                                    {state.phase === "finished" && myLeaderboardEntry?.wasBoxValue && playerBoxNumber !== null && (
+                                        <div className="flex justify-center my-3">
+                                            <BoxReveal
+                                                boxNumber={playerBoxNumber}
+                                                value={currentPlayer?.dealAmount || 0}
+                                                currency={currency}
+                                            />
+                                        </div>
+                                    )}
                                     <p className="text-3xl font-bold text-white">
-                                        £{(currentPlayer?.dealAmount || 0).toLocaleString("en-GB")}
+                                        {formatWinnings(currentPlayer?.dealAmount || 0, currency)}
                                     </p>
                                     <p className="text-gray-400 text-sm mt-2">
                                         {state.phase === "finished" && myLeaderboardEntry?.wasBoxValue
                                             ? "That’s what you would have won."
                                             : "Watch the remaining players..."}
                                     </p>
+                                    {currentPlayer?.swappedFromBox && (
+                                        <p className="text-gray-500 text-xs mt-1">
+                                            You swapped away box {currentPlayer.swappedFromBox}
+                                        </p>
+                                    )}
                                 </div>
                             </div>
                         )}
@@ -269,8 +457,31 @@ export default function PlayPage() {
                             players={panelPlayers}
                             currentPlayerId={state.playerId || ""}
                             showReadyStatus={false}
+                            hostActions={hostActions}
+                            currency={currency}
+                            awayLabel={state.settings.disconnectPolicy === "skip" ? "turns skipped" : "auto-playing"}
                         />
 
+                        {hostActionStatus && (
+                            <p className="text-xs text-danger-300" role="alert">{hostActionStatus}</p>
+                        )}
+
+                        {canPause && (
+                            <div>
+                                <button
+                                    type="button"
+                                    onClick={handlePauseToggle}
+                                    disabled={!isHost && hasVotedPause}
+                                    className="w-full min-h-[44px] px-4 rounded-lg bg-white/5 hover:bg-white/10 border border-white/15 text-gray-200 font-bold text-sm disabled:opacity-50"
+                                >
+                                    {pauseLabel}
+                                </button>
+                                {pauseError && (
+                                    <p className="text-xs text-danger-300 mt-1" role="alert">{pauseError}</p>
+                                )}
+                            </div>
+                        )}
+
                         {/* Small "This Game" leaderboard while playing */}
                         {state.phase !== "finished" && state.leaderboard.length > 0 && (
                             <div className="leaderboard-panel">
@@ -331,7 +542,8 @@ export default function PlayPage() {
                                     <div className="mt-2 flex justify-center">
                                         <CountdownRingFromExpiry
                                             expiresAt={state.turnExpiresAt}
-                                            totalDuration={20}
+                                            totalDuration={Math.round(state.settings.turnTimeoutMs / 1000)}
+                                            pausedRemainingMs={pausedRemainingMs}
                                             size={60}
                                             strokeWidth={4}
                                             color={isMyTurn ? "gold" : "blue"}
@@ -356,6 +568,7 @@ export default function PlayPage() {
                             canOpenBoxes={!hasActiveOffer && !hasDealt && state.phase === "playing" && isMyTurn}
                             boxesToOpen={1}
                             selectedThisRound={[]}
+                            currency={currency}
                         />
                     </div>
                 }
@@ -416,6 +629,12 @@ export default function PlayPage() {
                 messages={chatMessages}
                 onSendMessage={isSpectator ? undefined : handleSendMessage}
                 currentPlayerName={state.playerName || "Player"}
+                isMuted={currentPlayer?.isMuted}
+                slowModeMs={state.settings.chatSlowModeMs}
+                onSlowModeChange={isHost ? handleSlowModeChange : undefined}
+                onReportMessage={handleReportMessage}
+                hasOlderMessages={state.hasOlderChat}
+                onLoadOlder={handleLoadOlderChat}
             />
 
             {/* Leaderboard Overlay */}
@@ -424,12 +643,30 @@ export default function PlayPage() {
                 onClose={() => {
                     setIsLeaderboardOpen(false);
                     if (state.phase === "finished") {
+                        // Closing the final results leaves the room, so the host's rematch won't include us
+                        leaveRoom();
                         router.push("/");
                     }
                 }}
                 scores={leaderboardScores}
                 title={state.phase === "finished" ? "Game Finished" : "This Game"}
                 subtitle={subtitle}
+                roomTotals={state.phase === "finished" ? roomTotals : undefined}
+                gamesCompleted={state.gamesCompleted}
+                currency={currency}
+                bankerOffers={state.phase === "finished" ? state.bankerOffers : undefined}
+                fairness={state.phase === "finished" && state.fairness ? {
+                    proof: state.fairness,
+                    commitment: state.fairnessCommitment,
+                    boxValues: state.settings.boxValues,
+                    boxes: state.boxes,
+                } : undefined}
+                replayHref={state.phase === "finished" && state.gameId ? `/replay/${state.gameId}` : undefined}
+                onPlayAgain={state.phase === "finished" && isHost ? handlePlayAgain : undefined}
+                footerNote={
+                    rematchError
+                        || (state.phase === "finished" && !isHost ? "Stay here to join the host's rematch, or close to leave the room." : undefined)
+                }
             />
 
             {/* Footer Disclaimer */}
@@ -438,6 +675,9 @@ export default function PlayPage() {
                     For entertainment only. No real money or gambling.
                 </p>
             </footer>
+
+            <ToastStack toasts={toasts} onDismiss={dismissToast} />
+            <CooldownNotice />
         </div>
     );
 }
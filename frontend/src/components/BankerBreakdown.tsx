@@ -0,0 +1,84 @@
+"use client";
+
+import type { BankerOfferBreakdown, BankerStrategyId } from "@/context/GameContext";
+import { formatOfferAmount, type CurrencyCode } from "@/lib/currency";
+
+export const BANKER_STRATEGY_OPTIONS: { value: BankerStrategyId; label: string; description: string }[] = [
+    { value: "classic", label: "Classic", description: "Offers the expected value, more generously each round." },
+    { value: "risk-averse", label: "Risk-averse", description: "Pays less while big and small values are both still in play." },
+    { value: "lowballer", label: "Lowballer", description: "Starts low and stays below the expected value." },
+    { value: "tv", label: "TV", description: "Reacts to how the last round went, like the show." },
+];
+
+interface BankerBreakdownProps {
+    /** Every offer made in the game, in order */
+    offers: BankerOfferBreakdown[];
+    /** Room currency for money values (defaults to GBP) */
+    currency?: CurrencyCode;
+    /** Player names by id, to label personal offers */
+    playerNames?: Record<string, string>;
+}
+
+function formatFactor(value: number): string {
+    return `×${value.toFixed(2)}`;
+}
+
+/**
+ * BankerBreakdown - How the banker worked out each offer
+ *
+ * Shown after the game: expected value, then each multiplier the banker applied.
+ * Factors of exactly 1 are left out to keep rows short. Personal offers get one row per
+ * player, labelled with their name.
+ */
+export function BankerBreakdown({ offers, currency, playerNames = {} }: BankerBreakdownProps) {
+    if (offers.length === 0) return null;
+
+    const strategy = BANKER_STRATEGY_OPTIONS.find((o) => o.value === offers[0].strategy);
+
+    return (
+        <details className="group">
+            <summary className="cursor-pointer text-xs font-bold text-gray-400 uppercase tracking-widest mb-2 list-none">
+                Banker&apos;s Workings · {strategy?.label ?? offers[0].strategy}
+                <span className="ml-2 text-gray-600 group-open:hidden">Show</span>
+            </summary>
+            <ol className="space-y-1">
+                {offers.map((step) => {
+                    const factors = [
+                        { label: "round", value: step.roundModifier },
+                        { label: "spread", value: step.varianceAdjustment },
+                        { label: "momentum", value: step.momentumAdjustment },
+                        { label: "mood", value: step.randomFactor },
+                        { label: "personal", value: step.personalAdjustment },
+                    ].filter((f) => f.value !== 1);
+
+                    return (
+                        <li
+                            key={`${step.round}-${step.playerId ?? "all"}`}
+                            className="flex items-center justify-between gap-3 text-xs px-3 py-1.5 rounded-lg bg-white/5"
+                        >
+                            <span className="text-gray-500 shrink-0">
+                                R{step.round}
+                                {step.playerId && (
+                                    <span className="ml-1.5 text-gray-300">
+                                        {playerNames[step.playerId] ?? "Player"}
+                                    </span>
+                                )}
+                            </span>
+                            <span className="flex-1 truncate text-gray-400">
+                                EV {formatOfferAmount(Math.round(step.expectedValue), currency)}
+                                {factors.map((f) => (
+                                    <span key={f.label} className="ml-1.5" title={f.label}>
+                                        {formatFactor(f.value)}
+                                    </span>
+                                ))}
+                            </span>
+                            <span className="font-mono text-gold-400 shrink-0">
+                                {formatOfferAmount(step.offer, currency)}
+                            </span>
+                        </li>
+                    );
+                })}
+            </ol>
+        </details>
+    );
+}
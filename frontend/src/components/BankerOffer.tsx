@@ -2,9 +2,10 @@
 
 import { useRef, useEffect } from "react";
 import { CountdownRing } from "./CountdownRing";
+import { formatOfferAmount, type CurrencyCode } from "@/lib/currency";
 
 interface BankerOfferProps {
-    /** The offer amount in pounds */
+    /** The offer amount */
     amount: number;
     /** Whether the offer is currently active */
     isActive?: boolean;
@@ -20,16 +21,8 @@ interface BankerOfferProps {
     hasResponded?: boolean;
     /** Whether player chose Deal */
     choseDeal?: boolean;
-}
-
-/**
- * Format currency for display
- */
-function formatCurrency(value: number): string {
-    return `£${value.toLocaleString("en-GB", {
-        minimumFractionDigits: value % 1 !== 0 ? 2 : 0,
-        maximumFractionDigits: 2,
-    })}`;
+    /** Room currency for money values (defaults to GBP) */
+    currency?: CurrencyCode;
 }
 
 /**
@@ -48,6 +41,7 @@ export function BankerOffer({
     onNoDeal,
     hasResponded = false,
     choseDeal,
+    currency,
 }: BankerOfferProps) {
     const containerRef = useRef<HTMLDivElement>(null);
     const previousFocusRef = useRef<HTMLElement | null>(null);
@@ -112,7 +106,7 @@ export function BankerOffer({
                 className="sr-only"
             >
                 {isActive && !hasResponded
-                    ? `The banker offers ${formatCurrency(amount)}. Deal or No Deal?`
+                    ? `The banker offers ${formatOfferAmount(amount, currency)}. Deal or No Deal?`
                     : hasResponded
                         ? choseDeal
                             ? "You chose Deal. Waiting for other players."
@@ -150,7 +144,7 @@ export function BankerOffer({
                     id="banker-offer-amount"
                     className="banker-amount text-glow-gold text-4xl sm:text-5xl lg:text-6xl"
                 >
-                    {formatCurrency(amount)}
+                    {formatOfferAmount(amount, currency)}
                 </span>
             </div>
 
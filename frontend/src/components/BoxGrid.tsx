@@ -1,5 +1,7 @@
 "use client";
 
+import { formatCurrency, type CurrencyCode } from "@/lib/currency";
+
 interface Box {
     number: number;
     isOpened: boolean;
@@ -10,7 +12,7 @@ interface Box {
 }
 
 interface BoxGridProps {
-    /** Array of 20 boxes */
+    /** The room's boxes (one per board value) */
     boxes: Box[];
     /** Callback when a box is clicked */
     onBoxClick?: (boxNumber: number) => void;
@@ -22,22 +24,23 @@ interface BoxGridProps {
     boxesToOpen?: number;
     /** Currently selected boxes this round (for multi-select) */
     selectedThisRound?: number[];
+    /** Room currency for money values (defaults to GBP) */
+    currency?: CurrencyCode;
 }
 
 /**
- * Format currency for box reveal
+ * Column classes for a board size (keeps rows full on the preset boards)
  */
-function formatCurrency(value: number): string {
-    if (value < 1) {
-        return `${(value * 100).toFixed(0)}p`;
-    }
-    return `£${value.toLocaleString("en-GB")}`;
+function getGridColumns(boxCount: number): string {
+    if (boxCount <= 12) return "grid-cols-4";
+    if (boxCount <= 20) return "grid-cols-4 sm:grid-cols-5";
+    return "grid-cols-5 sm:grid-cols-6";
 }
 
 /**
- * BoxGrid - Displays the 20 game boxes
+ * BoxGrid - Displays the room's game boxes
  * 
- * Responsive grid with large tap targets (min 44x44).
+ * Responsive grid with large tap targets (min 44x44); wider boards get more columns.
  * Shows selection state, opened state, and player's box.
  */
 export function BoxGrid({
@@ -47,6 +50,7 @@ export function BoxGrid({
     canOpenBoxes = false,
     boxesToOpen = 0,
     selectedThisRound = [],
+    currency,
 }: BoxGridProps) {
     const handleClick = (box: Box) => {
         if (!onBoxClick) return;
@@ -80,11 +84,12 @@ export function BoxGrid({
                 </div>
             )}
 
-            <div className="grid grid-cols-4 sm:grid-cols-5 gap-2 sm:gap-3">
+            <div className={`grid ${getGridColumns(boxes.length)} gap-2 sm:gap-3`}>
                 {boxes.map((box) => (
                     <BoxItem
                         key={box.number}
                         box={box}
+                        currency={currency}
                         onClick={() => handleClick(box)}
                         isClickable={
                             !box.isOpened &&
@@ -104,9 +109,10 @@ interface BoxItemProps {
     onClick: () => void;
     isClickable: boolean;
     isSelectedThisRound: boolean;
+    currency?: CurrencyCode;
 }
 
-function BoxItem({ box, onClick, isClickable, isSelectedThisRound }: BoxItemProps) {
+function BoxItem({ box, onClick, isClickable, isSelectedThisRound, currency }: BoxItemProps) {
     // Determine box state styling
     const getBoxClasses = () => {
         const base = [
@@ -191,7 +197,7 @@ function BoxItem({ box, onClick, isClickable, isSelectedThisRound }: BoxItemProp
         >
             {box.isOpened && box.value !== undefined ? (
                 <span className="text-xs sm:text-sm font-mono">
-                    {formatCurrency(box.value)}
+                    {formatCurrency(box.value, { currency })}
                 </span>
             ) : (
                 <span>{box.number}</span>
@@ -1,6 +1,7 @@
 "use client";
 
 import { useRef, useEffect, useCallback } from "react";
+import { formatCurrency, type CurrencyCode } from "@/lib/currency";
 
 export type BoxPodiumState = "closed" | "selectable" | "opened" | "revealing";
 
@@ -19,16 +20,8 @@ interface BoxPodiumProps {
     disabled?: boolean;
     /** Callback when reveal animation completes */
     onRevealComplete?: () => void;
-}
-
-/**
- * Format currency for display
- */
-function formatCurrency(value: number): string {
-    if (value < 1) {
-        return `${Math.round(value * 100)}p`;
-    }
-    return `£${value.toLocaleString("en-GB")}`;
+    /** Room currency for money values (defaults to GBP) */
+    currency?: CurrencyCode;
 }
 
 /**
@@ -51,6 +44,7 @@ export function BoxPodium({
     onClick,
     disabled = false,
     onRevealComplete,
+    currency,
 }: BoxPodiumProps) {
     const boxRef = useRef<HTMLButtonElement>(null);
     const animationRef = useRef<Animation | null>(null);
@@ -217,7 +211,7 @@ export function BoxPodium({
         switch (state) {
             case "opened":
                 label += revealedValue !== undefined
-                    ? `, opened, contains ${formatCurrency(revealedValue)}`
+                    ? `, opened, contains ${formatCurrency(revealedValue, { currency })}`
                     : ", opened";
                 break;
             case "selectable":
@@ -279,7 +273,7 @@ export function BoxPodium({
             <span className="relative z-10">
                 {state === "opened" && revealedValue !== undefined ? (
                     <span className="text-sm sm:text-base font-mono">
-                        {formatCurrency(revealedValue)}
+                        {formatCurrency(revealedValue, { currency })}
                     </span>
                 ) : (
                     boxNumber
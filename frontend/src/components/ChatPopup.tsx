@@ -9,8 +9,20 @@ export interface ChatMessage {
     content: string;
     timestamp: Date;
     isOwn?: boolean;
+    /** "system" messages are notices from the server (mutes, slow mode, reports) */
+    kind?: "player" | "system";
+    /** Banned words were starred out */
+    isFiltered?: boolean;
 }
 
+const SLOW_MODE_OPTIONS: { value: number; label: string }[] = [
+    { value: 0, label: "Off" },
+    { value: 5000, label: "5s" },
+    { value: 10000, label: "10s" },
+    { value: 30000, label: "30s" },
+    { value: 60000, label: "60s" },
+];
+
 interface ChatPopupProps {
     /** Whether the chat popup is open */
     isOpen: boolean;
@@ -24,6 +36,18 @@ interface ChatPopupProps {
     currentPlayerName?: string;
     /** Aria label for the dialog */
     ariaLabel?: string;
+    /** The host has muted the current player (they can still read) */
+    isMuted?: boolean;
+    /** Minimum gap between a player's messages (0 = off) */
+    slowModeMs?: number;
+    /** Host only: change slow mode from the chat header */
+    onSlowModeChange?: (slowModeMs: number) => void;
+    /** Report someone else's message; resolves true once the server has it */
+    onReportMessage?: (messageId: string) => Promise<boolean>;
+    /** The server has older messages than these */
+    hasOlderMessages?: boolean;
+    /** Fetch the page before the oldest message shown */
+    onLoadOlder?: () => void;
 }
 
 /**
@@ -33,7 +57,8 @@ interface ChatPopupProps {
  * - Dark glass background
  * - Slide-in animations for messages
  * - Focus management (trap focus when open, restore on close)
- * - Auto-scroll to latest message
+ * - Auto-scroll to latest message (loading earlier messages leaves the scroll alone)
+ * - Moderation: system notices, a muted notice, slow mode, and reporting messages
  */
 export function ChatPopup({
     isOpen,
@@ -42,6 +67,12 @@ export function ChatPopup({
     onSendMessage,
     currentPlayerName,
     ariaLabel = "Game Chat",
+    isMuted = false,
+    slowModeMs = 0,
+    onSlowModeChange,
+    onReportMessage,
+    hasOlderMessages = false,
+    onLoadOlder,
 }: ChatPopupProps) {
     const dialogRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
@@ -49,6 +80,14 @@ export function ChatPopup({
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const triggerRef = useRef<HTMLElement | null>(null);
     const [inputValue, setInputValue] = useState("");
+    const [reportedIds, setReportedIds] = useState<Set<string>>(() => new Set());
+
+    const handleReport = async (messageId: string) => {
+        if (!onReportMessage) return;
+        if (await onReportMessage(messageId)) {
+            setReportedIds((prev) => new Set(prev).add(messageId));
+        }
+    };
 
     // Store the element that triggered the dialog open
     useEffect(() => {
@@ -81,11 +120,12 @@ export function ChatPopup({
     }, [isOpen]);
 
     // Auto-scroll to latest message
+    const latestMessageId = messages[messages.length - 1]?.id;
     useEffect(() => {
         if (isOpen && messagesEndRef.current) {
             messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
         }
-    }, [messages, isOpen]);
+    }, [latestMessageId, isOpen]);
 
     // Handle Escape key to close
     const handleKeyDown = useCallback((e: KeyboardEvent) => {
@@ -160,6 +200,20 @@ export function ChatPopup({
                     <h2 className="text-sm font-semibold text-gold-400 font-display">
                         Game Chat
                     </h2>
+                    {onSlowModeChange && (
+                        <label className="ml-auto mr-2 flex items-center gap-2 text-[10px] text-gray-500 uppercase tracking-widest">
+                            Slow mode
+                            <select
+                                value={slowModeMs}
+                                onChange={(e) => onSlowModeChange(Number(e.target.value))}
+                                className="bg-studio-700/50 border border-white/10 rounded-md px-1.5 py-1 text-xs text-white normal-case tracking-normal focus:outline-none focus:border-gold-500/50"
+                            >
+                                {SLOW_MODE_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
                     <button
                         onClick={onClose}
                         className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
@@ -191,13 +245,35 @@ export function ChatPopup({
                     aria-label="Chat messages"
                     aria-relevant="additions"
                 >
+                    {hasOlderMessages && onLoadOlder && (
+                        <button
+                            type="button"
+                            onClick={onLoadOlder}
+                            className="block mx-auto text-xs text-gold-400/80 hover:text-gold-300 transition-colors"
+                        >
+                            Load earlier messages
+                        </button>
+                    )}
                     {messages.length === 0 ? (
                         <p className="text-gray-500 text-sm text-center py-4">
                             No messages yet. Start the conversation!
                         </p>
                     ) : (
                         messages.map((message, index) => {
+                            if (message.kind === "system") {
+                                return (
+                                    <p
+                                        key={message.id}
+                                        className="chat-message text-center text-xs italic text-gray-400"
+                                        style={{ animationDelay: `${index * 50}ms` }}
+                                    >
+                                        {message.content}
+                                    </p>
+                                );
+                            }
+
                             const isOwn = message.isOwn || message.senderName === currentPlayerName;
+                            const isReported = reportedIds.has(message.id);
                             return (
                                 <div
                                     key={message.id}
@@ -220,13 +296,26 @@ export function ChatPopup({
                                         >
                                             <p className="text-sm">{message.content}</p>
                                         </div>
-                                        <time
-                                            className="text-[10px] text-gray-600 mt-0.5"
-                                            dateTime={message.timestamp.toISOString()}
-                                            aria-label={formatAccessibleTime(message.timestamp)}
-                                        >
-                                            {formatTime(message.timestamp)}
-                                        </time>
+                                        <div className="flex items-center gap-2 mt-0.5 text-[10px] text-gray-600">
+                                            <time
+                                                dateTime={message.timestamp.toISOString()}
+                                                aria-label={formatAccessibleTime(message.timestamp)}
+                                            >
+                                                {formatTime(message.timestamp)}
+                                            </time>
+                                            {message.isFiltered && <span>filtered</span>}
+                                            {!isOwn && onReportMessage && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => handleReport(message.id)}
+                                                    disabled={isReported}
+                                                    className="text-gray-500 hover:text-danger-300 disabled:hover:text-gray-500 disabled:cursor-default transition-colors"
+                                                    aria-label={isReported ? `Reported message from ${message.senderName}` : `Report message from ${message.senderName}`}
+                                                >
+                                                    {isReported ? "Reported" : "Report"}
+                                                </button>
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
                             );
@@ -237,7 +326,11 @@ export function ChatPopup({
 
                 {/* Input */}
                 <div className="px-4 py-3 border-t border-white/10">
-                    {onSendMessage ? (
+                    {onSendMessage && isMuted ? (
+                        <p className="text-xs text-danger-300" role="status">
+                            The host has muted you. You can still read the chat.
+                        </p>
+                    ) : onSendMessage ? (
                         <div className="flex gap-2">
                             <input
                                 ref={inputRef}
@@ -263,6 +356,11 @@ export function ChatPopup({
                             Spectators can read chat, but sending messages is disabled.
                         </p>
                     )}
+                    {onSendMessage && !isMuted && slowModeMs > 0 && (
+                        <p className="text-[10px] text-gray-500 mt-1.5">
+                            Slow mode: one message every {Math.round(slowModeMs / 1000)}s
+                        </p>
+                    )}
                 </div>
             </div>
         </div>
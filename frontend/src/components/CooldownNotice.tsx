@@ -0,0 +1,27 @@
+"use client";
+
+import { useGame } from "@/context/GameContext";
+import { useCountdownFromExpiry } from "@/hooks/useCountdown";
+
+/**
+ * CooldownNotice - Shown while the server is throttling us (too many actions or
+ * messages too fast), counting down to when they go through again
+ */
+export function CooldownNotice() {
+    const { state } = useGame();
+    const { timeRemaining, isRunning } = useCountdownFromExpiry({
+        expiresAt: state.rateLimitedUntil ?? 0,
+        totalDuration: 1,
+    });
+
+    if (!isRunning) return null;
+
+    return (
+        <div
+            role="status"
+            className="fixed top-20 left-1/2 -translate-x-1/2 z-50 px-4 py-2 rounded-full bg-studio-900/90 border border-gold-500/40 text-gold-300 text-sm font-bold shadow-2xl backdrop-blur animate-in fade-in slide-in-from-top-2 duration-200"
+        >
+            Slow down! You can go again in {timeRemaining}s
+        </div>
+    );
+}
@@ -27,6 +27,8 @@ interface CountdownRingWithExpiryProps extends CountdownRingProps {
     totalDuration: number;
     /** Callback when countdown completes */
     onComplete?: () => void;
+    /** Set while the game is paused: the ring stays frozen at this many milliseconds */
+    pausedRemainingMs?: number | null;
 }
 
 const colorMap = {
@@ -129,12 +131,15 @@ export function CountdownRingFromExpiry({
     strokeWidth = 4,
     color = "gold",
     onComplete,
+    pausedRemainingMs = null,
 }: CountdownRingWithExpiryProps) {
     const { timeRemaining, strokeDashoffset, isRunning } = useCountdownFromExpiry({
         expiresAt,
         totalDuration,
         onComplete,
+        pausedRemainingMs,
     });
+    const isPaused = pausedRemainingMs !== null;
 
     const radius = (size - strokeWidth) / 2;
     const circumference = 2 * Math.PI * radius;
@@ -181,7 +186,7 @@ export function CountdownRingFromExpiry({
                 </span>
             </div>
             <span className="text-xs text-gray-500 mt-1">
-                {isRunning ? "seconds remaining" : "expired"}
+                {isPaused ? "paused" : isRunning ? "seconds remaining" : "expired"}
             </span>
         </div>
     );
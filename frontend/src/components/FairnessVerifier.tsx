@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { verifyFairness, type FairnessCheck, type FairnessProof } from "@/lib/fairness";
+
+export interface FairnessVerifierProps {
+    /** Seed, salt and layout revealed at the end of the game */
+    proof: FairnessProof;
+    /** Commitment published when the game started (null if we joined after the start) */
+    commitment: string | null;
+    /** The room's board values, as the server shuffled them */
+    boxValues: number[];
+    /** Boxes as they ended the game (opened ones carry their value) */
+    boxes: { number: number; value: number | null }[];
+}
+
+/**
+ * FairnessVerifier - Checks the box layout against the commitment made at the start
+ *
+ * Re-hashes the revealed layout, re-runs the seeded shuffle and compares the opened
+ * boxes, all in the browser.
+ */
+export function FairnessVerifier({ proof, commitment, boxValues, boxes }: FairnessVerifierProps) {
+    const [result, setResult] = useState<FairnessCheck | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleVerify = async () => {
+        setIsChecking(true);
+        setError(null);
+        try {
+            setResult(await verifyFairness(proof, { commitment, boxValues, boxes }));
+        } catch {
+            // crypto.subtle is only available on secure origins (https or localhost)
+            setError("This browser can't run the check here.");
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    return (
+        <div>
+            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-2">
+                Fair Play
+            </h3>
+            <p className="text-xs text-gray-500 mb-2 break-all">
+                Commitment <span className="font-mono text-gray-400">{proof.commitment.slice(0, 16)}…</span>
+                {" "}· seed <span className="font-mono text-gray-400">{proof.seed.slice(0, 8)}…</span>
+            </p>
+            <div className="flex items-center gap-3">
+                <button
+                    type="button"
+                    onClick={handleVerify}
+                    disabled={isChecking}
+                    className="px-4 py-1.5 rounded-lg text-xs font-semibold border border-white/20 text-gray-300 hover:bg-white/5 disabled:opacity-50 transition-colors"
+                >
+                    {isChecking ? "Checking..." : "Verify Fairness"}
+                </button>
+                <div role="status" className="text-xs">
+                    {result?.valid && (
+                        <span className="text-green-400">Boxes matched the commitment</span>
+                    )}
+                    {error && <span className="text-red-400">{error}</span>}
+                </div>
+            </div>
+            {result && !result.valid && (
+                <ul className="mt-2 space-y-1 text-xs text-red-400" role="alert">
+                    {result.problems.map((problem) => (
+                        <li key={problem}>{problem}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,12 @@
 "use client";
 
 import { useEffect, useRef, useCallback } from "react";
+import { formatWinnings } from "@/lib/currency";
+import type { GameMode, LeaderboardSeason } from "@protocol/events";
+
+export type { LeaderboardSeason };
+
+export type LeaderboardMode = GameMode;
 
 export interface GlobalLeaderboardEntry {
   rank: number;
@@ -8,27 +14,63 @@ export interface GlobalLeaderboardEntry {
   playerName: string;
   totalPoints: number;
   gamesPlayed: number;
+  bestAmount?: number;
 }
 
 interface GlobalLeaderboardOverlayProps {
   isOpen: boolean;
   onClose: () => void;
   entries: GlobalLeaderboardEntry[];
+  /** Which leaderboard is shown: multiplayer games, or solo games against the banker */
+  mode?: LeaderboardMode;
+  /** Called when the multiplayer/solo toggle is used (toggle is hidden if omitted) */
+  onModeChange?: (mode: LeaderboardMode) => void;
+  /** Currently selected season tab */
+  season?: LeaderboardSeason;
+  /** Called when a season tab is picked (tabs are hidden if omitted) */
+  onSeasonChange?: (season: LeaderboardSeason) => void;
+  /** Current page (1-based) */
+  page?: number;
+  /** Total number of pages for the season */
+  totalPages?: number;
+  /** Called with the requested page (paging is hidden if omitted) */
+  onPageChange?: (page: number) => void;
+  /** Show a loading state while a page is being fetched */
+  isLoading?: boolean;
   title?: string;
   subtitle?: string;
   ariaLabel?: string;
 }
 
+const MODE_TABS: { id: LeaderboardMode; label: string }[] = [
+  { id: "multiplayer", label: "Multiplayer" },
+  { id: "solo", label: "Solo" },
+];
+
+const SEASON_TABS: { id: LeaderboardSeason; label: string; subtitle: string }[] = [
+  { id: "weekly", label: "This Week", subtitle: "Points since Monday (UTC)" },
+  { id: "monthly", label: "This Month", subtitle: "Points this calendar month" },
+  { id: "all-time", label: "All Time", subtitle: "Every game on record" },
+];
+
 /**
- * GlobalLeaderboardOverlay - Runtime (in-memory) top 100 leaderboard.
- * Shows total points accumulated across games (server lifetime).
+ * GlobalLeaderboardOverlay - Seasonal leaderboard with paging.
+ * Shows total points accumulated across games within the selected season.
  */
 export function GlobalLeaderboardOverlay({
   isOpen,
   onClose,
   entries,
+  mode = "multiplayer",
+  onModeChange,
+  season = "all-time",
+  onSeasonChange,
+  page = 1,
+  totalPages = 1,
+  onPageChange,
+  isLoading = false,
   title = "Global Leaderboard",
-  subtitle = "Runtime (server lifetime)",
+  subtitle,
   ariaLabel = "Global leaderboard",
 }: GlobalLeaderboardOverlayProps) {
   const dialogRef = useRef<HTMLDivElement>(null);
@@ -89,7 +131,9 @@ export function GlobalLeaderboardOverlay({
         <div className="relative h-24 bg-gradient-to-b from-gold-500/10 to-transparent overflow-hidden">
           <div className="absolute inset-0 flex flex-col items-center justify-center">
             <h2 className="text-2xl font-bold shimmer-text font-display">{title}</h2>
-            <p className="text-sm text-gray-400 mt-1">{subtitle}</p>
+            <p className="text-sm text-gray-400 mt-1">
+              {subtitle ?? SEASON_TABS.find((t) => t.id === season)?.subtitle}
+            </p>
           </div>
 
           <button
@@ -104,9 +148,49 @@ export function GlobalLeaderboardOverlay({
           </button>
         </div>
 
-        <div className="px-6 py-4 max-h-[400px] overflow-y-auto">
+        {onModeChange && (
+          <div className="px-6 pt-4 flex justify-center gap-1" role="radiogroup" aria-label="Leaderboard">
+            {MODE_TABS.map((tab) => (
+              <button
+                key={tab.id}
+                role="radio"
+                aria-checked={mode === tab.id}
+                onClick={() => onModeChange(tab.id)}
+                className={`min-h-[32px] px-3 rounded-md text-[10px] font-bold uppercase tracking-widest transition-colors ${
+                  mode === tab.id ? "bg-white/15 text-white" : "text-gray-500 hover:text-gray-300"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {onSeasonChange && (
+          <div className="px-6 pt-4 flex justify-center gap-2" role="tablist" aria-label="Leaderboard season">
+            {SEASON_TABS.map((tab) => (
+              <button
+                key={tab.id}
+                role="tab"
+                aria-selected={season === tab.id}
+                onClick={() => onSeasonChange(tab.id)}
+                className={`min-h-[36px] px-4 rounded-full text-xs font-bold uppercase tracking-widest transition-colors ${
+                  season === tab.id
+                    ? "bg-gold-500/20 border border-gold-500/40 text-gold-300"
+                    : "bg-white/5 border border-white/10 text-gray-400 hover:text-white"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className={`px-6 py-4 max-h-[400px] overflow-y-auto transition-opacity ${isLoading ? "opacity-50" : ""}`} aria-busy={isLoading}>
           {entries.length === 0 ? (
-            <p className="text-center text-gray-500 py-8">No global scores yet.</p>
+            <p className="text-center text-gray-500 py-8">
+              {isLoading ? "Loading..." : "No scores this season yet."}
+            </p>
           ) : (
             <div className="space-y-3">
               {entries.map((e) => {
@@ -132,6 +216,7 @@ export function GlobalLeaderboardOverlay({
                       </p>
                       <p className="text-[10px] text-gray-500 uppercase tracking-widest">
                         {e.gamesPlayed} {e.gamesPlayed === 1 ? "game" : "games"}
+                        {e.bestAmount !== undefined && e.bestAmount > 0 && ` · Best ${formatWinnings(e.bestAmount)}`}
                       </p>
                     </div>
 
@@ -148,13 +233,38 @@ export function GlobalLeaderboardOverlay({
           )}
         </div>
 
-        <div className="px-6 py-4 border-t border-white/10 flex justify-center">
+        <div className="px-6 py-4 border-t border-white/10 flex items-center justify-center gap-3">
+          {onPageChange && totalPages > 1 && (
+            <button
+              onClick={() => onPageChange(page - 1)}
+              disabled={page <= 1 || isLoading}
+              className="px-4 py-3 rounded-lg bg-white/5 border border-white/10 text-gray-300 font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
+              aria-label="Previous page"
+            >
+              ‹
+            </button>
+          )}
           <button
             onClick={onClose}
             className="px-8 py-3 bg-gradient-to-r from-gold-600 to-gold-500 hover:from-gold-500 hover:to-gold-400 rounded-lg font-semibold text-studio-900 transition-all hover:shadow-lg hover:shadow-gold-500/25"
           >
             Close
           </button>
+          {onPageChange && totalPages > 1 && (
+            <>
+              <button
+                onClick={() => onPageChange(page + 1)}
+                disabled={page >= totalPages || isLoading}
+                className="px-4 py-3 rounded-lg bg-white/5 border border-white/10 text-gray-300 font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Next page"
+              >
+                ›
+              </button>
+              <span className="text-xs text-gray-500 uppercase tracking-widest" aria-live="polite">
+                Page {page} of {totalPages}
+              </span>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -1,6 +1,11 @@
 "use client";
 
 import { useEffect, useRef, useCallback } from "react";
+import Link from "next/link";
+import { formatWinnings, type CurrencyCode } from "@/lib/currency";
+import type { BankerOfferBreakdown } from "@/context/GameContext";
+import { BankerBreakdown } from "./BankerBreakdown";
+import { FairnessVerifier, type FairnessVerifierProps } from "./FairnessVerifier";
 
 export interface LeaderboardScore {
     id: string;
@@ -11,6 +16,14 @@ export interface LeaderboardScore {
     isCurrentPlayer?: boolean;
 }
 
+export interface RoomTotalScore {
+    id: string;
+    playerName: string;
+    totalPoints: number;
+    gamesPlayed: number;
+    isCurrentPlayer?: boolean;
+}
+
 interface LeaderboardOverlayProps {
     /** Whether the overlay is open */
     isOpen: boolean;
@@ -24,6 +37,22 @@ interface LeaderboardOverlayProps {
     subtitle?: string;
     /** Aria label for the dialog */
     ariaLabel?: string;
+    /** Running totals across rematches in this room, sorted by points */
+    roomTotals?: RoomTotalScore[];
+    /** Number of games played in this room so far */
+    gamesCompleted?: number;
+    /** Host-only: restart the room with the same roster */
+    onPlayAgain?: () => void;
+    /** Short note under the footer buttons (e.g. waiting for the host) */
+    footerNote?: string;
+    /** Room currency for money values (defaults to GBP) */
+    currency?: CurrencyCode;
+    /** How the banker worked out each offer (shown once the game is over) */
+    bankerOffers?: BankerOfferBreakdown[];
+    /** Revealed box layout proof, checked in the browser (shown once the game is over) */
+    fairness?: FairnessVerifierProps;
+    /** Link to the finished game's replay */
+    replayHref?: string;
 }
 
 /**
@@ -42,6 +71,14 @@ export function LeaderboardOverlay({
     title = "Game Finished",
     subtitle = "Final Results",
     ariaLabel = "Leaderboard Results",
+    roomTotals,
+    gamesCompleted = 0,
+    onPlayAgain,
+    footerNote,
+    currency,
+    bankerOffers,
+    fairness,
+    replayHref,
 }: LeaderboardOverlayProps) {
     const dialogRef = useRef<HTMLDivElement>(null);
     const closeButtonRef = useRef<HTMLButtonElement>(null);
@@ -142,8 +179,6 @@ export function LeaderboardOverlay({
         }
     };
 
-    const formatAmount = (amount: number): string => `£${amount.toLocaleString("en-GB")}`;
-
     return (
         <div
             className="leaderboard-overlay"
@@ -283,7 +318,7 @@ export function LeaderboardOverlay({
                                                 className={`font-mono font-bold text-lg ${isTop3 ? "text-gold-400" : "text-gray-300"
                                                     }`}
                                             >
-                                                {formatAmount(score.amount)}
+                                                {formatWinnings(score.amount, currency)}
                                             </div>
                                             {score.points !== undefined && (
                                                 <div className="text-[10px] text-gray-500 uppercase tracking-widest">
@@ -298,14 +333,78 @@ export function LeaderboardOverlay({
                     )}
                 </div>
 
+                {/* Room Totals (across rematches) */}
+                {roomTotals && roomTotals.length > 0 && (
+                    <div className="px-6 pb-4">
+                        <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-2">
+                            Room Totals · {gamesCompleted} {gamesCompleted === 1 ? "game" : "games"}
+                        </h3>
+                        <ol className="space-y-1">
+                            {roomTotals.map((total, index) => (
+                                <li
+                                    key={total.id}
+                                    className={`flex items-center justify-between text-sm px-3 py-1.5 rounded-lg bg-white/5 ${total.isCurrentPlayer ? "ring-1 ring-primary-500/50" : ""}`}
+                                >
+                                    <span className="truncate text-gray-300">
+                                        <span className="text-gray-500 mr-2">{index + 1}.</span>
+                                        {total.playerName}
+                                    </span>
+                                    <span className="font-mono text-gold-400">
+                                        {total.totalPoints.toLocaleString("en-GB")} pts
+                                    </span>
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                )}
+
+                {/* Banker's workings */}
+                {bankerOffers && bankerOffers.length > 0 && (
+                    <div className="px-6 pb-4">
+                        <BankerBreakdown
+                            offers={bankerOffers}
+                            currency={currency}
+                            playerNames={Object.fromEntries(scores.map((s) => [s.id, s.playerName]))}
+                        />
+                    </div>
+                )}
+
+                {/* Fair play check */}
+                {fairness && (
+                    <div className="px-6 pb-4">
+                        <FairnessVerifier key={fairness.proof.commitment} {...fairness} />
+                    </div>
+                )}
+
                 {/* Footer */}
-                <div className="px-6 py-4 border-t border-white/10 flex justify-center">
-                    <button
-                        onClick={onClose}
-                        className="px-8 py-3 bg-gradient-to-r from-gold-600 to-gold-500 hover:from-gold-500 hover:to-gold-400 rounded-lg font-semibold text-studio-900 transition-all hover:shadow-lg hover:shadow-gold-500/25"
-                    >
-                        Close
-                    </button>
+                <div className="px-6 py-4 border-t border-white/10 flex flex-col items-center gap-2">
+                    <div className="flex justify-center gap-3">
+                        {replayHref && (
+                            <Link
+                                href={replayHref}
+                                className="px-8 py-3 rounded-lg font-semibold border border-white/20 text-gray-300 hover:bg-white/5 transition-colors"
+                            >
+                                Watch Replay
+                            </Link>
+                        )}
+                        {onPlayAgain && (
+                            <button
+                                onClick={onPlayAgain}
+                                className="px-8 py-3 rounded-lg font-semibold border border-gold-500/40 text-gold-300 hover:bg-gold-500/10 transition-colors"
+                            >
+                                Play Again
+                            </button>
+                        )}
+                        <button
+                            onClick={onClose}
+                            className="px-8 py-3 bg-gradient-to-r from-gold-600 to-gold-500 hover:from-gold-500 hover:to-gold-400 rounded-lg font-semibold text-studio-900 transition-all hover:shadow-lg hover:shadow-gold-500/25"
+                        >
+                            Close
+                        </button>
+                    </div>
+                    {footerNote && (
+                        <p className="text-xs text-gray-500">{footerNote}</p>
+                    )}
                 </div>
             </div>
         </div>
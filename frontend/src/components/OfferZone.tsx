@@ -2,14 +2,17 @@
 
 import { useRef, useEffect, useState, useCallback } from "react";
 import { CountdownRingFromExpiry } from "./CountdownRing";
+import { formatOfferAmount, type CurrencyCode } from "@/lib/currency";
 
 interface OfferZoneProps {
-    /** The offer amount in pounds (undefined = no active offer) */
+    /** The offer amount (undefined = no active offer) */
     amount?: number;
     /** Unix timestamp (ms) when the offer expires */
     expiresAt?: number;
     /** Total duration of the offer in seconds (for progress calculation) */
     totalDuration?: number;
+    /** Time left on the offer while the game is paused (null while running) */
+    pausedRemainingMs?: number | null;
     /** Callback when Deal is clicked */
     onDeal?: () => void;
     /** Callback when No Deal is clicked */
@@ -20,16 +23,12 @@ interface OfferZoneProps {
     choseDeal?: boolean;
     /** Additional classNames */
     className?: string;
-}
-
-/**
- * Format currency for display
- */
-function formatCurrency(value: number): string {
-    return `£${value.toLocaleString("en-GB", {
-        minimumFractionDigits: value % 1 !== 0 ? 2 : 0,
-        maximumFractionDigits: 2,
-    })}`;
+    /** Room currency for money values (defaults to GBP) */
+    currency?: CurrencyCode;
+    /** Whether the offer was made to this player alone (personal offers mode) */
+    isPersonal?: boolean;
+    /** Everyone's personal offers, shown to spectators while no offer is their own */
+    personalOffers?: { playerId: string; name: string; amount: number }[];
 }
 
 /**
@@ -49,11 +48,15 @@ export function OfferZone({
     amount,
     expiresAt,
     totalDuration = 30,
+    pausedRemainingMs = null,
     onDeal,
     onNoDeal,
     hasResponded = false,
     choseDeal,
     className = "",
+    currency,
+    isPersonal = false,
+    personalOffers = [],
 }: OfferZoneProps) {
     const containerRef = useRef<HTMLDivElement>(null);
     const previousFocusRef = useRef<HTMLElement | null>(null);
@@ -169,7 +172,7 @@ export function OfferZone({
                 className="sr-only"
             >
                 {isActive && !hasResponded
-                    ? `The banker offers ${formatCurrency(amount!)}. Deal or No Deal?`
+                    ? `The banker offers ${isPersonal ? "you " : ""}${formatOfferAmount(amount!, currency)}. Deal or No Deal?`
                     : hasResponded
                         ? choseDeal
                             ? "You chose Deal. Waiting for other players."
@@ -185,7 +188,7 @@ export function OfferZone({
                         id="offer-zone-title"
                         className="text-gold-300 text-sm uppercase tracking-widest font-display"
                     >
-                        The Banker Offers
+                        {isPersonal ? "Your Offer" : "The Banker Offers"}
                     </h2>
 
                     {/* Large Glowing Amount */}
@@ -206,7 +209,7 @@ export function OfferZone({
                             `}
                             key={shimmerTrigger} // Re-trigger animation
                         >
-                            {formatCurrency(amount!)}
+                            {formatOfferAmount(amount!, currency)}
                         </span>
                     </div>
 
@@ -229,6 +232,7 @@ export function OfferZone({
                                 <CountdownRingFromExpiry
                                     expiresAt={expiresAt!}
                                     totalDuration={totalDuration}
+                                    pausedRemainingMs={pausedRemainingMs}
                                     size={100}
                                     strokeWidth={6}
                                     color="gold"
@@ -286,6 +290,29 @@ export function OfferZone({
                         </>
                     )}
                 </>
+            ) : personalOffers.length > 0 ? (
+                /* Spectating personal offers - one per contestant */
+                <div className="flex flex-col items-center gap-4 w-full max-w-sm">
+                    <h2
+                        id="offer-zone-title"
+                        className="text-gold-300 text-sm uppercase tracking-widest font-display"
+                    >
+                        The Banker&apos;s Offers
+                    </h2>
+                    <ul className="w-full space-y-2">
+                        {personalOffers.map((offer) => (
+                            <li
+                                key={offer.playerId}
+                                className="flex items-center justify-between px-4 py-2 rounded-lg bg-white/5 border border-gold-500/20"
+                            >
+                                <span className="text-gray-300 truncate">{offer.name}</span>
+                                <span className="font-mono font-bold text-gold-400">
+                                    {formatOfferAmount(offer.amount, currency)}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
             ) : (
                 /* Waiting State - No Active Offer */
                 <div className="offer-waiting flex flex-col items-center justify-center gap-6 py-8 animate-in fade-in duration-700">
@@ -1,6 +1,8 @@
 "use client";
 
+import { useState } from "react";
 import { getAvatarForName } from "@/lib/avatar";
+import { formatCurrency, formatWinnings, type CurrencyCode } from "@/lib/currency";
 
 interface Player {
     id: string;
@@ -11,6 +13,22 @@ interface Player {
     isReady?: boolean;
     boxNumber?: number;
     finalAmount?: number;
+    isConnected?: boolean;
+    /** Disconnected long enough that the game plays for them */
+    isAway?: boolean;
+    /** Computer-controlled seat (badged, and can only be kicked) */
+    isBot?: boolean;
+    /** Silenced in chat by the host */
+    isMuted?: boolean;
+}
+
+/** Host-only actions offered on other players' cards */
+export interface PlayerHostActions {
+    onKick?: (playerId: string) => void;
+    onBan?: (playerId: string) => void;
+    onTransferHost?: (playerId: string) => void;
+    /** Mute (or, for a muted player, unmute) them in chat */
+    onMute?: (playerId: string, muted: boolean) => void;
 }
 
 interface PlayerPanelProps {
@@ -25,6 +43,15 @@ interface PlayerPanelProps {
      * This is useful in the lobby, but is usually redundant once the game starts.
      */
     showReadyStatus?: boolean;
+    /**
+     * Host-only per-player actions. When provided, every other player's card
+     * gets a menu with the supplied actions.
+     */
+    hostActions?: PlayerHostActions;
+    /** Room currency for money values (defaults to GBP) */
+    currency?: CurrencyCode;
+    /** What happens for away players, shown in their badge */
+    awayLabel?: string;
 }
 
 /**
@@ -38,6 +65,9 @@ export function PlayerPanel({
     currentPlayerId,
     maxPlayers = 6,
     showReadyStatus = true,
+    hostActions,
+    currency,
+    awayLabel = "auto-playing",
 }: PlayerPanelProps) {
     const emptySlots = Math.max(0, maxPlayers - players.length);
 
@@ -59,6 +89,9 @@ export function PlayerPanel({
                         player={player}
                         isCurrentUser={player.id === currentPlayerId}
                         showReadyStatus={showReadyStatus}
+                        hostActions={player.id === currentPlayerId ? undefined : hostActions}
+                        currency={currency}
+                        awayLabel={awayLabel}
                     />
                 ))}
 
@@ -83,9 +116,16 @@ interface PlayerCardProps {
     player: Player;
     isCurrentUser: boolean;
     showReadyStatus: boolean;
+    hostActions?: PlayerHostActions;
+    currency?: CurrencyCode;
+    awayLabel?: string;
 }
 
-function PlayerCard({ player, isCurrentUser, showReadyStatus }: PlayerCardProps) {
+function PlayerCard({ player, isCurrentUser, showReadyStatus, hostActions: allHostActions, currency, awayLabel }: PlayerCardProps) {
+    const [isMenuOpen, setIsMenuOpen] = useState(false);
+    // Bots can't be handed the host role, and banning one is meaningless
+    const hostActions = player.isBot && allHostActions ? { onKick: allHostActions.onKick } : allHostActions;
+    const hasHostActions = !!(hostActions?.onKick || hostActions?.onBan || hostActions?.onTransferHost || hostActions?.onMute);
     const isDealt = player.hasDealt;
     const isActive = player.isActive;
     const isReady = showReadyStatus && player.isReady;
@@ -121,7 +161,7 @@ function PlayerCard({ player, isCurrentUser, showReadyStatus }: PlayerCardProps)
             className={cardClasses}
             role="listitem"
             tabIndex={0}
-            aria-label={`${player.name}${player.isHost ? ', Host' : ''}${isActive ? ', currently playing' : ''}${isDealt ? `, dealt for £${player.finalAmount?.toLocaleString('en-GB') || 0}` : ''}`}
+            aria-label={`${player.name}${player.isBot ? ', Bot' : ''}${player.isAway ? `, away (${awayLabel})` : ''}${player.isMuted ? ', muted' : ''}${player.isHost ? ', Host' : ''}${isActive ? ', currently playing' : ''}${isDealt ? `, dealt for ${formatWinnings(player.finalAmount || 0, currency)}` : ''}`}
         >
             {/* Active Player Glow Effect */}
             {isActive && !isDealt && (
@@ -155,6 +195,19 @@ function PlayerCard({ player, isCurrentUser, showReadyStatus }: PlayerCardProps)
                             {isCurrentUser && (
                                 <span className="text-[10px] bg-white/10 px-1.5 py-0.5 rounded text-gray-300">YOU</span>
                             )}
+                            {player.isBot && (
+                                <span className="text-[10px] bg-blue-500/15 border border-blue-400/30 px-1.5 py-0.5 rounded text-blue-300 font-bold">BOT</span>
+                            )}
+                            {player.isAway && !isDealt && (
+                                <span className="text-[10px] bg-amber-500/15 border border-amber-400/30 px-1.5 py-0.5 rounded text-amber-300 font-bold uppercase">
+                                    Away ({awayLabel})
+                                </span>
+                            )}
+                            {player.isMuted && (
+                                <span className="text-[10px] bg-danger-500/15 border border-danger-500/30 px-1.5 py-0.5 rounded text-danger-300 font-bold uppercase">
+                                    Muted
+                                </span>
+                            )}
                         </div>
 
                         <div className="flex items-center gap-2 text-xs mt-0.5">
@@ -173,7 +226,7 @@ function PlayerCard({ player, isCurrentUser, showReadyStatus }: PlayerCardProps)
                             <div className="flex flex-col items-end">
                                 <span className="text-[10px] text-gray-500 font-bold uppercase tracking-wider">Dealt</span>
                                 <span className="text-green-500 font-mono font-bold">
-                                    £{player.finalAmount.toLocaleString("en-GB", { notation: "compact" })}
+                                    {formatCurrency(player.finalAmount, { currency, compact: true })}
                                 </span>
                             </div>
                         ) : isActive ? (
@@ -190,7 +243,60 @@ function PlayerCard({ player, isCurrentUser, showReadyStatus }: PlayerCardProps)
                             </span>
                         ) : null}
                     </div>
+
+                    {hasHostActions && (
+                        <button
+                            onClick={() => setIsMenuOpen((open) => !open)}
+                            className="ml-2 w-8 h-8 flex items-center justify-center rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                            aria-label={`Host actions for ${player.name}`}
+                            aria-expanded={isMenuOpen}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                                <circle cx="12" cy="5" r="2" />
+                                <circle cx="12" cy="12" r="2" />
+                                <circle cx="12" cy="19" r="2" />
+                            </svg>
+                        </button>
+                    )}
                 </div>
+
+                {/* Host action menu (inline so the card's overflow clipping doesn't hide it) */}
+                {hasHostActions && isMenuOpen && (
+                    <div className="flex flex-wrap gap-2 mt-2" role="group" aria-label={`Manage ${player.name}`}>
+                        {hostActions?.onTransferHost && (
+                            <button
+                                onClick={() => { setIsMenuOpen(false); hostActions.onTransferHost?.(player.id); }}
+                                className="px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider bg-gold-500/15 border border-gold-500/30 text-gold-300 hover:bg-gold-500/25"
+                            >
+                                Make Host
+                            </button>
+                        )}
+                        {hostActions?.onMute && (
+                            <button
+                                onClick={() => { setIsMenuOpen(false); hostActions.onMute?.(player.id, !player.isMuted); }}
+                                className="px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider bg-white/5 border border-white/15 text-gray-300 hover:bg-white/10"
+                            >
+                                {player.isMuted ? "Unmute" : "Mute"}
+                            </button>
+                        )}
+                        {hostActions?.onKick && (
+                            <button
+                                onClick={() => { setIsMenuOpen(false); hostActions.onKick?.(player.id); }}
+                                className="px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider bg-white/5 border border-white/15 text-gray-300 hover:bg-white/10"
+                            >
+                                Kick
+                            </button>
+                        )}
+                        {hostActions?.onBan && (
+                            <button
+                                onClick={() => { setIsMenuOpen(false); hostActions.onBan?.(player.id); }}
+                                className="px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider bg-danger-500/15 border border-danger-500/30 text-danger-300 hover:bg-danger-500/25"
+                            >
+                                Ban
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
     );
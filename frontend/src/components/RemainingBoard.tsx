@@ -1,43 +1,43 @@
 "use client";
 
 import { useMemo } from "react";
-import { formatBoxValue } from "@/lib/currency";
-
-// UK Box Values in pounds
-export const BOX_VALUES: number[] = [
-    0.01, 1, 5, 10, 50, 100, 250, 500, 750, 1000,
-    3000, 5000, 10000, 15000, 20000, 35000, 50000, 75000, 100000, 250000,
-];
+import { formatBoxValue, type CurrencyCode } from "@/lib/currency";
 
 interface RemainingBoardProps {
+    /** Every value on the room's board, ascending */
+    values: number[];
     /** Array of eliminated value amounts */
     eliminatedValues?: number[];
     /** Whether to show scorch animation on recently eliminated */
     showScorchAnimation?: boolean;
     /** Recently eliminated value (for scorch animation) */
     recentlyEliminated?: number;
+    /** Room currency for money values (defaults to GBP) */
+    currency?: CurrencyCode;
 }
 
 /**
  * RemainingBoard - Displays remaining money values
  * 
- * Shows all 20 box values with eliminated values crossed out.
+ * Shows every value on the room's board with eliminated values crossed out.
  * Uses scorch animation for recently eliminated values.
  * Split into low (blue) and high (gold) value columns.
  */
 export function RemainingBoard({
+    values,
     eliminatedValues = [],
     showScorchAnimation = true,
     recentlyEliminated,
+    currency,
 }: RemainingBoardProps) {
     // Split values into low and high
     const { lowValues, highValues } = useMemo(() => {
-        const midpoint = Math.floor(BOX_VALUES.length / 2);
+        const midpoint = Math.floor(values.length / 2);
         return {
-            lowValues: BOX_VALUES.slice(0, midpoint),
-            highValues: BOX_VALUES.slice(midpoint),
+            lowValues: values.slice(0, midpoint),
+            highValues: values.slice(midpoint),
         };
-    }, []);
+    }, [values]);
 
     const isEliminated = (value: number) => eliminatedValues.includes(value);
     const isRecentlyEliminated = (value: number) =>
@@ -68,6 +68,7 @@ export function RemainingBoard({
                                 key={value}
                                 value={value}
                                 isLow
+                                currency={currency}
                                 isEliminated={isEliminated(value)}
                                 isScorching={isRecentlyEliminated(value)}
                             />
@@ -81,6 +82,7 @@ export function RemainingBoard({
                                 key={value}
                                 value={value}
                                 isLow={false}
+                                currency={currency}
                                 isEliminated={isEliminated(value)}
                                 isScorching={isRecentlyEliminated(value)}
                             />
@@ -97,9 +99,10 @@ interface ValueChipProps {
     isLow: boolean;
     isEliminated: boolean;
     isScorching: boolean;
+    currency?: CurrencyCode;
 }
 
-function ValueChip({ value, isLow, isEliminated, isScorching }: ValueChipProps) {
+function ValueChip({ value, isLow, isEliminated, isScorching, currency }: ValueChipProps) {
     const baseClasses = "relative w-full h-8 sm:h-9 flex items-center justify-center font-display font-bold text-sm sm:text-base tracking-wide transition-all duration-500 rounded-sm overflow-hidden";
 
     // Dynamic classes based on state
@@ -136,7 +139,7 @@ function ValueChip({ value, isLow, isEliminated, isScorching }: ValueChipProps)
             )}
 
             <span className={`relative z-10 ${textClasses}`}>
-                {formatBoxValue(value)}
+                {formatBoxValue(value, currency)}
             </span>
         </div>
     );
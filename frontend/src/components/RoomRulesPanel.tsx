@@ -0,0 +1,505 @@
+"use client";
+
+import { useState } from "react";
+import type { BankerStrategyId, BoardId, ChatFilterMode, DisconnectPolicy, LeaveRule, RoomSettings } from "@/context/GameContext";
+import { CURRENCY_OPTIONS, formatBoxValue, type CurrencyCode } from "@/lib/currency";
+import { BANKER_STRATEGY_OPTIONS } from "./BankerBreakdown";
+
+const LEAVE_RULE_OPTIONS: { value: LeaveRule; label: string; description: string }[] = [
+    { value: "forfeit", label: "Forfeit", description: "They walk away with whatever is in their box." },
+    { value: "take-offer", label: "Take Offer", description: "They bank the banker's current offer." },
+];
+
+const DISCONNECT_POLICY_OPTIONS: { value: DisconnectPolicy; label: string; description: string }[] = [
+    { value: "auto-play", label: "Auto-play", description: "After 15s away, a random box is opened for them and offers follow the leave rule." },
+    { value: "skip", label: "Skip", description: "After 15s away, their turns are skipped and offers turned down." },
+];
+
+const CHAT_FILTER_OPTIONS: { value: ChatFilterMode; label: string; description: string }[] = [
+    { value: "mask", label: "Mask", description: "Banned words are starred out." },
+    { value: "block", label: "Block", description: "Messages with banned words aren't sent." },
+    { value: "off", label: "Off", description: "Chat isn't filtered (names still are)." },
+];
+
+const BOARD_OPTIONS: { value: BoardId; label: string; description: string }[] = [
+    { value: "uk-20", label: "UK", description: "The classic 20 boxes (switches to pounds)." },
+    { value: "us-26", label: "US", description: "26 boxes up to a million (switches to dollars)." },
+    { value: "quick-12", label: "Quick", description: "12 boxes for a short game." },
+    { value: "custom", label: "Custom", description: "Your own list of 6–30 different values." },
+];
+
+interface RoomRulesPanelProps {
+    /** Current rules for the room (from the server) */
+    settings: RoomSettings;
+    /** Whether the current player may edit the rules (host, in the lobby) */
+    canEdit: boolean;
+    /** Save changed fields; resolves with the server's answer */
+    onSave?: (settings: Partial<RoomSettings>) => Promise<{ success: boolean; error?: string }>;
+}
+
+interface RulesDraft {
+    turnSeconds: string;
+    offerSeconds: string;
+    swapSeconds: string;
+    roundSchedule: string;
+    maxPlayers: string;
+    minPlayersToStart: string;
+    leaveRule: LeaveRule;
+    disconnectPolicy: DisconnectPolicy;
+    boardId: BoardId;
+    customValues: string;
+    currency: CurrencyCode;
+    bankerStrategy: BankerStrategyId;
+    personalOffers: boolean;
+    midGameSwaps: boolean;
+    chatFilter: ChatFilterMode;
+    chatSlowSeconds: string;
+}
+
+function parseNumberList(value: string): number[] {
+    return value
+        .split(/[\s,]+/)
+        .filter((part) => part.length > 0)
+        .map(Number);
+}
+
+function toDraft(settings: RoomSettings): RulesDraft {
+    return {
+        turnSeconds: String(Math.round(settings.turnTimeoutMs / 1000)),
+        offerSeconds: String(Math.round(settings.offerTimeoutMs / 1000)),
+        swapSeconds: String(Math.round(settings.swapTimeoutMs / 1000)),
+        roundSchedule: settings.roundSchedule.join(", "),
+        maxPlayers: String(settings.maxPlayers),
+        minPlayersToStart: String(settings.minPlayersToStart),
+        leaveRule: settings.leaveRule,
+        disconnectPolicy: settings.disconnectPolicy,
+        boardId: settings.boardId,
+        customValues: settings.boxValues.join(", "),
+        currency: settings.currency,
+        bankerStrategy: settings.bankerStrategy,
+        personalOffers: settings.personalOffers,
+        midGameSwaps: settings.midGameSwaps,
+        chatFilter: settings.chatFilter,
+        chatSlowSeconds: String(Math.round(settings.chatSlowModeMs / 1000)),
+    };
+}
+
+function fromDraft(draft: RulesDraft, settings: RoomSettings): Partial<RoomSettings> {
+    const changes: Partial<RoomSettings> = {
+        turnTimeoutMs: Math.round(Number(draft.turnSeconds) * 1000),
+        offerTimeoutMs: Math.round(Number(draft.offerSeconds) * 1000),
+        swapTimeoutMs: Math.round(Number(draft.swapSeconds) * 1000),
+        maxPlayers: Number(draft.maxPlayers),
+        minPlayersToStart: Number(draft.minPlayersToStart),
+        leaveRule: draft.leaveRule,
+        disconnectPolicy: draft.disconnectPolicy,
+        boardId: draft.boardId,
+        bankerStrategy: draft.bankerStrategy,
+        personalOffers: draft.personalOffers,
+        midGameSwaps: draft.midGameSwaps,
+        chatFilter: draft.chatFilter,
+        chatSlowModeMs: Math.round(Number(draft.chatSlowSeconds) * 1000),
+    };
+
+    // Left untouched, the server uses the new preset's own currency
+    if (draft.currency !== settings.currency) {
+        changes.currency = draft.currency;
+    }
+
+    // Left untouched, the server uses the new preset's own schedule
+    if (draft.roundSchedule !== toDraft(settings).roundSchedule) {
+        changes.roundSchedule = parseNumberList(draft.roundSchedule);
+    }
+
+    if (draft.boardId === "custom") {
+        changes.boxValues = parseNumberList(draft.customValues);
+    }
+
+    return changes;
+}
+
+/**
+ * RoomRulesPanel - The room's rules (board, currency, banker, offers, swaps, timers, round schedule, player limits, leave rule, disconnect policy, chat)
+ *
+ * The host gets an editable form; everyone else sees a read-only summary.
+ * Bounds are enforced by the server, which returns a readable error.
+ */
+export function RoomRulesPanel({ settings, canEdit, onSave }: RoomRulesPanelProps) {
+    if (!canEdit || !onSave) {
+        return <RoomRulesSummary settings={settings} />;
+    }
+
+    // Re-mount the form whenever the server's rules change so the draft starts from them
+    return <RoomRulesForm key={JSON.stringify(settings)} settings={settings} onSave={onSave} />;
+}
+
+function RoomRulesSummary({ settings }: { settings: RoomSettings }) {
+    const leaveRule = LEAVE_RULE_OPTIONS.find((o) => o.value === settings.leaveRule);
+    const disconnectPolicy = DISCONNECT_POLICY_OPTIONS.find((o) => o.value === settings.disconnectPolicy);
+    const board = BOARD_OPTIONS.find((o) => o.value === settings.boardId);
+    const banker = BANKER_STRATEGY_OPTIONS.find((o) => o.value === settings.bankerStrategy);
+    const chatFilter = CHAT_FILTER_OPTIONS.find((o) => o.value === settings.chatFilter);
+
+    return (
+        <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+            <dt className="text-gray-500">Board</dt>
+            <dd className="text-gray-300 text-right">{board?.label} ({settings.boxValues.length} boxes)</dd>
+            <dt className="text-gray-500">Top prize</dt>
+            <dd className="text-gray-300 text-right">
+                {formatBoxValue(settings.boxValues[settings.boxValues.length - 1] ?? 0, settings.currency)}
+            </dd>
+            <dt className="text-gray-500">Banker</dt>
+            <dd className="text-gray-300 text-right">{banker?.label}</dd>
+            <dt className="text-gray-500">Offers</dt>
+            <dd className="text-gray-300 text-right">{settings.personalOffers ? "Personal" : "Shared"}</dd>
+            <dt className="text-gray-500">Turn timer</dt>
+            <dd className="text-gray-300 text-right">{Math.round(settings.turnTimeoutMs / 1000)}s</dd>
+            <dt className="text-gray-500">Offer timer</dt>
+            <dd className="text-gray-300 text-right">{Math.round(settings.offerTimeoutMs / 1000)}s</dd>
+            <dt className="text-gray-500">Swaps</dt>
+            <dd className="text-gray-300 text-right">
+                {settings.midGameSwaps ? "Final + mid-game" : "Final only"} · {Math.round(settings.swapTimeoutMs / 1000)}s
+            </dd>
+            <dt className="text-gray-500">Boxes per round</dt>
+            <dd className="text-gray-300 text-right">{settings.roundSchedule.join(", ")}, then 1</dd>
+            <dt className="text-gray-500">Players</dt>
+            <dd className="text-gray-300 text-right">{settings.minPlayersToStart}–{settings.maxPlayers}</dd>
+            <dt className="text-gray-500">Leaving mid-game</dt>
+            <dd className="text-gray-300 text-right">{leaveRule?.label}</dd>
+            <dt className="text-gray-500">Disconnected players</dt>
+            <dd className="text-gray-300 text-right">{disconnectPolicy?.label}</dd>
+            <dt className="text-gray-500">Chat</dt>
+            <dd className="text-gray-300 text-right">
+                {chatFilter?.label} filter{settings.chatSlowModeMs > 0 && ` · ${Math.round(settings.chatSlowModeMs / 1000)}s slow mode`}
+            </dd>
+        </dl>
+    );
+}
+
+function RoomRulesForm({
+    settings,
+    onSave,
+}: {
+    settings: RoomSettings;
+    onSave: (settings: Partial<RoomSettings>) => Promise<{ success: boolean; error?: string }>;
+}) {
+    const [draft, setDraft] = useState<RulesDraft>(() => toDraft(settings));
+    const [status, setStatus] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const update = <K extends keyof RulesDraft>(field: K, value: RulesDraft[K]) => {
+        setDraft((prev) => ({ ...prev, [field]: value }));
+    };
+
+    const handleSave = async () => {
+        setStatus(null);
+        setIsSaving(true);
+        const res = await onSave(fromDraft(draft, settings));
+        setIsSaving(false);
+        if (!res.success) {
+            setStatus(res.error || "Could not update the rules");
+        }
+    };
+
+    const inputClass = "w-full min-h-[40px] rounded-lg bg-studio-950/50 border border-white/10 px-3 text-sm text-white focus:outline-none focus:border-gold-500/40";
+    const labelClass = "block text-[10px] text-gray-500 uppercase tracking-widest mb-1";
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <span className={labelClass}>Board</span>
+                <div className="grid grid-cols-4 gap-2" role="radiogroup" aria-label="Board">
+                    {BOARD_OPTIONS.map((option) => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            role="radio"
+                            aria-checked={draft.boardId === option.value}
+                            onClick={() => update("boardId", option.value)}
+                            className={`min-h-[40px] px-2 rounded-lg border text-sm font-bold transition-colors ${draft.boardId === option.value
+                                ? "bg-gold-500/20 border-gold-500/40 text-gold-300"
+                                : "bg-studio-950/50 border-white/10 text-gray-400 hover:text-white"
+                                }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[10px] text-gray-500 mt-1">
+                    {BOARD_OPTIONS.find((o) => o.value === draft.boardId)?.description}
+                </p>
+                {draft.boardId === "custom" && (
+                    <textarea
+                        value={draft.customValues}
+                        onChange={(e) => update("customValues", e.target.value)}
+                        rows={3}
+                        placeholder="0.01, 1, 5, 10, 50, 100"
+                        aria-label="Custom box values"
+                        className={`${inputClass} mt-2 py-2`}
+                    />
+                )}
+            </div>
+
+            <div>
+                <span className={labelClass}>Currency</span>
+                <div className="grid grid-cols-4 gap-2" role="radiogroup" aria-label="Currency">
+                    {CURRENCY_OPTIONS.map((option) => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            role="radio"
+                            aria-checked={draft.currency === option.value}
+                            onClick={() => update("currency", option.value)}
+                            className={`min-h-[40px] px-2 rounded-lg border text-sm font-bold transition-colors ${draft.currency === option.value
+                                ? "bg-gold-500/20 border-gold-500/40 text-gold-300"
+                                : "bg-studio-950/50 border-white/10 text-gray-400 hover:text-white"
+                                }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <span className={labelClass}>Banker</span>
+                <div className="grid grid-cols-4 gap-2" role="radiogroup" aria-label="Banker">
+                    {BANKER_STRATEGY_OPTIONS.map((option) => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            role="radio"
+                            aria-checked={draft.bankerStrategy === option.value}
+                            onClick={() => update("bankerStrategy", option.value)}
+                            className={`min-h-[40px] px-2 rounded-lg border text-sm font-bold transition-colors ${draft.bankerStrategy === option.value
+                                ? "bg-gold-500/20 border-gold-500/40 text-gold-300"
+                                : "bg-studio-950/50 border-white/10 text-gray-400 hover:text-white"
+                                }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[10px] text-gray-500 mt-1">
+                    {BANKER_STRATEGY_OPTIONS.find((o) => o.value === draft.bankerStrategy)?.description}
+                </p>
+            </div>
+
+            <div>
+                <span className={labelClass}>Offers</span>
+                <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Offers">
+                    {[
+                        { value: false, label: "Shared" },
+                        { value: true, label: "Personal" },
+                    ].map((option) => (
+                        <button
+                            key={option.label}
+                            type="button"
+                            role="radio"
+                            aria-checked={draft.personalOffers === option.value}
+                            onClick={() => update("personalOffers", option.value)}
+                            className={`min-h-[40px] px-2 rounded-lg border text-sm font-bold transition-colors ${draft.personalOffers === option.value
+                                ? "bg-gold-500/20 border-gold-500/40 text-gold-300"
+                                : "bg-studio-950/50 border-white/10 text-gray-400 hover:text-white"
+                                }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[10px] text-gray-500 mt-1">
+                    {draft.personalOffers
+                        ? "Each contestant gets their own offer, shaped by how they have played."
+                        : "Everyone still in the game gets the same offer."}
+                </p>
+            </div>
+
+            <div>
+                <span className={labelClass}>Swaps</span>
+                <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Swaps">
+                    {[
+                        { value: false, label: "Final only" },
+                        { value: true, label: "Mid-game too" },
+                    ].map((option) => (
+                        <button
+                            key={option.label}
+                            type="button"
+                            role="radio"
+                            aria-checked={draft.midGameSwaps === option.value}
+                            onClick={() => update("midGameSwaps", option.value)}
+                            className={`min-h-[40px] px-2 rounded-lg border text-sm font-bold transition-colors ${draft.midGameSwaps === option.value
+                                ? "bg-gold-500/20 border-gold-500/40 text-gold-300"
+                                : "bg-studio-950/50 border-white/10 text-gray-400 hover:text-white"
+                                }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[10px] text-gray-500 mt-1">
+                    {draft.midGameSwaps
+                        ? "The last player can swap before the reveal, and the banker sometimes offers everyone a swap instead of money."
+                        : "The last player can swap their box for a closed one before the reveal."}
+                </p>
+                <label className="block mt-2">
+                    <span className={labelClass}>Swap timer (s)</span>
+                    <input
+                        type="number"
+                        inputMode="numeric"
+                        value={draft.swapSeconds}
+                        onChange={(e) => update("swapSeconds", e.target.value)}
+                        className={inputClass}
+                    />
+                </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <label>
+                    <span className={labelClass}>Turn timer (s)</span>
+                    <input
+                        type="number"
+                        inputMode="numeric"
+                        value={draft.turnSeconds}
+                        onChange={(e) => update("turnSeconds", e.target.value)}
+                        className={inputClass}
+                    />
+                </label>
+                <label>
+                    <span className={labelClass}>Offer timer (s)</span>
+                    <input
+                        type="number"
+                        inputMode="numeric"
+                        value={draft.offerSeconds}
+                        onChange={(e) => update("offerSeconds", e.target.value)}
+                        className={inputClass}
+                    />
+                </label>
+                <label>
+                    <span className={labelClass}>Min players</span>
+                    <input
+                        type="number"
+                        inputMode="numeric"
+                        value={draft.minPlayersToStart}
+                        onChange={(e) => update("minPlayersToStart", e.target.value)}
+                        className={inputClass}
+                    />
+                </label>
+                <label>
+                    <span className={labelClass}>Max players</span>
+                    <input
+                        type="number"
+                        inputMode="numeric"
+                        value={draft.maxPlayers}
+                        onChange={(e) => update("maxPlayers", e.target.value)}
+                        className={inputClass}
+                    />
+                </label>
+            </div>
+
+            <label className="block">
+                <span className={labelClass}>Boxes per round (then 1 each)</span>
+                <input
+                    type="text"
+                    value={draft.roundSchedule}
+                    onChange={(e) => update("roundSchedule", e.target.value)}
+                    placeholder="5, 4, 3, 2"
+                    className={inputClass}
+                />
+            </label>
+
+            <div>
+                <span className={labelClass}>If a player leaves mid-game</span>
+                <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Leave rule">
+                    {LEAVE_RULE_OPTIONS.map((option) => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            role="radio"
+                            aria-checked={draft.leaveRule === option.value}
+                            onClick={() => update("leaveRule", option.value)}
+                            className={`min-h-[40px] px-3 rounded-lg border text-sm font-bold transition-colors ${draft.leaveRule === option.value
+                                ? "bg-gold-500/20 border-gold-500/40 text-gold-300"
+                                : "bg-studio-950/50 border-white/10 text-gray-400 hover:text-white"
+                                }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[10px] text-gray-500 mt-1">
+                    {LEAVE_RULE_OPTIONS.find((o) => o.value === draft.leaveRule)?.description}
+                </p>
+            </div>
+
+            <div>
+                <span className={labelClass}>If a player disconnects mid-game</span>
+                <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Disconnect policy">
+                    {DISCONNECT_POLICY_OPTIONS.map((option) => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            role="radio"
+                            aria-checked={draft.disconnectPolicy === option.value}
+                            onClick={() => update("disconnectPolicy", option.value)}
+                            className={`min-h-[40px] px-3 rounded-lg border text-sm font-bold transition-colors ${draft.disconnectPolicy === option.value
+                                ? "bg-gold-500/20 border-gold-500/40 text-gold-300"
+                                : "bg-studio-950/50 border-white/10 text-gray-400 hover:text-white"
+                                }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[10px] text-gray-500 mt-1">
+                    {DISCONNECT_POLICY_OPTIONS.find((o) => o.value === draft.disconnectPolicy)?.description}
+                </p>
+            </div>
+
+            <div>
+                <span className={labelClass}>Chat filter</span>
+                <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Chat filter">
+                    {CHAT_FILTER_OPTIONS.map((option) => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            role="radio"
+                            aria-checked={draft.chatFilter === option.value}
+                            onClick={() => update("chatFilter", option.value)}
+                            className={`min-h-[40px] px-3 rounded-lg border text-sm font-bold transition-colors ${draft.chatFilter === option.value
+                                ? "bg-gold-500/20 border-gold-500/40 text-gold-300"
+                                : "bg-studio-950/50 border-white/10 text-gray-400 hover:text-white"
+                                }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-[10px] text-gray-500 mt-1">
+                    {CHAT_FILTER_OPTIONS.find((o) => o.value === draft.chatFilter)?.description}
+                </p>
+                <label className="block mt-2">
+                    <span className={labelClass}>Chat slow mode (s, 0 = off)</span>
+                    <input
+                        type="number"
+                        inputMode="numeric"
+                        value={draft.chatSlowSeconds}
+                        onChange={(e) => update("chatSlowSeconds", e.target.value)}
+                        className={inputClass}
+                    />
+                </label>
+            </div>
+
+            <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="w-full min-h-[44px] px-4 rounded-lg bg-gold-500/20 hover:bg-gold-500/30 border border-gold-500/30 text-gold-300 font-bold text-sm disabled:opacity-50"
+            >
+                {isSaving ? "Saving..." : "Apply Rules"}
+            </button>
+
+            {status && (
+                <p className="text-xs text-danger-300" role="alert">{status}</p>
+            )}
+        </div>
+    );
+}
@@ -2,10 +2,12 @@
 
 import { useAccessibility } from "@/context/AccessibilityContext";
 import { useFeedbackOptional } from "@/context/FeedbackContext";
-import { useGame } from "@/context/GameContext";
+import { useGame, GameMode, GlobalLeaderboardEntry, LeaderboardSeason } from "@/context/GameContext";
 import { GlobalLeaderboardOverlay } from "@/components/GlobalLeaderboardOverlay";
 import { useState } from "react";
 
+const GLOBAL_PAGE_SIZE = 20;
+
 /**
  * SettingsPanel - Audio, Haptics, and Accessibility settings
  * 
@@ -37,26 +39,32 @@ export function SettingsPanel() {
     const [isGlobalOpen, setIsGlobalOpen] = useState(false);
     const [globalLoading, setGlobalLoading] = useState(false);
     const [globalError, setGlobalError] = useState<string | null>(null);
-    const [globalEntries, setGlobalEntries] = useState<
-        Array<{
-            rank: number;
-            publicId: string;
-            playerName: string;
-            totalPoints: number;
-            gamesPlayed: number;
-        }>
-    >([]);
+    const [globalEntries, setGlobalEntries] = useState<GlobalLeaderboardEntry[]>([]);
+    const [globalMode, setGlobalMode] = useState<GameMode>("multiplayer");
+    const [globalSeason, setGlobalSeason] = useState<LeaderboardSeason>("weekly");
+    const [globalPage, setGlobalPage] = useState(1);
+    const [globalTotalPages, setGlobalTotalPages] = useState(1);
 
-    const openGlobalLeaderboard = async () => {
+    const loadGlobalLeaderboard = async (season: LeaderboardSeason, page: number, mode: GameMode = globalMode): Promise<boolean> => {
         setGlobalError(null);
         setGlobalLoading(true);
-        const res = await getGlobalLeaderboard();
+        const res = await getGlobalLeaderboard({ mode, season, page, pageSize: GLOBAL_PAGE_SIZE });
         setGlobalLoading(false);
         if (res.success && res.leaderboard) {
             setGlobalEntries(res.leaderboard);
+            setGlobalMode(mode);
+            setGlobalSeason(season);
+            setGlobalPage(res.page || page);
+            setGlobalTotalPages(Math.max(1, Math.ceil((res.total || 0) / GLOBAL_PAGE_SIZE)));
+            return true;
+        }
+        setGlobalError(res.error || "Could not load global leaderboard.");
+        return false;
+    };
+
+    const openGlobalLeaderboard = async () => {
+        if (await loadGlobalLeaderboard(globalSeason, 1)) {
             setIsGlobalOpen(true);
-        } else {
-            setGlobalError(res.error || "Could not load global leaderboard.");
         }
     };
 
@@ -219,6 +227,14 @@ export function SettingsPanel() {
                 isOpen={isGlobalOpen}
                 onClose={() => setIsGlobalOpen(false)}
                 entries={globalEntries}
+                mode={globalMode}
+                onModeChange={(mode) => loadGlobalLeaderboard(globalSeason, 1, mode)}
+                season={globalSeason}
+                onSeasonChange={(season) => loadGlobalLeaderboard(season, 1)}
+                page={globalPage}
+                totalPages={globalTotalPages}
+                onPageChange={(page) => loadGlobalLeaderboard(globalSeason, page)}
+                isLoading={globalLoading}
             />
         </>
     );
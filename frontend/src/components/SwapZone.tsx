@@ -0,0 +1,139 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { BoxPodium } from "./BoxPodium";
+import { CountdownRingFromExpiry } from "./CountdownRing";
+import type { CurrencyCode } from "@/lib/currency";
+
+interface SwapZoneProps {
+    /** The player's own box (null for spectators) */
+    ownBoxNumber: number | null;
+    /** Unclaimed, unopened boxes the player may swap to */
+    swappableBoxes: number[];
+    /** Unix timestamp (ms) when the swap offer expires */
+    expiresAt?: number;
+    /** Total duration of the swap offer in seconds (for progress calculation) */
+    totalDuration?: number;
+    /** Time left on the swap offer while the game is paused (null while running) */
+    pausedRemainingMs?: number | null;
+    /** Whether this is the last player's swap before their box is revealed */
+    isFinal?: boolean;
+    /** Whether the current player can still decide (eligible and not yet responded) */
+    canRespond?: boolean;
+    /** Callback with the box to swap to, or null to keep their own */
+    onRespond?: (boxNumber: number | null) => void;
+    /** Error from the last attempt (e.g. the box was just taken) */
+    error?: string | null;
+}
+
+/**
+ * SwapZone - The banker's swap offer
+ *
+ * Shows the player's box next to the boxes they could swap it for. Picking one swaps
+ * straight away; "Keep My Box" declines. Players who have decided (and spectators)
+ * see a waiting state until everyone has.
+ */
+export function SwapZone({
+    ownBoxNumber,
+    swappableBoxes,
+    expiresAt,
+    totalDuration = 20,
+    pausedRemainingMs = null,
+    isFinal = false,
+    canRespond = false,
+    onRespond,
+    error,
+}: SwapZoneProps) {
+    return (
+        <div
+            role="dialog"
+            aria-labelledby="swap-zone-title"
+            className="flex flex-col items-center justify-center h-full gap-5 p-4"
+        >
+            <h2
+                id="swap-zone-title"
+                className="text-gold-300 text-sm uppercase tracking-widest font-display"
+            >
+                {isFinal ? "The Final Swap" : "The Banker Offers a Swap"}
+            </h2>
+
+            {canRespond ? (
+                <>
+                    <p className="text-gray-400 text-sm text-center max-w-xs">
+                        {isFinal
+                            ? "Keep your box, or swap it for one that is still closed. Then it's opened."
+                            : "Swap your box for any unclaimed box, or keep the one you have."}
+                    </p>
+
+                    {ownBoxNumber !== null && (
+                        <BoxPodium boxNumber={ownBoxNumber} isOwner disabled />
+                    )}
+
+                    {expiresAt && (
+                        <CountdownRingFromExpiry
+                            expiresAt={expiresAt}
+                            totalDuration={totalDuration}
+                            pausedRemainingMs={pausedRemainingMs}
+                            size={80}
+                            strokeWidth={5}
+                            color="gold"
+                        />
+                    )}
+
+                    <div className="flex flex-wrap justify-center gap-2 max-w-md" role="group" aria-label="Boxes you can swap to">
+                        {swappableBoxes.map((boxNumber) => (
+                            <BoxPodium
+                                key={boxNumber}
+                                boxNumber={boxNumber}
+                                state="selectable"
+                                onClick={() => onRespond?.(boxNumber)}
+                            />
+                        ))}
+                    </div>
+
+                    {error && <p className="text-red-400 text-sm" role="alert">{error}</p>}
+
+                    <button
+                        type="button"
+                        onClick={() => onRespond?.(null)}
+                        className="hit-44 focus-glow min-h-[48px] px-6 rounded-xl border-2 border-gold-500/50 bg-studio-800 text-gold-300 font-bold uppercase tracking-wider hover:bg-studio-700 transition-colors"
+                    >
+                        Keep My Box
+                    </button>
+                </>
+            ) : (
+                <p className="text-gray-400 text-sm" role="status">
+                    {isFinal ? "The last player is deciding whether to swap..." : "Waiting for everyone to decide..."}
+                </p>
+            )}
+        </div>
+    );
+}
+
+interface BoxRevealProps {
+    /** Box being revealed */
+    boxNumber: number;
+    /** Its value */
+    value: number;
+    /** Room currency for money values (defaults to GBP) */
+    currency?: CurrencyCode;
+}
+
+/**
+ * BoxReveal - Plays the BoxPodium reveal animation once, then shows the value
+ */
+export function BoxReveal({ boxNumber, value, currency }: BoxRevealProps) {
+    const [isRevealed, setIsRevealed] = useState(false);
+    const handleRevealComplete = useCallback(() => setIsRevealed(true), []);
+
+    return (
+        <BoxPodium
+            boxNumber={boxNumber}
+            state={isRevealed ? "opened" : "revealing"}
+            isOwner
+            revealedValue={value}
+            onRevealComplete={handleRevealComplete}
+            currency={currency}
+        />
+    );
+}
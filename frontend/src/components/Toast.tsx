@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface Toast {
+    id: number;
+    message: string;
+}
+
+/**
+ * useToasts - Short-lived notices (e.g. why the server refused a move)
+ *
+ * Each toast clears itself after `durationMs`. Showing a message that is already
+ * up restarts its timer instead of stacking a copy.
+ */
+export function useToasts(durationMs = 4000) {
+    const [toasts, setToasts] = useState<Toast[]>([]);
+    const timersRef = useRef<Map<number, ReturnType<typeof setTimeout>>>(new Map());
+    const nextIdRef = useRef(1);
+
+    const dismissToast = useCallback((id: number) => {
+        clearTimeout(timersRef.current.get(id));
+        timersRef.current.delete(id);
+        setToasts((prev) => prev.filter((t) => t.id !== id));
+    }, []);
+
+    const showToast = useCallback((message: string) => {
+        setToasts((prev) => {
+            const existing = prev.find((t) => t.message === message);
+            const id = existing?.id ?? nextIdRef.current++;
+            clearTimeout(timersRef.current.get(id));
+            timersRef.current.set(id, setTimeout(() => dismissToast(id), durationMs));
+            return existing ? prev : [...prev, { id, message }];
+        });
+    }, [dismissToast, durationMs]);
+
+    // Drop pending timers on unmount
+    useEffect(() => {
+        const timers = timersRef.current;
+        return () => timers.forEach((timer) => clearTimeout(timer));
+    }, []);
+
+    return { toasts, showToast, dismissToast };
+}
+
+interface ToastStackProps {
+    toasts: Toast[];
+    onDismiss: (id: number) => void;
+}
+
+/**
+ * ToastStack - Toasts pinned to the bottom of the screen, newest last
+ */
+export function ToastStack({ toasts, onDismiss }: ToastStackProps) {
+    return (
+        <div
+            aria-live="assertive"
+            className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-2 w-[min(24rem,calc(100vw-2rem))] pointer-events-none"
+        >
+            {toasts.map((toast) => (
+                <div
+                    key={toast.id}
+                    role="alert"
+                    className="pointer-events-auto w-full flex items-center gap-3 p-3 rounded-xl bg-danger-900/90 border border-danger-500/30 text-danger-100 text-sm font-medium shadow-2xl backdrop-blur animate-in fade-in slide-in-from-bottom-2 duration-200"
+                >
+                    <span className="flex-1">{toast.message}</span>
+                    <button
+                        type="button"
+                        onClick={() => onDismiss(toast.id)}
+                        aria-label="Dismiss"
+                        className="shrink-0 w-6 h-6 rounded-full text-danger-200 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
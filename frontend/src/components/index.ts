@@ -1,6 +1,6 @@
 // Component exports for Deal or No Deal
 export { TopBar } from "./TopBar";
-export { RemainingBoard, BOX_VALUES } from "./RemainingBoard";
+export { RemainingBoard } from "./RemainingBoard";
 export { PlayerPanel } from "./PlayerPanel";
 export { BoxGrid } from "./BoxGrid";
 export { BankerOffer, BankerWaiting } from "./BankerOffer";
@@ -15,14 +15,22 @@ export { BoxPodium, boxPodiumStyles } from "./BoxPodium";
 export type { BoxPodiumState } from "./BoxPodium";
 export { BankerScreen, bankerScreenStyles } from "./BankerScreen";
 export { OfferZone, offerZoneStyles } from "./OfferZone";
+export { SwapZone, BoxReveal } from "./SwapZone";
 
 // Auxiliary UI Components (Task 4)
 export { ChatPopup } from "./ChatPopup";
 export type { ChatMessage } from "./ChatPopup";
 export { LeaderboardOverlay } from "./LeaderboardOverlay";
-export type { LeaderboardScore } from "./LeaderboardOverlay";
+export type { LeaderboardScore, RoomTotalScore } from "./LeaderboardOverlay";
 export { GlobalLeaderboardOverlay } from "./GlobalLeaderboardOverlay";
-export type { GlobalLeaderboardEntry } from "./GlobalLeaderboardOverlay";
+export type { GlobalLeaderboardEntry, LeaderboardSeason, LeaderboardMode } from "./GlobalLeaderboardOverlay";
+export { RoomRulesPanel } from "./RoomRulesPanel";
+export { BankerBreakdown, BANKER_STRATEGY_OPTIONS } from "./BankerBreakdown";
+export { FairnessVerifier } from "./FairnessVerifier";
+export type { FairnessVerifierProps } from "./FairnessVerifier";
+export { ToastStack, useToasts } from "./Toast";
+export type { Toast } from "./Toast";
+export { CooldownNotice } from "./CooldownNotice";
 
 // Accessibility (Task 5)
 export { AccessibilityProvider, useAccessibility } from "../context/AccessibilityContext";
@@ -8,68 +8,123 @@
 
 import React, { createContext, useContext, useReducer, useCallback, useEffect, ReactNode, useRef } from 'react';
 import { useSocket } from '@/hooks/useSocket';
+import type {
+    AckErrorCode,
+    BankerOfferBreakdown,
+    BankerStrategyId,
+    BoardId,
+    BotDifficulty,
+    BoxPublicInfo,
+    ChatFilterMode,
+    ChatMessage,
+    ClientPayload,
+    DisconnectPolicy,
+    FairnessProof,
+    GameMode,
+    GamePhase,
+    GlobalLeaderboardEntryPublic,
+    GlobalLeaderboardPage,
+    GlobalLeaderboardQuery,
+    LeaderboardEntry,
+    LeaderboardSeason,
+    LeaveRule,
+    PlayerPublicInfo,
+    PlayerRole,
+    PublicRoomInfo,
+    RoomInvite,
+    RoomScoreEntry,
+    RoomSettings,
+    RoomVisibility,
+} from '@protocol/events';
+
+// Types matching backend (everything the server sends comes straight from its protocol)
+export type {
+    AckErrorCode,
+    BankerOfferBreakdown,
+    BankerStrategyId,
+    BoardId,
+    BotDifficulty,
+    ChatFilterMode,
+    ChatMessage,
+    DisconnectPolicy,
+    FairnessProof,
+    GameMode,
+    GamePhase,
+    GlobalLeaderboardPage,
+    GlobalLeaderboardQuery,
+    LeaderboardEntry,
+    LeaderboardSeason,
+    LeaveRule,
+    PlayerRole,
+    PublicRoomInfo,
+    RoomInvite,
+    RoomSettings,
+    RoomVisibility,
+};
 
-// Types matching backend
-export type PlayerRole = 'player' | 'spectator';
-
-export interface Player {
-    id: string;
-    name: string;
-    isHost: boolean;
-    isReady: boolean;
-    role: PlayerRole;
-    boxNumber: number | null;
-    hasDealt: boolean;
-    dealAmount: number | null;
-    isActive: boolean;
-    isConnected: boolean;
-}
-
-export interface Box {
-    number: number;
-    isOpened: boolean;
-    value: number | null;
-    isPlayerBox: boolean;
-    ownerId: string | null;
-}
-
-export interface ChatMessage {
-    id: string;
-    senderId: string;
-    senderName: string;
-    content: string;
-    timestamp: number;
-    isOwn?: boolean;
-}
-
-export interface LeaderboardEntry {
-    playerId: string;
-    playerName: string;
-    amount: number;
-    points: number;
-    /** True if winnings came from final box reveal (last player standing), not from taking a Deal. */
-    wasBoxValue: boolean;
-    rank: number;
-}
-
-export interface GlobalLeaderboardEntry {
-    rank: number;
-    publicId: string;
-    playerName: string;
-    totalPoints: number;
-    gamesPlayed: number;
+/** How a game action went: on failure, a code to branch on and a message to show */
+export interface ActionResult {
+    success: boolean;
+    code?: AckErrorCode;
+    error?: string;
 }
 
-export type GamePhase = 'waiting' | 'selection' | 'playing' | 'offer' | 'finished';
+/** In-game moves whose refusals the play and lobby pages surface */
+type GameActionEvent =
+    | 'select-box'
+    | 'player-ready'
+    | 'start-game'
+    | 'open-box'
+    | 'open-boxes'
+    | 'deal-response'
+    | 'swap-response'
+    | 'pause-game'
+    | 'resume-game'
+    | 'chat-message'
+    | 'report-message';
+
+export type Player = PlayerPublicInfo;
+
+export type Box = BoxPublicInfo;
+
+export type RoomScore = RoomScoreEntry;
+
+export type GlobalLeaderboardEntry = GlobalLeaderboardEntryPublic;
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+    turnTimeoutMs: 20000,
+    offerTimeoutMs: 20000,
+    swapTimeoutMs: 20000,
+    roundSchedule: [5, 4, 3, 2],
+    maxPlayers: 6,
+    minPlayersToStart: 2,
+    leaveRule: 'forfeit',
+    disconnectPolicy: 'auto-play',
+    boardId: 'uk-20',
+    boxValues: [
+        0.01, 1, 5, 10, 50, 100, 250, 500, 750, 1000,
+        3000, 5000, 10000, 15000, 20000, 35000, 50000, 75000, 100000, 250000,
+    ],
+    currency: 'GBP',
+    bankerStrategy: 'classic',
+    personalOffers: false,
+    midGameSwaps: false,
+    chatFilter: 'mask',
+    chatSlowModeMs: 0,
+};
 
 export interface GameState {
     // Connection
     isConnected: boolean;
+    /** Stable guest profile (same across rooms), issued by the server */
+    profileId: string | null;
     playerId: string | null;
     playerName: string | null;
     roomCode: string | null;
 
     // Game state
+    mode: GameMode;
+    visibility: RoomVisibility;
     phase: GamePhase;
     players: Player[];
     boxes: Box[];
@@ -80,34 +135,78 @@ export interface GameState {
     eliminatedValues: number[];
     currentOffer: number | null;
     offerExpiresAt: number | null;
+    /** Personal offers by player id (own offer only, or everyone's for spectators) */
+    playerOffers: Record<string, number>;
+
+    // Swap offer
+    swapExpiresAt: number | null;
+    /** The last player's swap before their box is revealed */
+    isFinalSwap: boolean;
+    swapEligiblePlayerIds: string[];
+    swapRespondedPlayerIds: string[];
 
     // Turn order
     currentTurnPlayerId: string | null;
     turnExpiresAt: number | null;
     isMyTurn: boolean;
 
+    // Pause: timers are frozen with pausedRemainingMs left on the running one
+    paused: boolean;
+    pausedRemainingMs: number | null;
+    /** Players who voted to pause (or, while paused, to resume) */
+    pauseVotes: string[];
+    pauseVotesNeeded: number;
+
+    // Room rules
+    settings: RoomSettings;
+
+    // Rematch history
+    gamesCompleted: number;
+    roomScores: RoomScore[];
+
+    // The banker's workings for the finished game
+    bankerOffers: BankerOfferBreakdown[];
+
+    // Provably fair box layout: commitment from the start, proof revealed at the end
+    fairnessCommitment: string | null;
+    fairness: FairnessProof | null;
+    /** The current (or just finished) game, for its replay */
+    gameId: string | null;
+
     // UI state
     recentlyOpenedBox: { boxNumber: number; value: number } | null;
     chatMessages: ChatMessage[];
+    /** The server has older chat than we have loaded */
+    hasOlderChat: boolean;
+    /** Oldest message the server has sent us in a history page (where the next page starts) */
+    chatHistoryCursor: string | null;
     leaderboard: LeaderboardEntry[];
     error: string | null;
+    /** Throttled by the server: when we may act again (Unix ms) */
+    rateLimitedUntil: number | null;
 }
 
 type GameAction =
     | { type: 'SET_CONNECTED'; payload: boolean }
+    | { type: 'SET_PROFILE'; payload: string }
     | { type: 'SET_PLAYER'; payload: { playerId: string; playerName: string } }
     | { type: 'SET_ROOM'; payload: string }
     | { type: 'UPDATE_GAME_STATE'; payload: Partial<GameState> }
     | { type: 'ADD_CHAT_MESSAGE'; payload: ChatMessage }
+    | { type: 'MERGE_CHAT_HISTORY'; payload: { messages: ChatMessage[]; hasMore: boolean } }
     | { type: 'SET_LEADERBOARD'; payload: LeaderboardEntry[] }
     | { type: 'SET_ERROR'; payload: string | null }
+    | { type: 'SET_RATE_LIMITED'; payload: number | null }
     | { type: 'RESET' };
 
 const initialState: GameState = {
     isConnected: false,
+    profileId: null,
     playerId: null,
     playerName: null,
     roomCode: null,
+    mode: 'multiplayer',
+    visibility: 'private',
     phase: 'waiting',
     players: [],
     boxes: [],
@@ -118,19 +217,50 @@ const initialState: GameState = {
     eliminatedValues: [],
     currentOffer: null,
     offerExpiresAt: null,
+    playerOffers: {},
+    swapExpiresAt: null,
+    isFinalSwap: false,
+    swapEligiblePlayerIds: [],
+    swapRespondedPlayerIds: [],
     currentTurnPlayerId: null,
     turnExpiresAt: null,
     isMyTurn: false,
+    paused: false,
+    pausedRemainingMs: null,
+    pauseVotes: [],
+    pauseVotesNeeded: 1,
+    settings: DEFAULT_ROOM_SETTINGS,
+    gamesCompleted: 0,
+    roomScores: [],
+    bankerOffers: [],
+    fairnessCommitment: null,
+    fairness: null,
+    gameId: null,
     recentlyOpenedBox: null,
     chatMessages: [],
+    hasOlderChat: false,
+    chatHistoryCursor: null,
     leaderboard: [],
     error: null,
+    rateLimitedUntil: null,
 };
 
+/**
+ * Chat history and live messages can overlap (a message sent while the snapshot was on
+ * its way, or a reconnect), so merge by id and keep them in the order they were sent
+ */
+function mergeChatMessages(current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+    const byId = new Map(current.map((m) => [m.id, m]));
+    incoming.forEach((m) => byId.set(m.id, m));
+    return Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp || a.seq - b.seq);
+}
+
 function gameReducer(state: GameState, action: GameAction): GameState {
     switch (action.type) {
         case 'SET_CONNECTED':
             return { ...state, isConnected: action.payload };
+        case 'SET_PROFILE':
+            return { ...state, profileId: action.payload };
         case 'SET_PLAYER':
             return {
                 ...state,
@@ -153,11 +283,29 @@ function gameReducer(state: GameState, action: GameAction): GameState {
                 eliminatedValues: [],
                 currentOffer: null,
                 offerExpiresAt: null,
+                playerOffers: {},
+                swapExpiresAt: null,
+                isFinalSwap: false,
+                swapEligiblePlayerIds: [],
+                swapRespondedPlayerIds: [],
                 currentTurnPlayerId: null,
                 turnExpiresAt: null,
                 isMyTurn: false,
+                paused: false,
+                pausedRemainingMs: null,
+                pauseVotes: [],
+                pauseVotesNeeded: 1,
+                settings: DEFAULT_ROOM_SETTINGS,
+                gamesCompleted: 0,
+                roomScores: [],
+                bankerOffers: [],
+                fairnessCommitment: null,
+                fairness: null,
+                gameId: null,
                 recentlyOpenedBox: null,
                 chatMessages: [],
+                hasOlderChat: false,
+                chatHistoryCursor: null,
                 leaderboard: [],
                 error: null,
             };
@@ -177,14 +325,32 @@ function gameReducer(state: GameState, action: GameAction): GameState {
         case 'ADD_CHAT_MESSAGE':
             return {
                 ...state,
-                chatMessages: [...state.chatMessages, action.payload].slice(-100)
+                chatMessages: mergeChatMessages(state.chatMessages, [action.payload]).slice(-100)
             };
+        case 'MERGE_CHAT_HISTORY': {
+            const chatMessages = mergeChatMessages(state.chatMessages, action.payload.messages);
+            const pageStart = action.payload.messages[0]?.id ?? null;
+            const position = (id: string | null) => chatMessages.findIndex((m) => m.id === id);
+            // A latest page resent after a reconnect doesn't undo paging further back
+            if (pageStart && position(state.chatHistoryCursor) !== -1 && position(pageStart) > position(state.chatHistoryCursor)) {
+                return { ...state, chatMessages };
+            }
+            return {
+                ...state,
+                chatMessages,
+                hasOlderChat: action.payload.hasMore,
+                chatHistoryCursor: pageStart ?? state.chatHistoryCursor,
+            };
+        }
         case 'SET_LEADERBOARD':
             return { ...state, leaderboard: action.payload };
         case 'SET_ERROR':
             return { ...state, error: action.payload };
+        case 'SET_RATE_LIMITED':
+            return { ...state, rateLimitedUntil: action.payload };
         case 'RESET':
-            return initialState;
+            // The guest profile (and any server cooldown) outlives any single room
+            return { ...initialState, isConnected: state.isConnected, profileId: state.profileId, rateLimitedUntil: state.rateLimitedUntil };
         default:
             return state;
     }
@@ -193,17 +359,40 @@ function gameReducer(state: GameState, action: GameAction): GameState {
 interface GameContextValue {
     state: GameState;
     // Actions
-    createRoom: (playerName: string) => Promise<{ success: boolean; roomCode?: string; error?: string }>;
-    joinRoom: (roomCode: string, playerName: string, options?: { password?: string; asSpectator?: boolean }) => Promise<{ success: boolean; error?: string }>;
+    createRoom: (playerName: string, options?: { mode?: GameMode; visibility?: RoomVisibility }) => Promise<{ success: boolean; roomCode?: string; error?: string }>;
+    joinRoom: (roomCode: string, playerName: string, options?: { password?: string; asSpectator?: boolean; inviteToken?: string }) => Promise<{ success: boolean; error?: string }>;
     setRoomPassword: (password: string | null) => Promise<{ success: boolean; error?: string }>;
-    getGlobalLeaderboard: () => Promise<{ success: boolean; leaderboard?: GlobalLeaderboardEntry[]; error?: string }>;
-    selectBox: (boxNumber: number) => void;
-    setReady: () => void;
-    startGame: () => void;
-    openBox: (boxNumber: number) => void;
-    openBoxes: (boxNumbers: number[]) => void;
-    respondToDeal: (accepted: boolean) => void;
-    sendChatMessage: (content: string) => void;
+    /** Host only: defaults to a single-use invite that lasts an hour */
+    createInvite: (options?: { expiresInMs?: number; maxUses?: number }) => Promise<{ success: boolean; invite?: RoomInvite; error?: string }>;
+    setRoomVisibility: (visibility: RoomVisibility) => Promise<{ success: boolean; error?: string }>;
+    listPublicRooms: () => Promise<{ success: boolean; rooms: PublicRoomInfo[] }>;
+    /** Queue for a match; once found, the room is set in state like after joinRoom */
+    joinQuickPlay: (playerName: string) => Promise<{ success: boolean; waiting?: number; error?: string }>;
+    leaveQuickPlay: () => void;
+    updateRoomSettings: (settings: Partial<RoomSettings>) => Promise<{ success: boolean; error?: string }>;
+    kickPlayer: (playerId: string) => Promise<{ success: boolean; error?: string }>;
+    banPlayer: (playerId: string) => Promise<{ success: boolean; error?: string }>;
+    transferHost: (playerId: string) => Promise<{ success: boolean; error?: string }>;
+    /** Host only: stop (or, with muted false, let again) a player posting in chat */
+    mutePlayer: (playerId: string, muted: boolean) => Promise<{ success: boolean; error?: string }>;
+    addBot: (difficulty: BotDifficulty) => Promise<{ success: boolean; error?: string }>;
+    /** The host pauses at once; anyone else casts a vote */
+    pauseGame: () => Promise<ActionResult>;
+    resumeGame: () => Promise<ActionResult>;
+    getGlobalLeaderboard: (query?: GlobalLeaderboardQuery) => Promise<{ success: boolean; error?: string } & Partial<GlobalLeaderboardPage>>;
+    selectBox: (boxNumber: number) => Promise<ActionResult>;
+    setReady: () => Promise<ActionResult>;
+    startGame: () => Promise<ActionResult>;
+    requestRematch: () => Promise<{ success: boolean; error?: string }>;
+    openBox: (boxNumber: number) => Promise<ActionResult>;
+    openBoxes: (boxNumbers: number[]) => Promise<ActionResult>;
+    respondToDeal: (accepted: boolean) => Promise<ActionResult>;
+    respondToSwap: (boxNumber: number | null) => Promise<ActionResult>;
+    sendChatMessage: (content: string) => Promise<ActionResult>;
+    /** Fetch the page of chat before the oldest message we have */
+    loadOlderChat: () => Promise<{ success: boolean; error?: string }>;
+    /** Flag someone else's message to the host */
+    reportMessage: (messageId: string, reason?: string) => Promise<ActionResult>;
     leaveRoom: () => void;
 }
 
@@ -223,6 +412,11 @@ export function GameProvider({ children }: { children: ReactNode }) {
     const STORAGE_PLAYER_ID = 'dond_player_id';
     const STORAGE_PLAYER_NAME = 'dond_player_name';
     const STORAGE_ROOM_CODE = 'dond_room_code';
+    // The guest profile token is shared by all tabs (localStorage) so results link to one profile.
+    const STORAGE_PROFILE_TOKEN = 'dond_profile_token';
+    const profileTokenRef = useRef<string | null>(null);
+    // Name we queued for Quick Play with (the match only carries the room and player ID)
+    const quickPlayNameRef = useRef<string | null>(null);
 
     // Update connection state
     useEffect(() => {
@@ -233,24 +427,12 @@ export function GameProvider({ children }: { children: ReactNode }) {
     useEffect(() => {
         if (!socket) return;
 
-        const unsubscribeGameState = on<{
-            phase: GamePhase;
-            players: Player[];
-            boxes: Box[];
-            currentRound: number;
-            boxesToOpenThisRound: number;
-            boxesOpenedThisRound: number[];
-            remainingValues: number[];
-            eliminatedValues: number[];
-            currentOffer: number | null;
-            offerExpiresAt: number | null;
-            currentTurnPlayerId: string | null;
-            turnExpiresAt: number | null;
-            recentlyOpenedBox?: { boxNumber: number; value: number };
-        }>('game-state-update', (data) => {
+        const unsubscribeGameState = on('game-state-update', (data) => {
             dispatch({
                 type: 'UPDATE_GAME_STATE',
                 payload: {
+                    mode: data.mode ?? 'multiplayer',
+                    visibility: data.visibility ?? 'private',
                     phase: data.phase,
                     players: data.players,
                     boxes: data.boxes,
@@ -261,38 +443,111 @@ export function GameProvider({ children }: { children: ReactNode }) {
                     eliminatedValues: data.eliminatedValues,
                     currentOffer: data.currentOffer,
                     offerExpiresAt: data.offerExpiresAt,
+                    playerOffers: data.playerOffers || {},
+                    swapExpiresAt: data.swapExpiresAt ?? null,
+                    isFinalSwap: !!data.isFinalSwap,
+                    swapEligiblePlayerIds: data.swapEligiblePlayerIds || [],
+                    swapRespondedPlayerIds: data.swapRespondedPlayerIds || [],
                     currentTurnPlayerId: data.currentTurnPlayerId,
                     turnExpiresAt: data.turnExpiresAt,
+                    paused: !!data.paused,
+                    pausedRemainingMs: data.pausedRemainingMs ?? null,
+                    pauseVotes: data.pauseVotes || [],
+                    pauseVotesNeeded: data.pauseVotesNeeded ?? 1,
+                    settings: data.settings,
+                    gamesCompleted: data.gamesCompleted,
+                    roomScores: data.roomScores,
                     recentlyOpenedBox: data.recentlyOpenedBox || null,
+                    bankerOffers: data.bankerOffers || [],
+                    fairnessCommitment: data.fairnessCommitment ?? null,
+                    gameId: data.gameId ?? null,
+                    // The proof arrives with game-ended; drop it once a rematch starts
+                    ...(data.phase !== 'finished' && { fairness: null }),
                 },
             });
         });
 
-        const unsubscribeChat = on<ChatMessage>('chat-message', (message) => {
+        const unsubscribeChat = on('chat-message', (message) => {
             dispatch({ type: 'ADD_CHAT_MESSAGE', payload: message });
         });
 
-        const unsubscribeGameEnded = on<{ leaderboard: LeaderboardEntry[] }>('game-ended', (data) => {
+        // The latest page of chat, sent when we join or reconnect
+        const unsubscribeChatHistory = on('chat-history', (data) => {
+            dispatch({ type: 'MERGE_CHAT_HISTORY', payload: { messages: data.messages, hasMore: data.hasMore } });
+        });
+
+        const unsubscribeGameEnded = on('game-ended', (data) => {
             dispatch({ type: 'SET_LEADERBOARD', payload: data.leaderboard });
+            dispatch({ type: 'UPDATE_GAME_STATE', payload: { fairness: data.fairness ?? null } });
         });
 
-        const unsubscribeLeaderboardUpdate = on<{ leaderboard: LeaderboardEntry[] }>('leaderboard-update', (data) => {
+        const unsubscribeLeaderboardUpdate = on('leaderboard-update', (data) => {
             dispatch({ type: 'SET_LEADERBOARD', payload: data.leaderboard });
         });
 
-        const unsubscribePlayerLeft = on<{ playerId: string }>('player-left', (data) => {
+        const unsubscribePlayerLeft = on('player-left', (data) => {
             console.log('[Game] Player left:', data.playerId);
         });
 
+        // Removed by the host: drop the session so we don't try to reconnect into the room.
+        const unsubscribeKicked = on('kicked', (data) => {
+            sessionStorage.removeItem(STORAGE_PLAYER_ID);
+            sessionStorage.removeItem(STORAGE_PLAYER_NAME);
+            sessionStorage.removeItem(STORAGE_ROOM_CODE);
+            lastReconnectedSocketIdRef.current = null;
+            dispatch({ type: 'RESET' });
+            dispatch({
+                type: 'SET_ERROR',
+                payload: data.reason === 'banned'
+                    ? 'You were banned from the room by the host.'
+                    : 'You were removed from the room by the host.',
+            });
+        });
+
+        // Quick Play found a room: we're already seated in it
+        const unsubscribeQuickPlay = on('quick-play-matched', (data) => {
+            const playerName = quickPlayNameRef.current || 'Player';
+            quickPlayNameRef.current = null;
+            dispatch({ type: 'SET_PLAYER', payload: { playerId: data.playerId, playerName } });
+            dispatch({ type: 'SET_ROOM', payload: data.roomCode });
+            sessionStorage.setItem(STORAGE_PLAYER_ID, data.playerId);
+            sessionStorage.setItem(STORAGE_PLAYER_NAME, playerName);
+            sessionStorage.setItem(STORAGE_ROOM_CODE, data.roomCode);
+        });
+
+        // Throttled: remember when we can act again so the pages can show a cooldown
+        const unsubscribeRateLimited = on('rate-limited', (data) => {
+            dispatch({ type: 'SET_RATE_LIMITED', payload: Date.now() + data.retryAfterMs });
+        });
+
         return () => {
             unsubscribeGameState();
+            unsubscribeQuickPlay();
+            unsubscribeRateLimited();
             unsubscribeChat();
+            unsubscribeChatHistory();
             unsubscribeGameEnded();
             unsubscribeLeaderboardUpdate();
             unsubscribePlayerLeft();
+            unsubscribeKicked();
         };
     }, [socket, on]);
 
+    // Fetch (or get issued) the guest profile token once connected.
+    useEffect(() => {
+        if (!socket || !isConnected) return;
+        if (typeof window === 'undefined') return;
+
+        const storedToken = localStorage.getItem(STORAGE_PROFILE_TOKEN);
+        emit('get-profile', { token: storedToken || undefined }, (response) => {
+            if (response.success && response.profileId && response.token) {
+                profileTokenRef.current = response.token;
+                localStorage.setItem(STORAGE_PROFILE_TOKEN, response.token);
+                dispatch({ type: 'SET_PROFILE', payload: response.profileId });
+            }
+        });
+    }, [socket, isConnected, emit]);
+
     // Reconnect to an existing player session whenever the transport connects/reconnects.
     // This covers:
     // - page refresh (state resets, sessionStorage persists)
@@ -313,7 +568,7 @@ export function GameProvider({ children }: { children: ReactNode }) {
 
         reconnectInFlightRef.current = true;
 
-        emit('reconnect-player', { playerId: storedPlayerId }, (response: { success: boolean; roomCode?: string; error?: string }) => {
+        emit('reconnect-player', { playerId: storedPlayerId }, (response) => {
             reconnectInFlightRef.current = false;
 
             if (response.success && response.roomCode) {
@@ -338,9 +593,12 @@ export function GameProvider({ children }: { children: ReactNode }) {
     }, [socket, isConnected, emit, state.playerName]);
 
     // Actions
-    const createRoom = useCallback(async (playerName: string): Promise<{ success: boolean; roomCode?: string; error?: string }> => {
+    const createRoom = useCallback(async (
+        playerName: string,
+        options: { mode?: GameMode; visibility?: RoomVisibility } = {}
+    ): Promise<{ success: boolean; roomCode?: string; error?: string }> => {
         return new Promise((resolve) => {
-            emit('create-room', { playerName }, (response: { success: boolean; roomCode?: string; playerId?: string; error?: string }) => {
+            emit('create-room', { playerName, ...options, profileToken: profileTokenRef.current || undefined }, (response) => {
                 if (response.success && response.roomCode && response.playerId) {
                     dispatch({ type: 'SET_PLAYER', payload: { playerId: response.playerId, playerName } });
                     dispatch({ type: 'SET_ROOM', payload: response.roomCode });
@@ -360,10 +618,10 @@ export function GameProvider({ children }: { children: ReactNode }) {
     const joinRoom = useCallback(async (
         roomCode: string,
         playerName: string,
-        options: { password?: string; asSpectator?: boolean } = {}
+        options: { password?: string; asSpectator?: boolean; inviteToken?: string } = {}
     ): Promise<{ success: boolean; error?: string }> => {
         return new Promise((resolve) => {
-            emit('join-room', { roomCode, playerName, ...options }, (response: { success: boolean; playerId?: string; error?: string }) => {
+            emit('join-room', { roomCode, playerName, ...options, profileToken: profileTokenRef.current || undefined }, (response) => {
                 if (response.success && response.playerId) {
                     dispatch({ type: 'SET_PLAYER', payload: { playerId: response.playerId, playerName } });
                     dispatch({ type: 'SET_ROOM', payload: roomCode.toUpperCase() });
@@ -382,54 +640,202 @@ export function GameProvider({ children }: { children: ReactNode }) {
 
     const setRoomPassword = useCallback(async (password: string | null): Promise<{ success: boolean; error?: string }> => {
         return new Promise((resolve) => {
-            emit('set-room-password', { password }, (response: { success: boolean; error?: string }) => {
+            emit('set-room-password', { password }, (response) => {
                 if (response.success) resolve({ success: true });
                 else resolve({ success: false, error: response.error || 'Failed to set password' });
             });
         });
     }, [emit]);
 
-    const getGlobalLeaderboard = useCallback(async (): Promise<{ success: boolean; leaderboard?: GlobalLeaderboardEntry[]; error?: string }> => {
+    const createInvite = useCallback(async (
+        options: { expiresInMs?: number; maxUses?: number } = {}
+    ): Promise<{ success: boolean; invite?: RoomInvite; error?: string }> => {
         return new Promise((resolve) => {
-            emit('get-global-leaderboard', {}, (response: { success: boolean; leaderboard?: GlobalLeaderboardEntry[]; error?: string }) => {
-                if (response.success && response.leaderboard) {
-                    resolve({ success: true, leaderboard: response.leaderboard });
+            emit('create-invite', options, (response) => {
+                if (response.success && response.invite) resolve({ success: true, invite: response.invite });
+                else resolve({ success: false, error: response.error || 'Failed to create an invite' });
+            });
+        });
+    }, [emit]);
+
+    const setRoomVisibility = useCallback(async (visibility: RoomVisibility): Promise<{ success: boolean; error?: string }> => {
+        return new Promise((resolve) => {
+            emit('set-room-visibility', { visibility }, (response) => {
+                if (response.success) resolve({ success: true });
+                else resolve({ success: false, error: response.error || 'Failed to change room visibility' });
+            });
+        });
+    }, [emit]);
+
+    const listPublicRooms = useCallback(async (): Promise<{ success: boolean; rooms: PublicRoomInfo[] }> => {
+        return new Promise((resolve) => {
+            emit('list-public-rooms', {}, (response) => {
+                resolve({ success: !!response.success, rooms: response.rooms || [] });
+            });
+        });
+    }, [emit]);
+
+    const joinQuickPlay = useCallback(async (playerName: string): Promise<{ success: boolean; waiting?: number; error?: string }> => {
+        quickPlayNameRef.current = playerName;
+        return new Promise((resolve) => {
+            emit('join-quick-play', { playerName, profileToken: profileTokenRef.current || undefined }, (response) => {
+                if (response.success) {
+                    resolve({ success: true, waiting: response.waiting });
                 } else {
-                    resolve({ success: false, error: response.error || 'Failed to load global leaderboard' });
+                    quickPlayNameRef.current = null;
+                    resolve({ success: false, error: response.error || 'Failed to join Quick Play' });
                 }
             });
         });
     }, [emit]);
 
-    const selectBox = useCallback((boxNumber: number) => {
-        emit('select-box', { boxNumber });
+    const leaveQuickPlay = useCallback(() => {
+        quickPlayNameRef.current = null;
+        emit('leave-quick-play', {});
     }, [emit]);
 
-    const setReady = useCallback(() => {
-        emit('player-ready');
+    const requestRematch = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
+        return new Promise((resolve) => {
+            emit('request-rematch', {}, (response) => {
+                if (response.success) resolve({ success: true });
+                else resolve({ success: false, error: response.error || 'Failed to start rematch' });
+            });
+        });
+    }, [emit]);
+
+    const updateRoomSettings = useCallback(async (settings: Partial<RoomSettings>): Promise<{ success: boolean; error?: string }> => {
+        return new Promise((resolve) => {
+            emit('update-room-settings', { settings }, (response) => {
+                if (response.success) resolve({ success: true });
+                else resolve({ success: false, error: response.error || 'Failed to update room rules' });
+            });
+        });
     }, [emit]);
 
-    const startGame = useCallback(() => {
-        emit('start-game');
+    const emitHostAction = useCallback((event: 'kick-player' | 'ban-player' | 'transfer-host', playerId: string, fallbackError: string): Promise<{ success: boolean; error?: string }> => {
+        return new Promise((resolve) => {
+            emit(event, { playerId }, (response) => {
+                if (response.success) resolve({ success: true });
+                else resolve({ success: false, error: response.error || fallbackError });
+            });
+        });
     }, [emit]);
 
-    const openBox = useCallback((boxNumber: number) => {
-        emit('open-box', { boxNumber });
+    const kickPlayer = useCallback((playerId: string) => (
+        emitHostAction('kick-player', playerId, 'Failed to remove player')
+    ), [emitHostAction]);
+
+    const banPlayer = useCallback((playerId: string) => (
+        emitHostAction('ban-player', playerId, 'Failed to ban player')
+    ), [emitHostAction]);
+
+    const transferHost = useCallback((playerId: string) => (
+        emitHostAction('transfer-host', playerId, 'Failed to transfer host')
+    ), [emitHostAction]);
+
+    const mutePlayer = useCallback(async (playerId: string, muted: boolean): Promise<{ success: boolean; error?: string }> => {
+        return new Promise((resolve) => {
+            emit('mute-player', { playerId, muted }, (response) => {
+                if (response.success) resolve({ success: true });
+                else resolve({ success: false, error: response.error || (muted ? 'Failed to mute player' : 'Failed to unmute player') });
+            });
+        });
     }, [emit]);
 
-    const openBoxes = useCallback((boxNumbers: number[]) => {
-        emit('open-boxes', { boxNumbers });
+    const addBot = useCallback(async (difficulty: BotDifficulty): Promise<{ success: boolean; error?: string }> => {
+        return new Promise((resolve) => {
+            emit('add-bot', { difficulty }, (response) => {
+                if (response.success) resolve({ success: true });
+                else resolve({ success: false, error: response.error || 'Failed to add a bot' });
+            });
+        });
     }, [emit]);
 
-    const respondToDeal = useCallback((accepted: boolean) => {
-        emit('deal-response', { accepted });
+    const getGlobalLeaderboard = useCallback(async (
+        query: GlobalLeaderboardQuery = {}
+    ): Promise<{ success: boolean; error?: string } & Partial<GlobalLeaderboardPage>> => {
+        return new Promise((resolve) => {
+            emit('get-global-leaderboard', query, (response) => {
+                if (response.success && response.leaderboard) {
+                    resolve({ ...response, success: true });
+                } else {
+                    resolve({ success: false, error: response.error || 'Failed to load global leaderboard' });
+                }
+            });
+        });
     }, [emit]);
 
-    const sendChatMessage = useCallback((content: string) => {
-        emit('chat-message', { content });
+    const emitAction = useCallback(<E extends GameActionEvent>(event: E, payload: ClientPayload<E>, fallbackError: string): Promise<ActionResult> => {
+        return new Promise((resolve) => {
+            emit(event, payload, (response) => {
+                if (response.success) resolve({ success: true });
+                else resolve({ success: false, code: response.code, error: response.error || fallbackError });
+            });
+        });
     }, [emit]);
 
+    const selectBox = useCallback((boxNumber: number) => (
+        emitAction('select-box', { boxNumber }, 'Could not pick that box')
+    ), [emitAction]);
+
+    const setReady = useCallback(() => (
+        emitAction('player-ready', undefined, 'Could not lock in your box')
+    ), [emitAction]);
+
+    const startGame = useCallback(() => (
+        emitAction('start-game', undefined, 'Could not start the game')
+    ), [emitAction]);
+
+    const openBox = useCallback((boxNumber: number) => (
+        emitAction('open-box', { boxNumber }, 'Could not open that box')
+    ), [emitAction]);
+
+    const openBoxes = useCallback((boxNumbers: number[]) => (
+        emitAction('open-boxes', { boxNumbers }, 'Could not open that box')
+    ), [emitAction]);
+
+    const respondToDeal = useCallback((accepted: boolean) => (
+        emitAction('deal-response', { accepted }, 'Could not answer the banker')
+    ), [emitAction]);
+
+    const respondToSwap = useCallback((boxNumber: number | null) => (
+        emitAction('swap-response', { boxNumber }, 'Could not swap boxes')
+    ), [emitAction]);
+
+    const pauseGame = useCallback(() => (
+        emitAction('pause-game', undefined, 'Could not pause the game')
+    ), [emitAction]);
+
+    const resumeGame = useCallback(() => (
+        emitAction('resume-game', undefined, 'Could not resume the game')
+    ), [emitAction]);
+
+    const sendChatMessage = useCallback((content: string) => (
+        emitAction('chat-message', { content }, 'Could not send your message')
+    ), [emitAction]);
+
+    // Not simply the oldest message shown: notices only we were sent aren't in the server's history
+    const chatHistoryCursor = state.chatHistoryCursor ?? undefined;
+    const loadOlderChat = useCallback(async (): Promise<{ success: boolean; error?: string }> => {
+        return new Promise((resolve) => {
+            emit('get-chat-history', { before: chatHistoryCursor }, (response) => {
+                if (response.success && response.messages) {
+                    dispatch({ type: 'MERGE_CHAT_HISTORY', payload: { messages: response.messages, hasMore: !!response.hasMore } });
+                    resolve({ success: true });
+                } else {
+                    resolve({ success: false, error: response.error || 'Could not load earlier messages' });
+                }
+            });
+        });
+    }, [emit, chatHistoryCursor]);
+
+    const reportMessage = useCallback((messageId: string, reason?: string) => (
+        emitAction('report-message', { messageId, reason }, 'Could not report that message')
+    ), [emitAction]);
+
     const leaveRoom = useCallback(() => {
+        // Tell the server first so we don't linger as a disconnected player holding a box/turn
+        emit('leave-room', {});
         dispatch({ type: 'RESET' });
         if (typeof window !== 'undefined') {
             sessionStorage.removeItem(STORAGE_PLAYER_ID);
@@ -438,7 +844,7 @@ export function GameProvider({ children }: { children: ReactNode }) {
         }
         lastReconnectedSocketIdRef.current = null;
         reconnectInFlightRef.current = false;
-    }, []);
+    }, [emit]);
 
     const value: GameContextValue = {
         state: {
@@ -448,14 +854,31 @@ export function GameProvider({ children }: { children: ReactNode }) {
         createRoom,
         joinRoom,
         setRoomPassword,
+        createInvite,
+        setRoomVisibility,
+        listPublicRooms,
+        joinQuickPlay,
+        leaveQuickPlay,
+        updateRoomSettings,
+        kickPlayer,
+        banPlayer,
+        transferHost,
+        mutePlayer,
+        addBot,
+        pauseGame,
+        resumeGame,
         getGlobalLeaderboard,
         selectBox,
         setReady,
         startGame,
+        requestRematch,
         openBox,
         openBoxes,
         respondToDeal,
+        respondToSwap,
         sendChatMessage,
+        loadOlderChat,
+        reportMessage,
         leaveRoom,
     };
 
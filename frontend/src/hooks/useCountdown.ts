@@ -154,6 +154,9 @@ export function useCountdown({
 /**
  * useCountdownFromExpiry - Calculate countdown from an expiry timestamp
  * 
+ * While `pausedRemainingMs` is set (the game is paused) the countdown is frozen at
+ * that many milliseconds and never completes.
+ * 
  * @example
  * ```tsx
  * const expiresAt = Date.now() + 30000; // 30 seconds from now
@@ -167,6 +170,7 @@ export function useCountdownFromExpiry({
     expiresAt,
     totalDuration,
     onComplete,
+    pausedRemainingMs = null,
 }: {
     /** Unix timestamp (ms) when the countdown expires */
     expiresAt: number;
@@ -174,7 +178,10 @@ export function useCountdownFromExpiry({
     totalDuration: number;
     /** Optional callback when countdown completes */
     onComplete?: () => void;
+    /** Time left when the game was paused (null while running) */
+    pausedRemainingMs?: number | null;
 }): UseCountdownReturn {
+    const isFrozen = pausedRemainingMs !== null;
     const [isMounted, setIsMounted] = useState(false);
     const [, forceUpdate] = useState(0);
     const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -183,6 +190,7 @@ export function useCountdownFromExpiry({
     useEffect(() => {
         setIsMounted(true);
         hasCompletedRef.current = false;
+        if (isFrozen) return;
 
         intervalRef.current = setInterval(() => {
             if (document.hidden) return; // Pause updates when tab is hidden to save resources
@@ -200,7 +208,7 @@ export function useCountdownFromExpiry({
                 clearInterval(intervalRef.current);
             }
         };
-    }, [expiresAt, onComplete]);
+    }, [expiresAt, onComplete, isFrozen]);
 
     // Initial server-side/hydration render
     if (!isMounted) {
@@ -215,8 +223,7 @@ export function useCountdownFromExpiry({
         };
     }
 
-    const now = Date.now();
-    const msRemaining = Math.max(0, expiresAt - now);
+    const msRemaining = isFrozen ? pausedRemainingMs : Math.max(0, expiresAt - Date.now());
     const timeRemaining = msRemaining / 1000;
     const progress = Math.max(0, Math.min(1, timeRemaining / totalDuration));
     const strokeDashoffset = (1 - progress) * 283;
@@ -224,7 +231,7 @@ export function useCountdownFromExpiry({
     return {
         timeRemaining: Math.ceil(timeRemaining),
         progress,
-        isRunning: msRemaining > 0,
+        isRunning: !isFrozen && msRemaining > 0,
         start: () => { },
         pause: () => { },
         reset: () => { },
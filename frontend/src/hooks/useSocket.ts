@@ -1,40 +1,51 @@
 /**
  * WebSocket hook for Socket.io connection
  * 
- * Provides connection management and typed event handling
+ * Provides connection management and typed event handling (event names, payloads and
+ * acks come from the backend's protocol module)
  */
 
 'use client';
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
+import type {
+    ClientAck,
+    ClientEventName,
+    ClientPayload,
+    ClientToServerEvents,
+    ServerEventName,
+    ServerToClientEvents,
+} from '@protocol/events';
 
-const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || 'http://localhost:3001';
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || 'http://localhost:3001';
 
 export interface UseSocketOptions {
     autoConnect?: boolean;
 }
 
 export interface UseSocketReturn {
-    socket: Socket | null;
+    socket: GameSocket | null;
     isConnected: boolean;
     connect: () => void;
     disconnect: () => void;
-    emit: <T = unknown, R = unknown>(event: string, data?: T, callback?: (response: R) => void) => void;
-    on: <T = unknown>(event: string, handler: (data: T) => void) => () => void;
-    off: (event: string) => void;
+    emit: <E extends ClientEventName>(event: E, data?: ClientPayload<E>, callback?: ClientAck<E>) => void;
+    on: <E extends ServerEventName>(event: E, handler: ServerToClientEvents[E]) => () => void;
+    off: (event: ServerEventName) => void;
 }
 
 export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
     const { autoConnect = true } = options;
-    const socketRef = useRef<Socket | null>(null);
+    const socketRef = useRef<GameSocket | null>(null);
     const [isConnected, setIsConnected] = useState(false);
 
     // Initialise socket
     useEffect(() => {
         if (!autoConnect) return;
 
-        const socket = io(SOCKET_URL, {
+        const socket: GameSocket = io(SOCKET_URL, {
             transports: ['websocket', 'polling'],
             autoConnect: true,
             reconnection: true,
@@ -77,34 +88,38 @@ export function useSocket(options: UseSocketOptions = {}): UseSocketReturn {
         }
     }, []);
 
-    const emit = useCallback(<T = unknown, R = unknown>(
-        event: string,
-        data?: T,
-        callback?: (response: R) => void
+    // Socket.io can't narrow its overloads on a generic event name, so the typed
+    // signatures above are enforced here and the calls go through the untyped socket
+    const emit = useCallback(<E extends ClientEventName>(
+        event: E,
+        data?: ClientPayload<E>,
+        callback?: ClientAck<E>
     ) => {
-        if (socketRef.current) {
+        const socket = socketRef.current as Socket | null;
+        if (socket) {
             if (callback) {
-                socketRef.current.emit(event, data, callback as (response: unknown) => void);
+                socket.emit(event, data, callback);
             } else {
-                socketRef.current.emit(event, data);
+                socket.emit(event, data);
             }
         }
-    }, []) as <T = unknown, R = unknown>(event: string, data?: T, callback?: (response: R) => void) => void;
+    }, []);
 
-    const on = useCallback(<T = unknown>(
-        event: string,
-        handler: (data: T) => void
+    const on = useCallback(<E extends ServerEventName>(
+        event: E,
+        handler: ServerToClientEvents[E]
     ): (() => void) => {
-        if (socketRef.current) {
-            socketRef.current.on(event, handler as (...args: unknown[]) => void);
+        const socket = socketRef.current as Socket | null;
+        if (socket) {
+            socket.on(event as string, handler as (...args: unknown[]) => void);
             return () => {
-                socketRef.current?.off(event, handler as (...args: unknown[]) => void);
+                socket.off(event as string, handler as (...args: unknown[]) => void);
             };
         }
         return () => { };
     }, []);
 
-    const off = useCallback((event: string) => {
+    const off = useCallback((event: ServerEventName) => {
         if (socketRef.current) {
             socketRef.current.off(event);
         }
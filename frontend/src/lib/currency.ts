@@ -1,117 +1,147 @@
 /**
- * Currency formatting utilities for UK pounds
- * Provides consistent currency display across the application
+ * Currency formatting utilities
+ * Provides consistent money display across the application, in the room's currency
  */
 
+import type { Currency } from "@protocol/events";
+
+/** Room currency ("POINTS" shows plain numbers with no currency symbol) */
+export type CurrencyCode = Currency;
+
+export const DEFAULT_CURRENCY: CurrencyCode = "GBP";
+
+interface CurrencyConfig {
+    /** Locale used for grouping, symbol placement and compact suffixes */
+    locale: string;
+    /** Suffix for values under one unit (e.g. "p" for 1p), or null to show decimals */
+    minorUnit: string | null;
+}
+
+const CURRENCIES: Record<CurrencyCode, CurrencyConfig> = {
+    GBP: { locale: "en-GB", minorUnit: "p" },
+    USD: { locale: "en-US", minorUnit: "¢" },
+    EUR: { locale: "en-IE", minorUnit: "c" },
+    POINTS: { locale: "en-GB", minorUnit: null },
+};
+
+export const CURRENCY_OPTIONS: { value: CurrencyCode; label: string }[] = [
+    { value: "GBP", label: "£ GBP" },
+    { value: "USD", label: "$ USD" },
+    { value: "EUR", label: "€ EUR" },
+    { value: "POINTS", label: "Points" },
+];
+
 export interface FormatCurrencyOptions {
-    /** Show pence for values under £1 (e.g., "1p" instead of "£0.01") */
-    usePence?: boolean;
-    /** Use compact notation (e.g., "£50k" instead of "£50,000") */
+    /** Currency to format in (defaults to GBP) */
+    currency?: CurrencyCode;
+    /** Show pence/cents for values under one unit (e.g., "1p" instead of "£0.01") */
+    useMinorUnits?: boolean;
+    /** Use compact notation (e.g., "£50K" instead of "£50,000") */
     compact?: boolean;
     /** Show decimal places for non-whole numbers */
     showDecimals?: boolean;
 }
 
 /**
- * Format a number as UK currency
- * 
+ * Format a number as money in the given currency
+ *
  * @example
  * formatCurrency(0.01) // "1p"
  * formatCurrency(1000) // "£1,000"
- * formatCurrency(50000, { compact: true }) // "£50k"
- * formatCurrency(250000, { compact: true }) // "£250k"
+ * formatCurrency(0.01, { currency: "USD" }) // "1¢"
+ * formatCurrency(50000, { compact: true }) // "£50K"
+ * formatCurrency(1000000, { currency: "EUR", compact: true }) // "€1M"
+ * formatCurrency(2500, { currency: "POINTS" }) // "2,500"
  */
 export function formatCurrency(
     value: number,
     options: FormatCurrencyOptions = {}
 ): string {
-    const { usePence = true, compact = false, showDecimals = false } = options;
-
-    // Handle pence for very small values
-    if (usePence && value < 1 && value > 0) {
-        const pence = Math.round(value * 100);
-        return `${pence}p`;
-    }
+    const {
+        currency = DEFAULT_CURRENCY,
+        useMinorUnits = true,
+        compact = false,
+        showDecimals = false,
+    } = options;
+    const config = CURRENCIES[currency] ?? CURRENCIES[DEFAULT_CURRENCY];
 
-    // Compact notation for large values
-    if (compact) {
-        if (value >= 1000000) {
-            const millions = value / 1000000;
-            return `£${millions % 1 === 0 ? millions.toFixed(0) : millions.toFixed(1)}m`;
-        }
-        if (value >= 1000) {
-            const thousands = value / 1000;
-            return `£${thousands % 1 === 0 ? thousands.toFixed(0) : thousands.toFixed(1)}k`;
-        }
+    // Pence/cents for very small values
+    if (useMinorUnits && config.minorUnit && value < 1 && value > 0) {
+        return `${Math.round(value * 100)}${config.minorUnit}`;
     }
 
-    // Standard formatting
-    const formatted = value.toLocaleString("en-GB", {
-        minimumFractionDigits: showDecimals && value % 1 !== 0 ? 2 : 0,
-        maximumFractionDigits: showDecimals ? 2 : 0,
-    });
+    const hasFraction = value % 1 !== 0;
+    // Values under one unit would round to zero without decimals
+    const needsDecimals = showDecimals || (value > 0 && value < 1);
 
-    return `£${formatted}`;
+    return new Intl.NumberFormat(config.locale, {
+        ...(currency === "POINTS" ? {} : { style: "currency" as const, currency }),
+        notation: compact ? "compact" : "standard",
+        minimumFractionDigits: needsDecimals && hasFraction && !compact ? 2 : 0,
+        maximumFractionDigits: needsDecimals ? 2 : compact ? 1 : 0,
+    }).format(value);
 }
 
 /**
- * Format currency for display in the box grid (compact form)
- * 
+ * Format currency for display on the money board (compact form)
+ *
  * @example
  * formatBoxValue(0.01) // "1p"
- * formatBoxValue(1000) // "£1k"
- * formatBoxValue(250000) // "£250k"
+ * formatBoxValue(1000) // "£1K"
+ * formatBoxValue(250000, "USD") // "$250K"
  */
-export function formatBoxValue(value: number): string {
-    return formatCurrency(value, { usePence: true, compact: true });
+export function formatBoxValue(value: number, currency?: CurrencyCode): string {
+    return formatCurrency(value, { currency, useMinorUnits: true, compact: true });
 }
 
 /**
- * Format currency for banker offers (full display with commas)
- * 
+ * Format currency for banker offers (full display with grouping)
+ *
  * @example
  * formatOfferAmount(42500) // "£42,500"
- * formatOfferAmount(1234.56) // "£1,234.56"
+ * formatOfferAmount(1234.56, "EUR") // "€1,234.56"
  */
-export function formatOfferAmount(value: number): string {
-    return formatCurrency(value, { usePence: false, compact: false, showDecimals: true });
+export function formatOfferAmount(value: number, currency?: CurrencyCode): string {
+    return formatCurrency(value, { currency, useMinorUnits: false, compact: false, showDecimals: true });
 }
 
 /**
  * Format currency for leaderboard/winnings display
- * 
+ *
  * @example
  * formatWinnings(75000) // "£75,000"
+ * formatWinnings(75000, "USD") // "$75,000"
  */
-export function formatWinnings(value: number): string {
-    return formatCurrency(value, { usePence: false, compact: false });
+export function formatWinnings(value: number, currency?: CurrencyCode): string {
+    return formatCurrency(value, { currency, useMinorUnits: false, compact: false });
 }
 
 /**
- * Parse a currency string back to a number
- * 
+ * Parse a formatted amount back to a number
+ *
  * @example
  * parseCurrency("£42,500") // 42500
  * parseCurrency("50p") // 0.5
- * parseCurrency("£1.5k") // 1500
+ * parseCurrency("25¢", "USD") // 0.25
+ * parseCurrency("£1.5K") // 1500
  */
-export function parseCurrency(value: string): number {
+export function parseCurrency(value: string, currency: CurrencyCode = DEFAULT_CURRENCY): number {
+    const config = CURRENCIES[currency] ?? CURRENCIES[DEFAULT_CURRENCY];
     const cleaned = value.trim().toLowerCase();
 
-    // Handle pence
-    if (cleaned.endsWith("p")) {
-        return parseInt(cleaned.replace("p", ""), 10) / 100;
+    // Handle pence/cents
+    if (config.minorUnit && cleaned.endsWith(config.minorUnit)) {
+        return parseInt(cleaned.slice(0, -config.minorUnit.length), 10) / 100;
     }
 
-    // Remove currency symbol and commas
-    let numStr = cleaned.replace(/[£,]/g, "");
+    // Keep digits, the decimal point, a minus sign and compact suffixes
+    const numStr = cleaned.replace(/[^0-9.\-km]/g, "");
 
-    // Handle compact notation
     if (numStr.endsWith("k")) {
-        return parseFloat(numStr.replace("k", "")) * 1000;
+        return parseFloat(numStr.slice(0, -1)) * 1000;
     }
     if (numStr.endsWith("m")) {
-        return parseFloat(numStr.replace("m", "")) * 1000000;
+        return parseFloat(numStr.slice(0, -1)) * 1000000;
     }
 
     return parseFloat(numStr);
@@ -0,0 +1,88 @@
+/**
+ * Provably fair box layout checks
+ *
+ * When a game starts the server publishes a SHA-256 commitment to the box layout; when it
+ * ends it reveals the seed, salt and layout behind it. These helpers redo the server's
+ * work in the browser (mirroring backend/src/game/rng.ts) so players can check it.
+ */
+
+import type { FairnessProof } from "@protocol/events";
+
+/** Seed, salt and layout revealed when the game ends */
+export type { FairnessProof };
+
+export interface FairnessCheck {
+    /** True when every check passed */
+    valid: boolean;
+    /** What failed, in plain words */
+    problems: string[];
+}
+
+async function sha256(text: string): Promise<Uint8Array> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+    return new Uint8Array(digest);
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The server's mulberry32 generator, started from the first 32 bits of SHA-256(seed)
+ */
+async function createSeededRandom(seed: string): Promise<() => number> {
+    const bytes = await sha256(seed);
+    let state = new DataView(bytes.buffer).getUint32(0);
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+}
+
+/**
+ * Shuffle the board's values the way the server did (Fisher-Yates from the end)
+ */
+export async function shuffleFromSeed(boxValues: number[], seed: string): Promise<number[]> {
+    const random = await createSeededRandom(seed);
+    const shuffled = [...boxValues];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
+
+/**
+ * Check a revealed proof against the commitment published at the start, the room's
+ * board and the boxes as they were opened
+ */
+export async function verifyFairness(
+    proof: FairnessProof,
+    game: { commitment: string | null; boxValues: number[]; boxes: { number: number; value: number | null }[] }
+): Promise<FairnessCheck> {
+    const problems: string[] = [];
+
+    if (game.commitment !== null && game.commitment !== proof.commitment) {
+        problems.push("The revealed commitment is not the one published when the game started.");
+    }
+
+    const hash = toHex(await sha256(`${proof.salt}:${JSON.stringify(proof.layout)}`));
+    if (hash !== proof.commitment) {
+        problems.push("The layout and salt do not hash to the commitment.");
+    }
+
+    const shuffled = await shuffleFromSeed(game.boxValues, proof.seed);
+    if (shuffled.length !== proof.layout.length || shuffled.some((v, i) => v !== proof.layout[i])) {
+        problems.push("The seed does not shuffle the board into the revealed layout.");
+    }
+
+    const moved = game.boxes.filter((b) => b.value !== null && b.value !== proof.layout[b.number - 1]);
+    if (moved.length > 0) {
+        problems.push(`Box ${moved.map((b) => b.number).join(", ")} held a different value than committed.`);
+    }
+
+    return { valid: problems.length === 0, problems };
+}
@@ -5,5 +5,9 @@ export {
     formatOfferAmount,
     formatWinnings,
     parseCurrency,
+    CURRENCY_OPTIONS,
+    DEFAULT_CURRENCY,
 } from "./currency";
-export type { FormatCurrencyOptions } from "./currency";
+export type { CurrencyCode, FormatCurrencyOptions } from "./currency";
+export { verifyFairness, shuffleFromSeed } from "./fairness";
+export type { FairnessProof, FairnessCheck } from "./fairness";
@@ -0,0 +1,216 @@
+/**
+ * Game replays
+ *
+ * A finished game's event log (see backend GameEvent) is turned into one frame per
+ * event, each holding the board as it stood after that event. The replay viewer
+ * just renders frames, so seeking is a lookup.
+ */
+
+import type { RoomSettings } from "@/context/GameContext";
+import { formatBoxValue, formatOfferAmount, formatWinnings } from "./currency";
+
+type PlayerRole = "player" | "spectator";
+
+/** One thing that happened in the game (mirrors the server's GameEventData) */
+export type GameEventData =
+    | { type: "player-joined"; playerId: string; playerName: string; role: PlayerRole }
+    | { type: "player-left"; playerId: string; playerName: string; reason: "left" | "kicked" | "banned" }
+    | { type: "chat"; playerId: string; playerName: string; content: string }
+    | { type: "game-started"; players: { id: string; name: string; boxNumber: number }[]; turnOrder: string[] }
+    | { type: "box-opened"; playerId: string; boxNumber: number; value: number; round: number }
+    | { type: "turn-timeout"; playerId: string }
+    | { type: "turn-skipped"; playerId: string }
+    | { type: "game-paused"; playerId: string; byVote: boolean }
+    | { type: "game-resumed"; playerId: string; byVote: boolean }
+    | { type: "offer-made"; round: number; offer: number | null; playerOffers: Record<string, number> }
+    | { type: "deal-response"; playerId: string; accepted: boolean; amount: number | null }
+    | { type: "offer-timeout"; playerIds: string[] }
+    | { type: "swap-offered"; playerIds: string[]; isFinal: boolean }
+    | { type: "swap-response"; playerId: string; fromBox: number | null; toBox: number | null }
+    | { type: "box-revealed"; playerId: string; boxNumber: number; value: number }
+    | { type: "game-finished"; results: { playerId: string; playerName: string; amount: number; points: number }[] };
+
+export type GameEvent = GameEventData & {
+    /** Unix ms */
+    at: number;
+    gameId: string | null;
+};
+
+/** A finished game's full event log */
+export interface GameReplay {
+    gameId: string;
+    roomCode: string;
+    settings: RoomSettings;
+    startedAt: number;
+    finishedAt: number;
+    events: GameEvent[];
+}
+
+export interface ReplayPlayer {
+    id: string;
+    name: string;
+    boxNumber: number | null;
+    /** Banked amount once they are out */
+    dealAmount: number | null;
+    hasLeft: boolean;
+}
+
+/** The game as it stood after one event */
+export interface ReplayFrame {
+    /** Milliseconds since the game started */
+    elapsedMs: number;
+    round: number;
+    /** Boxes in number order; values appear once opened or revealed */
+    boxes: { number: number; isOpened: boolean; value?: number; ownerId: string | null }[];
+    eliminatedValues: number[];
+    /** Value knocked out by this event (for the board's scorch animation) */
+    recentlyEliminated?: number;
+    /** Offers on the table, one per contestant */
+    offers: { playerId: string; name: string; amount: number }[];
+    players: ReplayPlayer[];
+    chat: { playerName: string; content: string }[];
+    /** Player this event was about (highlighted in the player list) */
+    actorId: string | null;
+    /** What happened, in words */
+    caption: string;
+}
+
+/**
+ * Build one frame per event (the first frame is the game start)
+ */
+export function buildReplayFrames(replay: GameReplay): ReplayFrame[] {
+    const { boxValues, currency } = replay.settings;
+    const names: Record<string, string> = {};
+    let players: ReplayPlayer[] = [];
+    let boxes: ReplayFrame["boxes"] = boxValues.map((_, i) => ({ number: i + 1, isOpened: false, ownerId: null }));
+    let eliminatedValues: number[] = [];
+    let offers: ReplayFrame["offers"] = [];
+    let chat: ReplayFrame["chat"] = [];
+    let round = 1;
+    const frames: ReplayFrame[] = [];
+
+    const nameOf = (playerId: string) => names[playerId] ?? "A player";
+    const updatePlayer = (playerId: string, changes: Partial<ReplayPlayer>) => {
+        players = players.map((p) => (p.id === playerId ? { ...p, ...changes } : p));
+    };
+    const openBox = (boxNumber: number, value: number) => {
+        boxes = boxes.map((b) => (b.number === boxNumber ? { ...b, isOpened: true, value } : b));
+        eliminatedValues = [...eliminatedValues, value];
+    };
+
+    for (const event of replay.events) {
+        let caption = "";
+        let actorId: string | null = "playerId" in event ? event.playerId : null;
+        let recentlyEliminated: number | undefined;
+
+        switch (event.type) {
+            case "game-started":
+                event.players.forEach((p) => { names[p.id] = p.name; });
+                players = event.players.map((p) => ({ id: p.id, name: p.name, boxNumber: p.boxNumber, dealAmount: null, hasLeft: false }));
+                boxes = boxes.map((b) => ({ ...b, ownerId: event.players.find((p) => p.boxNumber === b.number)?.id ?? null }));
+                caption = `The game begins with ${event.players.length} contestants`;
+                break;
+            case "box-opened":
+                round = event.round;
+                openBox(event.boxNumber, event.value);
+                recentlyEliminated = event.value;
+                offers = [];
+                caption = `${nameOf(event.playerId)} opens box ${event.boxNumber}: ${formatBoxValue(event.value, currency)}`;
+                break;
+            case "turn-timeout":
+                caption = `${nameOf(event.playerId)} ran out of time`;
+                break;
+            case "turn-skipped":
+                caption = `${nameOf(event.playerId)} is away, so their turn is skipped`;
+                break;
+            case "game-paused":
+                caption = event.byVote ? "The players voted to pause" : `${nameOf(event.playerId)} paused the game`;
+                break;
+            case "game-resumed":
+                caption = event.byVote ? "The players voted to resume" : `${nameOf(event.playerId)} resumed the game`;
+                break;
+            case "offer-made":
+                round = event.round;
+                offers = players
+                    .filter((p) => p.dealAmount === null && !p.hasLeft)
+                    .map((p) => ({ playerId: p.id, name: p.name, amount: event.offer ?? event.playerOffers[p.id] }))
+                    .filter((o) => o.amount !== undefined);
+                caption = event.offer !== null
+                    ? `The banker offers ${formatOfferAmount(event.offer, currency)}`
+                    : "The banker makes each contestant an offer";
+                break;
+            case "deal-response":
+                if (event.accepted && event.amount !== null) {
+                    updatePlayer(event.playerId, { dealAmount: event.amount });
+                    caption = `${nameOf(event.playerId)} says DEAL for ${formatOfferAmount(event.amount, currency)}`;
+                } else {
+                    caption = `${nameOf(event.playerId)} says NO DEAL`;
+                }
+                break;
+            case "offer-timeout":
+                actorId = null;
+                caption = `Time's up: ${event.playerIds.map(nameOf).join(", ")} played on`;
+                break;
+            case "swap-offered":
+                actorId = event.isFinal ? event.playerIds[0] ?? null : null;
+                offers = [];
+                caption = event.isFinal
+                    ? `${nameOf(event.playerIds[0])} is offered the final swap`
+                    : "The banker offers a swap";
+                break;
+            case "swap-response":
+                if (event.toBox !== null) {
+                    updatePlayer(event.playerId, { boxNumber: event.toBox });
+                    boxes = boxes.map((b) => (
+                        b.number === event.toBox ? { ...b, ownerId: event.playerId }
+                            : b.number === event.fromBox ? { ...b, ownerId: null }
+                                : b
+                    ));
+                    caption = `${nameOf(event.playerId)} swaps box ${event.fromBox} for box ${event.toBox}`;
+                } else {
+                    caption = `${nameOf(event.playerId)} keeps box ${event.fromBox}`;
+                }
+                break;
+            case "box-revealed":
+                openBox(event.boxNumber, event.value);
+                updatePlayer(event.playerId, { dealAmount: players.find((p) => p.id === event.playerId)?.dealAmount ?? event.value });
+                caption = `${nameOf(event.playerId)}'s box ${event.boxNumber} held ${formatBoxValue(event.value, currency)}`;
+                break;
+            case "player-joined":
+                names[event.playerId] = event.playerName;
+                caption = `${event.playerName} joined`;
+                break;
+            case "player-left":
+                updatePlayer(event.playerId, { hasLeft: true });
+                caption = `${event.playerName} ${event.reason === "left" ? "left" : `was ${event.reason}`}`;
+                break;
+            case "chat":
+                chat = [...chat, { playerName: event.playerName, content: event.content }];
+                caption = `${event.playerName}: ${event.content}`;
+                break;
+            case "game-finished": {
+                offers = [];
+                const winner = [...event.results].sort((a, b) => b.points - a.points)[0];
+                caption = winner
+                    ? `Game over: ${winner.playerName} wins with ${formatWinnings(winner.amount, currency)}`
+                    : "Game over";
+                break;
+            }
+        }
+
+        frames.push({
+            elapsedMs: Math.max(0, event.at - replay.startedAt),
+            round,
+            boxes,
+            eliminatedValues,
+            recentlyEliminated,
+            offers,
+            players,
+            chat,
+            actorId,
+            caption,
+        });
+    }
+
+    return frames;
+}